@@ -9,12 +9,12 @@ import { useAutoSave } from './lib/autoSave';
 import { mountFiles, autoInstallDependencies } from './lib/webcontainer';
 
 function HomePageRoute() {
-    const { setCurrentChatId, setMessages, setFiles } = useStore();
+    const { setCurrentChatId, setMessages, loadFiles } = useStore();
 
     useEffect(() => {
         setCurrentChatId(null);
         setMessages([]);
-        setFiles({});
+        loadFiles({});
     }, []);
 
     return <HomePage />;
@@ -23,7 +23,7 @@ function HomePageRoute() {
 function ChatPage() {
     const { chatId } = useParams();
     const navigate = useNavigate();
-    const { user, setCurrentChatId, setMessages, setFiles } = useStore();
+    const { user, setCurrentChatId, setMessages, loadFiles } = useStore();
     const [accessDenied, setAccessDenied] = useState(false);
     const [, setLoading] = useState(true);
 
@@ -70,7 +70,7 @@ function ChatPage() {
             const project = await getProject(id);
             if (project?.files) {
                 const files = typeof project.files === 'string' ? JSON.parse(project.files) : project.files;
-                setFiles(files);
+                loadFiles(files);
                 // Mount files to WebContainer so they're available in terminal
                 if (Object.keys(files).length > 0) {
                     console.log('[App] Mounting files to WebContainer...');
@@ -83,12 +83,12 @@ function ChatPage() {
                     });
                 }
             } else if (Object.keys(currentState.files).length === 0) {
-                setFiles({});
+                loadFiles({});
             }
         } catch (err) {
             console.error('[App] Failed to load/mount files:', err);
             if (Object.keys(currentState.files).length === 0) {
-                setFiles({});
+                loadFiles({});
             }
         }
 
@@ -1,19 +1,23 @@
 import { useState, useMemo, memo, useCallback } from 'react';
-import { ChevronDown, Check, X } from 'lucide-react';
+import { ChevronDown, Check, X, ShieldAlert } from 'lucide-react';
+import type { ApprovalRequest } from '../lib/permissions';
 
 export interface StreamingAction {
     id: string;
     toolName: string;
     displayName: string;
-    status: 'pending' | 'running' | 'done' | 'error';
+    status: 'pending' | 'running' | 'awaiting_approval' | 'done' | 'error';
     result?: string;
     args?: any;
+    // Set while the agent loop waits for the user to approve this call
+    approval?: ApprovalRequest;
 }
 
 interface ActionsListProps {
     actions: StreamingAction[];
     isLive?: boolean;
     isDark?: boolean;
+    onApprovalDecision?: (actionId: string, approved: boolean) => void;
 }
 
 const VERBS: Record<string, [string, string]> = {
@@ -26,11 +30,15 @@ const VERBS: Record<string, [string, string]> = {
     runCommand:        ['Running', 'Ran'],
     searchWeb:         ['Searching', 'Searched'],
     searchInFiles:     ['Searching', 'Searched'],
+    findSymbol:        ['Finding symbol', 'Found symbol'],
+    findReferences:    ['Finding references', 'Found references'],
+    getOutline:        ['Outlining', 'Outlined'],
     extractPage:       ['Extracting', 'Extracted'],
     typeCheck:         ['Checking types', 'Type checked'],
     lintCheck:         ['Linting', 'Linted'],
     listFiles:         ['Listing files', 'Listed files'],
     inspectNetwork:    ['Inspecting', 'Inspected'],
+    readConsole:       ['Reading console', 'Read console'],
     checkDependencies: ['Checking deps', 'Checked deps'],
     drawDiagram:       ['Drawing diagram', 'Drew diagram'],
     batchCreateFiles:  ['Creating files', 'Created files'],
@@ -92,7 +100,36 @@ function getFileDetails(action: StreamingAction): string[] {
     }
 }
 
-const ActionRow = memo(function ActionRow({ action, count, isDark, groupedActions }: { action: StreamingAction; count: number; isDark: boolean; groupedActions: StreamingAction[] }) {
+const ApprovalPrompt = memo(function ApprovalPrompt({ action, isDark, onDecision }: { action: StreamingAction; isDark: boolean; onDecision?: (actionId: string, approved: boolean) => void }) {
+    const approval = action.approval!;
+    return (
+        <div className={`mt-1 mb-2 mx-1 rounded-lg text-[12px] py-2 px-3 border ${isDark ? 'bg-amber-500/5 border-amber-500/20' : 'bg-amber-50 border-amber-200'}`}>
+            {approval.subjects.map((subject, i) => (
+                <div key={i} className={`flex items-center gap-2 py-0.5 ${isDark ? 'text-zinc-300' : 'text-gray-700'}`}>
+                    <span className="opacity-40 text-[10px]">{'›'}</span>
+                    <span className="font-mono truncate">{subject}</span>
+                </div>
+            ))}
+            <div className="flex items-center gap-2 mt-2">
+                <span className={`text-[11px] mr-auto ${isDark ? 'text-zinc-500' : 'text-gray-400'}`}>Asked by {approval.reason}</span>
+                <button
+                    onClick={() => onDecision?.(action.id, false)}
+                    className={`px-2.5 py-1 rounded-md text-[12px] font-medium transition-colors ${isDark ? 'text-zinc-400 hover:text-white hover:bg-white/5' : 'text-gray-500 hover:text-gray-900 hover:bg-black/5'}`}
+                >
+                    Reject
+                </button>
+                <button
+                    onClick={() => onDecision?.(action.id, true)}
+                    className="px-2.5 py-1 rounded-md text-[12px] font-medium bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+                >
+                    Approve
+                </button>
+            </div>
+        </div>
+    );
+});
+
+const ActionRow = memo(function ActionRow({ action, count, isDark, groupedActions, onApprovalDecision }: { action: StreamingAction; count: number; isDark: boolean; groupedActions: StreamingAction[]; onApprovalDecision?: (actionId: string, approved: boolean) => void }) {
     const [showOutput, setShowOutput] = useState(false);
     const active = action.status === 'running' || action.status === 'pending';
     const pair = VERBS[action.toolName];
@@ -132,6 +169,10 @@ const ActionRow = memo(function ActionRow({ action, count, isDark, groupedAction
                     <span className="text-red-400 flex-shrink-0">
                         <X className="w-3.5 h-3.5" strokeWidth={2.5} />
                     </span>
+                ) : action.status === 'awaiting_approval' ? (
+                    <span className="text-amber-500 flex-shrink-0">
+                        <ShieldAlert className="w-3.5 h-3.5" strokeWidth={2.5} />
+                    </span>
                 ) : (
                     <span className="w-3.5 flex-shrink-0" />
                 )}
@@ -145,7 +186,7 @@ const ActionRow = memo(function ActionRow({ action, count, isDark, groupedAction
                                 : isDark ? 'text-zinc-400' : 'text-gray-500'
                     }`}
                 >
-                    {text}
+                    {action.status === 'awaiting_approval' ? `Approve ${pair?.[0].toLowerCase() ?? action.toolName}${displaySuffix ? ` ${displaySuffix}` : ''}?` : text}
                 </span>
 
                 {count > 1 && !FILE_TOOLS.has(action.toolName) && (
@@ -161,6 +202,10 @@ const ActionRow = memo(function ActionRow({ action, count, isDark, groupedAction
                 )}
             </div>
 
+            {action.status === 'awaiting_approval' && action.approval && (
+                <ApprovalPrompt action={action} isDark={isDark} onDecision={onApprovalDecision} />
+            )}
+
             {showOutput && isExpandable && (
                 <div>
                     {hasFileDetails && (
@@ -184,7 +229,7 @@ const ActionRow = memo(function ActionRow({ action, count, isDark, groupedAction
     );
 });
 
-export const ActionsList = memo(function ActionsList({ actions, isLive = false, isDark = true }: ActionsListProps) {
+export const ActionsList = memo(function ActionsList({ actions, isLive = false, isDark = true, onApprovalDecision }: ActionsListProps) {
     const [collapsed, setCollapsed] = useState(false);
 
     const deduplicated = useMemo(() => deduplicateActions(actions), [actions]);
@@ -194,6 +239,7 @@ export const ActionsList = memo(function ActionsList({ actions, isLive = false,
     const doneN = actions.filter(a => a.status === 'done').length;
     const errN = actions.filter(a => a.status === 'error').length;
     const runningN = actions.filter(a => a.status === 'running' || a.status === 'pending').length;
+    const awaitingN = actions.filter(a => a.status === 'awaiting_approval').length;
     const allActionsFinished = (doneN + errN) === actions.length;
     const allGood = doneN === actions.length && !isLive;
     const show = !collapsed;
@@ -209,13 +255,15 @@ export const ActionsList = memo(function ActionsList({ actions, isLive = false,
                 </span>
 
                 <span className="font-medium">
-                    {runningN > 0
-                        ? `Running ${runningN} action${runningN !== 1 ? 's' : ''}...`
-                        : allGood
-                            ? `${actions.length} action${actions.length !== 1 ? 's' : ''}`
-                            : errN > 0
-                                ? `${doneN} done, ${errN} failed`
-                                : `${actions.length} action${actions.length !== 1 ? 's' : ''}`
+                    {awaitingN > 0
+                        ? 'Waiting for your approval'
+                        : runningN > 0
+                            ? `Running ${runningN} action${runningN !== 1 ? 's' : ''}...`
+                            : allGood
+                                ? `${actions.length} action${actions.length !== 1 ? 's' : ''}`
+                                : errN > 0
+                                    ? `${doneN} done, ${errN} failed`
+                                    : `${actions.length} action${actions.length !== 1 ? 's' : ''}`
                     }
                 </span>
 
@@ -242,7 +290,7 @@ export const ActionsList = memo(function ActionsList({ actions, isLive = false,
             {show && (
                 <div className={`px-3.5 pb-2.5 pt-0.5 space-y-0.5 border-t ${isDark ? 'border-[#232323]' : 'border-gray-200'}`}>
                     {deduplicated.map(({ action, count, groupedActions }) => (
-                        <ActionRow key={action.id} action={action} count={count} isDark={isDark} groupedActions={groupedActions} />
+                        <ActionRow key={action.id} action={action} count={count} isDark={isDark} groupedActions={groupedActions} onApprovalDecision={onApprovalDecision} />
                     ))}
                 </div>
             )}
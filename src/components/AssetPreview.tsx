@@ -0,0 +1,43 @@
+import { useMemo } from 'react';
+import { Binary, Download } from 'lucide-react';
+import { saveAs } from 'file-saver';
+import { useStore } from '../store';
+import { ImageViewer } from './ImageViewer';
+import { FileEntry, base64ToBytes, entrySize, entryToDataUrl, isImageEntry } from '../lib/files';
+import { formatBytes } from '../lib/storage';
+
+// Shown in place of the code editor for binary files — images get a preview, other assets a summary
+export function AssetPreview({ path, entry }: { path: string; entry: FileEntry }) {
+    const theme = useStore(s => s.theme);
+    const isDark = theme === 'dark';
+    const dataUrl = useMemo(() => entryToDataUrl(entry), [entry]);
+    const mimeType = entry.file.mimeType || 'application/octet-stream';
+    const name = path.split('/').pop() || path;
+
+    const handleDownload = () => {
+        saveAs(new Blob([base64ToBytes(entry.file.contents)], { type: mimeType }), name);
+    };
+
+    return (
+        <div className={`h-full w-full flex flex-col items-center justify-center gap-4 p-6 ${isDark ? 'bg-[#141414]' : 'bg-white'}`}>
+            {isImageEntry(entry) ? (
+                <ImageViewer src={dataUrl} alt={path} isDark={isDark} />
+            ) : (
+                <Binary className={`w-10 h-10 ${isDark ? 'text-[#444]' : 'text-gray-300'}`} />
+            )}
+            <div className="text-center">
+                <p className={`text-sm font-medium ${isDark ? 'text-[#ccc]' : 'text-gray-800'}`}>{name}</p>
+                <p className={`text-xs mt-1 ${isDark ? 'text-[#555]' : 'text-gray-500'}`}>
+                    {mimeType} · {formatBytes(entrySize(entry))}
+                </p>
+            </div>
+            <button
+                onClick={handleDownload}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${isDark ? 'bg-[#252525] text-[#999] hover:text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+            >
+                <Download className="w-3.5 h-3.5" />
+                Download
+            </button>
+        </div>
+    );
+}
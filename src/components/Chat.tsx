@@ -2,22 +2,32 @@ import React, { useState, useRef, useEffect, RefObject, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { FileCode, Plus, Image as ImageIcon, X, ChevronRight, MousePointer2 } from 'lucide-react';
 import { useStore } from '../store';
-import { sendMessage, Message, ToolCall } from '../lib/ai';
+import { sendMessage, getContextLimit, Message, ToolCall } from '../lib/ai';
+import { resolveProvider, ResolvedProvider } from '../lib/providers';
 import { mountFiles } from '../lib/webcontainer';
 import { executeTool, ToolContext } from '../lib/tools';
-import { BASE_PROJECT_FILES } from '../lib/projectTemplate';
-import { saveChatMessages, saveProject, createChat } from '../lib/api';
+import { ApprovalRequest } from '../lib/permissions';
+import { cancelReview } from '../lib/review';
+import { PendingReviewPrompt } from './PendingReviewPrompt';
+import { getTemplate, DEFAULT_TEMPLATE_ID } from '../lib/projectTemplate';
+import { getChatTemplate } from '../lib/customTemplates';
+import { getProjectInstructions, appendProjectInstructions } from '../lib/instructions';
+import { saveChatMessages, createChat } from '../lib/api';
+import { flushProjectChanges } from '../lib/autoSave';
 import { generateAndSaveTitle } from '../lib/titleGenerator';
 import { ActionsList, StreamingAction } from './ActionsList';
 import { MermaidBlock } from './MermaidBlock';
+import { SearchResultsBlock } from './SearchResultsBlock';
 import { ImageViewer } from './ImageViewer';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { getSystemPrompt } from '../lib/systemPrompts';
-
-// Keep for future use
-// const MODELS: ModelType[] = ['glm-4.7'];
-// const MODEL_NAMES = { 'glm-4.7': 'GLM 4.7' };
+import { resolvePresetPrompt } from '../lib/promptPresets';
+import { SearchResponse, parseSearchResponse, linkCitations } from '../lib/webSearch';
+import { loadTokenizer, countMessageTokens, countMessagesTokens } from '../lib/tokenizer';
+import { compactConversation, writeContextFile, CONTEXT_FILE } from '../lib/compaction';
+import { createCheckpoint } from '../lib/checkpoints';
+import { planContext, describePlan, ContextPlan } from '../lib/contextPlanner';
 
 // Attachment interface
 interface FileAttachment {
@@ -31,9 +41,11 @@ interface FileAttachment {
 type ContentType = string | null | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }>;
 
 interface AssistantSegment {
-    type: 'text' | 'tools';
+    type: 'text' | 'tools' | 'search';
     content?: ContentType;
     toolCalls?: { call: ToolCall; result?: string }[];
+    // Structured searchWeb results, shown below the tool calls that produced them
+    search?: SearchResponse;
 }
 
 interface MessageGroup {
@@ -84,7 +96,12 @@ const getActionDisplayName = (toolName: string, args: string): string => {
             case 'runCommand': return decodeHtml(parsed.command || '');
             case 'searchWeb': return decodeHtml(parsed.query || '');
             case 'searchInFiles': return decodeHtml(parsed.query || '');
+            case 'findSymbol': return parsed.query || '';
+            case 'findReferences': return parsed.symbol || '';
+            case 'getOutline': return parsed.path || '';
             case 'extractPage': return parsed.url || '';
+            case 'inspectNetwork': return parsed.url || parsed.filter || 'Preview';
+            case 'readConsole': return parsed.filter || parsed.level || 'Preview';
             case 'typeCheck': return 'Workspace';
             case 'lintCheck': return parsed.path || 'src/';
             case 'listFiles': return 'Workspace';
@@ -112,6 +129,11 @@ const getActionDisplayName = (toolName: string, args: string): string => {
             case 'searchInFiles':
                 return extract('query');
             case 'extractPage': return extract('url');
+            case 'findSymbol': return extract('query');
+            case 'findReferences': return extract('symbol');
+            case 'getOutline': return extract('path');
+            case 'inspectNetwork': return extract('url') || 'Preview';
+            case 'readConsole': return extract('filter') || 'Preview';
             case 'batchCreateFiles': return 'Multiple files';
             case 'getErrors': return 'Workspace';
             case 'checkDependencies': return 'package.json';
@@ -125,18 +147,21 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
     const messages = useStore(s => s.messages);
     const addMessage = useStore(s => s.addMessage);
     const setMessages = useStore(s => s.setMessages);
-    const selectedModel = useStore(s => s.selectedModel);
+    const aiModel = useStore(s => s.aiModel);
     const addTerminalOutput = useStore(s => s.addTerminalOutput);
     const updateLastMessage = useStore(s => s.updateLastMessage);
     const user = useStore(s => s.user);
     const currentChatId = useStore(s => s.currentChatId);
     const setCurrentChatId = useStore(s => s.setCurrentChatId);
     const theme = useStore(s => s.theme);
-    const setSelectedFile = useStore(s => s.setSelectedFile);
+    const showAgentEdit = useStore(s => s.showAgentEdit);
     const setTokenCount = useStore(s => s.setTokenCount);
+    const setIsResponding = useStore(s => s.setIsResponding);
     const tokenCount = useStore(s => s.tokenCount);
     const modelContextLimit = useStore(s => s.modelContextLimit);
     const setSystemPrompt = useStore(s => s.setSystemPrompt);
+    // Prompt text of the chat's preset — re-resolved when the preset is switched or edited
+    const presetPrompt = useStore(s => resolvePresetPrompt(s.promptPresets, s.chats.find(c => c.id === s.currentChatId)?.prompt_preset_id));
     const selectedElement = useStore(s => s.selectedElement);
     const setSelectedElement = useStore(s => s.setSelectedElement);
 
@@ -169,16 +194,25 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
     const [currentThinking, setCurrentThinking] = useState<string>('');
     const [thinkingDuration, setThinkingDuration] = useState<number>(0);
     const [thinkingStartTime, setThinkingStartTime] = useState<number | null>(null);
+    // What the context planner left out of the last request (null when everything fit)
+    const [contextReport, setContextReport] = useState<ContextPlan | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const abortControllerRef = useRef<AbortController | null>(null);
+    // Pending tool approvals: actionId -> resolver of the paused agent loop
+    const approvalResolversRef = useRef(new Map<string, (approved: boolean) => void>());
+
+    // Mirrored into the store so other panels (the checkpoint timeline) can wait for the turn to end
+    useEffect(() => {
+        setIsResponding(isLoading);
+    }, [isLoading]);
+    useEffect(() => () => setIsResponding(false), []);
 
     // Set system prompt in store for reference
     useEffect(() => {
         if (user) {
-            const prompt = getSystemPrompt(selectedModel);
-            setSystemPrompt(prompt);
+            getChatTemplate(currentChatId).then(template => setSystemPrompt(getSystemPrompt(aiModel, template, presetPrompt)));
         }
-    }, [user, selectedModel]);
+    }, [user, aiModel, currentChatId, presetPrompt]);
 
     const scrollToBottom = () => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -200,13 +234,16 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
             projectInitializedRef.current = currentChatId;
 
             try {
-                // Mount base project files to WebContainer
-                await mountFiles(BASE_PROJECT_FILES);
+                // A new chat always gets starter files — the default ones if its template was deleted
+                const template = await getChatTemplate(currentChatId) ?? getTemplate(DEFAULT_TEMPLATE_ID)!;
+
+                // Mount the template's starter files to WebContainer
+                await mountFiles(template.files);
 
                 // Update store with base files
-                state.setFiles(BASE_PROJECT_FILES);
+                state.setFiles(template.files);
 
-                console.log('Base React project initialized');
+                console.log(`Base ${template.name} project initialized`);
             } catch (err) {
                 console.error('Failed to initialize base project:', err);
             }
@@ -425,6 +462,11 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
                         }
                     }
 
+                    const search = msg.name === 'searchWeb' ? parseSearchResponse(output) : null;
+                    if (search && currentGroup.segments) {
+                        currentGroup.segments.push({ type: 'search', search });
+                    }
+
                     if (output.includes('```mermaid')) {
                         if (currentGroup.segments) {
                             const lastTextSeg = [...currentGroup.segments].reverse().find(s => s.type === 'text');
@@ -442,7 +484,21 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
         return groups;
     }, [messages]);
 
+    // Resume the agent loop paused on a tool approval
+    const handleApprovalDecision = (actionId: string, approved: boolean) => {
+        const resolve = approvalResolversRef.current.get(actionId);
+        if (!resolve) return;
+        approvalResolversRef.current.delete(actionId);
+        resolve(approved);
+    };
+
     const handleStop = () => {
+        // Stopping rejects anything still waiting for approval
+        approvalResolversRef.current.forEach(resolve => resolve(false));
+        approvalResolversRef.current.clear();
+        // ...and any edits waiting in review
+        cancelReview();
+
         if (abortControllerRef.current) {
             abortControllerRef.current.abort();
             abortControllerRef.current = null;
@@ -455,12 +511,24 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
     // Tool execution context
     const toolContext: ToolContext = {
         addTerminalOutput,
-        setSelectedFile
+        showEditedFile: showAgentEdit
     };
 
-    const handleToolCall = async (toolCall: ToolCall): Promise<string> => {
+    const handleToolCall = async (toolCall: ToolCall, actionId?: string): Promise<string> => {
         const { name, arguments: argsString } = toolCall.function;
-        const result = await executeTool(name, argsString, toolContext);
+
+        // Calls in "ask" mode pause here until the user answers in ActionsList
+        const requestApproval = async (request: ApprovalRequest): Promise<boolean> => {
+            if (!actionId) return false;
+            updateAction(actionId, { status: 'awaiting_approval', approval: request, args: argsString });
+            const approved = await new Promise<boolean>(resolve => {
+                approvalResolversRef.current.set(actionId, resolve);
+            });
+            updateAction(actionId, { status: 'running', approval: undefined });
+            return approved;
+        };
+
+        const result = await executeTool(name, argsString, { ...toolContext, requestApproval });
 
         // Auto-retry logic for editFile failures: read the file and provide content in error
         if (name === 'editFile' && result.includes('Error editing') && result.includes('Could not find')) {
@@ -594,52 +662,70 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
 
         const chatId = chatIdOverride || currentChatId;
 
-        const apiKey = import.meta.env.VITE_CANOPYWAVE_API_KEY;
-
         // Get current project files for context
         const currentFiles = useStore.getState().files;
+
+        // Snapshot the project before the agent touches it, so this turn can be undone from the timeline
+        if (chatId && Object.keys(currentFiles).length > 0) {
+            const label = typeof userMessage.content === 'string'
+                ? userMessage.content
+                : (Array.isArray(userMessage.content) ? (userMessage.content.find(c => c.type === 'text') as { type: 'text', text: string } | undefined)?.text || '' : '');
+            await createCheckpoint(chatId, currentFiles, label, useStore.getState().messages.length);
+        }
+        const template = await getChatTemplate(chatId);
         const fileList = Object.keys(currentFiles).filter(f => f !== 'glovix-picker.js').sort().join('\n') ||
-            'package.json, vite.config.ts, tsconfig.json, tailwind.config.js, postcss.config.js, index.html, src/main.tsx, src/App.tsx, src/index.css';
+            Object.keys(template?.files || {}).sort().join(', ');
 
-        // Build system prompt — always get fresh from getSystemPrompt
-        const currentSystemPrompt = getSystemPrompt(selectedModel);
-        const promptContent = currentSystemPrompt
+        // Build system prompt — always get fresh from getSystemPrompt, with the chat's preset
+        const { chats, promptPresets } = useStore.getState();
+        const presetId = chats.find(c => c.id === chatId)?.prompt_preset_id;
+        const currentSystemPrompt = getSystemPrompt(aiModel, template, resolvePresetPrompt(promptPresets, presetId));
+        const basePrompt = currentSystemPrompt
             ? currentSystemPrompt.replace('{{FILE_LIST}}', fileList)
             : `You are Glovix, an AI web developer. Project files: ${fileList}. Use tools to create/modify files. Run pnpm install then pnpm run dev to start.`;
+        // The project's own rules from .glovix/instructions.md go last
+        const promptContent = appendProjectInstructions(basePrompt, getProjectInstructions(currentFiles));
 
         const SYSTEM_PROMPT: Message = {
             role: 'system',
             content: promptContent
         };
 
-        // Use model context limit from settings (or default to 200k)
-        const modelContextLimit = useStore.getState().modelContextLimit || 200000;
-        const MAX_CONTEXT_TOKENS = Math.floor(modelContextLimit * 0.8); // Use 80% to leave room for response
-
-        const estimateTokens = (text: string) => Math.ceil(text.length / 4);
-
-        const getMessageTokens = (msg: any) => {
-            let tokens = 0;
-            if (typeof msg.content === 'string') {
-                tokens += estimateTokens(msg.content);
-            } else if (Array.isArray(msg.content)) {
-                tokens += msg.content.reduce((sum: number, part: any) => {
-                    if (part.type === 'text') return sum + estimateTokens(part.text);
-                    return sum + 1000; // Rough estimate for images
-                }, 0);
-            }
-            if (msg.tool_calls) {
-                tokens += msg.tool_calls.reduce((sum: number, tc: any) =>
-                    sum + estimateTokens(tc.function?.name || '') + estimateTokens(tc.function?.arguments || ''), 0);
+        // Count with the model the request goes to — for the default provider the env model comes first
+        let provider: ResolvedProvider | undefined;
+        try {
+            provider = resolveProvider();
+        } catch { /* missing key — sendMessage reports it inside the turn loop */ }
+
+        // Same context limit sendMessage sizes the request with
+        const MAX_CONTEXT_TOKENS = Math.floor(getContextLimit(provider?.model || aiModel) * 0.8); // Use 80% to leave room for response
+        // Exact BPE counts for OpenAI-family models, approximation for the rest
+        const tokenizer = await loadTokenizer(provider?.model || aiModel);
+        const getMessageTokens = (msg: Message) => countMessageTokens(msg, tokenizer);
+
+        // Past this share of the budget older turns are summarized instead of silently dropped
+        const COMPACTION_THRESHOLD = Math.floor(MAX_CONTEXT_TOKENS * 0.8);
+
+        // Replace older turns with a summary (store + .glovix/context.md). Returns null if nothing was compacted.
+        const compactHistory = async (history: Message[]) => {
+            try {
+                const result = await compactConversation(history, tokenizer);
+                if (!result) return null;
+                setMessages(result.messages);
+                await writeContextFile(result.summary);
+                console.log(`[Context] Compacted ${result.compactedCount} messages: ${result.tokensBefore} → ${result.tokensAfter} tokens`);
+                return result;
+            } catch (err) {
+                console.error('[Context] Compaction failed, falling back to dropping old messages:', err);
+                return null;
             }
-            return tokens;
         };
 
         // Get current messages from store (not from hook to ensure freshness)
         const currentStoreMessages = useStore.getState().messages;
 
         // Filter out truly invalid messages (but keep assistant placeholders and tool messages)
-        const validMessages = currentStoreMessages.filter((msg) => {
+        let validMessages = currentStoreMessages.filter((msg) => {
             if (!msg.role) return false;
             // System messages need content
             if (msg.role === 'system') return !!msg.content;
@@ -656,45 +742,39 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
             return true;
         });
 
-        let contextMessages = [...validMessages];
-
-        // Count tokens for system prompt
-        let totalTokens = estimateTokens(SYSTEM_PROMPT.content as string);
-
-        // Count all existing context messages
-        for (let i = 0; i < contextMessages.length; i++) {
-            totalTokens += getMessageTokens(contextMessages[i]);
+        // A chat that no longer fits (e.g. reopened from history) is compacted before sending
+        if (getMessageTokens(SYSTEM_PROMPT) + countMessagesTokens(validMessages, tokenizer) > MAX_CONTEXT_TOKENS) {
+            console.log('[Context] History exceeds the budget, compacting before the request...');
+            const compacted = await compactHistory(validMessages);
+            if (compacted) validMessages = compacted.messages;
         }
 
-        // Add the new user message tokens
-        const userMessageTokens = getMessageTokens(userMessage);
-        totalTokens += userMessageTokens;
-
-        // If we're over limit, remove oldest messages until we fit
-        while (totalTokens > MAX_CONTEXT_TOKENS && contextMessages.length > 0) {
-            const removedMsg = contextMessages.shift();
-            if (removedMsg) {
-                totalTokens -= getMessageTokens(removedMsg);
-                console.log(`[Context] Removed old message, new total: ${totalTokens} tokens`);
-            }
-        }
-
-        // Update token count display
-        setTokenCount(totalTokens);
-
         // Track total tokens used in this request for billing
         let sessionTokensUsed = 0;
 
         // Check if userMessage is already the last message in context (to avoid duplication)
-        const lastContextMsg = contextMessages[contextMessages.length - 1];
+        const lastContextMsg = validMessages[validMessages.length - 1];
         const isUserMsgAlreadyInContext = lastContextMsg?.role === 'user' &&
             ((typeof lastContextMsg.content === 'string' && typeof userMessage.content === 'string' &&
                 lastContextMsg.content === userMessage.content) ||
                 (Array.isArray(lastContextMsg.content) && Array.isArray(userMessage.content)));
 
-        let currentMessages = isUserMsgAlreadyInContext
-            ? [...contextMessages]
-            : [...contextMessages, userMessage];
+        // Fit the conversation into the budget: tool call/result pairs stay together,
+        // the original request and the new message are always sent
+        const contextPlan = planContext({
+            systemPrompt: SYSTEM_PROMPT,
+            messages: isUserMsgAlreadyInContext ? validMessages : [...validMessages, userMessage],
+            budget: MAX_CONTEXT_TOKENS,
+            tokenizer,
+        });
+        console.log(`[Context] ${describePlan(contextPlan)} (${tokenizer.id})`);
+        contextPlan.dropped.forEach(d => console.log(`[Context]   - #${d.index} ${d.role} (${d.tokens} tokens, ${d.reason}): ${d.preview}`));
+        setContextReport(contextPlan.dropped.length > 0 ? contextPlan : null);
+
+        // Update token count display
+        setTokenCount(contextPlan.totalTokens);
+
+        let currentMessages = [...contextPlan.messages];
 
         // Track files created in this session to detect loops
         const filesCreatedThisSession = new Set<string>();
@@ -748,8 +828,6 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
 
                 const usage = await sendMessage(
                     [SYSTEM_PROMPT, ...currentMessages],
-                    selectedModel,
-                    apiKey,
                     (content, tools, thinking) => {
                         if (abortControllerRef.current?.signal.aborted) return;
 
@@ -875,7 +953,8 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
                             const displayName = getActionDisplayName(toolName, args);
                             updateAction(actionId, { displayName, toolName: toolName || undefined });
                         }
-                    }
+                    },
+                    provider
                 );
 
                 // Final update after stream finishes
@@ -1005,7 +1084,7 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
 
                     let result = '';
                     try {
-                        result = await handleToolCall(toolCall);
+                        result = await handleToolCall(toolCall, actionId);
                     } catch (err: any) {
                         console.error('Tool execution error:', err);
                         result = `Error executing tool ${toolCall.function.name}: ${err.message}.\n\n⚠️ Suggestion: Try a different approach or use readFile to check the current state.`;
@@ -1099,84 +1178,24 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
                 turns++;
             }
 
-            // Smart AI-powered context compression
+            // Compact the chat in place once it crosses the threshold, so the next request starts lean
             const allMessages = useStore.getState().messages;
+            const totalTokens = getMessageTokens(SYSTEM_PROMPT) + countMessagesTokens(allMessages, tokenizer);
 
-            let totalTokens = estimateTokens(SYSTEM_PROMPT.content as string);
-            allMessages.forEach(msg => {
-                totalTokens += getMessageTokens(msg);
-            });
-
-            const modelContextLimit = useStore.getState().modelContextLimit || 200000;
-            const MAX_CONTEXT_TOKENS = Math.floor(modelContextLimit * 0.8);
-            const COMPRESSION_THRESHOLD = Math.floor(MAX_CONTEXT_TOKENS * 0.8); // 80% of limit
-
-            // Check if we need compression
-            if (totalTokens > COMPRESSION_THRESHOLD && allMessages.length > 10) {
-                console.log(`[Context] Tokens: ${totalTokens}/${MAX_CONTEXT_TOKENS}, triggering AI compression...`);
-
-                try {
-                    // How many messages to keep uncompressed (recent context)
-                    const KEEP_RECENT = 8;
-                    const messagesToCompress = allMessages.slice(0, -KEEP_RECENT);
-                    const recentMessages = allMessages.slice(-KEEP_RECENT);
-
-
-                    // Create a simple summary (AI summarization would require recursive call)
-                    const firstUserMsg = messagesToCompress.find(m => m.role === 'user');
-                    const summary = `Previous conversation: ${firstUserMsg ? (typeof firstUserMsg.content === 'string' ? firstUserMsg.content.substring(0, 100) : 'User started conversation') : 'Earlier messages'}... (${messagesToCompress.length} messages compressed to save context)`;
-
-                    // Create summary message
-                    const summaryMessage: Message = {
-                        role: 'system',
-                        content: `📝 ${summary}`
-                    };
-
-                    // Replace old messages with summary + keep recent
-                    const compressedContext = [summaryMessage, ...recentMessages];
-                    setMessages(compressedContext);
-
-                    // Recalculate tokens
-                    let newTotal = estimateTokens(SYSTEM_PROMPT.content as string);
-                    compressedContext.forEach(msg => {
-                        newTotal += getMessageTokens(msg);
-                    });
+            if (totalTokens > COMPACTION_THRESHOLD && allMessages.length > 10) {
+                console.log(`[Context] Tokens: ${totalTokens}/${MAX_CONTEXT_TOKENS}, compacting conversation...`);
+                const compacted = await compactHistory(allMessages);
 
+                if (compacted) {
+                    const newTotal = getMessageTokens(SYSTEM_PROMPT) + countMessagesTokens(compacted.messages, tokenizer);
                     setTokenCount(newTotal);
 
-                    // Show notification
-                    const compressionNotice: Message = {
+                    addMessage({
                         role: 'assistant',
-                        content: `🗜️ Context compressed by AI: ${messagesToCompress.length} old messages summarized. Freed ${totalTokens - newTotal} tokens. Current: ${newTotal.toLocaleString()}/${MAX_CONTEXT_TOKENS.toLocaleString()}`
-                    };
-                    addMessage(compressionNotice);
-
-                    console.log(`[Context] Compressed ${messagesToCompress.length} messages, saved ${totalTokens - newTotal} tokens`);
-                } catch (err) {
-                    console.error('[Context] AI compression failed, falling back to simple removal:', err);
-
-                    // Fallback: simple removal of oldest messages
-                    let compressedMessages = [...allMessages];
-                    let removedCount = 0;
-
-                    while (totalTokens > MAX_CONTEXT_TOKENS && compressedMessages.length > 5) {
-                        const removed = compressedMessages.shift();
-                        if (removed) {
-                            totalTokens -= getMessageTokens(removed);
-                            removedCount++;
-                        }
-                    }
-
-                    if (removedCount > 0) {
-                        setMessages(compressedMessages);
-                        setTokenCount(totalTokens);
-
-                        const fallbackNotice: Message = {
-                            role: 'assistant',
-                            content: `🗜️ Context compressed: ${removedCount} old messages removed. Current: ${totalTokens.toLocaleString()}/${MAX_CONTEXT_TOKENS.toLocaleString()}`
-                        };
-                        addMessage(fallbackNotice);
-                    }
+                        content: `🗜️ Context compacted: ${compacted.compactedCount} earlier messages summarized into \`${CONTEXT_FILE}\`. Freed ${(totalTokens - newTotal).toLocaleString()} tokens. Current: ${newTotal.toLocaleString()}/${MAX_CONTEXT_TOKENS.toLocaleString()}`
+                    });
+                } else {
+                    setTokenCount(totalTokens);
                 }
             } else {
                 // Just update the token count
@@ -1263,9 +1282,7 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
 
                     await saveChatMessages(chatId, state.messages);
 
-                    if (Object.keys(state.files).length > 0) {
-                        await saveProject(chatId, user.uid, state.files);
-                    }
+                    await flushProjectChanges();
 
 
                 } catch {
@@ -1285,7 +1302,7 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
         if (!chatId && user) {
             try {
                 const title = input.slice(0, 50) + (input.length > 50 ? '...' : '');
-                const chat = await createChat(user.uid, title);
+                const chat = await createChat(user.uid, title, useStore.getState().projectTemplate, useStore.getState().defaultPromptPreset);
                 chatId = chat.id;
                 setCurrentChatId(chat.id);
                 navigate(`/c/${chat.id}`, { replace: true });
@@ -1387,6 +1404,10 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
             }
             return <code className={className} {...props}>{children}</code>;
         },
+        a({ href, children, ...props }: any) {
+            // Links (citations included) open beside the app instead of replacing it
+            return <a href={href} target="_blank" rel="noopener noreferrer" {...props}>{children}</a>;
+        },
         img({ src, alt, ...props }: any) {
             // Use ImageViewer for fullscreen capability
             if (src) {
@@ -1430,8 +1451,13 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
                             {group.role === 'assistant' && group.segments && group.segments.length > 0 ? (
                                 <>
                                     {group.segments.map((seg, segIdx) => {
+                                        if (seg.type === 'search' && seg.search) {
+                                            return <SearchResultsBlock key={`seg-${segIdx}`} data={seg.search} isDark={isDark} />;
+                                        }
                                         if (seg.type === 'text' && seg.content) {
-                                            const textContent = typeof seg.content === 'string' ? seg.content : '';
+                                            // [n] citations point at the latest search before this text
+                                            const sources = group.segments!.slice(0, segIdx).reverse().find(s => s.type === 'search')?.search?.results || [];
+                                            const textContent = typeof seg.content === 'string' ? linkCitations(seg.content, sources) : '';
                                             if (!textContent) return null;
                                             return (
                                                 <div key={`seg-${segIdx}`} className="flex justify-start">
@@ -1451,7 +1477,7 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
                                             const showLive = isLoading && isLastSegment && idx === groupedMessages.length - 1 && actions.length > 0;
 
                                             if (showLive) {
-                                                return <ActionsList key={`seg-${segIdx}`} actions={actions.filter(a => a.toolName !== 'drawDiagram')} isLive={true} isDark={isDark} />;
+                                                return <ActionsList key={`seg-${segIdx}`} actions={actions.filter(a => a.toolName !== 'drawDiagram')} isLive={true} isDark={isDark} onApprovalDecision={handleApprovalDecision} />;
                                             }
                                             return (
                                                 <ActionsList
@@ -1472,7 +1498,7 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
                                     })}
                                     {/* Live actions if no segments have tools yet */}
                                     {isLoading && idx === groupedMessages.length - 1 && actions.length > 0 && !group.segments.some(s => s.type === 'tools') && (
-                                        <ActionsList actions={actions.filter(a => a.toolName !== 'drawDiagram')} isLive={true} isDark={isDark} />
+                                        <ActionsList actions={actions.filter(a => a.toolName !== 'drawDiagram')} isLive={true} isDark={isDark} onApprovalDecision={handleApprovalDecision} />
                                     )}
                                 </>
                             ) : (
@@ -1523,7 +1549,7 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
                                     </div>
                                     {/* Live actions for assistant without segments */}
                                     {group.role === 'assistant' && isLoading && idx === groupedMessages.length - 1 && actions.length > 0 && (
-                                        <ActionsList actions={actions.filter(a => a.toolName !== 'drawDiagram')} isLive={true} isDark={isDark} />
+                                        <ActionsList actions={actions.filter(a => a.toolName !== 'drawDiagram')} isLive={true} isDark={isDark} onApprovalDecision={handleApprovalDecision} />
                                     )}
                                 </>
                             )}
@@ -1537,7 +1563,7 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
 
                     {/* Live Actions - only show here if there's no assistant message group yet */}
                     {isLoading && actions.length > 0 && (!groupedMessages.length || groupedMessages[groupedMessages.length - 1].role !== 'assistant') && (
-                        <ActionsList actions={actions.filter(a => a.toolName !== 'drawDiagram')} isLive={true} isDark={isDark} />
+                        <ActionsList actions={actions.filter(a => a.toolName !== 'drawDiagram')} isLive={true} isDark={isDark} onApprovalDecision={handleApprovalDecision} />
                     )}
 
                     {/* Typing indicator — shows when AI is loading but hasn't produced any visible content yet */}
@@ -1559,6 +1585,9 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
                 </div>
             </div>
 
+            {/* Staged edits from review mode — the agent waits on these */}
+            <PendingReviewPrompt isDark={isDark} />
+
             {/* Input Area - centered with margins */}
             <div className="px-4 pb-4">
                 <div className={`max-w-[720px] mx-auto rounded-2xl ${isDark ? 'bg-[#1a1a1a] border border-[#2a2a2a]' : 'bg-gray-50 border border-gray-200'}`}>
@@ -1710,6 +1739,16 @@ export function Chat({ scrollRef, onScroll }: ChatProps) {
                                                     {tokenCount.toLocaleString()} / {Math.floor(modelContextLimit * 0.8).toLocaleString()}
                                                 </span>
                                             </div>
+                                            {contextReport && (
+                                                <div className={`mt-2 pt-2 border-t text-xs ${isDark ? 'border-[#2a2a2a] text-[#888]' : 'border-gray-200 text-gray-500'}`}>
+                                                    <div className="mb-1">Not sent: {contextReport.dropped.length} older messages (~{contextReport.droppedTokens.toLocaleString()} tokens)</div>
+                                                    {contextReport.dropped.slice(-5).map(d => (
+                                                        <div key={d.index} className={`max-w-xs truncate ${isDark ? 'text-[#555]' : 'text-gray-400'}`}>
+                                                            {d.role}: {d.preview || '(empty)'}
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
                                         </div>
                                     </div>
                                 </div>
@@ -0,0 +1,265 @@
+import { useState, useEffect, useMemo } from 'react';
+import { X, History, RotateCcw, Loader2, FilePlus, FileMinus, FileDiff } from 'lucide-react';
+import { useStore } from '../store';
+import { Checkpoint, listCheckpoints, restoreCheckpoint } from '../lib/checkpoints';
+import { diffFiles, diffLines, countChangedLines, DiffLine, FileChange } from '../lib/diff';
+
+interface CheckpointTimelineProps {
+    onClose: () => void;
+}
+
+// Unchanged lines shown around each change; longer unchanged runs are folded
+const CONTEXT_LINES = 3;
+
+type DiffRow = { kind: 'line'; line: DiffLine } | { kind: 'fold'; count: number };
+
+function foldContext(lines: DiffLine[]): DiffRow[] {
+    const rows: DiffRow[] = [];
+    const isChange = (i: number) => lines[i] && lines[i].type !== 'context';
+
+    let i = 0;
+    while (i < lines.length) {
+        if (lines[i].type !== 'context') {
+            rows.push({ kind: 'line', line: lines[i] });
+            i++;
+            continue;
+        }
+        let end = i;
+        while (end < lines.length && lines[end].type === 'context') end++;
+
+        const keepHead = isChange(i - 1) ? CONTEXT_LINES : 0;
+        const keepTail = isChange(end) ? CONTEXT_LINES : 0;
+        const runLength = end - i;
+
+        if (runLength <= keepHead + keepTail + 1) {
+            for (let k = i; k < end; k++) rows.push({ kind: 'line', line: lines[k] });
+        } else {
+            for (let k = i; k < i + keepHead; k++) rows.push({ kind: 'line', line: lines[k] });
+            rows.push({ kind: 'fold', count: runLength - keepHead - keepTail });
+            for (let k = end - keepTail; k < end; k++) rows.push({ kind: 'line', line: lines[k] });
+        }
+        i = end;
+    }
+    return rows;
+}
+
+function formatTime(iso: string): string {
+    const date = new Date(iso);
+    const sameDay = date.toDateString() === new Date().toDateString();
+    return sameDay
+        ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+export function CheckpointTimeline({ onClose }: CheckpointTimelineProps) {
+    const currentChatId = useStore(s => s.currentChatId);
+    const files = useStore(s => s.files);
+    // Restoring mid-turn would race the agent's own file writes
+    const isResponding = useStore(s => s.isResponding);
+    const theme = useStore(s => s.theme);
+    const isDark = theme === 'dark';
+
+    const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [selectedPath, setSelectedPath] = useState<string | null>(null);
+    const [confirming, setConfirming] = useState(false);
+    const [restoring, setRestoring] = useState(false);
+
+    useEffect(() => {
+        if (!currentChatId) {
+            setLoading(false);
+            return;
+        }
+        listCheckpoints(currentChatId).then(list => {
+            setCheckpoints(list);
+            setSelectedId(list[0]?.id ?? null);
+            setLoading(false);
+        });
+    }, [currentChatId]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const selected = checkpoints.find(c => c.id === selectedId) || null;
+
+    // Changes made since the checkpoint — what a restore would undo
+    const changes = useMemo<FileChange[]>(
+        () => (selected ? diffFiles(selected.files, files).filter(c => c.path !== 'glovix-picker.js') : []),
+        [selected, files]
+    );
+
+    const selectedChange = changes.find(c => c.path === selectedPath) || changes[0] || null;
+    const rows = useMemo(
+        () => (selectedChange ? foldContext(diffLines(selectedChange.before ?? '', selectedChange.after ?? '')) : []),
+        [selectedChange]
+    );
+
+    const handleSelect = (id: string) => {
+        setSelectedId(id);
+        setSelectedPath(null);
+        setConfirming(false);
+    };
+
+    const handleRestore = async () => {
+        if (!selected || isResponding) return;
+        if (!confirming) {
+            setConfirming(true);
+            return;
+        }
+        setRestoring(true);
+        try {
+            await restoreCheckpoint(selected);
+            onClose();
+        } catch (e) {
+            console.error('[Checkpoints] Restore failed:', e);
+            setRestoring(false);
+            setConfirming(false);
+        }
+    };
+
+    const changeIcon = (type: FileChange['type']) => {
+        if (type === 'added') return <FilePlus className="w-3.5 h-3.5 text-emerald-500 flex-shrink-0" />;
+        if (type === 'removed') return <FileMinus className="w-3.5 h-3.5 text-red-400 flex-shrink-0" />;
+        return <FileDiff className="w-3.5 h-3.5 text-amber-500 flex-shrink-0" />;
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+            <div
+                onClick={e => e.stopPropagation()}
+                className={`w-full max-w-6xl h-[85vh] overflow-hidden rounded-xl flex flex-col ${isDark ? 'bg-[#1a1a1a]' : 'bg-white'}`}
+            >
+                <div className={`flex items-center justify-between px-6 py-4 border-b ${isDark ? 'border-[#2a2a2a]' : 'border-gray-200'}`}>
+                    <div className="flex items-center gap-2">
+                        <History className={`w-4 h-4 ${isDark ? 'text-[#888]' : 'text-gray-500'}`} />
+                        <h2 className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>Checkpoints</h2>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className={`p-1.5 rounded-lg transition-colors ${isDark ? 'text-[#666] hover:text-white' : 'text-gray-400 hover:text-gray-600'}`}
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 flex overflow-hidden">
+                    {/* Timeline */}
+                    <div className={`w-64 shrink-0 overflow-y-auto custom-scrollbar border-r ${isDark ? 'bg-[#141414] border-[#2a2a2a]' : 'bg-gray-50 border-gray-200'}`}>
+                        {loading ? (
+                            <div className="flex justify-center py-8">
+                                <Loader2 className={`w-5 h-5 animate-spin ${isDark ? 'text-[#555]' : 'text-gray-400'}`} />
+                            </div>
+                        ) : checkpoints.length === 0 ? (
+                            <p className={`text-xs p-4 ${isDark ? 'text-[#555]' : 'text-gray-500'}`}>
+                                No checkpoints yet. One is saved at the start of every message you send.
+                            </p>
+                        ) : (
+                            <div className="p-2 space-y-0.5">
+                                {checkpoints.map(cp => (
+                                    <button
+                                        key={cp.id}
+                                        onClick={() => handleSelect(cp.id)}
+                                        className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${cp.id === selectedId
+                                            ? isDark ? 'bg-blue-500/20' : 'bg-blue-50'
+                                            : isDark ? 'hover:bg-[#1f1f1f]' : 'hover:bg-gray-100'
+                                            }`}
+                                    >
+                                        <div className={`text-[13px] truncate ${cp.id === selectedId ? (isDark ? 'text-blue-400' : 'text-blue-600') : (isDark ? 'text-[#ccc]' : 'text-gray-800')}`}>
+                                            {cp.label}
+                                        </div>
+                                        <div className={`text-[11px] mt-0.5 ${isDark ? 'text-[#555]' : 'text-gray-400'}`}>
+                                            {formatTime(cp.createdAt)} · {Object.keys(cp.files).length} files
+                                        </div>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Changes since the selected checkpoint */}
+                    <div className="flex-1 flex flex-col min-w-0">
+                        {selected && (
+                            <div className={`flex items-center justify-between px-4 py-2.5 border-b ${isDark ? 'border-[#2a2a2a]' : 'border-gray-200'}`}>
+                                <span className={`text-xs ${isDark ? 'text-[#888]' : 'text-gray-500'}`}>
+                                    {changes.length === 0 ? 'No changes since this checkpoint' : `${changes.length} file${changes.length === 1 ? '' : 's'} changed since this checkpoint`}
+                                </span>
+                                <button
+                                    onClick={handleRestore}
+                                    disabled={restoring || isResponding || changes.length === 0}
+                                    title={isResponding ? 'Wait for the response to finish before restoring' : undefined}
+                                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-40 ${confirming
+                                        ? 'bg-red-500 text-white hover:bg-red-600'
+                                        : 'bg-blue-500 text-white hover:bg-blue-600'
+                                        }`}
+                                >
+                                    {restoring ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+                                    {confirming ? 'Click again to restore' : 'Restore'}
+                                </button>
+                            </div>
+                        )}
+
+                        <div className="flex-1 flex overflow-hidden">
+                            {changes.length > 0 && (
+                                <div className={`w-60 shrink-0 overflow-y-auto custom-scrollbar border-r py-1 ${isDark ? 'border-[#2a2a2a]' : 'border-gray-200'}`}>
+                                    {changes.map(change => {
+                                        const stats = change.type === 'modified'
+                                            ? countChangedLines(diffLines(change.before ?? '', change.after ?? ''))
+                                            : null;
+                                        return (
+                                            <button
+                                                key={change.path}
+                                                onClick={() => setSelectedPath(change.path)}
+                                                className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs transition-colors ${change.path === selectedChange?.path
+                                                    ? isDark ? 'bg-[#252525] text-white' : 'bg-gray-100 text-gray-900'
+                                                    : isDark ? 'text-[#999] hover:bg-[#1f1f1f]' : 'text-gray-600 hover:bg-gray-50'
+                                                    }`}
+                                            >
+                                                {changeIcon(change.type)}
+                                                <span className="font-mono truncate flex-1">{change.path}</span>
+                                                {stats && (
+                                                    <span className="tabular-nums flex-shrink-0">
+                                                        <span className="text-emerald-500">+{stats.added}</span>{' '}
+                                                        <span className="text-red-400">-{stats.removed}</span>
+                                                    </span>
+                                                )}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            )}
+
+                            <div className={`flex-1 overflow-auto custom-scrollbar font-mono text-[12px] leading-5 ${isDark ? 'bg-[#141414]' : 'bg-white'}`}>
+                                {rows.map((row, i) => row.kind === 'fold' ? (
+                                    <div key={i} className={`px-4 py-0.5 text-[11px] ${isDark ? 'bg-[#1a1a1a] text-[#555]' : 'bg-gray-50 text-gray-400'}`}>
+                                        ⋯ {row.count} unchanged line{row.count === 1 ? '' : 's'}
+                                    </div>
+                                ) : (
+                                    <div
+                                        key={i}
+                                        className={`flex whitespace-pre ${row.line.type === 'add'
+                                            ? isDark ? 'bg-emerald-500/10 text-emerald-300' : 'bg-emerald-50 text-emerald-800'
+                                            : row.line.type === 'remove'
+                                                ? isDark ? 'bg-red-500/10 text-red-300' : 'bg-red-50 text-red-800'
+                                                : isDark ? 'text-[#999]' : 'text-gray-600'
+                                            }`}
+                                    >
+                                        <span className={`w-12 shrink-0 text-right pr-2 select-none ${isDark ? 'text-[#444]' : 'text-gray-300'}`}>{row.line.oldLine ?? ''}</span>
+                                        <span className={`w-12 shrink-0 text-right pr-2 select-none ${isDark ? 'text-[#444]' : 'text-gray-300'}`}>{row.line.newLine ?? ''}</span>
+                                        <span className="w-4 shrink-0 select-none">{row.line.type === 'add' ? '+' : row.line.type === 'remove' ? '-' : ' '}</span>
+                                        <span>{row.line.text}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,83 +1,102 @@
 import Editor, { loader, Monaco } from '@monaco-editor/react';
 import * as monaco from 'monaco-editor';
 import { useStore } from '../store';
-import { useRef, useCallback, memo } from 'react';
+import { useCallback, useEffect, memo } from 'react';
+import { AssetPreview } from './AssetPreview';
+import { EditorTabs } from './EditorTabs';
+import { isBinaryEntry } from '../lib/files';
+import { getLanguage, modelPath, syncProjectModels, syncCompilerOptions, loadInstalledTypes } from '../lib/editorProject';
 
 loader.config({ monaco });
 
-const getLanguage = (filename: string): string => {
-    const ext = filename.split('.').pop()?.toLowerCase();
-    const langMap: Record<string, string> = {
-        ts: 'typescript', tsx: 'typescript', js: 'javascript', jsx: 'javascript',
-        json: 'json', html: 'html', css: 'css', scss: 'scss', md: 'markdown',
-        py: 'python', yaml: 'yaml', yml: 'yaml',
-    };
-    return langMap[ext || ''] || 'plaintext';
-};
+// Debounce for mirroring store file changes into editor models
+const MODEL_SYNC_DELAY = 300;
 
-export const CodeEditor = memo(function CodeEditor() {
-    const selectedFile = useStore(s => s.selectedFile);
+// Shared by the editor and the review diff editor
+export function defineEditorTheme(monaco: Monaco) {
+    monaco.editor.defineTheme('glovix-dark', {
+        base: 'vs-dark',
+        inherit: true,
+        rules: [],
+        colors: {
+            'editor.background': '#141414',
+            'editor.lineHighlightBackground': '#1a1a1a',
+            'editorLineNumber.foreground': '#444444',
+            'editorLineNumber.activeForeground': '#888888',
+            'editor.selectionBackground': '#264f78',
+            'editorWidget.background': '#1a1a1a',
+            'editorWidget.border': '#2a2a2a',
+            'input.background': '#1a1a1a',
+            'dropdown.background': '#1a1a1a',
+        }
+    });
+}
+
+// One editor; a split view shows two of these side by side
+const EditorPane = memo(function EditorPane({ path, pane }: { path: string | null; pane?: 0 | 1 }) {
     const theme = useStore(s => s.theme);
     const isDark = theme === 'dark';
-    const monacoRef = useRef<Monaco | null>(null);
+    const focusPane = useStore(s => s.focusPane);
+    const isActive = useStore(s => pane === undefined || s.splitView?.active === pane);
 
     // Read content directly from store without subscribing to all files changes
-    const content = useStore(s => s.selectedFile ? s.files[s.selectedFile]?.file.contents : '');
+    const content = useStore(s => path ? s.files[path]?.file.contents : '');
+    const binaryEntry = useStore(s => {
+        const entry = path ? s.files[path] : undefined;
+        return entry && isBinaryEntry(entry) ? entry : null;
+    });
 
     const handleEditorWillMount = useCallback((monaco: Monaco) => {
-        monacoRef.current = monaco;
-        monaco.editor.defineTheme('glovix-dark', {
-            base: 'vs-dark',
-            inherit: true,
-            rules: [],
-            colors: {
-                'editor.background': '#141414',
-                'editor.lineHighlightBackground': '#1a1a1a',
-                'editorLineNumber.foreground': '#444444',
-                'editorLineNumber.activeForeground': '#888888',
-                'editor.selectionBackground': '#264f78',
-                'editorWidget.background': '#1a1a1a',
-                'editorWidget.border': '#2a2a2a',
-                'input.background': '#1a1a1a',
-                'dropdown.background': '#1a1a1a',
-            }
-        });
+        defineEditorTheme(monaco);
+        // Every file becomes a model before the editor opens one of them
+        const { files } = useStore.getState();
+        syncCompilerOptions(files);
+        syncProjectModels(files);
     }, []);
 
+    const handleEditorMount = useCallback((editor: monaco.editor.IStandaloneCodeEditor) => {
+        if (pane !== undefined) editor.onDidFocusEditorText(() => focusPane(pane));
+    }, [pane, focusPane]);
+
     const handleChange = useCallback((value: string | undefined) => {
-        const file = useStore.getState().selectedFile;
-        if (file && value !== undefined) {
+        if (path && value !== undefined) {
             // Mutate in-place to avoid creating a new files object on every keystroke
             const state = useStore.getState();
-            const existing = state.files[file];
+            const existing = state.files[path];
             if (existing) {
                 existing.file.contents = value;
                 // Notify store with same reference — only triggers subscribers that check deeply
                 useStore.setState({ files: state.files });
             } else {
-                state.files[file] = { file: { contents: value } };
+                state.files[path] = { file: { contents: value } };
                 useStore.setState({ files: state.files });
             }
-            state.removeErrorsForFile(file);
+            // In-place edits don't change the files reference — flag the file for auto-save explicitly
+            state.markFileDirty(path);
+            state.removeErrorsForFile(path);
         }
-    }, []);
+    }, [path]);
 
-    if (!selectedFile) {
-        return (
+    let body;
+    if (!path) {
+        body = (
             <div className={`h-full flex items-center justify-center ${isDark ? 'bg-[#141414] text-[#525252]' : 'bg-white text-gray-400'}`}>
-                <p>Select a file to edit</p>
+                <p>{pane === undefined ? 'Select a file to edit' : 'Select a tab to show it here'}</p>
             </div>
         );
-    }
-
-    return (
-        <div className={`h-full w-full relative ${isDark ? 'bg-[#141414]' : 'bg-white'}`}>
+    } else if (binaryEntry) {
+        body = <AssetPreview path={path} entry={binaryEntry} />;
+    } else {
+        body = (
             <Editor
                 height="100%"
-                language={getLanguage(selectedFile)}
+                path={modelPath(path)}
+                keepCurrentModel
+                language={getLanguage(path)}
                 value={content}
                 theme={isDark ? 'glovix-dark' : 'light'}
                 beforeMount={handleEditorWillMount}
+                onMount={handleEditorMount}
                 onChange={handleChange}
                 options={{
                     minimap: { enabled: false },
@@ -91,6 +110,66 @@ export const CodeEditor = memo(function CodeEditor() {
                     fontFamily: 'Menlo, Monaco, "Courier New", monospace',
                 }}
             />
+        );
+    }
+
+    return (
+        <div
+            // Clicks outside the text (asset previews, the empty state) also make the pane active
+            onMouseDown={() => pane !== undefined && focusPane(pane)}
+            className={`flex-1 min-w-0 h-full relative ${isDark ? 'bg-[#141414]' : 'bg-white'}`}
+        >
+            {body}
+            {pane !== undefined && !isActive && <div className={`absolute inset-0 pointer-events-none ${isDark ? 'bg-black/20' : 'bg-white/30'}`} />}
+        </div>
+    );
+});
+
+export const CodeEditor = memo(function CodeEditor() {
+    const selectedFile = useStore(s => s.selectedFile);
+    const splitView = useStore(s => s.splitView);
+    const theme = useStore(s => s.theme);
+    const isDark = theme === 'dark';
+
+    // Keep the models in step with file changes from the agent, chat switches and imports.
+    // Typing edits the model itself and mutates the store in place, so it doesn't come through here.
+    useEffect(() => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const unsubscribe = useStore.subscribe((state, prev) => {
+            if (state.files === prev.files) return;
+            clearTimeout(timer);
+            timer = setTimeout(() => {
+                const { files } = useStore.getState();
+                syncCompilerOptions(files);
+                syncProjectModels(files);
+            }, MODEL_SYNC_DELAY);
+        });
+        return () => {
+            clearTimeout(timer);
+            unsubscribe();
+        };
+    }, []);
+
+    // Declarations of installed packages, reloaded after every install
+    const dependenciesInstalledAt = useStore(s => s.dependenciesInstalledAt);
+    useEffect(() => {
+        if (dependenciesInstalledAt) loadInstalledTypes();
+    }, [dependenciesInstalledAt]);
+
+    return (
+        <div className="h-full flex flex-col">
+            <EditorTabs />
+            <div className="flex-1 min-h-0 flex">
+                {splitView ? (
+                    <>
+                        <EditorPane path={splitView.files[0]} pane={0} />
+                        <div className={`w-px flex-shrink-0 ${isDark ? 'bg-[#1a1a1a]' : 'bg-gray-200'}`} />
+                        <EditorPane path={splitView.files[1]} pane={1} />
+                    </>
+                ) : (
+                    <EditorPane path={selectedFile} />
+                )}
+            </div>
         </div>
     );
 });
@@ -0,0 +1,180 @@
+import { useState, useMemo, useEffect, useRef, memo } from 'react';
+import { useStore } from '../store';
+import { SquareChevronRight, Trash2, ChevronRight, Search, AlertTriangle, AlertCircle, Info } from 'lucide-react';
+import { ConsoleEntry, ConsoleLevel, ConsoleValue, CONSOLE_LEVELS, formatConsoleArgs, formatConsoleValue } from '../lib/previewConsole';
+
+const LEVEL_STYLES: Record<ConsoleLevel, { dark: string; light: string }> = {
+    log: { dark: 'text-[#ccc]', light: 'text-gray-700' },
+    info: { dark: 'text-blue-300', light: 'text-blue-600' },
+    warn: { dark: 'text-yellow-300 bg-yellow-500/5', light: 'text-yellow-700 bg-yellow-50' },
+    error: { dark: 'text-red-400 bg-red-500/5', light: 'text-red-600 bg-red-50' },
+    debug: { dark: 'text-[#777]', light: 'text-gray-400' },
+};
+
+const LEVEL_LABELS: Record<ConsoleLevel, string> = {
+    log: 'Log',
+    info: 'Info',
+    warn: 'Warnings',
+    error: 'Errors',
+    debug: 'Debug',
+};
+
+const PRIMITIVE_COLORS: Record<string, string> = {
+    number: 'text-purple-400',
+    bigint: 'text-purple-400',
+    boolean: 'text-purple-400',
+    undefined: 'text-[#666]',
+    null: 'text-[#666]',
+    symbol: 'text-teal-400',
+};
+
+// One argument; objects and errors expand in place
+function ValueView({ value, nested = false, isDark }: { value: ConsoleValue; nested?: boolean; isDark: boolean }) {
+    const [expanded, setExpanded] = useState(false);
+
+    if (value.kind === 'primitive') {
+        if (value.type === 'string') {
+            return nested
+                ? <span className={isDark ? 'text-orange-300' : 'text-orange-700'}>{JSON.stringify(value.value)}</span>
+                : <span className="whitespace-pre-wrap break-words">{value.value}</span>;
+        }
+        return <span className={PRIMITIVE_COLORS[value.type]}>{value.value}</span>;
+    }
+
+    if (value.kind === 'object' || value.kind === 'error') {
+        const summary = value.kind === 'error' ? `${value.name}: ${value.message}` : formatConsoleValue(value, true);
+        return (
+            <span className="inline-block align-top max-w-full">
+                <span
+                    onClick={(e) => { e.stopPropagation(); setExpanded(!expanded); }}
+                    className={`cursor-pointer ${isDark ? 'hover:text-white' : 'hover:text-gray-900'}`}
+                >
+                    <ChevronRight className={`inline w-3 h-3 -mt-0.5 transition-transform ${expanded ? 'rotate-90' : ''}`} />
+                    {summary.length > 120 && !expanded ? `${summary.slice(0, 120)}…` : summary}
+                </span>
+                {expanded && value.kind === 'object' && (
+                    <div className={`ml-4 border-l pl-2 ${isDark ? 'border-[#222]' : 'border-gray-200'}`}>
+                        {value.entries.map(entry => (
+                            <div key={entry.key}>
+                                <span className={isDark ? 'text-[#888]' : 'text-gray-500'}>{entry.key}: </span>
+                                <ValueView value={entry.value} nested isDark={isDark} />
+                            </div>
+                        ))}
+                        {value.more > 0 && <div className={isDark ? 'text-[#555]' : 'text-gray-400'}>… {value.more} more</div>}
+                    </div>
+                )}
+                {expanded && value.kind === 'error' && value.stack && (
+                    <pre className={`ml-4 whitespace-pre-wrap ${isDark ? 'text-[#666]' : 'text-gray-400'}`}>{value.stack}</pre>
+                )}
+            </span>
+        );
+    }
+
+    return <span className={isDark ? 'text-[#888]' : 'text-gray-500'}>{formatConsoleValue(value, nested)}</span>;
+}
+
+const EntryRow = memo(function EntryRow({ entry, isDark }: { entry: ConsoleEntry; isDark: boolean }) {
+    const time = new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+    const style = LEVEL_STYLES[entry.level][isDark ? 'dark' : 'light'];
+    const Icon = entry.level === 'error' ? AlertCircle : entry.level === 'warn' ? AlertTriangle : entry.level === 'info' ? Info : null;
+
+    return (
+        <div className={`flex items-start gap-2 px-3 py-1 border-b last:border-b-0 text-[11px] font-mono ${style} ${isDark ? 'border-[#1a1a1a]' : 'border-gray-100'}`}>
+            <span className="w-3.5 flex-shrink-0 mt-0.5">{Icon && <Icon className="w-3 h-3" />}</span>
+            <div className="flex-1 min-w-0 flex flex-wrap gap-x-2">
+                {entry.args.map((arg, i) => <ValueView key={i} value={arg} isDark={isDark} />)}
+            </div>
+            {entry.count > 1 && (
+                <span className={`flex-shrink-0 px-1.5 rounded-full text-[9px] font-bold ${isDark ? 'bg-[#1a1a1a] text-[#777]' : 'bg-gray-100 text-gray-500'}`}>
+                    {entry.count}
+                </span>
+            )}
+            <span className={`text-[10px] flex-shrink-0 ${isDark ? 'text-[#333]' : 'text-gray-300'}`}>{time}</span>
+        </div>
+    );
+});
+
+export function ConsolePanel() {
+    const consoleEntries = useStore(s => s.consoleEntries);
+    const clearConsoleEntries = useStore(s => s.clearConsoleEntries);
+    const theme = useStore(s => s.theme);
+    const isDark = theme === 'dark';
+    const [filter, setFilter] = useState('');
+    const [level, setLevel] = useState<ConsoleLevel | 'all'>('all');
+    const listRef = useRef<HTMLDivElement>(null);
+    const stickToBottom = useRef(true);
+
+    const visible = useMemo(() => {
+        const query = filter.trim().toLowerCase();
+        return consoleEntries.filter(e =>
+            (level === 'all' || e.level === level) &&
+            (!query || formatConsoleArgs(e.args).toLowerCase().includes(query))
+        );
+    }, [consoleEntries, filter, level]);
+
+    // Newest last, like devtools — follow new output unless the user scrolled up
+    useEffect(() => {
+        const list = listRef.current;
+        if (list && stickToBottom.current) list.scrollTop = list.scrollHeight;
+    }, [visible]);
+
+    const handleScroll = () => {
+        const list = listRef.current;
+        if (list) stickToBottom.current = list.scrollHeight - list.scrollTop - list.clientHeight < 24;
+    };
+
+    if (consoleEntries.length === 0) {
+        return (
+            <div className={`h-full flex flex-col items-center justify-center gap-2 ${isDark ? 'text-[#333]' : 'text-gray-300'}`}>
+                <SquareChevronRight className="w-6 h-6" />
+                <p className="text-xs">No console output — console calls in the preview show up here</p>
+            </div>
+        );
+    }
+
+    const chipClass = (active: boolean) => `px-2 py-0.5 rounded text-[11px] transition-colors ${active
+        ? (isDark ? 'bg-[#1a1a1a] text-[#ccc]' : 'bg-gray-100 text-gray-700')
+        : (isDark ? 'text-[#555] hover:text-[#888]' : 'text-gray-400 hover:text-gray-600')
+        }`;
+
+    return (
+        <div className="h-full flex flex-col">
+            {/* Header with level and text filters */}
+            <div className={`flex items-center gap-2 px-3 py-1.5 border-b flex-shrink-0 ${isDark ? 'border-[#1a1a1a]' : 'border-gray-200'}`}>
+                <div className="relative flex-1 max-w-xs">
+                    <Search className={`absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 ${isDark ? 'text-[#444]' : 'text-gray-300'}`} />
+                    <input
+                        type="text"
+                        value={filter}
+                        onChange={(e) => setFilter(e.target.value)}
+                        placeholder="Filter output"
+                        className={`w-full pl-6 pr-2 py-0.5 rounded text-[11px] focus:outline-none ${isDark ? 'bg-[#111] text-[#ccc] placeholder-[#444]' : 'bg-gray-50 text-gray-700 placeholder-gray-300'}`}
+                    />
+                </div>
+                <div className="flex items-center gap-0.5">
+                    <button onClick={() => setLevel('all')} className={chipClass(level === 'all')}>All</button>
+                    {CONSOLE_LEVELS.map(l => (
+                        <button key={l} onClick={() => setLevel(l)} className={chipClass(level === l)}>{LEVEL_LABELS[l]}</button>
+                    ))}
+                </div>
+                <span className={`text-[11px] ml-auto ${isDark ? 'text-[#666]' : 'text-gray-400'}`}>
+                    {visible.length} of {consoleEntries.length}
+                </span>
+                <button
+                    onClick={clearConsoleEntries}
+                    className={`p-1 rounded transition-colors ${isDark ? 'text-[#444] hover:text-[#888] hover:bg-[#1a1a1a]' : 'text-gray-300 hover:text-gray-500 hover:bg-gray-100'}`}
+                    title="Clear console"
+                >
+                    <Trash2 className="w-3 h-3" />
+                </button>
+            </div>
+
+            {/* Entries, oldest first */}
+            <div ref={listRef} onScroll={handleScroll} className="flex-1 overflow-y-auto scrollbar-hide">
+                {visible.map((entry) => (
+                    <EntryRow key={entry.id} entry={entry} isDark={isDark} />
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,139 @@
+import { useEffect, useRef, memo } from 'react';
+import { useStore } from '../store';
+import { X, Pin, PinOff, Columns2, LocateFixed, LocateOff } from 'lucide-react';
+import { EditorTab } from '../lib/editorTabs';
+
+const baseName = (path: string) => path.split('/').pop() || path;
+const dirName = (path: string) => path.split('/').slice(0, -1).join('/');
+
+const Tab = memo(function Tab({ tab, active, visible, dirty, flashedAt, showDir, isDark }: {
+    tab: EditorTab;
+    active: boolean;
+    // Shown in the other pane of a split
+    visible: boolean;
+    dirty: boolean;
+    flashedAt?: number;
+    // Another open tab has the same file name
+    showDir: boolean;
+    isDark: boolean;
+}) {
+    const setSelectedFile = useStore(s => s.setSelectedFile);
+    const closeTab = useStore(s => s.closeTab);
+    const togglePinTab = useStore(s => s.togglePinTab);
+    const ref = useRef<HTMLDivElement>(null);
+
+    // A background edit by the agent scrolls its tab into view so the flash is seen
+    useEffect(() => {
+        if (flashedAt) ref.current?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    }, [flashedAt]);
+
+    const iconButton = `p-0.5 rounded transition-colors ${isDark ? 'hover:bg-[#2a2a2a] hover:text-[#ccc]' : 'hover:bg-gray-200 hover:text-gray-700'}`;
+
+    return (
+        <div
+            ref={ref}
+            onClick={() => setSelectedFile(tab.path)}
+            // Middle click closes, double click pins — as in desktop editors
+            onAuxClick={(e) => { if (e.button === 1) closeTab(tab.path); }}
+            onDoubleClick={() => togglePinTab(tab.path)}
+            title={flashedAt ? `${tab.path} — changed by the agent` : tab.path}
+            className={`group relative flex items-center gap-1.5 pl-3 pr-1.5 h-full border-r text-[12px] cursor-pointer select-none flex-shrink-0 ${
+                isDark ? 'border-[#1a1a1a]' : 'border-gray-200'
+            } ${active
+                ? (isDark ? 'bg-[#141414] text-[#e5e5e5]' : 'bg-white text-gray-900')
+                : visible
+                    ? (isDark ? 'bg-[#111] text-[#aaa]' : 'bg-gray-50 text-gray-700')
+                    : (isDark ? 'text-[#666] hover:text-[#999]' : 'text-gray-500 hover:text-gray-700')
+            }`}
+        >
+            {active && <span className="absolute top-0 left-0 right-0 h-px bg-blue-500" />}
+            {flashedAt && <span key={flashedAt} className="absolute inset-0 pointer-events-none animate-tab-flash" />}
+            {tab.pinned && <Pin className="w-3 h-3 flex-shrink-0 -rotate-45" />}
+            <span className={`truncate max-w-[160px] ${flashedAt ? (isDark ? 'text-blue-300' : 'text-blue-600') : ''}`}>
+                {baseName(tab.path)}
+            </span>
+            {showDir && dirName(tab.path) && (
+                <span className={`truncate max-w-[100px] text-[11px] ${isDark ? 'text-[#444]' : 'text-gray-400'}`}>{dirName(tab.path)}</span>
+            )}
+            <button
+                onClick={(e) => { e.stopPropagation(); togglePinTab(tab.path); }}
+                className={`${iconButton} ${tab.pinned ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                title={tab.pinned ? 'Unpin tab' : 'Pin tab'}
+            >
+                {tab.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+            </button>
+            {/* Unsaved changes show as a dot that turns into the close button on hover */}
+            <button
+                onClick={(e) => { e.stopPropagation(); closeTab(tab.path); }}
+                className={`${iconButton} relative`}
+                title="Close"
+            >
+                <X className={`w-3 h-3 ${dirty ? 'opacity-0 group-hover:opacity-100' : active ? '' : 'opacity-0 group-hover:opacity-100'}`} />
+                {dirty && (
+                    <span className="absolute inset-0 flex items-center justify-center group-hover:opacity-0">
+                        <span className={`w-2 h-2 rounded-full ${isDark ? 'bg-[#aaa]' : 'bg-gray-500'}`} />
+                    </span>
+                )}
+            </button>
+        </div>
+    );
+});
+
+export function EditorTabs() {
+    const openTabs = useStore(s => s.openTabs);
+    const selectedFile = useStore(s => s.selectedFile);
+    const splitView = useStore(s => s.splitView);
+    const dirtyFiles = useStore(s => s.dirtyFiles);
+    const flashedTabs = useStore(s => s.flashedTabs);
+    const followAgentEdits = useStore(s => s.followAgentEdits);
+    const setFollowAgentEdits = useStore(s => s.setFollowAgentEdits);
+    const openSplitView = useStore(s => s.openSplitView);
+    const closeSplitView = useStore(s => s.closeSplitView);
+    const theme = useStore(s => s.theme);
+    const isDark = theme === 'dark';
+
+    const nameCounts = new Map<string, number>();
+    openTabs.forEach(t => nameCounts.set(baseName(t.path), (nameCounts.get(baseName(t.path)) || 0) + 1));
+
+    const toolButton = (on: boolean) => `p-1 rounded transition-colors ${on
+        ? (isDark ? 'text-blue-400 bg-blue-500/10' : 'text-blue-600 bg-blue-50')
+        : (isDark ? 'text-[#555] hover:text-[#999] hover:bg-[#1a1a1a]' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100')
+        }`;
+
+    return (
+        <div className={`flex items-stretch h-9 border-b flex-shrink-0 ${isDark ? 'bg-[#0f0f0f] border-[#1a1a1a]' : 'bg-gray-50 border-gray-200'}`}>
+            <div className="flex-1 flex items-stretch min-w-0 overflow-x-auto scrollbar-hide">
+                {openTabs.map(tab => (
+                    <Tab
+                        key={tab.path}
+                        tab={tab}
+                        active={tab.path === selectedFile}
+                        visible={!!splitView?.files.includes(tab.path)}
+                        dirty={dirtyFiles.has(tab.path)}
+                        flashedAt={flashedTabs[tab.path]}
+                        showDir={(nameCounts.get(baseName(tab.path)) || 0) > 1}
+                        isDark={isDark}
+                    />
+                ))}
+            </div>
+            <div className={`flex items-center gap-0.5 px-2 border-l ${isDark ? 'border-[#1a1a1a]' : 'border-gray-200'}`}>
+                <button
+                    onClick={() => setFollowAgentEdits(!followAgentEdits)}
+                    className={toolButton(followAgentEdits)}
+                    title={followAgentEdits
+                        ? 'Following agent edits — files the agent writes open in the active tab'
+                        : 'Keeping focus — files the agent writes open in a background tab that flashes'}
+                >
+                    {followAgentEdits ? <LocateFixed className="w-3.5 h-3.5" /> : <LocateOff className="w-3.5 h-3.5" />}
+                </button>
+                <button
+                    onClick={() => splitView ? closeSplitView() : openSplitView()}
+                    className={toolButton(!!splitView)}
+                    title={splitView ? 'Close split view' : 'Split editor'}
+                >
+                    <Columns2 className="w-3.5 h-3.5" />
+                </button>
+            </div>
+        </div>
+    );
+}
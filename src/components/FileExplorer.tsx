@@ -1,7 +1,9 @@
 import { useState, useMemo, useRef, useEffect, memo } from 'react';
-import { File, Folder, FolderOpen, ChevronRight, ChevronDown, Target, Lock, Scissors, Copy, FileText, FolderPlus, Trash2 } from 'lucide-react';
+import { File, FileImage, Binary, Folder, FolderOpen, ChevronRight, ChevronDown, Target, Lock, Scissors, Copy, FileText, FolderPlus, Trash2, Upload, ScrollText } from 'lucide-react';
 import { useStore } from '../store';
 import { writeFile, deleteFile as deleteFileWC, renameFile as renameFileWC } from '../lib/webcontainer';
+import { FileMap, createEntryFromBytes, entryContents, getMimeType, isBinaryPath } from '../lib/files';
+import { INSTRUCTIONS_FILE, INSTRUCTIONS_TEMPLATE } from '../lib/instructions';
 
 interface FileNode {
     name: string;
@@ -45,6 +47,13 @@ const buildFileTree = (files: string[]): FileNode[] => {
     return root;
 };
 
+// Images and other binary assets get their own icons so they stand out from source files
+function FileIcon({ path, isDark }: { path: string; isDark: boolean }) {
+    if (getMimeType(path).startsWith('image/')) return <FileImage className="w-4 h-4 flex-shrink-0 text-purple-400" />;
+    if (isBinaryPath(path)) return <Binary className={`w-4 h-4 flex-shrink-0 ${isDark ? 'text-[#737373]' : 'text-gray-400'}`} />;
+    return <File className={`w-4 h-4 flex-shrink-0 ${isDark ? 'text-[#a3a3a3]' : 'text-gray-400'}`} />;
+}
+
 const FileTreeNode = memo(({ 
     node, 
     level, 
@@ -97,7 +106,7 @@ const FileTreeNode = memo(({
                 }`}
                 style={{ paddingLeft: `${level * 12 + 8}px` }}
             >
-                <File className={`w-4 h-4 flex-shrink-0 ${isDark ? 'text-[#a3a3a3]' : 'text-gray-400'}`} />
+                <FileIcon path={node.path} isDark={isDark} />
                 {renamingPath === node.path ? (
                     <input
                         ref={inputRef}
@@ -175,6 +184,8 @@ export function FileExplorer() {
     const [newItemName, setNewItemName] = useState('');
     const [, setClipboard] = useState<{ path: string; action: 'cut' | 'copy' } | null>(null);
     const newItemInputRef = useRef<HTMLInputElement>(null);
+    const uploadInputRef = useRef<HTMLInputElement>(null);
+    const [uploadParent, setUploadParent] = useState('');
 
     useEffect(() => {
         if (newItemType && newItemInputRef.current) {
@@ -195,7 +206,7 @@ export function FileExplorer() {
         
         // Calculate position to keep menu within viewport
         const menuWidth = 200;
-        const menuHeight = type === 'root' ? 100 : 380;
+        const menuHeight = type === 'root' ? 136 : 416;
         
         let x = e.clientX;
         let y = e.clientY;
@@ -231,6 +242,49 @@ export function FileExplorer() {
         setContextMenu(prev => ({ ...prev, visible: false }));
     };
 
+    const handleUploadClick = () => {
+        const parent = contextMenu.targetType === 'folder' ? contextMenu.targetPath :
+                       contextMenu.targetType === 'file' ? contextMenu.targetPath.split('/').slice(0, -1).join('/') : '';
+        setUploadParent(parent);
+        setContextMenu(prev => ({ ...prev, visible: false }));
+        uploadInputRef.current?.click();
+    };
+
+    // Uploaded images, fonts etc. become binary entries; text files stay editable
+    const handleUpload = async (fileList: FileList | null) => {
+        if (!fileList || fileList.length === 0) return;
+        const added: FileMap = {};
+        for (const file of Array.from(fileList)) {
+            const path = uploadParent ? `${uploadParent}/${file.name}` : file.name;
+            const entry = createEntryFromBytes(new Uint8Array(await file.arrayBuffer()), path);
+            try {
+                await writeFile(path, entryContents(entry));
+                added[path] = entry;
+            } catch (e) {
+                console.error('Failed to upload file:', e);
+            }
+        }
+        const paths = Object.keys(added);
+        if (paths.length === 0) return;
+        setFiles({ ...useStore.getState().files, ...added });
+        setSelectedFile(paths[0]);
+        console.log(`[FileExplorer] Uploaded ${paths.length} file(s)${uploadParent ? ` to ${uploadParent}/` : ''}`);
+    };
+
+    // Open .glovix/instructions.md, creating it from the starter template the first time
+    const handleOpenInstructions = async () => {
+        if (!useStore.getState().files[INSTRUCTIONS_FILE]) {
+            try {
+                await writeFile(INSTRUCTIONS_FILE, INSTRUCTIONS_TEMPLATE);
+            } catch (e) {
+                console.error('Failed to create instructions file:', e);
+                return;
+            }
+            setFiles({ ...useStore.getState().files, [INSTRUCTIONS_FILE]: { file: { contents: INSTRUCTIONS_TEMPLATE } } });
+        }
+        setSelectedFile(INSTRUCTIONS_FILE);
+    };
+
     const handleNewItemSubmit = async () => {
         if (!newItemName.trim()) {
             setNewItemType(null);
@@ -301,9 +355,10 @@ export function FileExplorer() {
         const newPath = parentPath ? `${parentPath}/${newName}` : newName;
         
         const newFiles = { ...files };
-        const content = newFiles[oldPath]?.file.contents || '';
+        // The whole entry moves, so binary assets keep their encoding and MIME type
+        const entry = newFiles[oldPath] || { file: { contents: '' } };
         delete newFiles[oldPath];
-        newFiles[newPath] = { file: { contents: content } };
+        newFiles[newPath] = entry;
         
         try {
             await renameFileWC(oldPath, newPath);
@@ -343,7 +398,26 @@ export function FileExplorer() {
             className={`h-full p-2 overflow-y-auto text-sm custom-scrollbar ${isDark ? 'text-[#a3a3a3]' : 'text-gray-600'}`}
             onContextMenu={(e) => handleContextMenu(e, '', 'root')}
         >
-            <div className={`font-semibold mb-2 px-2 text-xs uppercase tracking-wider ${isDark ? 'text-[#525252]' : 'text-gray-400'}`}>Files</div>
+            <div className="flex items-center justify-between mb-2 px-2">
+                <div className={`font-semibold text-xs uppercase tracking-wider ${isDark ? 'text-[#525252]' : 'text-gray-400'}`}>Files</div>
+                <button
+                    onClick={handleOpenInstructions}
+                    className={`p-0.5 rounded transition-colors ${isDark ? 'text-[#525252] hover:text-[#ccc]' : 'text-gray-400 hover:text-gray-700'}`}
+                    title={files[INSTRUCTIONS_FILE] ? 'Project instructions' : 'Add project instructions — rules the agent follows in every message'}
+                >
+                    <ScrollText className="w-3.5 h-3.5" />
+                </button>
+            </div>
+            <input
+                ref={uploadInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                    handleUpload(e.target.files);
+                    e.target.value = '';
+                }}
+            />
             
             {Object.keys(files).length === 0 && !newItemType && (
                 <div className={`italic px-2 ${isDark ? 'text-[#525252]' : 'text-gray-400'}`}>No files</div>
@@ -404,6 +478,10 @@ export function FileExplorer() {
                             <FolderPlus className="w-4 h-4 opacity-0" />
                             New folder...
                         </button>
+                        <button onClick={handleUploadClick} className={`w-full text-left px-4 py-2 text-sm flex items-center gap-3 ${isDark ? 'text-[#ccc] hover:bg-[#252525]' : 'text-gray-700 hover:bg-gray-50'}`}>
+                            <Upload className="w-4 h-4 opacity-0" />
+                            Upload files...
+                        </button>
                     </div>
 
                     {/* Target/Lock */}
@@ -5,9 +5,6 @@ import { useStore } from '../store';
 import { createChat } from '../lib/api';
 import { Message } from '../lib/ai';
 
-// Keep for future use
-// const MODELS: ModelType[] = ['glm-4.7'];
-
 export function HomeChat() {
     const navigate = useNavigate();
     const { user, theme, addMessage, setCurrentChatId } = useStore();
@@ -59,7 +56,7 @@ export function HomeChat() {
         try {
             // Create new chat
             const title = input.slice(0, 50) + (input.length > 50 ? '...' : '');
-            const chat = await createChat(user.uid, title);
+            const chat = await createChat(user.uid, title, useStore.getState().projectTemplate, useStore.getState().defaultPromptPreset);
 
             // Update chats in store so titleGenerator can find this chat
             const currentChats = useStore.getState().chats;
@@ -1,12 +1,12 @@
 import { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Home, Search, Clock, Plus, ImageIcon, X, FileCode } from 'lucide-react';
+import { Home, Search, Clock, Plus, ImageIcon, X, FileCode, Upload, Loader2, FolderOpen, FileArchive } from 'lucide-react';
 import { useStore } from '../store';
-import { createChat, getChatHistory, ChatHistory } from '../lib/api';
+import { createChat, getChatHistory, saveProject, ChatHistory } from '../lib/api';
 import { Sidebar } from './Sidebar';
-
-// Keep for future use
-// const MODELS: ModelType[] = ['glm-4.7'];
+import { TemplatePicker } from './TemplatePicker';
+import { importArchive, ARCHIVE_EXTENSION } from '../lib/archive';
+import { ImportResult, importFromZip, importFromFileList, getDroppedEntries, importFromEntries, describeSkipped } from '../lib/projectImport';
 
 export function HomePage() {
     const navigate = useNavigate();
@@ -20,6 +20,12 @@ export function HomePage() {
     const [recentChats, setRecentChats] = useState<ChatHistory[]>([]);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const documentInputRef = useRef<HTMLInputElement>(null);
+    const archiveInputRef = useRef<HTMLInputElement>(null);
+    const zipInputRef = useRef<HTMLInputElement>(null);
+    const folderInputRef = useRef<HTMLInputElement>(null);
+    const [isDraggingOver, setIsDraggingOver] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+    const [importError, setImportError] = useState('');
     const textareaRef = useRef<HTMLTextAreaElement>(null);
 
     const isDark = theme === 'dark';
@@ -114,6 +120,74 @@ export function HomePage() {
         }
     };
 
+    // Shared wrapper for every import path: one at a time, errors shown next to "Import archive"
+    const runImport = async (importer: () => Promise<ChatHistory>) => {
+        if (!user || isImporting) return;
+        setIsImporting(true);
+        setImportError('');
+        try {
+            const chat = await importer();
+            useStore.getState().setChats([chat, ...useStore.getState().chats]);
+            navigate(`/c/${chat.id}`);
+        } catch (err: any) {
+            console.error('Import failed:', err);
+            setImportError(err.message || 'Import failed');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    // A new chat whose project is the uploaded code — opening it mounts the files
+    const startImportedProject = async (result: ImportResult): Promise<ChatHistory> => {
+        if (!user) throw new Error('Not signed in');
+        if (Object.keys(result.files).length === 0) {
+            throw new Error('No importable files found');
+        }
+        // Imported code brings its own stack — no template
+        const chat = await createChat(user.uid, result.name || 'Imported Project', null, useStore.getState().defaultPromptPreset);
+        await saveProject(chat.id, user.uid, result.files);
+
+        const addTerminalOutput = useStore.getState().addTerminalOutput;
+        addTerminalOutput(`Imported ${Object.keys(result.files).length} files${result.name ? ` from ${result.name}` : ''}.\n`);
+        if (result.skipped.length > 0) {
+            addTerminalOutput(`Skipped ${result.skipped.length}:\n${describeSkipped(result.skipped)}\n`);
+        }
+        return chat;
+    };
+
+    const handleArchiveSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file && user) runImport(() => importArchive(file, user.uid));
+    };
+
+    const handleZipSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) runImport(async () => startImportedProject(await importFromZip(file)));
+    };
+
+    const handleFolderSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = e.target.files ? Array.from(e.target.files) : [];
+        e.target.value = '';
+        if (files.length > 0) runImport(async () => startImportedProject(await importFromFileList(files)));
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDraggingOver(false);
+        if (!user) return;
+        const dropped = e.dataTransfer.files;
+        if (dropped.length === 1 && dropped[0].name.endsWith(ARCHIVE_EXTENSION)) {
+            const archive = dropped[0];
+            runImport(() => importArchive(archive, user.uid));
+            return;
+        }
+        // The DataTransfer is only readable during the event — take its entries now, read them in the import
+        const entries = getDroppedEntries(e.dataTransfer);
+        runImport(async () => startImportedProject(await importFromEntries(entries)));
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if ((!input.trim() && selectedImages.length === 0 && selectedDocuments.length === 0) || isLoading || !user) return;
@@ -121,13 +195,15 @@ export function HomePage() {
         setIsLoading(true);
 
         try {
-            const chat = await createChat(user.uid, 'Untitled Project');
+            const chat = await createChat(user.uid, 'Untitled Project', useStore.getState().projectTemplate, useStore.getState().defaultPromptPreset);
 
             // Add new chat to store immediately with placeholder title
             const newChatEntry: ChatHistory = {
                 id: chat.id,
                 user_id: user.uid,
                 title: 'Untitled Project',
+                template_id: chat.template_id,
+                prompt_preset_id: chat.prompt_preset_id,
                 created_at: new Date().toISOString(),
                 updated_at: new Date().toISOString()
             };
@@ -168,7 +244,29 @@ export function HomePage() {
     };
 
     return (
-        <div className={`min-h-screen w-screen flex relative ${isDark ? 'bg-[#0a0a0a]' : 'bg-white'}`}>
+        <div
+            className={`min-h-screen w-screen flex relative ${isDark ? 'bg-[#0a0a0a]' : 'bg-white'}`}
+            onDragOver={(e) => {
+                if (!user || !e.dataTransfer.types.includes('Files')) return;
+                e.preventDefault();
+                setIsDraggingOver(true);
+            }}
+            onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingOver(false);
+            }}
+            onDrop={handleDrop}
+        >
+            {/* Drop overlay */}
+            {isDraggingOver && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm pointer-events-none">
+                    <div className={`flex flex-col items-center gap-3 px-10 py-8 rounded-2xl border-2 border-dashed ${isDark ? 'border-blue-400/60 text-white' : 'border-blue-500/60 text-white'}`}>
+                        <Upload className="w-8 h-8" />
+                        <p className="text-sm font-medium">Drop a project folder, zip or {ARCHIVE_EXTENSION} archive to import</p>
+                        <p className="text-xs opacity-60">node_modules, build output and binaries are skipped</p>
+                    </div>
+                </div>
+            )}
+
             {/* Background Gradient */}
             <div className="absolute inset-0 pointer-events-none">
                 <div className="absolute inset-0"
@@ -238,6 +336,8 @@ export function HomePage() {
                             className={`flex flex-col rounded-2xl transition-all duration-300 ${isDark ? 'bg-[#1a1a1a] border border-[#2a2a2a]' : 'bg-gray-50 border border-gray-200'}`}>
                             <input type="file" ref={fileInputRef} className="hidden" accept="image/*" multiple onChange={handleImageSelect} />
                             <input type="file" ref={documentInputRef} className="hidden" accept=".txt,.md,.json,.js,.ts,.tsx,.jsx,.css,.html,.py,.sql,.yaml,.yml" multiple onChange={handleDocumentSelect} />
+                            <input type="file" ref={zipInputRef} className="hidden" accept=".zip" onChange={handleZipSelect} />
+                            <input type="file" ref={folderInputRef} className="hidden" multiple onChange={handleFolderSelect} {...{ webkitdirectory: '' }} />
 
                             {(selectedImages.length > 0 || selectedDocuments.length > 0) && (
                                 <div className={`flex gap-2 px-3 py-2 overflow-x-auto border-b ${isDark ? 'border-[#2a2a2a]' : 'border-gray-200'}`}>
@@ -302,9 +402,20 @@ export function HomePage() {
                                                     className={`w-full text-left px-2.5 py-1.5 text-[12px] flex items-center gap-2 rounded ${isDark ? 'hover:bg-[#1f1f1f] text-[#ccc]' : 'hover:bg-gray-50 text-gray-700'}`}>
                                                     <FileCode className="w-3.5 h-3.5" /> Document
                                                 </button>
+                                                <div className={`my-1 h-px ${isDark ? 'bg-[#2a2a2a]' : 'bg-gray-100'}`} />
+                                                <button type="button" onClick={() => { zipInputRef.current?.click(); setShowModelMenu(false); }}
+                                                    className={`w-full text-left px-2.5 py-1.5 text-[12px] flex items-center gap-2 rounded ${isDark ? 'hover:bg-[#1f1f1f] text-[#ccc]' : 'hover:bg-gray-50 text-gray-700'}`}>
+                                                    <FileArchive className="w-3.5 h-3.5" /> Import zip
+                                                </button>
+                                                <button type="button" onClick={() => { folderInputRef.current?.click(); setShowModelMenu(false); }}
+                                                    className={`w-full text-left px-2.5 py-1.5 text-[12px] flex items-center gap-2 rounded ${isDark ? 'hover:bg-[#1f1f1f] text-[#ccc]' : 'hover:bg-gray-50 text-gray-700'}`}>
+                                                    <FolderOpen className="w-3.5 h-3.5" /> Import folder
+                                                </button>
                                             </div>
                                         </div>
                                     )}
+
+                                    <TemplatePicker />
                                 </div>
                                 <div className="flex items-center gap-1">
                                     <button type="submit" disabled={(!input.trim() && selectedImages.length === 0 && selectedDocuments.length === 0) || isLoading}
@@ -336,6 +447,19 @@ export function HomePage() {
                                         Recently viewed
                                     </button>
                                 </div>
+                                <div className="flex items-center gap-2">
+                                    {importError && <span className="text-[11px] text-red-400 truncate max-w-[260px]" title={importError}>{importError}</span>}
+                                    <input type="file" ref={archiveInputRef} className="hidden" accept={`${ARCHIVE_EXTENSION},.zip`} onChange={handleArchiveSelect} />
+                                    <button
+                                        onClick={() => archiveInputRef.current?.click()}
+                                        disabled={isImporting}
+                                        className={`flex items-center gap-1.5 px-3 py-1.5 text-[11px] rounded-full transition-colors disabled:opacity-50 ${isDark ? 'text-[#999] hover:text-white hover:bg-white/10' : 'text-gray-500 hover:text-gray-900 hover:bg-black/10'}`}
+                                        title="Import a Glovix archive"
+                                    >
+                                        {isImporting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+                                        Import archive
+                                    </button>
+                                </div>
                             </div>
 
                             {/* Project Cards - Grid with vertical layout */}
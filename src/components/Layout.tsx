@@ -1,13 +1,16 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ChevronDown, Home, Settings, Edit3, Moon, Sun, GitFork, Loader2 } from 'lucide-react';
+import { ChevronDown, Home, Settings, Edit3, Moon, Sun, GitFork, Loader2, Check, AlertCircle, LayoutTemplate, MessageSquareText } from 'lucide-react';
 import { Chat } from './Chat';
 import { Workbench } from './Workbench';
 import { SettingsModal } from './SettingsModal';
+import { SaveTemplateModal } from './SaveTemplateModal';
 import { StreamingText } from './StreamingText';
 import { useStore } from '../store';
-import { updateChatTitle } from '../lib/api';
+import { updateChatTitle, updateChatPromptPreset } from '../lib/api';
+import { DEFAULT_PRESET_ID } from '../lib/promptPresets';
 import { forkChat } from '../lib/forkChat';
+import { flushProjectChanges } from '../lib/autoSave';
 
 export function Layout() {
     const navigate = useNavigate();
@@ -16,6 +19,10 @@ export function Layout() {
     const currentChatId = useStore(s => s.currentChatId);
     const chats = useStore(s => s.chats);
     const user = useStore(s => s.user);
+    const saveStatus = useStore(s => s.saveStatus);
+    const hasUnsavedFiles = useStore(s => s.dirtyFiles.size > 0);
+    const hasFiles = useStore(s => Object.keys(s.files).length > 0);
+    const promptPresets = useStore(s => s.promptPresets);
     const chatScrollRef = useRef<HTMLDivElement>(null);
     const scrollbarRef = useRef<HTMLDivElement>(null);
     const thumbRef = useRef<HTMLDivElement>(null);
@@ -28,6 +35,7 @@ export function Layout() {
     // Project menu state
     const [showProjectMenu, setShowProjectMenu] = useState(false);
     const [showSettings, setShowSettings] = useState(false);
+    const [showSaveTemplate, setShowSaveTemplate] = useState(false);
     const [isRenaming, setIsRenaming] = useState(false);
     const [newTitle, setNewTitle] = useState('');
     const [isForking, setIsForking] = useState(false);
@@ -91,6 +99,20 @@ export function Layout() {
         }
     };
 
+    // The system prompt preset is stored with the chat, so reopening it keeps the persona
+    const handlePresetChange = async (presetId: string) => {
+        if (!currentChatId) return;
+        try {
+            await updateChatPromptPreset(currentChatId, presetId);
+            const updatedChats = useStore.getState().chats.map(c =>
+                c.id === currentChatId ? { ...c, prompt_preset_id: presetId } : c
+            );
+            useStore.getState().setChats(updatedChats);
+        } catch (err) {
+            console.error('Failed to change prompt preset:', err);
+        }
+    };
+
     // Handle fork — create new chat with compressed context
     const handleFork = async () => {
         if (isForking || !currentChatId) return;
@@ -211,6 +233,7 @@ export function Layout() {
         <div className={`h-screen w-screen flex overflow-hidden ${isDark ? 'bg-[#141414] text-[#e5e5e5]' : 'bg-gray-100 text-gray-900'}`}>
             {/* Settings Modal */}
             {showSettings && <SettingsModal onClose={() => setShowSettings(false)} />}
+            {showSaveTemplate && <SaveTemplateModal onClose={() => setShowSaveTemplate(false)} />}
 
 
 
@@ -243,6 +266,32 @@ export function Layout() {
                         <ChevronDown className={`w-4 h-4 ${isDark ? 'text-[#666]' : 'text-gray-400'}`} />
                     </button>
 
+                    {/* Project save status */}
+                    <div className="ml-auto flex items-center">
+                        {saveStatus === 'saving' ? (
+                            <span className={`flex items-center gap-1 text-[11px] ${isDark ? 'text-[#666]' : 'text-gray-400'}`}>
+                                <Loader2 className="w-3 h-3 animate-spin" />
+                                Saving…
+                            </span>
+                        ) : saveStatus === 'failed' ? (
+                            <button
+                                onClick={() => flushProjectChanges()}
+                                className="flex items-center gap-1 text-[11px] text-red-400 hover:text-red-300"
+                                title="Retry saving"
+                            >
+                                <AlertCircle className="w-3 h-3" />
+                                Save failed
+                            </button>
+                        ) : hasUnsavedFiles ? (
+                            <span className={`text-[11px] ${isDark ? 'text-[#555]' : 'text-gray-400'}`}>Unsaved changes</span>
+                        ) : saveStatus === 'saved' ? (
+                            <span className={`flex items-center gap-1 text-[11px] ${isDark ? 'text-[#555]' : 'text-gray-400'}`}>
+                                <Check className="w-3 h-3" />
+                                Saved
+                            </span>
+                        ) : null}
+                    </div>
+
                     {/* Project Dropdown Menu */}
                     {showProjectMenu && (
                         <div className={`absolute top-full left-0 mt-1 w-80 rounded-2xl border shadow-2xl z-50 overflow-hidden backdrop-blur-xl ${isDark ? 'bg-[#1a1a1a]/95 border-[#2a2a2a]' : 'bg-white/95 border-gray-200'}`}>
@@ -323,6 +372,31 @@ export function Layout() {
                                     </button>
                                 </div>
                             </div>
+
+                            {/* Project actions */}
+                            <div className={`p-2 ${isDark ? 'border-t border-[#2a2a2a]' : 'border-t border-gray-100'}`}>
+                                <button
+                                    onClick={() => { setShowSaveTemplate(true); setShowProjectMenu(false); }}
+                                    disabled={!hasFiles}
+                                    className={`w-full flex items-center gap-3 px-3 py-2 rounded-xl text-sm transition-all disabled:opacity-30 ${isDark ? 'hover:bg-[#252525] text-[#ccc] hover:text-white' : 'hover:bg-gray-100 text-gray-700 hover:text-gray-900'}`}
+                                >
+                                    <LayoutTemplate className="w-4 h-4" />
+                                    Save as template
+                                </button>
+                                <div className={`flex items-center gap-3 px-3 py-2 text-sm ${isDark ? 'text-[#ccc]' : 'text-gray-700'}`}>
+                                    <MessageSquareText className="w-4 h-4 flex-shrink-0" />
+                                    <span className="flex-1">System prompt</span>
+                                    <select
+                                        value={promptPresets.some(p => p.id === currentChat?.prompt_preset_id) ? currentChat!.prompt_preset_id! : DEFAULT_PRESET_ID}
+                                        onChange={(e) => handlePresetChange(e.target.value)}
+                                        disabled={!currentChatId}
+                                        className={`max-w-[140px] px-2 py-1 rounded-lg text-xs focus:outline-none ${isDark ? 'bg-[#252525] text-[#ccc]' : 'bg-gray-100 text-gray-700'}`}
+                                    >
+                                        <option value={DEFAULT_PRESET_ID}>Built-in</option>
+                                        {promptPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                    </select>
+                                </div>
+                            </div>
                         </div>
                     )}
                 </div>
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Loader2, Radar, Check, FlaskConical } from 'lucide-react';
+import { useStore } from '../store';
+import { ModelInfo } from '../lib/models';
+import { detectLocalServers, listLocalModels, probeModelCapabilities, LocalServer } from '../lib/localModels';
+
+// Discovery + capability probing for the "Local" provider in Settings → AI Model
+export function LocalModelsPanel() {
+    const { theme, models, registerModels, aiModel, setAiModel, aiBaseUrl, setAiBaseUrl } = useStore();
+    const isDark = theme === 'dark';
+
+    const [detecting, setDetecting] = useState(false);
+    const [probing, setProbing] = useState<string | null>(null);
+    const [servers, setServers] = useState<LocalServer[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const localModels = Object.values(models).filter(m => m.source === 'local');
+
+    const handleDetect = async () => {
+        setDetecting(true);
+        setError(null);
+        try {
+            const found = await detectLocalServers(aiBaseUrl ? [aiBaseUrl] : []);
+            setServers(found);
+            if (found.length === 0) {
+                setError('No local server found. Start Ollama, llama.cpp or LM Studio (Ollama needs OLLAMA_ORIGINS=* for browser access).');
+                return;
+            }
+
+            const listed = (await Promise.all(found.map(s => listLocalModels(s.baseUrl).catch(() => [] as ModelInfo[])))).flat();
+            // Keep earlier probe results for models we already know
+            registerModels(listed.map(m => (models[m.id]?.probedAt ? { ...models[m.id], baseUrl: m.baseUrl } : m)));
+            console.log(`[LocalModels] Found ${listed.length} models on ${found.length} server(s)`);
+        } catch (e: any) {
+            setError(e.message);
+        } finally {
+            setDetecting(false);
+        }
+    };
+
+    const handleProbe = async (model: ModelInfo) => {
+        setProbing(model.id);
+        setError(null);
+        try {
+            const kind = servers.find(s => s.baseUrl === model.baseUrl)?.kind;
+            registerModels([await probeModelCapabilities(model, kind)]);
+        } catch (e: any) {
+            setError(`Probe failed: ${e.message}`);
+        } finally {
+            setProbing(null);
+        }
+    };
+
+    const handleUse = (model: ModelInfo) => {
+        if (model.baseUrl) setAiBaseUrl(model.baseUrl);
+        setAiModel(model.id);
+    };
+
+    const badge = (label: string, on: boolean) => (
+        <span
+            key={label}
+            className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${on
+                ? isDark ? 'bg-green-500/15 text-green-400' : 'bg-green-50 text-green-600'
+                : isDark ? 'bg-[#252525] text-[#555] line-through' : 'bg-gray-100 text-gray-400 line-through'
+                }`}
+        >
+            {label}
+        </span>
+    );
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <label className={`block text-sm font-medium ${isDark ? 'text-[#999]' : 'text-gray-700'}`}>Local Models</label>
+                <button
+                    onClick={handleDetect}
+                    disabled={detecting}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 ${isDark ? 'bg-[#252525] text-[#999] hover:text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                >
+                    {detecting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Radar className="w-3.5 h-3.5" />}
+                    Detect
+                </button>
+            </div>
+
+            {error && <p className="text-xs mb-2 text-red-400">{error}</p>}
+
+            {localModels.length === 0 ? (
+                <p className={`text-xs ${isDark ? 'text-[#555]' : 'text-gray-500'}`}>
+                    Scans localhost:11434 (Ollama), :8080 (llama.cpp) and :1234 (LM Studio).
+                </p>
+            ) : (
+                <div className={`rounded-lg border divide-y ${isDark ? 'border-[#333] divide-[#2a2a2a]' : 'border-gray-200 divide-gray-100'}`}>
+                    {localModels.map(model => (
+                        <div key={model.id} className="flex items-center gap-3 px-3 py-2">
+                            <div className="flex-1 min-w-0">
+                                <p className={`text-sm truncate ${isDark ? 'text-white' : 'text-gray-900'}`}>{model.name}</p>
+                                <div className="flex items-center gap-1.5 mt-1">
+                                    <span className={`text-[10px] ${isDark ? 'text-[#555]' : 'text-gray-400'}`}>
+                                        {Math.round(model.contextLimit / 1000)}k ctx
+                                    </span>
+                                    {model.probedAt ? (
+                                        <>
+                                            {badge('Tools', model.capabilities.tools)}
+                                            {badge('Vision', model.capabilities.images)}
+                                            {badge('Reasoning', model.capabilities.reasoning)}
+                                        </>
+                                    ) : (
+                                        <span className={`text-[10px] ${isDark ? 'text-[#555]' : 'text-gray-400'}`}>not probed</span>
+                                    )}
+                                </div>
+                            </div>
+                            <button
+                                onClick={() => handleProbe(model)}
+                                disabled={probing !== null}
+                                title="Probe capabilities"
+                                className={`p-1.5 rounded-lg transition-colors disabled:opacity-50 ${isDark ? 'text-[#666] hover:text-white' : 'text-gray-400 hover:text-gray-600'}`}
+                            >
+                                {probing === model.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <FlaskConical className="w-4 h-4" />}
+                            </button>
+                            {aiModel === model.id ? (
+                                <Check className="w-4 h-4 text-blue-500" />
+                            ) : (
+                                <button
+                                    onClick={() => handleUse(model)}
+                                    className="px-2.5 py-1 rounded-lg text-xs font-medium bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+                                >
+                                    Use
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
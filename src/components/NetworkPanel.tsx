@@ -0,0 +1,137 @@
+import { useState, useMemo, memo } from 'react';
+import { useStore } from '../store';
+import { Network, Trash2, ChevronRight, Search } from 'lucide-react';
+import { NetworkRequest, isFailedRequest } from '../lib/networkInspector';
+import { formatBytes } from '../lib/storage';
+
+const statusColor = (request: NetworkRequest) => {
+    if (request.state === 'pending') return 'text-[#666]';
+    if (isFailedRequest(request)) return 'text-red-400';
+    if (request.status !== undefined && request.status >= 300) return 'text-yellow-400';
+    return 'text-green-400';
+};
+
+// Same-origin requests show just the path — the preview's host is noise
+const displayUrl = (url: string) => {
+    try {
+        const parsed = new URL(url);
+        return parsed.origin === window.location.origin || parsed.hostname.includes('webcontainer')
+            ? parsed.pathname + parsed.search
+            : url;
+    } catch {
+        return url;
+    }
+};
+
+const RequestRow = memo(function RequestRow({ request, isDark }: { request: NetworkRequest; isDark: boolean }) {
+    const [expanded, setExpanded] = useState(false);
+    const time = new Date(request.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+    const outcome = request.state === 'pending' ? '…' : request.state === 'failed' ? 'ERR' : String(request.status);
+
+    return (
+        <div className={`border-b last:border-b-0 ${isDark ? 'border-[#1a1a1a]' : 'border-gray-100'}`}>
+            <div
+                onClick={() => setExpanded(!expanded)}
+                className={`flex items-center gap-2 px-3 py-1.5 cursor-pointer text-[11px] font-mono transition-colors ${isDark ? 'hover:bg-[#111]' : 'hover:bg-gray-50'}`}
+            >
+                <ChevronRight className={`w-3 h-3 flex-shrink-0 transition-transform ${expanded ? 'rotate-90' : ''} ${isDark ? 'text-[#444]' : 'text-gray-400'}`} />
+                <span className={`w-12 flex-shrink-0 ${isDark ? 'text-[#888]' : 'text-gray-500'}`}>{request.method}</span>
+                <span className={`w-9 flex-shrink-0 ${statusColor(request)}`}>{outcome}</span>
+                <span className={`flex-1 min-w-0 truncate ${isDark ? 'text-[#ccc]' : 'text-gray-700'}`} title={request.url}>
+                    {displayUrl(request.url)}
+                </span>
+                <span className={`w-28 flex-shrink-0 truncate ${isDark ? 'text-[#555]' : 'text-gray-400'}`}>
+                    {request.contentType?.split(';')[0] || ''}
+                </span>
+                <span className={`w-16 flex-shrink-0 text-right ${isDark ? 'text-[#555]' : 'text-gray-400'}`}>
+                    {request.size !== undefined ? formatBytes(request.size) : ''}
+                </span>
+                <span className={`w-14 flex-shrink-0 text-right ${isDark ? 'text-[#555]' : 'text-gray-400'}`}>
+                    {request.duration !== undefined ? `${Math.round(request.duration)}ms` : ''}
+                </span>
+            </div>
+
+            {expanded && (
+                <div className={`px-3 pb-2 ml-8 text-[11px] font-mono space-y-1 ${isDark ? 'text-[#666]' : 'text-gray-400'}`}>
+                    <p className="break-all">{request.url}</p>
+                    <p>
+                        {request.initiator} · started {time}
+                        {request.statusText ? ` · ${request.status} ${request.statusText}` : ''}
+                    </p>
+                    {request.error && <p className="text-red-400">{request.error}</p>}
+                </div>
+            )}
+        </div>
+    );
+});
+
+export function NetworkPanel() {
+    const networkRequests = useStore(s => s.networkRequests);
+    const clearNetworkRequests = useStore(s => s.clearNetworkRequests);
+    const theme = useStore(s => s.theme);
+    const isDark = theme === 'dark';
+    const [filter, setFilter] = useState('');
+    const [failedOnly, setFailedOnly] = useState(false);
+
+    const visible = useMemo(() => {
+        const query = filter.trim().toLowerCase();
+        return networkRequests
+            .filter(r => (!query || r.url.toLowerCase().includes(query) || r.method.toLowerCase() === query) && (!failedOnly || isFailedRequest(r)))
+            .reverse();
+    }, [networkRequests, filter, failedOnly]);
+
+    if (networkRequests.length === 0) {
+        return (
+            <div className={`h-full flex flex-col items-center justify-center gap-2 ${isDark ? 'text-[#333]' : 'text-gray-300'}`}>
+                <Network className="w-6 h-6" />
+                <p className="text-xs">No requests yet — fetch and XHR calls from the preview show up here</p>
+            </div>
+        );
+    }
+
+    const failedCount = networkRequests.filter(isFailedRequest).length;
+
+    return (
+        <div className="h-full flex flex-col">
+            {/* Header with filter */}
+            <div className={`flex items-center gap-2 px-3 py-1.5 border-b flex-shrink-0 ${isDark ? 'border-[#1a1a1a]' : 'border-gray-200'}`}>
+                <div className="relative flex-1 max-w-xs">
+                    <Search className={`absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 ${isDark ? 'text-[#444]' : 'text-gray-300'}`} />
+                    <input
+                        type="text"
+                        value={filter}
+                        onChange={(e) => setFilter(e.target.value)}
+                        placeholder="Filter by URL or method"
+                        className={`w-full pl-6 pr-2 py-0.5 rounded text-[11px] focus:outline-none ${isDark ? 'bg-[#111] text-[#ccc] placeholder-[#444]' : 'bg-gray-50 text-gray-700 placeholder-gray-300'}`}
+                    />
+                </div>
+                <button
+                    onClick={() => setFailedOnly(!failedOnly)}
+                    className={`px-2 py-0.5 rounded text-[11px] transition-colors ${failedOnly
+                        ? 'bg-red-500/20 text-red-400'
+                        : isDark ? 'text-[#555] hover:text-[#888]' : 'text-gray-400 hover:text-gray-600'
+                        }`}
+                >
+                    Failed{failedCount > 0 ? ` (${failedCount})` : ''}
+                </button>
+                <span className={`text-[11px] ml-auto ${isDark ? 'text-[#666]' : 'text-gray-400'}`}>
+                    {visible.length} of {networkRequests.length} request{networkRequests.length !== 1 ? 's' : ''}
+                </span>
+                <button
+                    onClick={clearNetworkRequests}
+                    className={`p-1 rounded transition-colors ${isDark ? 'text-[#444] hover:text-[#888] hover:bg-[#1a1a1a]' : 'text-gray-300 hover:text-gray-500 hover:bg-gray-100'}`}
+                    title="Clear requests"
+                >
+                    <Trash2 className="w-3 h-3" />
+                </button>
+            </div>
+
+            {/* Request list, newest first */}
+            <div className="flex-1 overflow-y-auto scrollbar-hide">
+                {visible.map((request) => (
+                    <RequestRow key={request.id} request={request} isDark={isDark} />
+                ))}
+            </div>
+        </div>
+    );
+}
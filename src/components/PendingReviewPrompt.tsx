@@ -0,0 +1,57 @@
+import { memo } from 'react';
+import { GitCompare } from 'lucide-react';
+import { useStore } from '../store';
+import { submitReview, cancelReview } from '../lib/review';
+import { countChangedLines } from '../lib/diff';
+
+// Staged agent edits, shown above the chat input so the run can be unblocked without the code view
+export const PendingReviewPrompt = memo(function PendingReviewPrompt({ isDark }: { isDark: boolean }) {
+    const patches = useStore(s => s.pendingPatches);
+    const requestReviewFocus = useStore(s => s.requestReviewFocus);
+
+    if (patches.length === 0) return null;
+
+    const acceptAll = () => submitReview(Object.fromEntries(patches.map(p => [p.path, p.hunks.map(h => h.id)])));
+
+    return (
+        <div className="px-4 pb-2">
+            <div className={`max-w-[720px] mx-auto rounded-xl text-[12px] py-2 px-3 border ${isDark ? 'bg-amber-500/5 border-amber-500/20' : 'bg-amber-50 border-amber-200'}`}>
+                <div className={`flex items-center gap-2 mb-1 font-medium ${isDark ? 'text-zinc-300' : 'text-gray-700'}`}>
+                    <GitCompare className="w-3.5 h-3.5 text-amber-500" />
+                    {patches.length} file{patches.length === 1 ? '' : 's'} waiting for your review
+                </div>
+                {patches.map(patch => {
+                    const { added, removed } = countChangedLines(patch.lines);
+                    return (
+                        <div key={patch.path} className={`flex items-center gap-2 py-0.5 ${isDark ? 'text-zinc-400' : 'text-gray-600'}`}>
+                            <span className="opacity-40 text-[10px]">{'›'}</span>
+                            <span className="font-mono truncate">{patch.path}</span>
+                            <span className="text-green-500 text-[11px]">+{added}</span>
+                            <span className="text-red-400 text-[11px]">-{removed}</span>
+                        </div>
+                    );
+                })}
+                <div className="flex items-center gap-2 mt-2">
+                    <button
+                        onClick={requestReviewFocus}
+                        className={`mr-auto text-[11px] underline-offset-2 hover:underline ${isDark ? 'text-zinc-500 hover:text-zinc-300' : 'text-gray-400 hover:text-gray-600'}`}
+                    >
+                        Review hunks in the editor
+                    </button>
+                    <button
+                        onClick={cancelReview}
+                        className={`px-2.5 py-1 rounded-md text-[12px] font-medium transition-colors ${isDark ? 'text-zinc-400 hover:text-white hover:bg-white/5' : 'text-gray-500 hover:text-gray-900 hover:bg-black/5'}`}
+                    >
+                        Reject all
+                    </button>
+                    <button
+                        onClick={acceptAll}
+                        className="px-2.5 py-1 rounded-md text-[12px] font-medium bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+                    >
+                        Accept all
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+});
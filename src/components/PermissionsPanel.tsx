@@ -0,0 +1,139 @@
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+import { useStore } from '../store';
+import { GUARDED_TOOLS, DEFAULT_TOOL_PERMISSIONS, PermissionMode, PermissionRule } from '../lib/permissions';
+
+const MODES: { id: PermissionMode; label: string }[] = [
+    { id: 'allow', label: 'Allow' },
+    { id: 'ask', label: 'Ask' },
+    { id: 'deny', label: 'Deny' },
+];
+
+// Settings → Permissions: default mode per tool plus path / command rules
+export function PermissionsPanel() {
+    const { theme, toolPermissions, setToolPermissions } = useStore();
+    const isDark = theme === 'dark';
+
+    const setMode = (tool: string, mode: PermissionMode) => {
+        setToolPermissions({ ...toolPermissions, modes: { ...toolPermissions.modes, [tool]: mode } });
+    };
+
+    const updateRule = (id: string, updates: Partial<PermissionRule>) => {
+        setToolPermissions({
+            ...toolPermissions,
+            rules: toolPermissions.rules.map(r => (r.id === id ? { ...r, ...updates } : r)),
+        });
+    };
+
+    const addRule = () => {
+        const rule: PermissionRule = { id: Math.random().toString(36).substring(7), tool: '*', pattern: '', mode: 'ask' };
+        setToolPermissions({ ...toolPermissions, rules: [...toolPermissions.rules, rule] });
+    };
+
+    const removeRule = (id: string) => {
+        setToolPermissions({ ...toolPermissions, rules: toolPermissions.rules.filter(r => r.id !== id) });
+    };
+
+    const modeButtons = (current: PermissionMode, onChange: (mode: PermissionMode) => void) => (
+        <div className={`flex rounded-lg p-0.5 ${isDark ? 'bg-[#141414]' : 'bg-gray-100'}`}>
+            {MODES.map(m => (
+                <button
+                    key={m.id}
+                    onClick={() => onChange(m.id)}
+                    className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${current === m.id
+                        ? m.id === 'deny' ? 'bg-red-500 text-white' : m.id === 'ask' ? 'bg-amber-500 text-white' : 'bg-blue-500 text-white'
+                        : isDark ? 'text-[#777] hover:text-white' : 'text-gray-500 hover:text-gray-900'
+                        }`}
+                >
+                    {m.label}
+                </button>
+            ))}
+        </div>
+    );
+
+    const fieldClass = `px-3 py-1.5 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${isDark
+        ? 'bg-[#141414] border border-[#333] text-white placeholder-[#444]'
+        : 'bg-white border border-gray-200 text-gray-900 placeholder-gray-400'
+        }`;
+
+    return (
+        <div className="space-y-8">
+            <div>
+                <h2 className={`text-xl font-semibold mb-1 ${isDark ? 'text-white' : 'text-gray-900'}`}>Tool Permissions</h2>
+                <p className={`text-sm ${isDark ? 'text-[#666]' : 'text-gray-500'}`}>
+                    Choose which agent actions run automatically, need your approval, or are blocked
+                </p>
+            </div>
+
+            <div>
+                <label className={`block text-sm font-medium mb-3 ${isDark ? 'text-[#999]' : 'text-gray-700'}`}>Default per tool</label>
+                <div className={`rounded-lg border divide-y ${isDark ? 'border-[#333] divide-[#2a2a2a]' : 'border-gray-200 divide-gray-100'}`}>
+                    {GUARDED_TOOLS.map(tool => (
+                        <div key={tool} className="flex items-center justify-between px-4 py-2.5">
+                            <span className={`text-sm font-mono ${isDark ? 'text-[#ccc]' : 'text-gray-800'}`}>{tool}</span>
+                            {modeButtons(toolPermissions.modes[tool] || 'allow', mode => setMode(tool, mode))}
+                        </div>
+                    ))}
+                </div>
+                <p className={`text-xs mt-1.5 ${isDark ? 'text-[#555]' : 'text-gray-500'}`}>Read-only tools (readFile, searchWeb, …) always run</p>
+            </div>
+
+            <div>
+                <div className="flex items-center justify-between mb-3">
+                    <label className={`block text-sm font-medium ${isDark ? 'text-[#999]' : 'text-gray-700'}`}>Rules</label>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setToolPermissions(DEFAULT_TOOL_PERMISSIONS)}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${isDark ? 'text-[#777] hover:text-white' : 'text-gray-500 hover:text-gray-900'}`}
+                        >
+                            <RotateCcw className="w-3.5 h-3.5" />
+                            Reset
+                        </button>
+                        <button
+                            onClick={addRule}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${isDark ? 'bg-[#252525] text-[#999] hover:text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                        >
+                            <Plus className="w-3.5 h-3.5" />
+                            Add rule
+                        </button>
+                    </div>
+                </div>
+
+                {toolPermissions.rules.length === 0 ? (
+                    <p className={`text-xs ${isDark ? 'text-[#555]' : 'text-gray-500'}`}>No rules — tool defaults apply.</p>
+                ) : (
+                    <div className="space-y-2">
+                        {toolPermissions.rules.map(rule => (
+                            <div key={rule.id} className="flex items-center gap-2">
+                                <select
+                                    value={rule.tool}
+                                    onChange={(e) => updateRule(rule.id, { tool: e.target.value })}
+                                    className={`${fieldClass} w-44`}
+                                >
+                                    <option value="*">All file tools</option>
+                                    {GUARDED_TOOLS.map(tool => <option key={tool} value={tool}>{tool}</option>)}
+                                </select>
+                                <input
+                                    type="text"
+                                    value={rule.pattern}
+                                    onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                                    placeholder={rule.tool === 'runCommand' ? 'Command prefix, e.g. pnpm add' : 'Glob, e.g. src/**'}
+                                    className={`${fieldClass} flex-1 font-mono`}
+                                />
+                                {modeButtons(rule.mode, mode => updateRule(rule.id, { mode }))}
+                                <button
+                                    onClick={() => removeRule(rule.id)}
+                                    className={`p-1.5 rounded-lg transition-colors ${isDark ? 'text-[#666] hover:text-red-400' : 'text-gray-400 hover:text-red-500'}`}
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <p className={`text-xs mt-2 ${isDark ? 'text-[#555]' : 'text-gray-500'}`}>
+                    Paths use globs (<code>**</code> any depth, <code>*</code> one segment); runCommand rules match the start of the command. When several rules match, the strictest wins.
+                </p>
+            </div>
+        </div>
+    );
+}
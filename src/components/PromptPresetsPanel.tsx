@@ -0,0 +1,203 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Plus, Trash2, RotateCcw, History, CopyPlus, Save } from 'lucide-react';
+import { useStore } from '../store';
+import { DEFAULT_SYSTEM_PROMPT, TEMPLATE_PLACEHOLDER, FILE_LIST_PLACEHOLDER } from '../lib/systemPrompts';
+import { DEFAULT_PRESET_ID, PromptPreset, createPromptPreset, savePresetContent } from '../lib/promptPresets';
+import { getTokenizer, loadTokenizer } from '../lib/tokenizer';
+
+// Settings → System Prompt: named presets of the agent's prompt, edited with a live token count
+export function PromptPresetsPanel() {
+    const { theme, aiModel, promptPresets, setPromptPresets, defaultPromptPreset, setDefaultPromptPreset } = useStore();
+    const isDark = theme === 'dark';
+
+    const [selectedId, setSelectedId] = useState(DEFAULT_PRESET_ID);
+    const selected = promptPresets.find(p => p.id === selectedId) || null;
+    const [name, setName] = useState('');
+    const [draft, setDraft] = useState(DEFAULT_SYSTEM_PROMPT);
+    const [showHistory, setShowHistory] = useState(false);
+    // Delete needs a second click, like restoring a checkpoint
+    const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+    // Counts with the current model's tokenizer once its tables are loaded
+    const [tokenizer, setTokenizer] = useState(() => getTokenizer(aiModel));
+    useEffect(() => {
+        loadTokenizer(aiModel).then(setTokenizer);
+    }, [aiModel]);
+    const tokenCount = useMemo(() => tokenizer.count(draft), [tokenizer, draft]);
+
+    useEffect(() => {
+        setName(selected?.name || '');
+        setDraft(selected?.content ?? DEFAULT_SYSTEM_PROMPT);
+        setShowHistory(false);
+        setConfirmingDelete(false);
+    }, [selectedId]);
+
+    const isDirty = !!selected && (draft !== selected.content || name.trim() !== selected.name);
+    const missingPlaceholders = [TEMPLATE_PLACEHOLDER, FILE_LIST_PLACEHOLDER].filter(p => !draft.includes(p));
+
+    const updatePreset = (updated: PromptPreset) => {
+        setPromptPresets(promptPresets.map(p => (p.id === updated.id ? updated : p)));
+    };
+
+    const addPreset = (content?: string) => {
+        const preset = createPromptPreset(`Preset ${promptPresets.length + 1}`, content);
+        setPromptPresets([...promptPresets, preset]);
+        setSelectedId(preset.id);
+    };
+
+    const handleSave = () => {
+        if (!selected) return;
+        updatePreset({ ...savePresetContent(selected, draft), name: name.trim() || selected.name });
+    };
+
+    const handleDelete = () => {
+        if (!selected) return;
+        if (!confirmingDelete) {
+            setConfirmingDelete(true);
+            return;
+        }
+        setPromptPresets(promptPresets.filter(p => p.id !== selected.id));
+        if (defaultPromptPreset === selected.id) setDefaultPromptPreset(DEFAULT_PRESET_ID);
+        setSelectedId(DEFAULT_PRESET_ID);
+    };
+
+    const fieldClass = `px-3 py-1.5 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${isDark
+        ? 'bg-[#141414] border border-[#333] text-white placeholder-[#444]'
+        : 'bg-white border border-gray-200 text-gray-900 placeholder-gray-400'
+        }`;
+    const ghostButton = `flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-30 ${isDark ? 'text-[#777] hover:text-white' : 'text-gray-500 hover:text-gray-900'}`;
+    const chipClass = (active: boolean) => `px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${active
+        ? 'bg-blue-500 text-white'
+        : isDark ? 'bg-[#252525] text-[#999] hover:text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+        }`;
+
+    return (
+        <div className="space-y-8">
+            <div>
+                <h2 className={`text-xl font-semibold mb-1 ${isDark ? 'text-white' : 'text-gray-900'}`}>System Prompt</h2>
+                <p className={`text-sm ${isDark ? 'text-[#666]' : 'text-gray-500'}`}>
+                    Presets change the agent's persona and rules. Each chat remembers its preset — switch it from the project menu
+                </p>
+            </div>
+
+            <div>
+                <label className={`block text-sm font-medium mb-2 ${isDark ? 'text-[#999]' : 'text-gray-700'}`}>Default for new chats</label>
+                <select
+                    value={promptPresets.some(p => p.id === defaultPromptPreset) ? defaultPromptPreset : DEFAULT_PRESET_ID}
+                    onChange={(e) => setDefaultPromptPreset(e.target.value)}
+                    className={`${fieldClass} w-64`}
+                >
+                    <option value={DEFAULT_PRESET_ID}>Built-in</option>
+                    {promptPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+            </div>
+
+            <div>
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                    <button onClick={() => setSelectedId(DEFAULT_PRESET_ID)} className={chipClass(!selected)}>Built-in</button>
+                    {promptPresets.map(p => (
+                        <button key={p.id} onClick={() => setSelectedId(p.id)} className={chipClass(selected?.id === p.id)}>
+                            {p.name}
+                        </button>
+                    ))}
+                    <button onClick={() => addPreset()} className={ghostButton}>
+                        <Plus className="w-3.5 h-3.5" />
+                        New preset
+                    </button>
+                </div>
+
+                {selected && (
+                    <div className="flex items-center gap-2 mb-3">
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="Preset name, e.g. strict TS"
+                            className={`${fieldClass} flex-1`}
+                        />
+                        <button
+                            onClick={handleDelete}
+                            title={confirmingDelete ? 'Click again to delete — chats using it switch to the built-in prompt' : 'Delete preset'}
+                            className={`p-1.5 rounded-lg transition-colors ${confirmingDelete ? 'text-red-400' : isDark ? 'text-[#666] hover:text-red-400' : 'text-gray-400 hover:text-red-500'}`}
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                )}
+
+                <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    readOnly={!selected}
+                    spellCheck={false}
+                    className={`${fieldClass} w-full h-[45vh] font-mono text-xs leading-relaxed resize-none custom-scrollbar ${!selected ? 'opacity-70' : ''}`}
+                />
+
+                <div className="flex items-center justify-between mt-2">
+                    <p className={`text-xs ${isDark ? 'text-[#555]' : 'text-gray-500'}`}>
+                        {tokenizer.exact ? '' : '≈ '}{tokenCount.toLocaleString()} tokens · {draft.length.toLocaleString()} characters
+                        {missingPlaceholders.length > 0 && (
+                            <span className="text-amber-500"> · {missingPlaceholders.join(' and ')} missing — added at the end</span>
+                        )}
+                    </p>
+                    <div className="relative flex items-center gap-1">
+                        {selected ? (
+                            <>
+                                <button
+                                    onClick={() => setShowHistory(!showHistory)}
+                                    disabled={selected.versions.length === 0}
+                                    className={ghostButton}
+                                >
+                                    <History className="w-3.5 h-3.5" />
+                                    History ({selected.versions.length})
+                                </button>
+                                <button
+                                    onClick={() => setDraft(DEFAULT_SYSTEM_PROMPT)}
+                                    disabled={draft === DEFAULT_SYSTEM_PROMPT}
+                                    className={ghostButton}
+                                >
+                                    <RotateCcw className="w-3.5 h-3.5" />
+                                    Reset to built-in
+                                </button>
+                                <button
+                                    onClick={handleSave}
+                                    disabled={!isDirty}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 transition-colors"
+                                >
+                                    <Save className="w-3.5 h-3.5" />
+                                    Save
+                                </button>
+                            </>
+                        ) : (
+                            <button onClick={() => addPreset(DEFAULT_SYSTEM_PROMPT)} className={ghostButton}>
+                                <CopyPlus className="w-3.5 h-3.5" />
+                                Duplicate as preset
+                            </button>
+                        )}
+
+                        {showHistory && selected && (
+                            <div className={`absolute bottom-full right-0 mb-1 w-72 max-h-64 overflow-y-auto custom-scrollbar rounded-lg z-10 p-1 ${isDark ? 'bg-[#1a1a1a] border border-[#2a2a2a]' : 'bg-white border border-gray-200 shadow-lg'}`}>
+                                {selected.versions.map((version, i) => (
+                                    <button
+                                        key={version.savedAt + i}
+                                        onClick={() => { setDraft(version.content); setShowHistory(false); }}
+                                        className={`w-full text-left px-2.5 py-1.5 rounded text-xs ${isDark ? 'text-[#ccc] hover:bg-[#252525]' : 'text-gray-700 hover:bg-gray-50'}`}
+                                    >
+                                        <div>v{selected.versions.length - i} · {new Date(version.savedAt).toLocaleString()}</div>
+                                        <div className={`text-[11px] ${isDark ? 'text-[#555]' : 'text-gray-400'}`}>
+                                            {tokenizer.count(version.content).toLocaleString()} tokens — click to load, then Save to restore
+                                        </div>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+                <p className={`text-xs mt-3 ${isDark ? 'text-[#555]' : 'text-gray-500'}`}>
+                    <code>{TEMPLATE_PLACEHOLDER}</code> becomes the chat's template description and <code>{FILE_LIST_PLACEHOLDER}</code> the project's file list.
+                    Project instructions from <code>.glovix/instructions.md</code> are appended after the preset.
+                </p>
+            </div>
+        </div>
+    );
+}
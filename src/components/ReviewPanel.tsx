@@ -0,0 +1,185 @@
+import { useState, useEffect, useRef } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import type { editor } from 'monaco-editor';
+import { Check, X, FilePlus, FileDiff, GitCompare } from 'lucide-react';
+import { useStore } from '../store';
+import { PendingPatch, submitReview, cancelReview } from '../lib/review';
+import { countChangedLines, formatHunkHeader } from '../lib/diff';
+import { getLanguage } from '../lib/editorProject';
+import { defineEditorTheme } from './CodeEditor';
+
+// Accepted hunk ids per path; everything starts accepted
+function acceptAll(patches: PendingPatch[]): Record<string, Set<number>> {
+    return Object.fromEntries(patches.map(p => [p.path, new Set(p.hunks.map(h => h.id))]));
+}
+
+// Review mode: staged agent edits in a diff editor, accepted / rejected per file or per hunk
+export function ReviewPanel() {
+    const patches = useStore(s => s.pendingPatches);
+    const theme = useStore(s => s.theme);
+    const isDark = theme === 'dark';
+
+    const [accepted, setAccepted] = useState(() => acceptAll(patches));
+    const [selectedPath, setSelectedPath] = useState<string | null>(patches[0]?.path ?? null);
+    const diffEditorRef = useRef<editor.IStandaloneDiffEditor | null>(null);
+
+    // A new review replaces the previous one
+    useEffect(() => {
+        setAccepted(acceptAll(patches));
+        setSelectedPath(patches[0]?.path ?? null);
+    }, [patches]);
+
+    const selected = patches.find(p => p.path === selectedPath) || patches[0] || null;
+
+    const setHunk = (path: string, id: number, accept: boolean) => {
+        setAccepted(prev => {
+            const next = new Set(prev[path]);
+            if (accept) next.add(id);
+            else next.delete(id);
+            return { ...prev, [path]: next };
+        });
+    };
+
+    const setFile = (patch: PendingPatch, accept: boolean) => {
+        setAccepted(prev => ({ ...prev, [patch.path]: new Set(accept ? patch.hunks.map(h => h.id) : []) }));
+    };
+
+    const revealLine = (line: number) => {
+        diffEditorRef.current?.getModifiedEditor().revealLineInCenter(line);
+    };
+
+    const handleApply = () => {
+        submitReview(Object.fromEntries(
+            Object.entries(accepted).filter(([, ids]) => ids.size > 0).map(([path, ids]) => [path, [...ids]])
+        ));
+    };
+
+    if (!selected) return null;
+
+    const acceptedFiles = patches.filter(p => (accepted[p.path]?.size ?? 0) > 0).length;
+    const toggleClass = (active: boolean, tone: 'accept' | 'reject') => `p-1 rounded-md transition-colors ${active
+        ? tone === 'accept' ? 'bg-emerald-500/20 text-emerald-500' : 'bg-red-500/20 text-red-400'
+        : isDark ? 'text-[#555] hover:text-[#999]' : 'text-gray-300 hover:text-gray-500'
+        }`;
+
+    return (
+        <div className="flex-1 flex flex-col min-w-0">
+            <div className={`h-9 flex items-center justify-between px-3 border-b text-xs ${isDark ? 'border-[#1f1f1f]' : 'border-gray-200'}`}>
+                <div className="flex items-center gap-2">
+                    <GitCompare className="w-3.5 h-3.5 text-amber-500" />
+                    <span className={`font-medium ${isDark ? 'text-[#ccc]' : 'text-gray-700'}`}>Review changes</span>
+                    <span className={isDark ? 'text-[#555]' : 'text-gray-400'}>
+                        {acceptedFiles}/{patches.length} file{patches.length === 1 ? '' : 's'} accepted
+                    </span>
+                </div>
+                <div className="flex items-center gap-1.5">
+                    <button
+                        onClick={cancelReview}
+                        className={`px-3 py-1 rounded-md font-medium transition-colors ${isDark ? 'text-[#999] hover:text-white hover:bg-[#1f1f1f]' : 'text-gray-500 hover:text-gray-900 hover:bg-gray-100'}`}
+                    >
+                        Reject all
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        className="px-3 py-1 rounded-md font-medium bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+                    >
+                        Apply review
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-1 flex overflow-hidden">
+                {/* Files and hunks */}
+                <div className={`w-64 shrink-0 overflow-y-auto custom-scrollbar border-r py-1 ${isDark ? 'border-[#1f1f1f]' : 'border-gray-200'}`}>
+                    {patches.map(patch => {
+                        const ids = accepted[patch.path] ?? new Set<number>();
+                        const stats = countChangedLines(patch.lines);
+                        const isSelected = patch.path === selected.path;
+                        return (
+                            <div key={patch.path} className="mb-1">
+                                <div
+                                    onClick={() => setSelectedPath(patch.path)}
+                                    className={`flex items-center gap-2 px-3 py-1.5 text-xs cursor-pointer transition-colors ${isSelected
+                                        ? isDark ? 'bg-[#252525] text-white' : 'bg-gray-100 text-gray-900'
+                                        : isDark ? 'text-[#999] hover:bg-[#1f1f1f]' : 'text-gray-600 hover:bg-gray-50'
+                                        }`}
+                                >
+                                    {patch.before === null
+                                        ? <FilePlus className="w-3.5 h-3.5 text-emerald-500 flex-shrink-0" />
+                                        : <FileDiff className="w-3.5 h-3.5 text-amber-500 flex-shrink-0" />}
+                                    <span className={`font-mono truncate flex-1 ${ids.size === 0 ? 'line-through opacity-50' : ''}`}>{patch.path}</span>
+                                    <span className="tabular-nums flex-shrink-0">
+                                        <span className="text-emerald-500">+{stats.added}</span>{' '}
+                                        <span className="text-red-400">-{stats.removed}</span>
+                                    </span>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); setFile(patch, true); }}
+                                        className={toggleClass(ids.size === patch.hunks.length, 'accept')}
+                                        title="Accept file"
+                                    >
+                                        <Check className="w-3 h-3" />
+                                    </button>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); setFile(patch, false); }}
+                                        className={toggleClass(ids.size === 0, 'reject')}
+                                        title="Reject file"
+                                    >
+                                        <X className="w-3 h-3" />
+                                    </button>
+                                </div>
+
+                                {isSelected && patch.hunks.length > 1 && patch.hunks.map(hunk => (
+                                    <div
+                                        key={hunk.id}
+                                        onClick={() => revealLine(hunk.newStart)}
+                                        className={`flex items-center gap-2 pl-8 pr-3 py-1 text-[11px] cursor-pointer ${isDark ? 'text-[#777] hover:bg-[#1a1a1a]' : 'text-gray-500 hover:bg-gray-50'}`}
+                                    >
+                                        <span className={`font-mono flex-1 truncate ${ids.has(hunk.id) ? '' : 'line-through opacity-50'}`}>{formatHunkHeader(hunk)}</span>
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); setHunk(patch.path, hunk.id, true); }}
+                                            className={toggleClass(ids.has(hunk.id), 'accept')}
+                                            title="Accept hunk"
+                                        >
+                                            <Check className="w-3 h-3" />
+                                        </button>
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); setHunk(patch.path, hunk.id, false); }}
+                                            className={toggleClass(!ids.has(hunk.id), 'reject')}
+                                            title="Reject hunk"
+                                        >
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* Proposed change */}
+                <div className="flex-1 min-w-0">
+                    <DiffEditor
+                        height="100%"
+                        language={getLanguage(selected.path)}
+                        original={selected.before ?? ''}
+                        modified={selected.after}
+                        theme={isDark ? 'glovix-dark' : 'light'}
+                        beforeMount={defineEditorTheme}
+                        onMount={(diffEditor) => { diffEditorRef.current = diffEditor; }}
+                        options={{
+                            readOnly: true,
+                            originalEditable: false,
+                            renderSideBySide: true,
+                            minimap: { enabled: false },
+                            fontSize: 13,
+                            lineHeight: 20,
+                            scrollBeyondLastLine: false,
+                            automaticLayout: true,
+                            fontFamily: 'Menlo, Monaco, "Courier New", monospace',
+                        }}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+}
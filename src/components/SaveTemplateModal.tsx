@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { X, LayoutTemplate, Loader2 } from 'lucide-react';
+import { useStore } from '../store';
+import { getChatTemplate, listCustomTemplates, saveProjectAsTemplate } from '../lib/customTemplates';
+
+interface SaveTemplateModalProps {
+    onClose: () => void;
+}
+
+// Project menu → "Save as template": store the current files so new chats can start from them
+export function SaveTemplateModal({ onClose }: SaveTemplateModalProps) {
+    const theme = useStore(s => s.theme);
+    const currentChatId = useStore(s => s.currentChatId);
+    const chats = useStore(s => s.chats);
+    const isDark = theme === 'dark';
+
+    const [name, setName] = useState(() => chats.find(c => c.id === currentChatId)?.title || '');
+    const [description, setDescription] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleSave = async () => {
+        if (!name.trim() || saving) return;
+        setSaving(true);
+        setError('');
+        try {
+            const state = useStore.getState();
+            const base = await getChatTemplate(currentChatId);
+            const template = await saveProjectAsTemplate(name, description, state.files, base);
+            state.setCustomTemplates(await listCustomTemplates());
+            state.setProjectTemplate(template.id);
+            onClose();
+        } catch (e: any) {
+            console.error('[Templates] Save failed:', e);
+            setError(e.message || 'Failed to save template');
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+            <div
+                onClick={e => e.stopPropagation()}
+                className={`w-full max-w-md overflow-hidden rounded-xl ${isDark ? 'bg-[#1a1a1a]' : 'bg-white'}`}
+            >
+                <div className={`flex items-center justify-between px-6 py-4 border-b ${isDark ? 'border-[#2a2a2a]' : 'border-gray-200'}`}>
+                    <div className="flex items-center gap-2">
+                        <LayoutTemplate className={`w-4 h-4 ${isDark ? 'text-[#888]' : 'text-gray-500'}`} />
+                        <h2 className={`text-sm font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>Save as template</h2>
+                    </div>
+                    <button onClick={onClose} className={`p-1 rounded-lg ${isDark ? 'text-[#666] hover:text-white hover:bg-[#252525]' : 'text-gray-400 hover:text-gray-900 hover:bg-gray-100'}`}>
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <div className="px-6 py-5 space-y-4">
+                    <p className={`text-xs ${isDark ? 'text-[#666]' : 'text-gray-500'}`}>
+                        The project's files are saved in this browser. Pick the template on the home page to start new chats from it.
+                    </p>
+                    <div>
+                        <label className={`block text-xs font-medium mb-1.5 ${isDark ? 'text-[#999]' : 'text-gray-600'}`}>Name</label>
+                        <input
+                            autoFocus
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                            className={`w-full px-3 py-2 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${isDark ? 'bg-[#252525] text-white' : 'bg-gray-100 text-gray-900'}`}
+                        />
+                    </div>
+                    <div>
+                        <label className={`block text-xs font-medium mb-1.5 ${isDark ? 'text-[#999]' : 'text-gray-600'}`}>Description</label>
+                        <textarea
+                            value={description}
+                            onChange={(e) => setDescription(e.target.value)}
+                            rows={3}
+                            placeholder="What's set up: lint rules, design tokens, components…"
+                            className={`w-full px-3 py-2 rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${isDark ? 'bg-[#252525] text-white placeholder:text-[#555]' : 'bg-gray-100 text-gray-900 placeholder:text-gray-400'}`}
+                        />
+                        <p className={`text-[11px] mt-1 ${isDark ? 'text-[#555]' : 'text-gray-400'}`}>Also given to the agent in chats started from this template.</p>
+                    </div>
+                    {error && <p className="text-xs text-red-400">{error}</p>}
+                </div>
+
+                <div className={`flex justify-end gap-2 px-6 py-4 border-t ${isDark ? 'border-[#2a2a2a]' : 'border-gray-200'}`}>
+                    <button
+                        onClick={onClose}
+                        className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${isDark ? 'text-[#999] hover:text-white hover:bg-[#252525]' : 'text-gray-600 hover:bg-gray-100'}`}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!name.trim() || saving}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 transition-colors"
+                    >
+                        {saving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                        Save template
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Globe, KeyRound, Loader2, Check, AlertCircle } from 'lucide-react';
+import { useStore } from '../store';
+import { SEARCH_PROVIDERS, SearchProviderId, isSearchProviderId, resolveSearchBackend } from '../lib/searchProviders';
+
+// Settings → Web Search: which backend answers the searchWeb and extractPage tools
+export function SearchProvidersPanel() {
+    const {
+        theme,
+        searchProvider, setSearchProvider,
+        searchApiKey, setSearchApiKey,
+        searchBaseUrl, setSearchBaseUrl,
+    } = useStore();
+    const isDark = theme === 'dark';
+    const providerId: SearchProviderId = isSearchProviderId(searchProvider) ? searchProvider : 'tavily';
+    const provider = SEARCH_PROVIDERS[providerId];
+
+    const [testState, setTestState] = useState<{ status: 'idle' | 'running' | 'ok' | 'error'; message?: string }>({ status: 'idle' });
+
+    // Keys and URLs belong to one provider — don't send them to the next
+    const handleProviderChange = (id: SearchProviderId) => {
+        if (id === providerId) return;
+        setSearchProvider(id);
+        setSearchApiKey('');
+        setSearchBaseUrl('');
+        setTestState({ status: 'idle' });
+    };
+
+    const handleTest = async () => {
+        setTestState({ status: 'running' });
+        try {
+            const backend = resolveSearchBackend();
+            const data = await backend.search('vite react typescript', { maxResults: 3 });
+            setTestState({ status: 'ok', message: `${backend.name} returned ${data.results.length} result${data.results.length === 1 ? '' : 's'}` });
+        } catch (e: any) {
+            setTestState({ status: 'error', message: e.message || 'Search failed' });
+        }
+    };
+
+    const inputClass = `w-full pl-10 pr-4 py-2.5 rounded-lg text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${isDark
+        ? 'bg-[#141414] border border-[#333] text-white placeholder-[#444] focus:border-blue-500'
+        : 'bg-white border border-gray-200 text-gray-900 placeholder-gray-400 focus:border-blue-500'
+        }`;
+    const labelClass = `block text-sm font-medium mb-2 ${isDark ? 'text-[#999]' : 'text-gray-700'}`;
+    const iconClass = `absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 ${isDark ? 'text-[#555]' : 'text-gray-400'}`;
+    const hintClass = `text-xs mt-1.5 ${isDark ? 'text-[#555]' : 'text-gray-500'}`;
+
+    return (
+        <div className="space-y-8">
+            <div>
+                <h2 className={`text-xl font-semibold mb-1 ${isDark ? 'text-white' : 'text-gray-900'}`}>Web Search</h2>
+                <p className={`text-sm ${isDark ? 'text-[#666]' : 'text-gray-500'}`}>Choose the backend for the agent's searchWeb and extractPage tools</p>
+            </div>
+
+            <div className="space-y-6">
+                <div>
+                    <label className={labelClass}>Provider</label>
+                    <div className="flex flex-wrap gap-3">
+                        {Object.values(SEARCH_PROVIDERS).map(p => (
+                            <button
+                                key={p.id}
+                                onClick={() => handleProviderChange(p.id)}
+                                className={`px-5 py-2.5 rounded-lg text-sm font-medium transition-colors ${providerId === p.id
+                                    ? 'bg-blue-500 text-white'
+                                    : isDark ? 'bg-[#252525] text-[#999] hover:text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                    }`}
+                            >
+                                {p.name}
+                            </button>
+                        ))}
+                    </div>
+                    <p className={hintClass}>{provider.description}</p>
+                </div>
+
+                {provider.configurable && (
+                    <div>
+                        <label className={labelClass}>Base URL</label>
+                        <div className="relative">
+                            <Globe className={iconClass} />
+                            <input
+                                type="text"
+                                value={searchBaseUrl}
+                                onChange={(e) => setSearchBaseUrl(e.target.value)}
+                                placeholder={provider.defaultBaseUrl}
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+                )}
+
+                {providerId !== 'fixture' && providerId !== 'searxng' && (
+                    <div>
+                        <label className={labelClass}>API Key</label>
+                        <div className="relative">
+                            <KeyRound className={iconClass} />
+                            <input
+                                type="password"
+                                value={searchApiKey}
+                                onChange={(e) => setSearchApiKey(e.target.value)}
+                                placeholder={!provider.requiresApiKey ? 'Optional' : providerId === 'tavily' ? 'Uses VITE_TAVILY_API_KEY when set' : ''}
+                                autoComplete="off"
+                                className={inputClass}
+                            />
+                        </div>
+                        <p className={hintClass}>Stored in this browser's localStorage only</p>
+                    </div>
+                )}
+
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={handleTest}
+                        disabled={testState.status === 'running'}
+                        className={`flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${isDark ? 'bg-[#252525] text-[#999] hover:text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                    >
+                        {testState.status === 'running' && <Loader2 className="w-4 h-4 animate-spin" />}
+                        Test search
+                    </button>
+                    {testState.status === 'ok' && (
+                        <span className="flex items-center gap-1.5 text-xs text-green-500"><Check className="w-3.5 h-3.5" />{testState.message}</span>
+                    )}
+                    {testState.status === 'error' && (
+                        <span className="flex items-center gap-1.5 text-xs text-red-400"><AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />{testState.message}</span>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,21 +1,8 @@
-import { ExternalLink, Image as ImageIcon } from 'lucide-react';
-
-interface SearchResult {
-    title: string;
-    url: string;
-    content: string;
-    score?: number;
-}
-
-interface SearchData {
-    query?: string;
-    answer?: string;
-    results?: SearchResult[];
-    images?: Array<{ url: string; description?: string }>;
-}
+import { Image as ImageIcon } from 'lucide-react';
+import { SearchResponse } from '../lib/webSearch';
 
 interface SearchResultsBlockProps {
-    data: SearchData;
+    data: SearchResponse;
     isDark: boolean;
 }
 
@@ -65,7 +52,8 @@ export function SearchResultsBlock({ data, isDark }: SearchResultsBlockProps) {
                                 }`}
                             >
                                 <div className="flex items-start gap-2">
-                                    <ExternalLink className={`w-4 h-4 mt-0.5 flex-shrink-0 ${isDark ? 'text-gray-500' : 'text-gray-400'}`} />
+                                    {/* Same numbers the model cites as [n] */}
+                                    <span className={`text-xs font-mono mt-0.5 flex-shrink-0 ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>[{idx + 1}]</span>
                                     <div className="flex-1 min-w-0">
                                         <h4 className={`text-sm font-medium mb-1 ${isDark ? 'text-blue-400' : 'text-blue-600'}`}>
                                             {result.title}
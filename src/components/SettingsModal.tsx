@@ -1,22 +1,64 @@
 import { useState, useEffect } from 'react';
-import { X, Settings, Cpu, Box } from 'lucide-react';
+import { X, Settings, Cpu, Box, Globe, KeyRound, ShieldCheck, MessageSquareText, Search } from 'lucide-react';
 import { useStore } from '../store';
+import { AI_PROVIDERS, AIProviderId, isProviderId } from '../lib/providers';
+import { LocalModelsPanel } from './LocalModelsPanel';
+import { PermissionsPanel } from './PermissionsPanel';
+import { PromptPresetsPanel } from './PromptPresetsPanel';
+import { SearchProvidersPanel } from './SearchProvidersPanel';
+import { StorageUsagePanel } from './StorageUsagePanel';
 
 interface SettingsModalProps {
     onClose: () => void;
 }
 
-type Tab = 'general' | 'providers';
+type Tab = 'general' | 'providers' | 'prompt' | 'search' | 'permissions';
 
 export function SettingsModal({ onClose }: SettingsModalProps) {
     const {
         user, theme, setTheme,
-        modelContextLimit, setModelContextLimit
+        modelContextLimit, setModelContextLimit,
+        aiProvider, setAiProvider,
+        aiApiKey, setAiApiKey,
+        aiBaseUrl, setAiBaseUrl,
+        aiModel, setAiModel
     } = useStore();
     const [activeTab, setActiveTab] = useState<Tab>('general');
     const [contextLimitInput, setContextLimitInput] = useState(String(modelContextLimit));
 
+    // Picking a known model updates the limit from the registry
+    useEffect(() => {
+        setContextLimitInput(String(modelContextLimit));
+    }, [modelContextLimit]);
+
     const isDark = theme === 'dark';
+    const providerId: AIProviderId = isProviderId(aiProvider) ? aiProvider : 'glovix';
+    const provider = AI_PROVIDERS[providerId];
+
+    const inputClass = `w-full pl-10 pr-4 py-2.5 rounded-lg text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${isDark
+        ? 'bg-[#141414] border border-[#333] text-white placeholder-[#444] focus:border-blue-500'
+        : 'bg-white border border-gray-200 text-gray-900 placeholder-gray-400 focus:border-blue-500'
+        }`;
+    const labelClass = `block text-sm font-medium mb-2 ${isDark ? 'text-[#999]' : 'text-gray-700'}`;
+    const iconClass = `absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 ${isDark ? 'text-[#555]' : 'text-gray-400'}`;
+    const hintClass = `text-xs mt-1.5 ${isDark ? 'text-[#555]' : 'text-gray-500'}`;
+
+    const handleProviderChange = (id: AIProviderId) => {
+        setAiProvider(id);
+        // Prefill defaults when switching to a provider the user hasn't configured yet
+        const next = AI_PROVIDERS[id];
+        if (next.configurable) {
+            if (!aiBaseUrl || Object.values(AI_PROVIDERS).some(p => p.defaultBaseUrl === aiBaseUrl)) {
+                setAiBaseUrl(next.defaultBaseUrl);
+            }
+            if (!aiModel || Object.values(AI_PROVIDERS).some(p => p.defaultModel === aiModel)) {
+                setAiModel(next.defaultModel);
+            }
+        } else {
+            // The model can't be edited here — don't carry another provider's model over to the proxy
+            setAiModel(next.defaultModel);
+        }
+    };
 
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -31,6 +73,9 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
     const tabs = [
         { id: 'general' as Tab, label: 'General', icon: Settings },
         { id: 'providers' as Tab, label: 'AI Model', icon: Cpu },
+        { id: 'prompt' as Tab, label: 'System Prompt', icon: MessageSquareText },
+        { id: 'search' as Tab, label: 'Web Search', icon: Search },
+        { id: 'permissions' as Tab, label: 'Permissions', icon: ShieldCheck },
     ];
 
     return (
@@ -109,6 +154,8 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
                                         </div>
                                     </div>
                                 </div>
+
+                                <StorageUsagePanel />
                             </div>
                         )}
 
@@ -121,7 +168,80 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
 
                                 <div className="space-y-6">
                                     <div>
-                                        <label className={`block text-sm font-medium mb-2 ${isDark ? 'text-[#999]' : 'text-gray-700'}`}>
+                                        <label className={labelClass}>Provider</label>
+                                        <div className="flex flex-wrap gap-3">
+                                            {Object.values(AI_PROVIDERS).map(p => (
+                                                <button
+                                                    key={p.id}
+                                                    onClick={() => handleProviderChange(p.id)}
+                                                    className={`px-5 py-2.5 rounded-lg text-sm font-medium transition-colors ${providerId === p.id
+                                                        ? 'bg-blue-500 text-white'
+                                                        : isDark ? 'bg-[#252525] text-[#999] hover:text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                                        }`}
+                                                >
+                                                    {p.name}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <p className={hintClass}>{provider.description}</p>
+                                    </div>
+
+                                    {provider.configurable && (
+                                        <div>
+                                            <label className={labelClass}>Base URL</label>
+                                            <div className="relative">
+                                                <Globe className={iconClass} />
+                                                <input
+                                                    type="text"
+                                                    value={aiBaseUrl}
+                                                    onChange={(e) => setAiBaseUrl(e.target.value)}
+                                                    placeholder={provider.defaultBaseUrl}
+                                                    className={inputClass}
+                                                />
+                                            </div>
+                                            <p className={hintClass}>
+                                                Requests are sent to {'{base URL}'}{provider.format === 'anthropic' ? '/messages' : '/chat/completions'} directly from the browser
+                                            </p>
+                                        </div>
+                                    )}
+
+                                    <div>
+                                        <label className={labelClass}>API Key</label>
+                                        <div className="relative">
+                                            <KeyRound className={iconClass} />
+                                            <input
+                                                type="password"
+                                                value={aiApiKey}
+                                                onChange={(e) => setAiApiKey(e.target.value)}
+                                                placeholder={!provider.requiresApiKey ? 'Optional' : provider.configurable ? 'sk-...' : 'Uses VITE_AI_API_KEY when set'}
+                                                autoComplete="off"
+                                                className={inputClass}
+                                            />
+                                        </div>
+                                        <p className={hintClass}>Stored in this browser's localStorage only</p>
+                                    </div>
+
+                                    <div>
+                                        <label className={labelClass}>Model</label>
+                                        <div className="relative">
+                                            <Cpu className={iconClass} />
+                                            <input
+                                                type="text"
+                                                value={aiModel}
+                                                onChange={(e) => setAiModel(e.target.value)}
+                                                placeholder={provider.defaultModel}
+                                                className={inputClass}
+                                            />
+                                        </div>
+                                        {!provider.configurable && (
+                                            <p className={hintClass}>VITE_AI_MODEL takes precedence when set</p>
+                                        )}
+                                    </div>
+
+                                    {providerId === 'local' && <LocalModelsPanel />}
+
+                                    <div>
+                                        <label className={labelClass}>
                                             Model Context Limit (tokens)
                                         </label>
                                         <div className="relative">
@@ -146,12 +266,18 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
                                             />
                                         </div>
                                         <p className={`text-xs mt-1.5 ${isDark ? 'text-[#555]' : 'text-gray-500'}`}>
-                                            Maximum context window for the AI model. Common values: GPT-4 (128k), Claude (200k), Gemini (1M+)
+                                            Maximum context window for the AI model. Filled in automatically for known and detected models; override it here if needed
                                         </p>
                                     </div>
                                 </div>
                             </div>
                         )}
+
+                        {activeTab === 'prompt' && <PromptPresetsPanel />}
+
+                        {activeTab === 'search' && <SearchProvidersPanel />}
+
+                        {activeTab === 'permissions' && <PermissionsPanel />}
                     </div>
                 </div>
             </div>
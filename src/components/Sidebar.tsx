@@ -15,7 +15,7 @@ interface SidebarProps {
 
 export function Sidebar({ onClose }: SidebarProps) {
     const navigate = useNavigate();
-    const { user, currentChatId, setCurrentChatId, setMessages, setFiles, theme, setTheme, chats, setChats } = useStore();
+    const { user, currentChatId, setCurrentChatId, setMessages, loadFiles, theme, setTheme, chats, setChats } = useStore();
     const [loading, setLoading] = useState(chats.length === 0);
     const [showSettings, setShowSettings] = useState(false);
     const [recentExpanded, setRecentExpanded] = useState(true);
@@ -57,7 +57,7 @@ export function Sidebar({ onClose }: SidebarProps) {
     const handleNewChat = () => {
         setCurrentChatId(null);
         setMessages([]);
-        setFiles({});
+        loadFiles({});
         navigate('/');
         onClose?.();
     };
@@ -75,7 +75,7 @@ export function Sidebar({ onClose }: SidebarProps) {
             if (currentChatId === chatId) {
                 setCurrentChatId(null);
                 setMessages([]);
-                setFiles({});
+                loadFiles({});
                 navigate('/');
             }
         } catch { }
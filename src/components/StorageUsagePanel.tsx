@@ -0,0 +1,69 @@
+import { useState, useEffect } from 'react';
+import { HardDrive, Lock } from 'lucide-react';
+import { useStore } from '../store';
+import { StorageUsage, getStorageUsage, requestPersistentStorage, formatBytes } from '../lib/storage';
+
+// Settings → General: how much browser storage chats and projects take up
+export function StorageUsagePanel() {
+    const theme = useStore(s => s.theme);
+    const isDark = theme === 'dark';
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+    const [loaded, setLoaded] = useState(false);
+
+    const refresh = () => getStorageUsage().then(u => {
+        setUsage(u);
+        setLoaded(true);
+    });
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const handlePersist = async () => {
+        const granted = await requestPersistentStorage();
+        console.log(`[Storage] Persistent storage ${granted ? 'granted' : 'denied'}`);
+        refresh();
+    };
+
+    const percent = usage && usage.quota > 0 ? Math.min(100, (usage.usage / usage.quota) * 100) : 0;
+
+    return (
+        <div>
+            <h2 className={`text-xl font-semibold mb-1 ${isDark ? 'text-white' : 'text-gray-900'}`}>Storage</h2>
+            <p className={`text-sm mb-6 ${isDark ? 'text-[#666]' : 'text-gray-500'}`}>Chats and projects are stored in this browser</p>
+
+            {!loaded ? null : !usage ? (
+                <p className={`text-xs ${isDark ? 'text-[#555]' : 'text-gray-500'}`}>This browser does not report storage usage.</p>
+            ) : (
+                <div className="space-y-3">
+                    <div className="flex items-center gap-2 text-sm">
+                        <HardDrive className={`w-4 h-4 ${isDark ? 'text-[#555]' : 'text-gray-400'}`} />
+                        <span className={isDark ? 'text-[#ccc]' : 'text-gray-800'}>
+                            {formatBytes(usage.usage)} of {formatBytes(usage.quota)} used
+                        </span>
+                        <span className={`text-xs ${isDark ? 'text-[#555]' : 'text-gray-400'}`}>({percent.toFixed(1)}%)</span>
+                    </div>
+                    <div className={`h-1.5 rounded-full overflow-hidden ${isDark ? 'bg-[#252525]' : 'bg-gray-100'}`}>
+                        <div
+                            className={`h-full rounded-full ${percent > 90 ? 'bg-red-500' : percent > 70 ? 'bg-amber-500' : 'bg-blue-500'}`}
+                            style={{ width: `${percent}%` }}
+                        />
+                    </div>
+                    {usage.persisted ? (
+                        <p className={`flex items-center gap-1.5 text-xs ${isDark ? 'text-[#555]' : 'text-gray-500'}`}>
+                            <Lock className="w-3 h-3" />
+                            Persistent — the browser won't clear this data to free up space
+                        </p>
+                    ) : (
+                        <button
+                            onClick={handlePersist}
+                            className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${isDark ? 'bg-[#252525] text-[#999] hover:text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                        >
+                            Keep data persistent
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
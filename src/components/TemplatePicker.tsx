@@ -0,0 +1,160 @@
+import { useState, useEffect, useRef } from 'react';
+import { LayoutTemplate, ChevronDown, Check, Trash2, Download, Upload } from 'lucide-react';
+import { useStore } from '../store';
+import { PROJECT_TEMPLATES, ProjectTemplate, getTemplate, DEFAULT_TEMPLATE_ID } from '../lib/projectTemplate';
+import { listCustomTemplates, deleteCustomTemplate, exportTemplates, importTemplates } from '../lib/customTemplates';
+
+// Home page: which starter template the next chat is created with
+export function TemplatePicker() {
+    const theme = useStore(s => s.theme);
+    const projectTemplate = useStore(s => s.projectTemplate);
+    const setProjectTemplate = useStore(s => s.setProjectTemplate);
+    const customTemplates = useStore(s => s.customTemplates);
+    const setCustomTemplates = useStore(s => s.setCustomTemplates);
+    const [open, setOpen] = useState(false);
+    const [error, setError] = useState('');
+    // Delete needs a second click, like restoring a checkpoint
+    const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const isDark = theme === 'dark';
+
+    // A deleted custom template falls back to the default
+    const selected = customTemplates.find(t => t.id === projectTemplate)
+        || getTemplate(projectTemplate)
+        || getTemplate(DEFAULT_TEMPLATE_ID)!;
+
+    useEffect(() => {
+        listCustomTemplates()
+            .then(setCustomTemplates)
+            .catch(e => console.error('[Templates] Failed to load custom templates:', e));
+    }, []);
+
+    useEffect(() => {
+        if (!open) return;
+        const close = () => setOpen(false);
+        document.addEventListener('click', close);
+        return () => document.removeEventListener('click', close);
+    }, [open]);
+
+    const handleDelete = async (template: ProjectTemplate) => {
+        if (confirmingDelete !== template.id) {
+            setConfirmingDelete(template.id);
+            return;
+        }
+        setConfirmingDelete(null);
+        try {
+            await deleteCustomTemplate(template.id);
+            setCustomTemplates(customTemplates.filter(t => t.id !== template.id));
+            if (projectTemplate === template.id) setProjectTemplate(DEFAULT_TEMPLATE_ID);
+        } catch (e: any) {
+            setError(e.message || 'Failed to delete template');
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setError('');
+        try {
+            const imported = await importTemplates(file);
+            setCustomTemplates(await listCustomTemplates());
+            setProjectTemplate(imported[0].id);
+        } catch (err: any) {
+            console.error('[Templates] Import failed:', err);
+            setError(err.message || 'Import failed');
+        }
+    };
+
+    const renderItem = (template: ProjectTemplate) => (
+        <div
+            key={template.id}
+            onClick={() => {
+                setProjectTemplate(template.id);
+                setOpen(false);
+            }}
+            className={`group w-full text-left px-2.5 py-1.5 rounded flex items-start gap-2 cursor-pointer ${isDark ? 'hover:bg-[#1f1f1f]' : 'hover:bg-gray-50'}`}
+        >
+            <Check className={`w-3.5 h-3.5 mt-0.5 flex-shrink-0 ${template.id === selected.id ? 'text-blue-400' : 'opacity-0'}`} />
+            <div className="min-w-0 flex-1">
+                <div className={`text-[12px] font-medium truncate ${isDark ? 'text-[#ccc]' : 'text-gray-800'}`}>{template.name}</div>
+                <div className={`text-[10px] ${isDark ? 'text-[#555]' : 'text-gray-400'}`}>{template.stack}</div>
+                {template.description && (
+                    <div className={`text-[11px] mt-0.5 line-clamp-2 ${isDark ? 'text-[#777]' : 'text-gray-500'}`}>{template.description}</div>
+                )}
+            </div>
+            {template.custom && (
+                <div className={`flex items-center gap-0.5 transition-opacity ${confirmingDelete === template.id ? '' : 'opacity-0 group-hover:opacity-100'}`}>
+                    <button
+                        type="button"
+                        onClick={(e) => { e.stopPropagation(); exportTemplates([template]); }}
+                        className={`p-1 rounded ${isDark ? 'text-[#555] hover:text-white' : 'text-gray-400 hover:text-gray-900'}`}
+                        title="Export as JSON"
+                    >
+                        <Download className="w-3 h-3" />
+                    </button>
+                    <button
+                        type="button"
+                        onClick={(e) => { e.stopPropagation(); handleDelete(template); }}
+                        className={`p-1 rounded ${confirmingDelete === template.id ? 'text-red-400' : isDark ? 'text-[#555] hover:text-red-400' : 'text-gray-400 hover:text-red-500'}`}
+                        title={confirmingDelete === template.id ? 'Click again to delete — chats started from it keep their files' : 'Delete template'}
+                    >
+                        <Trash2 className="w-3 h-3" />
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+
+    const sectionLabel = `px-3 pt-2 pb-1 text-[10px] uppercase tracking-wider ${isDark ? 'text-[#555]' : 'text-gray-400'}`;
+
+    return (
+        <div className="relative" onClick={(e) => e.stopPropagation()}>
+            <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+            <button
+                type="button"
+                onClick={() => { setOpen(!open); setError(''); setConfirmingDelete(null); }}
+                className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-[11px] transition-colors ${isDark ? 'text-[#666] hover:text-[#aaa] hover:bg-[#1f1f1f]' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'}`}
+                title={`Template: ${selected.stack}`}
+            >
+                <LayoutTemplate className="w-3.5 h-3.5" />
+                <span className="max-w-[140px] truncate">{selected.name}</span>
+                <ChevronDown className="w-3 h-3" />
+            </button>
+
+            {open && (
+                <div className={`absolute bottom-full left-0 mb-1 rounded-lg overflow-hidden z-10 w-72 ${isDark ? 'bg-[#1a1a1a] border border-[#2a2a2a]' : 'bg-white border border-gray-200 shadow-lg'}`}>
+                    <div className="max-h-[50vh] overflow-y-auto custom-scrollbar">
+                        {customTemplates.length > 0 && (
+                            <>
+                                <div className={sectionLabel}>Your templates</div>
+                                <div className="p-1">{customTemplates.map(renderItem)}</div>
+                            </>
+                        )}
+                        <div className={sectionLabel}>Start from template</div>
+                        <div className="p-1">{PROJECT_TEMPLATES.map(renderItem)}</div>
+                    </div>
+
+                    <div className={`flex items-center gap-1 p-1 border-t ${isDark ? 'border-[#2a2a2a]' : 'border-gray-100'}`}>
+                        <button
+                            type="button"
+                            onClick={() => importInputRef.current?.click()}
+                            className={`flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded text-[11px] ${isDark ? 'text-[#888] hover:text-white hover:bg-[#1f1f1f]' : 'text-gray-500 hover:text-gray-900 hover:bg-gray-50'}`}
+                        >
+                            <Upload className="w-3 h-3" /> Import JSON
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => exportTemplates(customTemplates)}
+                            disabled={customTemplates.length === 0}
+                            className={`flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded text-[11px] disabled:opacity-30 ${isDark ? 'text-[#888] hover:text-white hover:bg-[#1f1f1f]' : 'text-gray-500 hover:text-gray-900 hover:bg-gray-50'}`}
+                        >
+                            <Download className="w-3 h-3" /> Export all
+                        </button>
+                    </div>
+                    {error && <div className="px-3 pb-2 text-[11px] text-red-400">{error}</div>}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,32 +1,52 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { Code2, Play, ChevronDown, ChevronUp, RotateCw, Download, Zap, Loader2, TerminalSquare, Trash2, AlertTriangle, Maximize2, Minimize2, MousePointer2 } from 'lucide-react';
+import { Code2, Play, ChevronDown, ChevronUp, RotateCw, Download, Zap, Loader2, TerminalSquare, Trash2, AlertTriangle, Network, SquareChevronRight, Maximize2, Minimize2, MousePointer2, History, GitCompare, Package } from 'lucide-react';
 import { useStore } from '../store';
 import { CodeEditor } from './CodeEditor';
 import { Terminal } from './Terminal';
 import { ErrorPanel } from './ErrorPanel';
+import { NetworkPanel } from './NetworkPanel';
+import { ConsolePanel } from './ConsolePanel';
 import { FileExplorer } from './FileExplorer';
 import { SkeletonFileTree, SkeletonCodeEditor } from './SkeletonLoader';
+import { CheckpointTimeline } from './CheckpointTimeline';
+import { ReviewPanel } from './ReviewPanel';
 import { executeCommand, mountFiles, autoInstallDependencies, smartInstall } from '../lib/webcontainer';
 import { createCleanTerminalWriter } from '../lib/tools';
+import { downloadArchive } from '../lib/archive';
+import { isBinaryEntry } from '../lib/files';
+import { isNetworkEvent, isFailedRequest } from '../lib/networkInspector';
+import { isRuntimeErrorEvent, runtimeErrorToParsed, isSameRuntimeError } from '../lib/runtimeErrors';
+import { isConsoleEvent } from '../lib/previewConsole';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
 
 export function Workbench() {
     const [activeTab, setActiveTab] = useState<'code' | 'preview'>('code');
-    const [terminalTab, setTerminalTab] = useState<'terminal' | 'errors'>('terminal');
+    const [terminalTab, setTerminalTab] = useState<'terminal' | 'errors' | 'console' | 'network'>('terminal');
     const previewUrl = useStore(s => s.previewUrl);
     const addTerminalOutput = useStore(s => s.addTerminalOutput);
     const clearTerminalOutput = useStore(s => s.clearTerminalOutput);
     const parsedErrors = useStore(s => s.parsedErrors);
     const clearParsedErrors = useStore(s => s.clearParsedErrors);
+    const networkRequests = useStore(s => s.networkRequests);
+    const addNetworkEvent = useStore(s => s.addNetworkEvent);
+    const clearNetworkRequests = useStore(s => s.clearNetworkRequests);
+    const consoleCount = useStore(s => s.consoleEntries.length);
+    const addConsoleEvent = useStore(s => s.addConsoleEvent);
+    const clearConsoleEntries = useStore(s => s.clearConsoleEntries);
     const files = useStore(s => s.files);
     const theme = useStore(s => s.theme);
+    const reviewMode = useStore(s => s.reviewMode);
+    const setReviewMode = useStore(s => s.setReviewMode);
+    const hasPendingReview = useStore(s => s.pendingPatches.length > 0);
+    const reviewFocusRequest = useStore(s => s.reviewFocusRequest);
     const [status, setStatus] = useState<'idle' | 'installing' | 'starting' | 'running' | 'error'>('idle');
     const [errorMsg, setErrorMsg] = useState('');
     const [showTerminal, setShowTerminal] = useState(true);
     const [terminalHeight, setTerminalHeight] = useState(220);
     const [isFullscreen, setIsFullscreen] = useState(false);
     const [urlPath, setUrlPath] = useState('/');
+    const [showCheckpoints, setShowCheckpoints] = useState(false);
     const iframeRef = useRef<HTMLIFrameElement>(null);
     const fullscreenIframeRef = useRef<HTMLIFrameElement>(null);
     const isDragging = useRef(false);
@@ -40,9 +60,25 @@ export function Workbench() {
     const setElementPickerActive = useStore(s => s.setElementPickerActive);
     const setSelectedElement = useStore(s => s.setSelectedElement);
 
-    // Element picker: inject script into iframe and listen for selection
+    // Element picker selections, network events, runtime errors and console output from the scripts injected into the preview
     useEffect(() => {
         const handleMessage = (e: MessageEvent) => {
+            if (isConsoleEvent(e.data)) {
+                addConsoleEvent(e.data);
+                return;
+            }
+            if (isNetworkEvent(e.data)) {
+                addNetworkEvent(e.data);
+                return;
+            }
+            if (isRuntimeErrorEvent(e.data)) {
+                const { files, parsedErrors, addParsedErrors } = useStore.getState();
+                const error = runtimeErrorToParsed(e.data, Object.keys(files));
+                if (!parsedErrors.some(existing => isSameRuntimeError(existing, error))) {
+                    addParsedErrors([error]);
+                }
+                return;
+            }
             if (e.data?.type === 'glovix-element-selected') {
                 setSelectedElement({
                     tag: e.data.tag || '',
@@ -54,7 +90,7 @@ export function Workbench() {
         };
         window.addEventListener('message', handleMessage);
         return () => window.removeEventListener('message', handleMessage);
-    }, [setSelectedElement, setElementPickerActive]);
+    }, [setSelectedElement, setElementPickerActive, addNetworkEvent, addConsoleEvent]);
 
     // When picker is activated/deactivated, send message to iframe
     useEffect(() => {
@@ -102,6 +138,13 @@ export function Workbench() {
         }
     }, [previewUrl]);
 
+    // Staged edits need the user — bring the code view forward (again when asked from the chat)
+    useEffect(() => {
+        if (!hasPendingReview) return;
+        setActiveTab('code');
+        setIsFullscreen(false);
+    }, [hasPendingReview, reviewFocusRequest]);
+
     useEffect(() => {
         const init = async () => {
             if (Object.keys(files).length > 0) {
@@ -147,12 +190,24 @@ export function Workbench() {
         }
         const zip = new JSZip();
         for (const [path, file] of Object.entries(files)) {
-            zip.file(path, file.file.contents);
+            zip.file(path, file.file.contents, { base64: isBinaryEntry(file) });
         }
         const blob = await zip.generateAsync({ type: 'blob' });
         saveAs(blob, 'project.zip');
     };
 
+    // Files + chat + checkpoints, importable from the home page
+    const handleExportArchive = async () => {
+        const chatId = useStore.getState().currentChatId;
+        if (!chatId) return;
+        try {
+            await downloadArchive(chatId);
+        } catch (e: any) {
+            console.error('[Archive] Export failed:', e);
+            addTerminalOutput(`Archive export failed: ${e.message}\n`);
+        }
+    };
+
     // Drag resize for terminal
     const handleDragStart = useCallback((e: React.MouseEvent) => {
         e.preventDefault();
@@ -204,6 +259,20 @@ export function Workbench() {
                 </div>
 
                 <div className="flex items-center gap-1">
+                    <button
+                        onClick={() => setReviewMode(!reviewMode)}
+                        className={`p-2 rounded-lg transition-colors ${reviewMode ? 'text-amber-500 bg-amber-500/10' : isDark ? 'text-[#666] hover:text-white hover:bg-[#1a1a1a]' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-200'}`}
+                        title={reviewMode ? 'Review mode on — agent edits wait for your approval' : 'Review mode off'}
+                    >
+                        <GitCompare className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setShowCheckpoints(true)}
+                        className={`p-2 rounded-lg transition-colors ${isDark ? 'text-[#666] hover:text-white hover:bg-[#1a1a1a]' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-200'}`}
+                        title="Checkpoints"
+                    >
+                        <History className="w-4 h-4" />
+                    </button>
                     <button
                         onClick={handleDownload}
                         className={`p-2 rounded-lg transition-colors ${isDark ? 'text-[#666] hover:text-white hover:bg-[#1a1a1a]' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-200'}`}
@@ -211,6 +280,13 @@ export function Workbench() {
                     >
                         <Download className="w-4 h-4" />
                     </button>
+                    <button
+                        onClick={handleExportArchive}
+                        className={`p-2 rounded-lg transition-colors ${isDark ? 'text-[#666] hover:text-white hover:bg-[#1a1a1a]' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-200'}`}
+                        title="Export session archive"
+                    >
+                        <Package className="w-4 h-4" />
+                    </button>
                 </div>
             </div>
 
@@ -233,16 +309,20 @@ export function Workbench() {
                             </div>
                         </div>
 
-                        {/* Editor */}
-                        <div className="flex-1 flex flex-col min-w-0">
-                            <div className="flex-1 overflow-hidden">
-                                {Object.keys(files).length === 0 ? (
-                                    <SkeletonCodeEditor isDark={isDark} />
-                                ) : (
-                                    <CodeEditor />
-                                )}
+                        {/* Editor — or the pending review */}
+                        {hasPendingReview ? (
+                            <ReviewPanel />
+                        ) : (
+                            <div className="flex-1 flex flex-col min-w-0">
+                                <div className="flex-1 overflow-hidden">
+                                    {Object.keys(files).length === 0 ? (
+                                        <SkeletonCodeEditor isDark={isDark} />
+                                    ) : (
+                                        <CodeEditor />
+                                    )}
+                                </div>
                             </div>
-                        </div>
+                        )}
                     </>
                 ) : (
                     <div className="flex-1 flex flex-col">
@@ -375,12 +455,44 @@ export function Workbench() {
                                 </span>
                             )}
                         </button>
+                        <button
+                            onClick={() => { setTerminalTab('console'); setShowTerminal(true); }}
+                            className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium transition-colors ${
+                                terminalTab === 'console'
+                                    ? (isDark ? 'bg-[#1a1a1a] text-[#ccc]' : 'bg-gray-100 text-gray-700')
+                                    : (isDark ? 'text-[#555] hover:text-[#888]' : 'text-gray-400 hover:text-gray-600')
+                            }`}
+                        >
+                            <SquareChevronRight className="w-3 h-3" />
+                            Console
+                            {consoleCount > 0 && (
+                                <span className={`ml-0.5 px-1.5 py-0.5 rounded-full text-[9px] font-bold ${isDark ? 'bg-[#1a1a1a] text-[#777]' : 'bg-gray-100 text-gray-500'}`}>
+                                    {consoleCount}
+                                </span>
+                            )}
+                        </button>
+                        <button
+                            onClick={() => { setTerminalTab('network'); setShowTerminal(true); }}
+                            className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium transition-colors ${
+                                terminalTab === 'network'
+                                    ? (isDark ? 'bg-[#1a1a1a] text-[#ccc]' : 'bg-gray-100 text-gray-700')
+                                    : (isDark ? 'text-[#555] hover:text-[#888]' : 'text-gray-400 hover:text-gray-600')
+                            }`}
+                        >
+                            <Network className={`w-3 h-3 ${networkRequests.some(isFailedRequest) ? 'text-red-400' : ''}`} />
+                            Network
+                            {networkRequests.length > 0 && (
+                                <span className={`ml-0.5 px-1.5 py-0.5 rounded-full text-[9px] font-bold ${isDark ? 'bg-[#1a1a1a] text-[#777]' : 'bg-gray-100 text-gray-500'}`}>
+                                    {networkRequests.length}
+                                </span>
+                            )}
+                        </button>
                     </div>
                     <div className="flex items-center gap-0.5">
                         <button
-                            onClick={() => terminalTab === 'terminal' ? clearTerminalOutput() : clearParsedErrors()}
+                            onClick={() => ({ terminal: clearTerminalOutput, errors: clearParsedErrors, console: clearConsoleEntries, network: clearNetworkRequests })[terminalTab]()}
                             className={`p-1.5 rounded-md transition-colors ${isDark ? 'text-[#444] hover:text-[#888] hover:bg-[#1a1a1a]' : 'text-gray-300 hover:text-gray-500 hover:bg-gray-100'}`}
-                            title={terminalTab === 'terminal' ? 'Clear terminal' : 'Clear errors'}
+                            title={{ terminal: 'Clear terminal', errors: 'Clear errors', console: 'Clear console', network: 'Clear requests' }[terminalTab]}
                         >
                             <Trash2 className="w-3 h-3" />
                         </button>
@@ -393,7 +505,7 @@ export function Workbench() {
                     </div>
                 </div>
 
-                {/* Terminal/Errors content — both always mounted, toggle visibility */}
+                {/* Terminal/Errors/Console/Network content — all always mounted, toggle visibility */}
                 {showTerminal && (
                     <div className="flex-1 overflow-hidden relative">
                         <div className={`absolute inset-0 ${terminalTab === 'terminal' ? '' : 'invisible h-0 overflow-hidden'}`}>
@@ -402,6 +514,12 @@ export function Workbench() {
                         <div className={`h-full ${terminalTab === 'errors' ? '' : 'hidden'}`}>
                             <ErrorPanel />
                         </div>
+                        <div className={`h-full ${terminalTab === 'console' ? '' : 'hidden'}`}>
+                            <ConsolePanel />
+                        </div>
+                        <div className={`h-full ${terminalTab === 'network' ? '' : 'hidden'}`}>
+                            <NetworkPanel />
+                        </div>
                     </div>
                 )}
             </div>
@@ -444,6 +562,8 @@ export function Workbench() {
                     </div>
                 </div>
             )}
+
+            {showCheckpoints && <CheckpointTimeline onClose={() => setShowCheckpoints(false)} />}
         </div>
     );
 }
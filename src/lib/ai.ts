@@ -1,17 +1,5 @@
 // LocalStorage-only AI for OpenSource version
 
-export const CANOPYWAVE_API_URL = '/api/ai/chat';
-
-export type ModelType = 'mimo-v2-flash';
-
-export const MODEL_NAMES: Record<ModelType, string> = {
-    'mimo-v2-flash': 'MiMo V2 Flash',
-};
-
-export const MODEL_IDS: Record<ModelType, string> = {
-    'mimo-v2-flash': 'xiaomi/mimo-v2-flash:free',
-};
-
 export interface Message {
     role: 'user' | 'assistant' | 'system' | 'tool';
     content: string | null | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }>;
@@ -46,6 +34,12 @@ export interface TokenUsage {
 }
 
 import { useStore } from '../store';
+import { resolveProvider, postChatCompletion, ResolvedProvider } from './providers';
+import { buildAnthropicRequest, createAnthropicStreamAdapter } from './anthropic';
+import { findModel, DEFAULT_CONTEXT_LIMIT, ModelCapabilities } from './models';
+import { getTokenizer, countMessagesTokens } from './tokenizer';
+import { searchToolContentForModel } from './webSearch';
+import { feedSSE } from './sse';
 
 // ============================================================
 // CONFIGURATION
@@ -59,10 +53,6 @@ const RETRY_DELAY_MS = 2000;           // Wait 2s between retries
 // HELPERS
 // ============================================================
 
-function estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4);
-}
-
 function sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -102,7 +92,10 @@ function sanitizeMessages(messages: Message[]): Message[] {
         // Clean message — only include fields the API expects
         const clean: any = { role: msg.role };
 
-        if (msg.content !== undefined && msg.content !== null) {
+        if (msg.role === 'tool' && typeof msg.content === 'string') {
+            // Structured results (web search) go to the model in their compact text form
+            clean.content = searchToolContentForModel(msg.content);
+        } else if (msg.content !== undefined && msg.content !== null) {
             clean.content = msg.content;
         } else if (msg.role === 'assistant') {
             // Assistants can have null content when they only have tool_calls
@@ -127,11 +120,12 @@ function sanitizeMessages(messages: Message[]): Message[] {
 
 export async function sendMessage(
     messages: Message[],
-    _model: ModelType,
-    _apiKey: string,
-    onChunk: (content: string | null, toolCalls: ToolCall[] | null, thinking?: string | null) => void,
+    onChunk: ChunkCallback,
     signal?: AbortSignal,
-    onToolCallStream?: (toolName: string, partialArgs: string, toolCallId: string) => void
+    onToolCallStream?: ToolCallStreamCallback,
+    // Resolved once up front so a missing key fails fast instead of being retried; callers that
+    // already resolved it (to count tokens for the same model) pass theirs in
+    provider: ResolvedProvider = resolveProvider()
 ): Promise<TokenUsage> {
     let lastError: Error | null = null;
 
@@ -144,7 +138,7 @@ export async function sendMessage(
                 await sleep(RETRY_DELAY_MS * attempt);
             }
 
-            return await _sendMessageInternal(messages, onChunk, signal, onToolCallStream);
+            return await _sendMessageInternal(provider, messages, onChunk, signal, onToolCallStream);
         } catch (error: any) {
             lastError = error;
             console.error(`[AI] Error on attempt ${attempt}:`, error.message);
@@ -177,80 +171,223 @@ export async function sendMessage(
 
     throw lastError || new Error('Unknown error in sendMessage');
 }
+// ============================================================
+// STREAM ADAPTERS — one per wire format, same callbacks out
+// ============================================================
 
-async function _sendMessageInternal(
-    messages: Message[],
-    onChunk: (content: string | null, toolCalls: ToolCall[] | null, thinking?: string | null) => void,
-    signal?: AbortSignal,
-    onToolCallStream?: (toolName: string, partialArgs: string, toolCallId: string) => void
-): Promise<TokenUsage> {
-    const { aiApiKey, aiModel } = useStore.getState();
+export type ChunkCallback = (content: string | null, toolCalls: ToolCall[] | null, thinking?: string | null) => void;
+export type ToolCallStreamCallback = (toolName: string, partialArgs: string, toolCallId: string) => void;
+
+export interface StreamAdapter {
+    // Handle one parsed SSE `data:` payload. May throw for in-stream API errors.
+    handleEvent(data: any): void;
+    // Flush tool calls that never got an explicit finish event
+    finish(): void;
+    // Usage reported by the API, or null if it never sent any
+    getUsage(): TokenUsage | null;
+    getOutputChars(): number;
+}
 
-    const apiUrl = '/api/ai/chat';
-    const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-    };
+// OpenAI chat completions: `choices[0].delta` chunks, `finish_reason === 'tool_calls'`
+export function createOpenAIStreamAdapter(
+    onChunk: ChunkCallback,
+    onToolCallStream?: ToolCallStreamCallback
+): StreamAdapter {
+    let currentToolCalls: Record<number, ToolCall> = {};
+    let thinkingContent = '';
+    let totalOutputChars = 0;
+    let usage: TokenUsage | null = null;
+    let toolCallsSent = false;
 
-    // Get API key from env or settings
-    const envKey = import.meta.env.VITE_AI_API_KEY;
-    const apiKeyToUse = (envKey && envKey !== 'your_api_key_here') ? envKey : aiApiKey;
+    return {
+        handleEvent(parsed) {
+            // Capture usage (some APIs send it in a final chunk with empty choices)
+            if (parsed.usage) {
+                usage = {
+                    prompt_tokens: parsed.usage.prompt_tokens || 0,
+                    completion_tokens: parsed.usage.completion_tokens || 0,
+                    total_tokens: parsed.usage.total_tokens || 0
+                };
+            }
 
-    if (!apiKeyToUse) {
-        throw new Error("Missing API Key. Please set VITE_AI_API_KEY in .env or configure it in Settings.");
-    }
+            if (!parsed.choices || parsed.choices.length === 0) return;
+
+            const choice = parsed.choices[0];
+            const delta = choice.delta;
+            const finishReason = choice.finish_reason;
+
+            // Handle thinking/reasoning
+            const thinkingDelta = delta?.thinking || delta?.reasoning_content || delta?.reasoning;
+            if (thinkingDelta) {
+                thinkingContent += thinkingDelta;
+                onChunk(null, null, thinkingContent);
+            }
+
+            // Handle content
+            if (delta?.content) {
+                totalOutputChars += delta.content.length;
+                onChunk(delta.content, null, null);
+            }
+
+            // Handle tool calls streaming
+            if (delta?.tool_calls) {
+                for (const tc of delta.tool_calls) {
+                    const index = tc.index ?? 0;
+                    if (!currentToolCalls[index]) {
+                        currentToolCalls[index] = {
+                            id: tc.id || `tool_${index}_${Date.now()}`,
+                            type: 'function',
+                            function: { name: tc.function?.name || '', arguments: '' },
+                        };
+                    }
+
+                    if (tc.function?.name && !currentToolCalls[index].function.name) {
+                        currentToolCalls[index].function.name = tc.function.name;
+                    }
+
+                    if (tc.function?.arguments) {
+                        currentToolCalls[index].function.arguments += tc.function.arguments;
+                        totalOutputChars += tc.function.arguments.length;
+                    }
+
+                    // Stream tool call progress to UI
+                    if (onToolCallStream) {
+                        onToolCallStream(
+                            currentToolCalls[index].function.name || '',
+                            currentToolCalls[index].function.arguments || '',
+                            currentToolCalls[index].id
+                        );
+                    }
+                }
+            }
+
+            // When stream finishes with tool_calls, send them
+            if (finishReason === 'tool_calls') {
+                const finalToolCalls = Object.values(currentToolCalls);
+                if (finalToolCalls.length > 0) {
+                    console.log(`[AI] Sending ${finalToolCalls.length} tool calls`);
+                    onChunk(null, finalToolCalls);
+                    toolCallsSent = true;
+                    // Clear after sending
+                    currentToolCalls = {};
+                }
+            }
+
+            if (finishReason) {
+                console.log(`[AI] Stream finished: ${finishReason}`);
+            }
+        },
+
+        finish() {
+            // After stream ends, send any remaining tool calls that weren't sent yet
+            if (toolCallsSent) return;
+            const remainingToolCalls = Object.values(currentToolCalls);
+            if (remainingToolCalls.length > 0) {
+                console.log(`[AI] Sending ${remainingToolCalls.length} remaining tool calls (post-stream)`);
+                onChunk(null, remainingToolCalls);
+            }
+        },
 
-    headers['Authorization'] = `Bearer ${apiKeyToUse}`;
-
-    // Use env model or fallback
-    const actualModelId = import.meta.env.VITE_AI_MODEL || aiModel || 'gpt-4';
-
-    // Model context limits (approximate)
-    const MODEL_CONTEXT_LIMITS: Record<string, number> = {
-        'mimo-v2-flash': 128000,
-        'gpt-4o': 128000,
-        'gpt-4-turbo': 128000,
-        'gpt-4o-mini': 128000,
-        'claude-3-opus': 200000,
-        'claude-3-sonnet': 200000,
-        'claude-3.5-sonnet': 200000,
-        'claude-4-sonnet': 200000,
-        'deepseek-chat': 128000,
-        'deepseek-reasoner': 128000,
+        getUsage: () => usage,
+        getOutputChars: () => totalOutputChars,
     };
+}
+
+function buildOpenAIRequest(messages: Message[], tools: any[], maxTokens: number): Record<string, any> {
+    const body: Record<string, any> = {
+        messages,
+        stream: true,
+        max_tokens: maxTokens,
+    };
+    if (tools.length > 0) {
+        body.tools = tools;
+        body.tool_choice = 'auto';
+    }
+    return body;
+}
+
+/**
+ * Downgrade messages for models that lack a capability:
+ * - no images → image parts become a text placeholder
+ * - no tools → tool calls/results are folded into plain text turns
+ */
+function adaptToCapabilities(messages: Message[], capabilities: ModelCapabilities): Message[] {
+    if (capabilities.tools && capabilities.images) return messages;
+
+    return messages.map((msg): Message => {
+        let content = msg.content;
+        if (!capabilities.images && Array.isArray(content)) {
+            content = content.map(part =>
+                part.type === 'image_url' ? { type: 'text' as const, text: '[Image omitted: this model does not accept images]' } : part
+            );
+        }
+
+        if (!capabilities.tools) {
+            if (msg.role === 'tool') {
+                const text = typeof content === 'string' ? content : JSON.stringify(content ?? '');
+                return { role: 'user', content: `[Tool result${msg.name ? `: ${msg.name}` : ''}]\n${text}` };
+            }
+            if (msg.role === 'assistant' && msg.tool_calls?.length) {
+                const calls = msg.tool_calls.map(tc => `[Called ${tc.function.name}(${tc.function.arguments})]`).join('\n');
+                const text = typeof content === 'string' && content ? `${content}\n${calls}` : calls;
+                return { role: 'assistant', content: text };
+            }
+        }
+
+        return { ...msg, content };
+    });
+}
+
+/**
+ * Context window of the model a request goes to. The registry knows most models; the
+ * Settings value covers the rest. Chat budgets its history with the same number.
+ */
+export function getContextLimit(modelId: string): number {
+    const { models, modelContextLimit } = useStore.getState();
+    return findModel(models, modelId)?.contextLimit || modelContextLimit || DEFAULT_CONTEXT_LIMIT;
+}
+
+async function _sendMessageInternal(
+    provider: ResolvedProvider,
+    messages: Message[],
+    onChunk: ChunkCallback,
+    signal?: AbortSignal,
+    onToolCallStream?: ToolCallStreamCallback
+): Promise<TokenUsage> {
+    const actualModelId = provider.model;
 
     // Sanitize messages before sending
-    const cleanMessages = sanitizeMessages(messages);
+    // Capabilities and context limit come from the model registry; unknown models are assumed capable
+    const modelInfo = findModel(useStore.getState().models, actualModelId);
+    const capabilities = modelInfo?.capabilities ?? { tools: true, images: true, reasoning: false };
+    const tools = capabilities.tools ? TOOL_DEFINITIONS : [];
+
+    const cleanMessages = adaptToCapabilities(sanitizeMessages(messages), capabilities);
 
     console.log(`[AI] Sending ${cleanMessages.length} messages (from ${messages.length} original)`);
 
-    // Estimate input tokens
-    const inputTokens = cleanMessages.reduce((acc, msg) => {
-        if (typeof msg.content === 'string') return acc + estimateTokens(msg.content);
-        if (Array.isArray(msg.content)) {
-            return acc + msg.content.reduce((a, p) => a + (p.type === 'text' ? estimateTokens(p.text) : 1000), 0);
-        }
-        return acc + 100;
-    }, 0);
+    // Count input tokens (exact for OpenAI-family models once their BPE tables are loaded)
+    const tokenizer = getTokenizer(actualModelId);
+    const inputTokens = countMessagesTokens(cleanMessages, tokenizer);
 
     // Calculate max_tokens dynamically
-    const contextLimit = MODEL_CONTEXT_LIMITS[actualModelId] || useStore.getState().modelContextLimit || 128000;
+    const contextLimit = getContextLimit(actualModelId);
     const safetyBuffer = 1000;
     const maxTokens = Math.min(
         Math.max(contextLimit - inputTokens - safetyBuffer, 4000),
         16384
     );
 
-    console.log(`[AI] Model: ${actualModelId}, Input: ~${inputTokens} tokens, Max output: ${maxTokens}`);
+    console.log(`[AI] Model: ${actualModelId} (${provider.format}), Input: ~${inputTokens} tokens, Max output: ${maxTokens}`);
 
-    // Build request body
-    const requestBody: any = {
-        model: actualModelId,
-        messages: cleanMessages,
-        tools: TOOL_DEFINITIONS,
-        tool_choice: 'auto',
-        stream: true,
-        max_tokens: maxTokens,
-    };
+    // Build request body and pick the matching stream adapter
+    const isAnthropic = provider.format === 'anthropic';
+    const requestBody = isAnthropic
+        ? buildAnthropicRequest(cleanMessages, tools, maxTokens)
+        : buildOpenAIRequest(cleanMessages, tools, maxTokens);
+    const adapter = isAnthropic
+        ? createAnthropicStreamAdapter(onChunk, onToolCallStream)
+        : createOpenAIStreamAdapter(onChunk, onToolCallStream);
 
     // Create abort controller that combines user signal + our timeout
     const controller = new AbortController();
@@ -260,20 +397,15 @@ async function _sendMessageInternal(
 
     let response: Response;
     try {
-        response = await fetch(apiUrl, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify(requestBody),
-            signal: controller.signal,
-        });
+        response = await postChatCompletion(requestBody, controller.signal, provider);
     } catch (fetchError: any) {
         console.error('[AI] Fetch failed:', fetchError.message);
         throw new Error(`Network error: ${fetchError.message}. Check your internet connection and API endpoint.`);
     }
 
     if (!response.ok) {
-        if (response.status === 404 && apiUrl.includes('/api/ai/chat')) {
-            throw new Error("Backend Not Found (404). Configure a Custom AI Provider in Settings → AI.");
+        if (response.status === 404 && provider.viaProxy) {
+            throw new Error("Backend Not Found (404). The dev proxy is only available with `pnpm dev` — configure a provider in Settings → AI Model.");
         }
         const error = await response.text().catch(() => 'Unknown error');
         console.error(`[AI] API Error ${response.status}:`, error.substring(0, 300));
@@ -285,19 +417,14 @@ async function _sendMessageInternal(
     }
 
     // ============================================================
-    // STREAM PROCESSING — inline for simplicity and reliability
+    // STREAM PROCESSING — bytes → SSE lines → adapter
     // ============================================================
 
     const reader = response.body.getReader();
     const decoder = new TextDecoder();
 
-    let currentToolCalls: Record<number, ToolCall> = {};
     let buffer = '';
-    let thinkingContent = '';
-    let totalOutputChars = 0;
-    let usage: TokenUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
     let lastDataTime = Date.now();
-    let toolCallsSent = false;
 
     // Stall detection timer
     const stallChecker = setInterval(() => {
@@ -316,112 +443,20 @@ async function _sendMessageInternal(
 
             lastDataTime = Date.now();
             buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split('\n');
-            buffer = lines.pop() || '';
-
-            for (const line of lines) {
-                const trimmed = line.trim();
-                if (!trimmed || trimmed === 'data: [DONE]') continue;
-                if (!trimmed.startsWith('data: ')) continue;
-
-                const data = trimmed.slice(6);
-                try {
-                    const parsed = JSON.parse(data);
-                    if (!parsed.choices || parsed.choices.length === 0) continue;
-
-                    const choice = parsed.choices[0];
-                    const delta = choice.delta;
-                    const finishReason = choice.finish_reason;
-
-                    // Handle thinking/reasoning
-                    const thinkingDelta = delta?.thinking || delta?.reasoning_content || delta?.reasoning;
-                    if (thinkingDelta) {
-                        thinkingContent += thinkingDelta;
-                        onChunk(null, null, thinkingContent);
-                    }
-
-                    // Handle content
-                    if (delta?.content) {
-                        totalOutputChars += delta.content.length;
-                        onChunk(delta.content, null, null);
-                    }
-
-                    // Capture usage
-                    if (parsed.usage) {
-                        usage = {
-                            prompt_tokens: parsed.usage.prompt_tokens || 0,
-                            completion_tokens: parsed.usage.completion_tokens || 0,
-                            total_tokens: parsed.usage.total_tokens || 0
-                        };
-                    }
-
-                    // Handle tool calls streaming
-                    if (delta?.tool_calls) {
-                        for (const tc of delta.tool_calls) {
-                            const index = tc.index ?? 0;
-                            if (!currentToolCalls[index]) {
-                                currentToolCalls[index] = {
-                                    id: tc.id || `tool_${index}_${Date.now()}`,
-                                    type: 'function',
-                                    function: { name: tc.function?.name || '', arguments: '' },
-                                };
-                            }
-
-                            if (tc.function?.name && !currentToolCalls[index].function.name) {
-                                currentToolCalls[index].function.name = tc.function.name;
-                            }
-
-                            if (tc.function?.arguments) {
-                                currentToolCalls[index].function.arguments += tc.function.arguments;
-                            }
-
-                            // Stream tool call progress to UI
-                            if (onToolCallStream) {
-                                onToolCallStream(
-                                    currentToolCalls[index].function.name || '',
-                                    currentToolCalls[index].function.arguments || '',
-                                    currentToolCalls[index].id
-                                );
-                            }
-                        }
-                    }
-
-                    // When stream finishes with tool_calls, send them
-                    if (finishReason === 'tool_calls') {
-                        const finalToolCalls = Object.values(currentToolCalls);
-                        if (finalToolCalls.length > 0) {
-                            console.log(`[AI] Sending ${finalToolCalls.length} tool calls`);
-                            onChunk(null, finalToolCalls);
-                            toolCallsSent = true;
-                            // Clear after sending
-                            currentToolCalls = {};
-                        }
-                    }
-
-                    if (finishReason) {
-                        console.log(`[AI] Stream finished: ${finishReason}`);
-                    }
-                } catch (e) {
-                    // JSON parse error on a chunk — skip it
-                    if (data.trim()) {
-                        console.warn('[AI] Parse error on chunk:', data.substring(0, 100));
-                    }
-                }
-            }
+            buffer = feedSSE(buffer, adapter);
         }
 
-        // After stream ends, send any remaining tool calls that weren't sent yet
-        if (!toolCallsSent) {
-            const remainingToolCalls = Object.values(currentToolCalls);
-            if (remainingToolCalls.length > 0) {
-                console.log(`[AI] Sending ${remainingToolCalls.length} remaining tool calls (post-stream)`);
-                onChunk(null, remainingToolCalls);
-            }
+        // Flush a final line that wasn't newline-terminated
+        if (buffer.trim()) {
+            feedSSE(buffer + '\n', adapter);
         }
 
+        adapter.finish();
+
         // Estimate usage if API didn't provide it
-        if (usage.total_tokens === 0) {
-            const estimatedOutput = Math.ceil(totalOutputChars / 4);
+        let usage = adapter.getUsage();
+        if (!usage || usage.total_tokens === 0) {
+            const estimatedOutput = Math.ceil(adapter.getOutputChars() / 4);
             usage = {
                 prompt_tokens: inputTokens,
                 completion_tokens: estimatedOutput,
@@ -437,3 +472,55 @@ async function _sendMessageInternal(
         try { reader.releaseLock(); } catch { /* ignore */ }
     }
 }
+
+/**
+ * One-shot text completion without tools — used for titles and fork summaries.
+ * Goes through the same provider and stream adapter as chat, so every provider format works.
+ */
+export async function completeText(
+    systemPrompt: string,
+    userText: string,
+    options: { maxTokens: number; temperature?: number; signal?: AbortSignal }
+): Promise<string> {
+    const provider = resolveProvider();
+    const messages: Message[] = [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userText },
+    ];
+
+    const body = provider.format === 'anthropic'
+        ? buildAnthropicRequest(messages, [], options.maxTokens)
+        : { messages, max_tokens: options.maxTokens, stream: true };
+    if (options.temperature !== undefined) body.temperature = options.temperature;
+
+    const response = await postChatCompletion(body, options.signal, provider);
+    if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+    }
+    if (!response.body) {
+        throw new Error('No response body');
+    }
+
+    // Only collect actual content, skip thinking/reasoning
+    let text = '';
+    const adapter = provider.format === 'anthropic'
+        ? createAnthropicStreamAdapter((content) => { if (content) text += content; })
+        : createOpenAIStreamAdapter((content) => { if (content) text += content; });
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            buffer = feedSSE(buffer, adapter);
+        }
+        if (buffer.trim()) feedSSE(buffer + '\n', adapter);
+    } finally {
+        try { reader.releaseLock(); } catch { /* ignore */ }
+    }
+
+    return text;
+}
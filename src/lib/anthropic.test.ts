@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { createAnthropicStreamAdapter } from './anthropic';
+import { feedSSE } from './sse';
+import type { ToolCall } from './ai';
+import recordedStream from './__fixtures__/anthropic-stream.sse?raw';
+
+// Replays the recording the way the stream reader sees it — in network-sized pieces that split lines
+function replay(stream: string, pieceSize = 37) {
+    const text: string[] = [];
+    const thinking: string[] = [];
+    const toolCallBatches: ToolCall[][] = [];
+    const streamed: { name: string; args: string; id?: string }[] = [];
+
+    const adapter = createAnthropicStreamAdapter(
+        (content, toolCalls, thinkingContent) => {
+            if (content) text.push(content);
+            if (toolCalls) toolCallBatches.push(toolCalls);
+            if (thinkingContent) thinking.push(thinkingContent);
+        },
+        (name, args, id) => streamed.push({ name, args, id })
+    );
+
+    let buffer = '';
+    for (let i = 0; i < stream.length; i += pieceSize) {
+        buffer = feedSSE(buffer + stream.slice(i, i + pieceSize), adapter);
+    }
+    if (buffer.trim()) feedSSE(buffer + '\n', adapter);
+    adapter.finish();
+
+    return { adapter, text, thinking, toolCallBatches, streamed };
+}
+
+describe('createAnthropicStreamAdapter', () => {
+    it('turns text deltas into incremental OpenAI-style content chunks', () => {
+        const { text } = replay(recordedStream);
+        expect(text).toEqual(['Let me look at ', 'the current app.']);
+    });
+
+    it('reports thinking cumulatively', () => {
+        const { thinking } = replay(recordedStream);
+        expect(thinking).toEqual([
+            'The user wants a counter. ',
+            "The user wants a counter. I'll check App.tsx first.",
+        ]);
+    });
+
+    it('sends the tool calls once, with the streamed input as the arguments', () => {
+        const { toolCallBatches } = replay(recordedStream);
+        expect(toolCallBatches).toEqual([[
+            { id: 'toolu_01T1x1fJ34qAmk2tNTrN7Up6', type: 'function', function: { name: 'readFile', arguments: '{"path": "src/App.tsx"}' } },
+            // No input_json_delta at all — still valid JSON
+            { id: 'toolu_01AbqP6oE3ZwxYxU8cYvH1pN', type: 'function', function: { name: 'getErrors', arguments: '{}' } },
+        ]]);
+    });
+
+    it('streams tool call progress', () => {
+        const { streamed } = replay(recordedStream);
+        expect(streamed[0]).toEqual({ name: 'readFile', args: '', id: 'toolu_01T1x1fJ34qAmk2tNTrN7Up6' });
+        expect(streamed[streamed.length - 2]).toEqual({ name: 'readFile', args: '{"path": "src/App.tsx"}', id: 'toolu_01T1x1fJ34qAmk2tNTrN7Up6' });
+        expect(streamed[streamed.length - 1]).toEqual({ name: 'getErrors', args: '', id: 'toolu_01AbqP6oE3ZwxYxU8cYvH1pN' });
+    });
+
+    it('counts cached input tokens and takes the final output count', () => {
+        const { adapter } = replay(recordedStream);
+        expect(adapter.getUsage()).toEqual({ prompt_tokens: 3503, completion_tokens: 89, total_tokens: 3592 });
+        expect(adapter.getOutputChars()).toBe('Let me look at the current app.'.length + '{"path": "src/App.tsx"}'.length);
+    });
+
+    it('does not depend on how the stream is split', () => {
+        const whole = replay(recordedStream, recordedStream.length);
+        const bytewise = replay(recordedStream, 1);
+        expect(bytewise.text.join('')).toBe(whole.text.join(''));
+        expect(bytewise.toolCallBatches).toEqual(whole.toolCallBatches);
+        expect(bytewise.adapter.getUsage()).toEqual(whole.adapter.getUsage());
+    });
+
+    it('throws in-stream errors with a retryable status', () => {
+        const overloaded = 'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n';
+        expect(() => replay(overloaded)).toThrow('API Error: 529 - overloaded_error: Overloaded');
+    });
+});
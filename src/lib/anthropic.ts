@@ -0,0 +1,280 @@
+// Anthropic Messages API adapter
+// Maps our OpenAI-shaped messages/tools to /v1/messages and translates the
+// streamed events back into the same onChunk/onToolCallStream callbacks
+
+import type { Message, ToolCall, TokenUsage, StreamAdapter, ChunkCallback, ToolCallStreamCallback } from './ai';
+
+type AnthropicContentBlock =
+    | { type: 'text'; text: string }
+    | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string } }
+    | { type: 'tool_use'; id: string; name: string; input: any }
+    | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: AnthropicContentBlock[];
+}
+
+// ============================================================
+// REQUEST MAPPING
+// ============================================================
+
+// OpenAI function tools → Anthropic tools ({ name, description, input_schema })
+export function toAnthropicTools(tools: any[]): any[] {
+    return tools
+        .filter(t => t.type === 'function' && t.function?.name)
+        .map(t => ({
+            name: t.function.name,
+            description: t.function.description || '',
+            input_schema: t.function.parameters || { type: 'object', properties: {} },
+        }));
+}
+
+function toImageBlock(url: string): AnthropicContentBlock {
+    const dataUrl = url.match(/^data:([^;]+);base64,(.*)$/);
+    if (dataUrl) {
+        return { type: 'image', source: { type: 'base64', media_type: dataUrl[1], data: dataUrl[2] } };
+    }
+    return { type: 'image', source: { type: 'url', url } };
+}
+
+function toContentBlocks(content: Message['content']): AnthropicContentBlock[] {
+    if (!content) return [];
+    if (typeof content === 'string') {
+        return content.trim() ? [{ type: 'text', text: content }] : [];
+    }
+    return content
+        .map((part): AnthropicContentBlock | null => {
+            if (part.type === 'text') return part.text.trim() ? { type: 'text', text: part.text } : null;
+            if (part.type === 'image_url') return toImageBlock(part.image_url.url);
+            return null;
+        })
+        .filter((b): b is AnthropicContentBlock => b !== null);
+}
+
+function parseToolInput(args: string): any {
+    try {
+        const parsed = JSON.parse(args || '{}');
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Convert sanitized chat messages to an Anthropic request body.
+ * - the leading system message becomes the top-level `system` string
+ * - later system hints (dev server / loop detection) become user text, since Anthropic has no mid-chat system role
+ * - tool results become `tool_result` blocks on a user turn
+ * - consecutive turns of the same role are merged to keep strict user/assistant alternation
+ */
+export function buildAnthropicRequest(messages: Message[], tools: any[], maxTokens: number): Record<string, any> {
+    const systemParts: string[] = [];
+    const out: AnthropicMessage[] = [];
+
+    const push = (role: AnthropicMessage['role'], blocks: AnthropicContentBlock[]) => {
+        if (blocks.length === 0) return;
+        const last = out[out.length - 1];
+        if (last && last.role === role) {
+            last.content.push(...blocks);
+        } else {
+            out.push({ role, content: blocks });
+        }
+    };
+
+    messages.forEach((msg, i) => {
+        switch (msg.role) {
+            case 'system': {
+                const text = typeof msg.content === 'string'
+                    ? msg.content
+                    : toContentBlocks(msg.content).map(b => (b.type === 'text' ? b.text : '')).join('\n');
+                if (i === 0 || out.length === 0) {
+                    systemParts.push(text);
+                } else {
+                    push('user', [{ type: 'text', text: `[SYSTEM] ${text}` }]);
+                }
+                break;
+            }
+            case 'user':
+                push('user', toContentBlocks(msg.content));
+                break;
+            case 'assistant': {
+                const blocks = toContentBlocks(msg.content);
+                for (const tc of msg.tool_calls || []) {
+                    blocks.push({
+                        type: 'tool_use',
+                        id: tc.id,
+                        name: tc.function.name,
+                        input: parseToolInput(tc.function.arguments),
+                    });
+                }
+                push('assistant', blocks);
+                break;
+            }
+            case 'tool':
+                push('user', [{
+                    type: 'tool_result',
+                    tool_use_id: msg.tool_call_id || '',
+                    content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content ?? ''),
+                }]);
+                break;
+        }
+    });
+
+    // The conversation must open with a user turn (e.g. after context compression left an assistant notice first)
+    if (out.length > 0 && out[0].role === 'assistant') {
+        out.unshift({ role: 'user', content: [{ type: 'text', text: '(continuing the conversation)' }] });
+    }
+
+    const body: Record<string, any> = {
+        messages: out,
+        max_tokens: maxTokens,
+        stream: true,
+    };
+    if (systemParts.length > 0) body.system = systemParts.join('\n\n');
+    if (tools.length > 0) {
+        body.tools = toAnthropicTools(tools);
+        body.tool_choice = { type: 'auto' };
+    }
+    return body;
+}
+
+// ============================================================
+// STREAM ADAPTER
+// ============================================================
+
+/**
+ * Translate Anthropic streaming events:
+ *   message_start → content_block_start/delta/stop (text | tool_use | thinking) → message_delta → message_stop
+ * Thinking is reported cumulatively and text incrementally, matching the OpenAI adapter.
+ */
+export function createAnthropicStreamAdapter(
+    onChunk: ChunkCallback,
+    onToolCallStream?: ToolCallStreamCallback
+): StreamAdapter {
+    // Tool calls keyed by content block index
+    let currentToolCalls: Record<number, ToolCall> = {};
+    let thinkingContent = '';
+    let totalOutputChars = 0;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let toolCallsSent = false;
+
+    const flushToolCalls = () => {
+        const finalToolCalls = Object.values(currentToolCalls);
+        if (finalToolCalls.length === 0) return;
+        console.log(`[AI] Sending ${finalToolCalls.length} tool calls`);
+        onChunk(null, finalToolCalls);
+        toolCallsSent = true;
+        currentToolCalls = {};
+    };
+
+    return {
+        handleEvent(event) {
+            switch (event.type) {
+                case 'message_start': {
+                    const usage = event.message?.usage;
+                    if (usage) {
+                        inputTokens = (usage.input_tokens || 0) + (usage.cache_read_input_tokens || 0) + (usage.cache_creation_input_tokens || 0);
+                        outputTokens = usage.output_tokens || 0;
+                    }
+                    break;
+                }
+
+                case 'content_block_start': {
+                    const block = event.content_block;
+                    if (block?.type === 'tool_use') {
+                        currentToolCalls[event.index] = {
+                            id: block.id || `tool_${event.index}_${Date.now()}`,
+                            type: 'function',
+                            function: { name: block.name || '', arguments: '' },
+                        };
+                        onToolCallStream?.(block.name || '', '', currentToolCalls[event.index].id);
+                    } else if (block?.type === 'text' && block.text) {
+                        totalOutputChars += block.text.length;
+                        onChunk(block.text, null, null);
+                    } else if (block?.type === 'thinking' && block.thinking) {
+                        thinkingContent += block.thinking;
+                        onChunk(null, null, thinkingContent);
+                    }
+                    break;
+                }
+
+                case 'content_block_delta': {
+                    const delta = event.delta;
+                    if (!delta) break;
+
+                    if (delta.type === 'text_delta' && delta.text) {
+                        totalOutputChars += delta.text.length;
+                        onChunk(delta.text, null, null);
+                    } else if (delta.type === 'thinking_delta' && delta.thinking) {
+                        thinkingContent += delta.thinking;
+                        onChunk(null, null, thinkingContent);
+                    } else if (delta.type === 'input_json_delta') {
+                        const toolCall = currentToolCalls[event.index];
+                        if (toolCall && delta.partial_json) {
+                            toolCall.function.arguments += delta.partial_json;
+                            totalOutputChars += delta.partial_json.length;
+                            onToolCallStream?.(toolCall.function.name, toolCall.function.arguments, toolCall.id);
+                        }
+                    }
+                    break;
+                }
+
+                case 'content_block_stop': {
+                    // Tools with no input never get an input_json_delta — give them valid JSON
+                    const toolCall = currentToolCalls[event.index];
+                    if (toolCall && !toolCall.function.arguments) {
+                        toolCall.function.arguments = '{}';
+                    }
+                    break;
+                }
+
+                case 'message_delta': {
+                    if (event.usage?.output_tokens) {
+                        outputTokens = event.usage.output_tokens;
+                    }
+                    const stopReason = event.delta?.stop_reason;
+                    if (stopReason === 'tool_use') {
+                        flushToolCalls();
+                    }
+                    if (stopReason) {
+                        console.log(`[AI] Stream finished: ${stopReason}`);
+                    }
+                    break;
+                }
+
+                case 'error': {
+                    const type = event.error?.type || 'api_error';
+                    const message = event.error?.message || 'Unknown error';
+                    // Map overloaded to its HTTP status so sendMessage's retry logic picks it up
+                    const status = type === 'overloaded_error' ? 529 : type === 'rate_limit_error' ? 429 : 500;
+                    throw new Error(`API Error: ${status} - ${type}: ${message}`);
+                }
+
+                // ping, message_stop — nothing to do
+            }
+        },
+
+        finish() {
+            if (!toolCallsSent) {
+                const remaining = Object.values(currentToolCalls);
+                if (remaining.length > 0) {
+                    console.log(`[AI] Sending ${remaining.length} remaining tool calls (post-stream)`);
+                    flushToolCalls();
+                }
+            }
+        },
+
+        getUsage(): TokenUsage | null {
+            if (inputTokens === 0 && outputTokens === 0) return null;
+            return {
+                prompt_tokens: inputTokens,
+                completion_tokens: outputTokens,
+                total_tokens: inputTokens + outputTokens,
+            };
+        },
+
+        getOutputChars: () => totalOutputChars,
+    };
+}
@@ -1,22 +1,22 @@
-// LocalStorage-only API for OpenSource version
-
-const localStore = {
-    get: (key: string) => {
-        try {
-            return JSON.parse(localStorage.getItem(`glovix_${key}`) || 'null');
-        } catch {
-            return null;
-        }
-    },
-    set: (key: string, value: any) => {
-        localStorage.setItem(`glovix_${key}`, JSON.stringify(value));
-    }
-};
+// Browser-only API for OpenSource version — records live in IndexedDB (see storage.ts)
+
+import { deleteCheckpoints } from './checkpoints';
+import type { FileMap } from './files';
+import { DEFAULT_TEMPLATE_ID } from './projectTemplate';
+import {
+    CHATS_STORE, MESSAGES_STORE, PROJECTS_STORE, PROJECT_FILES_STORE, ProjectFileRecord,
+    getRecord, getRecordsByIndex, putRecord, writeProjectRecords, deleteChatRecords,
+} from './storage';
 
 export interface ChatHistory {
     id: string;
     user_id: string;
     title: string;
+    // Template the project started from (see projectTemplate.ts); null for imported projects,
+    // missing on chats created before templates existed
+    template_id?: string | null;
+    // System prompt preset (see promptPresets.ts); missing means the built-in prompt
+    prompt_preset_id?: string | null;
     created_at: string;
     updated_at: string;
 }
@@ -25,7 +25,7 @@ export interface Project {
     id: string;
     user_id: string;
     chat_id: string;
-    files: Record<string, { file: { contents: string } }>;
+    files: FileMap;
     created_at: string;
     updated_at: string;
 }
@@ -38,93 +38,116 @@ export interface UserTokens {
 
 // Chat History
 export const getChatHistory = async (userId: string): Promise<ChatHistory[]> => {
-    await new Promise(r => setTimeout(r, 50));
-    const chats = localStore.get('chats') || [];
-    return chats.filter((c: any) => c.user_id === userId);
+    const chats = await getRecordsByIndex<ChatHistory>(CHATS_STORE, 'user_id', userId);
+    // Newest first
+    return chats.sort((a, b) => b.created_at.localeCompare(a.created_at));
 };
 
 export const getChat = async (chatId: string): Promise<ChatHistory> => {
-    await new Promise(r => setTimeout(r, 50));
-    const chats = localStore.get('chats') || [];
-    const chat = chats.find((c: any) => c.id === chatId);
+    const chat = await getRecord<ChatHistory>(CHATS_STORE, chatId);
     if (!chat) throw new Error('Chat not found');
     return chat;
 };
 
-export const createChat = async (userId: string, title: string): Promise<ChatHistory> => {
-    await new Promise(r => setTimeout(r, 50));
-    const chats = localStore.get('chats') || [];
+export const createChat = async (
+    userId: string,
+    title: string,
+    templateId: string | null = DEFAULT_TEMPLATE_ID,
+    promptPresetId: string | null = null
+): Promise<ChatHistory> => {
     const newChat = {
         id: crypto.randomUUID(),
         user_id: userId,
         title,
+        template_id: templateId,
+        prompt_preset_id: promptPresetId,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
     };
-    localStore.set('chats', [newChat, ...chats]);
+    await putRecord(CHATS_STORE, newChat);
     return newChat;
 };
 
 export const updateChatTitle = async (chatId: string, title: string): Promise<ChatHistory> => {
-    await new Promise(r => setTimeout(r, 50));
-    const chats = localStore.get('chats') || [];
-    const index = chats.findIndex((c: any) => c.id === chatId);
-    if (index === -1) throw new Error('Chat not found');
-    chats[index] = { ...chats[index], title, updated_at: new Date().toISOString() };
-    localStore.set('chats', chats);
-    return chats[index];
+    const chat = await getRecord<ChatHistory>(CHATS_STORE, chatId);
+    if (!chat) throw new Error('Chat not found');
+    const updated = { ...chat, title, updated_at: new Date().toISOString() };
+    await putRecord(CHATS_STORE, updated);
+    return updated;
+};
+
+export const updateChatPromptPreset = async (chatId: string, presetId: string | null): Promise<ChatHistory> => {
+    const chat = await getRecord<ChatHistory>(CHATS_STORE, chatId);
+    if (!chat) throw new Error('Chat not found');
+    const updated = { ...chat, prompt_preset_id: presetId, updated_at: new Date().toISOString() };
+    await putRecord(CHATS_STORE, updated);
+    return updated;
 };
 
 export const deleteChat = async (chatId: string): Promise<void> => {
-    await new Promise(r => setTimeout(r, 50));
-    const chats = localStore.get('chats') || [];
-    localStore.set('chats', chats.filter((c: any) => c.id !== chatId));
-    
-    // Delete messages
-    const messages = localStore.get('messages') || {};
-    delete messages[chatId];
-    localStore.set('messages', messages);
-    
-    // Delete project
-    const projects = localStore.get('projects') || {};
-    delete projects[chatId];
-    localStore.set('projects', projects);
+    // Chat, messages and project
+    await deleteChatRecords(chatId);
+
+    // Delete checkpoints (IndexedDB)
+    await deleteCheckpoints(chatId);
 };
 
 // Messages
 export const getChatMessages = async (chatId: string) => {
-    await new Promise(r => setTimeout(r, 50));
-    const allMessages = localStore.get('messages') || {};
-    return { messages: allMessages[chatId] || [] };
+    const record = await getRecord<{ chatId: string; messages: any[] }>(MESSAGES_STORE, chatId);
+    return { messages: record?.messages || [] };
 };
 
 export const saveChatMessages = async (chatId: string, messages: any[]) => {
-    const allMessages = localStore.get('messages') || {};
-    allMessages[chatId] = messages;
-    localStore.set('messages', allMessages);
+    await putRecord(MESSAGES_STORE, { chatId, messages });
     return { success: true };
 };
 
 // Projects
+type ProjectMeta = Omit<Project, 'files'>;
+
 export const getProject = async (chatId: string): Promise<Project | null> => {
-    await new Promise(r => setTimeout(r, 50));
-    const projects = localStore.get('projects') || {};
-    return projects[chatId] || null;
+    const meta = await getRecord<ProjectMeta>(PROJECTS_STORE, chatId);
+    if (!meta) return null;
+    const records = await getRecordsByIndex<ProjectFileRecord>(PROJECT_FILES_STORE, 'chatId', chatId);
+    const files: Project['files'] = {};
+    for (const record of records) {
+        const { contents, encoding, mimeType } = record;
+        files[record.path] = { file: encoding ? { contents, encoding, mimeType } : { contents } };
+    }
+    return { ...meta, files };
 };
 
-export const saveProject = async (chatId: string, userId: string, files: any): Promise<Project> => {
-    const projects = localStore.get('projects') || {};
-    const project = {
-        id: crypto.randomUUID(),
+// Keeps id / created_at of an existing project; only updated_at moves
+const nextProjectMeta = async (chatId: string, userId: string): Promise<ProjectMeta> => {
+    const existing = await getRecord<ProjectMeta>(PROJECTS_STORE, chatId);
+    const now = new Date().toISOString();
+    return {
+        id: existing?.id || crypto.randomUUID(),
         chat_id: chatId,
         user_id: userId,
-        files,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
+        created_at: existing?.created_at || now,
+        updated_at: now
     };
-    projects[chatId] = project;
-    localStore.set('projects', projects);
-    return project;
+};
+
+// Full save — replaces every stored file of the project
+export const saveProject = async (chatId: string, userId: string, files: Project['files']): Promise<Project> => {
+    const meta = await nextProjectMeta(chatId, userId);
+    await writeProjectRecords(meta, files, [], true);
+    return { ...meta, files };
+};
+
+// Incremental save — writes the given paths, removing those no longer in `files`
+export const saveProjectChanges = async (chatId: string, userId: string, files: Project['files'], paths: string[]): Promise<void> => {
+    const meta = await nextProjectMeta(chatId, userId);
+    const upserts: Project['files'] = {};
+    const deletes: string[] = [];
+    for (const path of paths) {
+        if (files[path]) upserts[path] = files[path];
+        else deletes.push(path);
+    }
+    await writeProjectRecords(meta, upserts, deletes);
 };
 
 // User Tokens (Mock - unlimited for OpenSource)
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import JSZip from 'jszip';
+import type { FileMap } from './files';
+import type { Message } from './ai';
+
+const state = vi.hoisted(() => ({
+    currentChatId: 'chat-1',
+    messages: [] as Message[],
+    files: {} as Record<string, any>,
+}));
+const saved = vi.hoisted(() => ({
+    messages: null as Message[] | null,
+    files: null as Record<string, any> | null,
+    checkpoints: null as any[] | null,
+}));
+
+vi.mock('../store', () => ({ useStore: { getState: () => state } }));
+vi.mock('file-saver', () => ({ saveAs: () => {} }));
+vi.mock('./compaction', () => ({ CONTEXT_FILE: '.glovix/context.md' }));
+vi.mock('./checkpoints', () => ({
+    listCheckpoints: async () => [{
+        id: 'cp-1',
+        chatId: 'chat-1',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        label: 'Add a header',
+        messageCount: 1,
+        files: { 'src/App.tsx': { file: { contents: 'old' } }, '../outside.txt': { file: { contents: 'x' } } },
+    }],
+    importCheckpoints: async (_chatId: string, checkpoints: any[]) => { saved.checkpoints = checkpoints; },
+}));
+vi.mock('./api', () => ({
+    getChat: async () => ({ id: 'chat-1', title: 'Counter app', template_id: 'vite-react', prompt_preset_id: null }),
+    createChat: async (_userId: string, title: string) => ({ id: 'chat-2', title }),
+    saveChatMessages: async (_chatId: string, messages: Message[]) => { saved.messages = messages; },
+    saveProject: async (_chatId: string, _userId: string, files: FileMap) => { saved.files = files; },
+}));
+
+import { exportArchive, importArchive, ARCHIVE_FORMAT, ARCHIVE_VERSION } from './archive';
+
+// Every byte value, so a lossy text round trip would show
+const PNG_BYTES = Uint8Array.from({ length: 256 }, (_, i) => i);
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
+
+async function archiveWith(files: Record<string, string | Uint8Array>, manifest: Record<string, unknown> = {}): Promise<Blob> {
+    const zip = new JSZip();
+    zip.file('manifest.json', JSON.stringify({ format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, title: 'Test', ...manifest }));
+    zip.file('chat.json', JSON.stringify({ title: 'Test', messages: [] }));
+    for (const [path, contents] of Object.entries(files)) zip.file(path, contents);
+    return zip.generateAsync({ type: 'blob' });
+}
+
+beforeEach(() => {
+    state.messages = [{ role: 'user', content: 'Build a counter' }, { role: 'assistant', content: 'Done.' }];
+    state.files = {
+        'src/App.tsx': { file: { contents: 'export default function App() {}' } },
+        'public/logo.png': { file: { contents: toBase64(PNG_BYTES), encoding: 'base64', mimeType: 'image/png' } },
+        '.glovix/context.md': { file: { contents: '# Context' } },
+    };
+    saved.messages = saved.files = saved.checkpoints = null;
+});
+
+describe('archive round trip', () => {
+    it('imports what was exported, binary assets included', async () => {
+        const { blob, manifest } = await exportArchive('chat-1');
+        expect(manifest).toMatchObject({ fileCount: 3, messageCount: 2, checkpointCount: 1, hasContext: true });
+        expect(manifest.binaryFiles).toEqual({ 'public/logo.png': 'image/png' });
+
+        const chat = await importArchive(blob, 'user-1');
+
+        expect(chat.title).toBe('Counter app');
+        expect(saved.files).toEqual(state.files);
+        expect(saved.messages).toEqual(state.messages);
+        // The checkpoint's path outside the project is dropped
+        expect(saved.checkpoints).toEqual([{
+            createdAt: '2026-01-01T00:00:00.000Z',
+            label: 'Add a header',
+            messageCount: 1,
+            files: { 'src/App.tsx': { file: { contents: 'old' } } },
+        }]);
+    });
+
+    it('rejects archives from a newer version and other zips', async () => {
+        await expect(importArchive(await archiveWith({}, { version: ARCHIVE_VERSION + 1 }), 'user-1'))
+            .rejects.toThrow(`Archive version ${ARCHIVE_VERSION + 1} is newer than this app supports`);
+        await expect(importArchive(await archiveWith({}, { format: 'something-else' }), 'user-1'))
+            .rejects.toThrow('Not a Glovix archive: unknown manifest format');
+        await expect(importArchive(new Blob(['not a zip']), 'user-1')).rejects.toThrow('the file is not a zip');
+    });
+
+    it('skips paths outside the project and files over the size cap', async () => {
+        const blob = await archiveWith({
+            'files/src/ok.ts': 'ok',
+            'files/..\\..\\evil.txt': 'x',
+            'files/C:/Windows/evil.txt': 'x',
+            'files/big.txt': new Uint8Array(3 * 1024 * 1024),
+        });
+        await importArchive(blob, 'user-1');
+        expect(saved.files).toEqual({ 'src/ok.ts': { file: { contents: 'ok' } } });
+    });
+});
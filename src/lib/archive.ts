@@ -0,0 +1,176 @@
+// Glovix archive — a whole working session in one zip: project files, chat messages and title,
+// the compaction context (.glovix/context.md) and checkpoints, described by a versioned manifest.
+
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import { useStore } from '../store';
+import type { Message } from './ai';
+import { ChatHistory, getChat, getChatMessages, getProject, createChat, saveChatMessages, saveProject } from './api';
+import { Checkpoint, listCheckpoints, importCheckpoints } from './checkpoints';
+import { CONTEXT_FILE } from './compaction';
+import { FileMap, isBinaryEntry, createBinaryEntry } from './files';
+import { MAX_FILES, SkippedFile, sizeCap, readZipEntry, safeProjectPath, describeSkipped } from './projectImport';
+
+export const ARCHIVE_FORMAT = 'glovix-archive';
+// v2: binary assets, listed in the manifest's `binaryFiles`
+export const ARCHIVE_VERSION = 2;
+export const ARCHIVE_EXTENSION = '.glovix';
+
+export interface ArchiveManifest {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: string;
+    title: string;
+    fileCount: number;
+    messageCount: number;
+    checkpointCount: number;
+    hasContext: boolean;
+    // Path → MIME type of every file stored as raw bytes rather than text
+    binaryFiles?: Record<string, string>;
+}
+
+type ArchivedCheckpoint = Omit<Checkpoint, 'id' | 'chatId'>;
+
+// Layout inside the zip
+const MANIFEST_PATH = 'manifest.json';
+const CHAT_PATH = 'chat.json';
+const CHECKPOINTS_PATH = 'checkpoints.json';
+const FILES_DIR = 'files/';
+
+// ============================================================
+// EXPORT
+// ============================================================
+
+/**
+ * Bundle a chat into an archive. The open chat is read from the store (it may have unsaved
+ * changes); any other chat comes from storage.
+ */
+export async function exportArchive(chatId: string): Promise<{ blob: Blob; manifest: ArchiveManifest }> {
+    const state = useStore.getState();
+    const isOpen = state.currentChatId === chatId;
+
+    const chat = await getChat(chatId);
+    const messages: Message[] = isOpen ? state.messages : (await getChatMessages(chatId)).messages;
+    const files: FileMap = isOpen ? state.files : (await getProject(chatId))?.files || {};
+    const checkpoints: ArchivedCheckpoint[] = (await listCheckpoints(chatId))
+        .map(({ id: _id, chatId: _chatId, ...rest }) => rest);
+
+    const manifest: ArchiveManifest = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        title: chat.title,
+        fileCount: Object.keys(files).length,
+        messageCount: messages.length,
+        checkpointCount: checkpoints.length,
+        hasContext: CONTEXT_FILE in files,
+        binaryFiles: Object.fromEntries(Object.entries(files)
+            .filter(([, file]) => isBinaryEntry(file))
+            .map(([path, file]) => [path, file.file.mimeType || 'application/octet-stream'])),
+    };
+
+    const zip = new JSZip();
+    zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+    zip.file(CHAT_PATH, JSON.stringify({ title: chat.title, templateId: chat.template_id, promptPresetId: chat.prompt_preset_id, messages }));
+    zip.file(CHECKPOINTS_PATH, JSON.stringify(checkpoints));
+    for (const [path, file] of Object.entries(files)) {
+        zip.file(FILES_DIR + path, file.file.contents, { base64: isBinaryEntry(file) });
+    }
+
+    const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+    console.log(`[Archive] Exported "${chat.title}" (${manifest.fileCount} files, ${manifest.messageCount} messages, ${manifest.checkpointCount} checkpoints)`);
+    return { blob, manifest };
+}
+
+export async function downloadArchive(chatId: string): Promise<void> {
+    const { blob, manifest } = await exportArchive(chatId);
+    const slug = manifest.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project';
+    saveAs(blob, `${slug}${ARCHIVE_EXTENSION}`);
+}
+
+// ============================================================
+// IMPORT
+// ============================================================
+
+async function readJson<T>(zip: JSZip, path: string): Promise<T> {
+    const entry = zip.file(path);
+    if (!entry) throw new Error(`Invalid archive: ${path} is missing`);
+    try {
+        return JSON.parse(await entry.async('string'));
+    } catch {
+        throw new Error(`Invalid archive: ${path} is not valid JSON`);
+    }
+}
+
+// Restoring a checkpoint mounts its files — drop any whose path points outside the project
+function safeCheckpoint(checkpoint: ArchivedCheckpoint): ArchivedCheckpoint {
+    const files: FileMap = {};
+    for (const [path, entry] of Object.entries(checkpoint.files || {})) {
+        const safe = safeProjectPath(path);
+        if (safe) files[safe] = entry;
+    }
+    return { ...checkpoint, files };
+}
+
+/**
+ * Recreate a chat from an archive: a new chat with the archived title, messages, project files
+ * and checkpoints. Opening the chat afterwards mounts the files.
+ */
+export async function importArchive(archive: Blob, userId: string): Promise<ChatHistory> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(archive);
+    } catch {
+        throw new Error('Not a Glovix archive: the file is not a zip');
+    }
+
+    const manifest = await readJson<ArchiveManifest>(zip, MANIFEST_PATH);
+    if (manifest.format !== ARCHIVE_FORMAT) {
+        throw new Error('Not a Glovix archive: unknown manifest format');
+    }
+    if (typeof manifest.version !== 'number' || manifest.version > ARCHIVE_VERSION) {
+        throw new Error(`Archive version ${manifest.version} is newer than this app supports (${ARCHIVE_VERSION})`);
+    }
+
+    const chatData = await readJson<{ title?: string; templateId?: string | null; promptPresetId?: string | null; messages?: Message[] }>(zip, CHAT_PATH);
+    const checkpoints = zip.file(CHECKPOINTS_PATH)
+        ? await readJson<ArchivedCheckpoint[]>(zip, CHECKPOINTS_PATH)
+        : [];
+
+    // Same path checks and caps as a project import — an archive is just as untrusted as any zip
+    const files: FileMap = {};
+    const skipped: SkippedFile[] = [];
+    const binaryFiles = manifest.binaryFiles || {};
+    const entries = Object.values(zip.files).filter(f => !f.dir && f.name.startsWith(FILES_DIR));
+    for (const entry of entries) {
+        const path = safeProjectPath(entry.name.slice(FILES_DIR.length));
+        if (!path) {
+            skipped.push({ path: entry.name, reason: 'unsafe path' });
+            continue;
+        }
+        if (Object.keys(files).length >= MAX_FILES) {
+            skipped.push({ path, reason: `over the ${MAX_FILES} file limit` });
+            continue;
+        }
+        const cap = sizeCap(path);
+        const bytes = await readZipEntry(entry, cap.bytes);
+        if (!bytes) {
+            skipped.push({ path, reason: cap.reason });
+            continue;
+        }
+        files[path] = path in binaryFiles
+            ? createBinaryEntry(bytes, path, binaryFiles[path])
+            : { file: { contents: new TextDecoder('utf-8').decode(bytes) } };
+    }
+    if (skipped.length > 0) {
+        console.warn(`[Archive] Skipped ${skipped.length} file(s):\n${describeSkipped(skipped)}`);
+    }
+
+    const chat = await createChat(userId, chatData.title || manifest.title || 'Imported Project', chatData.templateId, chatData.promptPresetId ?? null);
+    await saveChatMessages(chat.id, Array.isArray(chatData.messages) ? chatData.messages : []);
+    await saveProject(chat.id, userId, files);
+    await importCheckpoints(chat.id, Array.isArray(checkpoints) ? checkpoints.map(safeCheckpoint) : []);
+
+    console.log(`[Archive] Imported "${chat.title}" (${Object.keys(files).length} files, ${chatData.messages?.length || 0} messages)`);
+    return chat;
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FileMap } from './files';
+
+vi.hoisted(() => {
+    const items = new Map<string, string>();
+    globalThis.localStorage = {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); },
+        removeItem: (key: string) => { items.delete(key); },
+        clear: () => items.clear(),
+        key: (index: number) => [...items.keys()][index] ?? null,
+        get length() { return items.size; },
+    };
+});
+
+const saves = vi.hoisted(() => [] as { chatId: string; paths: string[]; contents: string[] }[]);
+vi.mock('./api', () => ({
+    saveChatMessages: async () => {},
+    saveProjectChanges: async (chatId: string, _uid: string, files: FileMap, paths: string[]) => {
+        saves.push({ chatId, paths, contents: paths.map(p => files[p]?.file.contents) });
+    },
+}));
+
+import { useStore } from '../store';
+import { flushProjectChanges } from './autoSave';
+
+const text = (contents: string) => ({ file: { contents } });
+
+// Store state right after chat A's project was loaded
+function openChat(chatId: string, files: FileMap) {
+    const state = useStore.getState();
+    state.setCurrentChatId(chatId);
+    state.loadFiles(files);
+}
+
+function edit(path: string, contents: string) {
+    const { files, setFiles } = useStore.getState();
+    setFiles({ ...files, [path]: text(contents) });
+}
+
+beforeEach(async () => {
+    useStore.getState().setUser({ uid: 'u1', email: 'u1@example.com' });
+    openChat('A', { 'src/a.ts': text('a1') });
+    await flushProjectChanges();
+    saves.length = 0;
+});
+
+describe('switching chats with unsaved files', () => {
+    it('saves edits made before and during the switch to the chat they belong to', async () => {
+        edit('src/a.ts', 'a2');
+
+        // loadChat sets the new id first and loads its project later
+        useStore.getState().setCurrentChatId('B');
+        await flushProjectChanges();
+        edit('src/a.ts', 'a3');
+        await flushProjectChanges();
+
+        expect(saves).toEqual([
+            { chatId: 'A', paths: ['src/a.ts'], contents: ['a2'] },
+            { chatId: 'A', paths: ['src/a.ts'], contents: ['a3'] },
+        ]);
+
+        useStore.getState().loadFiles({ 'src/b.ts': text('b1') });
+        await flushProjectChanges();
+        edit('src/b.ts', 'b2');
+        await flushProjectChanges();
+
+        expect(saves.slice(2)).toEqual([{ chatId: 'B', paths: ['src/b.ts'], contents: ['b2'] }]);
+    });
+
+    it('saves what was still dirty when the next chat\'s files replace it', async () => {
+        edit('src/a.ts', 'a2');
+        openChat('B', { 'src/a.ts': text('from B') });
+        await flushProjectChanges();
+
+        expect(saves).toEqual([{ chatId: 'A', paths: ['src/a.ts'], contents: ['a2'] }]);
+        expect(useStore.getState().dirtyFiles.size).toBe(0);
+    });
+
+    it('gives files loaded without a chat to the chat created next', async () => {
+        const state = useStore.getState();
+        state.setCurrentChatId(null);
+        state.loadFiles({});
+        edit('index.html', '<html>');
+        useStore.getState().setCurrentChatId('C');
+        await flushProjectChanges();
+
+        expect(saves).toEqual([{ chatId: 'C', paths: ['index.html'], contents: ['<html>'] }]);
+    });
+});
@@ -1,47 +1,92 @@
-// Auto-save for LocalStorage (OpenSource version)
+// Auto-save to IndexedDB (OpenSource version)
+// Messages are saved whole; project files incrementally — only the paths marked dirty in the store.
 import { useEffect, useRef, useCallback } from 'react';
 import { useStore } from '../store';
-import { saveChatMessages, saveProject } from './api';
+import { saveChatMessages, saveProjectChanges } from './api';
 
 const MESSAGES_DEBOUNCE = 1000;
 const FILES_DEBOUNCE = 2000;
 
+let filesSaveQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Write the store's dirty files to the project of the chat they belong to (filesChatId).
+ * Right after a chat switch that is still the previous chat, until the new chat's files are loaded.
+ * Saves are queued so two never overlap and write stale contents over newer ones.
+ */
+export function flushProjectChanges(): Promise<void> {
+    return enqueueSave(saveDirtyFiles);
+}
+
+function enqueueSave(task: () => Promise<void>): Promise<void> {
+    filesSaveQueue = filesSaveQueue.then(task);
+    return filesSaveQueue;
+}
+
+// Loading another chat's files resets the dirty set — first save what was left unsaved to the chat it belongs to
+useStore.subscribe((state, prev) => {
+    if (state.filesChatId === prev.filesChatId) return;
+    const { filesChatId: chatId, user, files, dirtyFiles } = prev;
+    if (!chatId || !user || dirtyFiles.size === 0) return;
+    const paths = [...dirtyFiles];
+    enqueueSave(() => saveProjectChanges(chatId, user.uid, files, paths).catch(err => {
+        console.error('[AutoSave] Failed to save files of previous chat:', err);
+    }));
+});
+
+async function saveDirtyFiles() {
+    const state = useStore.getState();
+    const { filesChatId: chatId, user } = state;
+    if (!chatId || !user || state.dirtyFiles.size === 0) return;
+
+    // Cleared before writing so edits made during the save mark their file dirty again
+    const paths = [...state.dirtyFiles];
+    state.clearDirtyFiles(paths);
+    if (state.currentChatId === chatId) state.setSaveStatus('saving');
+
+    try {
+        await saveProjectChanges(chatId, user.uid, state.files, paths);
+        // A chat switch mid-save already reset the status for the new chat
+        if (useStore.getState().currentChatId === chatId) {
+            useStore.getState().setSaveStatus('saved');
+        }
+    } catch (err) {
+        console.error('[AutoSave] Failed to save files:', err);
+        const current = useStore.getState();
+        if (current.filesChatId === chatId) {
+            paths.forEach(path => current.markFileDirty(path));
+        }
+        if (current.currentChatId === chatId) {
+            current.setSaveStatus('failed');
+        }
+    }
+}
+
 export function useAutoSave() {
-    const { messages, files, currentChatId, user } = useStore();
+    const messages = useStore(s => s.messages);
+    const dirtyFiles = useStore(s => s.dirtyFiles);
+    const currentChatId = useStore(s => s.currentChatId);
+    const user = useStore(s => s.user);
 
     const messagesRef = useRef(messages);
-    const filesRef = useRef(files);
     const currentChatIdRef = useRef(currentChatId);
 
     useEffect(() => {
         messagesRef.current = messages;
-        filesRef.current = files;
         currentChatIdRef.current = currentChatId;
-    }, [messages, files, currentChatId]);
+    }, [messages, currentChatId]);
 
-    const isSavingRef = useRef(false);
+    const isSavingMessagesRef = useRef(false);
 
     const saveMessages = useCallback(async (chatId: string, msgs: any[]) => {
-        if (!chatId || msgs.length === 0 || isSavingRef.current) return;
+        if (!chatId || msgs.length === 0 || isSavingMessagesRef.current) return;
         try {
-            isSavingRef.current = true;
+            isSavingMessagesRef.current = true;
             await saveChatMessages(chatId, msgs);
         } catch (err) {
             console.error('[AutoSave] Failed to save messages:', err);
         } finally {
-            isSavingRef.current = false;
-        }
-    }, []);
-
-    const saveFiles = useCallback(async (chatId: string, userId: string, projectFiles: any) => {
-        if (!chatId || !userId || Object.keys(projectFiles).length === 0 || isSavingRef.current) return;
-        try {
-            isSavingRef.current = true;
-            await saveProject(chatId, userId, projectFiles);
-        } catch (err) {
-            console.error('[AutoSave] Failed to save files:', err);
-        } finally {
-            isSavingRef.current = false;
+            isSavingMessagesRef.current = false;
         }
     }, []);
 
@@ -54,14 +99,12 @@ export function useAutoSave() {
         return () => clearTimeout(timer);
     }, [messages, currentChatId, saveMessages]);
 
-    // Auto-save files
+    // Auto-save changed files
     useEffect(() => {
-        if (!currentChatId || !user?.uid || Object.keys(files).length === 0) return;
-        const timer = setTimeout(() => {
-            saveFiles(currentChatId, user.uid, files);
-        }, FILES_DEBOUNCE);
+        if (!currentChatId || !user?.uid || dirtyFiles.size === 0) return;
+        const timer = setTimeout(flushProjectChanges, FILES_DEBOUNCE);
         return () => clearTimeout(timer);
-    }, [files, currentChatId, user?.uid, saveFiles]);
+    }, [dirtyFiles, currentChatId, user?.uid]);
 
     // Save on unmount
     useEffect(() => {
@@ -72,10 +115,8 @@ export function useAutoSave() {
                 if (messagesRef.current.length > 0) {
                     saveMessages(chatId, messagesRef.current);
                 }
-                if (Object.keys(filesRef.current).length > 0) {
-                    saveFiles(chatId, user.uid, filesRef.current);
-                }
+                flushProjectChanges();
             }
         };
-    }, [currentChatId, user?.uid, saveMessages, saveFiles]);
+    }, [currentChatId, user?.uid, saveMessages]);
 }
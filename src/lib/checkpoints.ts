@@ -0,0 +1,186 @@
+// Checkpoints — a snapshot of the project files at the start of every user turn.
+// Stored in IndexedDB (snapshots are far too large for localStorage) and restorable from the timeline.
+
+import { useStore } from '../store';
+import { mountFiles, deleteFile } from './webcontainer';
+import { flushProjectChanges } from './autoSave';
+import { diffFiles } from './diff';
+import type { FileMap } from './files';
+import { requestResult, transactionDone } from './idb';
+
+export interface Checkpoint {
+    id: string;
+    chatId: string;
+    createdAt: string;
+    // Short preview of the user message that started the turn
+    label: string;
+    // Number of chat messages before this turn began
+    messageCount: number;
+    files: FileMap;
+}
+
+const CHECKPOINT_DB_NAME = 'glovix_checkpoints';
+const CHECKPOINT_STORE = 'checkpoints';
+// [chatId, createdAt] — walks one chat's checkpoints in time order without loading their snapshots
+const CHAT_TIME_INDEX = 'chatId_createdAt';
+const MAX_CHECKPOINTS_PER_CHAT = 50;
+
+// ── IndexedDB helpers ──────────────────────────────────────
+function openCheckpointDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const req = indexedDB.open(CHECKPOINT_DB_NAME, 2);
+        req.onupgradeneeded = (event) => {
+            const store = event.oldVersion < 1
+                ? req.result.createObjectStore(CHECKPOINT_STORE, { keyPath: 'id' })
+                : req.transaction!.objectStore(CHECKPOINT_STORE);
+            if (event.oldVersion < 1) store.createIndex('chatId', 'chatId');
+            if (event.oldVersion < 2) store.createIndex(CHAT_TIME_INDEX, ['chatId', 'createdAt']);
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+const chatRange = (chatId: string) => IDBKeyRange.bound([chatId, ''], [chatId, '\uffff']);
+
+// Only the newest snapshot — what a new checkpoint is compared against
+async function latestCheckpoint(db: IDBDatabase, chatId: string): Promise<Checkpoint | null> {
+    const tx = db.transaction(CHECKPOINT_STORE, 'readonly');
+    const cursor = await requestResult(tx.objectStore(CHECKPOINT_STORE).index(CHAT_TIME_INDEX).openCursor(chatRange(chatId), 'prev'));
+    return (cursor?.value as Checkpoint | undefined) ?? null;
+}
+
+// Delete the oldest checkpoints of a chat past `keep`, walking keys only
+function pruneCheckpoints(store: IDBObjectStore, chatId: string, keep: number) {
+    const index = store.index(CHAT_TIME_INDEX);
+    const countReq = index.count(chatRange(chatId));
+    countReq.onsuccess = () => {
+        let excess = countReq.result - keep;
+        if (excess <= 0) return;
+        const cursorReq = index.openKeyCursor(chatRange(chatId));
+        cursorReq.onsuccess = () => {
+            const cursor = cursorReq.result;
+            if (!cursor || excess <= 0) return;
+            store.delete(cursor.primaryKey);
+            excess--;
+            cursor.continue();
+        };
+    };
+}
+
+// Newest first
+export async function listCheckpoints(chatId: string): Promise<Checkpoint[]> {
+    try {
+        const db = await openCheckpointDB();
+        const tx = db.transaction(CHECKPOINT_STORE, 'readonly');
+        const all = await requestResult(tx.objectStore(CHECKPOINT_STORE).index('chatId').getAll(chatId) as IDBRequest<Checkpoint[]>);
+        db.close();
+        return all.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch (e) {
+        console.warn('[Checkpoints] Failed to list:', e);
+        return [];
+    }
+}
+
+/**
+ * Snapshot `files` for a chat. Skipped when nothing changed since the latest checkpoint,
+ * and the oldest checkpoints are pruned past MAX_CHECKPOINTS_PER_CHAT.
+ */
+export async function createCheckpoint(chatId: string, files: FileMap, label: string, messageCount: number): Promise<Checkpoint | null> {
+    let db: IDBDatabase | undefined;
+    try {
+        db = await openCheckpointDB();
+        const latest = await latestCheckpoint(db, chatId);
+        if (latest && diffFiles(latest.files, files).length === 0) {
+            return null;
+        }
+
+        const checkpoint: Checkpoint = {
+            id: crypto.randomUUID(),
+            chatId,
+            createdAt: new Date().toISOString(),
+            label: label.replace(/\s+/g, ' ').trim().slice(0, 80) || 'Untitled turn',
+            messageCount,
+            // Copy so later in-place edits to the store can't leak into the snapshot
+            files: Object.fromEntries(Object.entries(files).map(([path, f]) => [path, { file: { ...f.file } }])),
+        };
+
+        const tx = db.transaction(CHECKPOINT_STORE, 'readwrite');
+        const store = tx.objectStore(CHECKPOINT_STORE);
+        store.put(checkpoint);
+        pruneCheckpoints(store, chatId, MAX_CHECKPOINTS_PER_CHAT);
+        await transactionDone(tx);
+
+        console.log(`[Checkpoints] Saved checkpoint for "${checkpoint.label}" (${Object.keys(files).length} files)`);
+        return checkpoint;
+    } catch (e) {
+        console.warn('[Checkpoints] Failed to save:', e);
+        return null;
+    } finally {
+        db?.close();
+    }
+}
+
+export async function deleteCheckpoints(chatId: string): Promise<void> {
+    try {
+        const db = await openCheckpointDB();
+        const tx = db.transaction(CHECKPOINT_STORE, 'readwrite');
+        pruneCheckpoints(tx.objectStore(CHECKPOINT_STORE), chatId, 0);
+        await transactionDone(tx);
+        db.close();
+    } catch (e) {
+        console.warn('[Checkpoints] Failed to delete:', e);
+    }
+}
+
+// Add checkpoints from another chat (archive import) under new ids
+export async function importCheckpoints(chatId: string, checkpoints: Omit<Checkpoint, 'id' | 'chatId'>[]): Promise<void> {
+    if (checkpoints.length === 0) return;
+    const db = await openCheckpointDB();
+    const tx = db.transaction(CHECKPOINT_STORE, 'readwrite');
+    const store = tx.objectStore(CHECKPOINT_STORE);
+    for (const cp of checkpoints.slice(0, MAX_CHECKPOINTS_PER_CHAT)) {
+        store.put({ ...cp, id: crypto.randomUUID(), chatId });
+    }
+    await transactionDone(tx);
+    db.close();
+}
+
+/**
+ * Put the project back to a checkpoint: files that did not exist then are removed from the
+ * WebContainer, the snapshot is remounted, and the store + saved project are updated.
+ * The current state is checkpointed first so a restore can itself be undone.
+ */
+export async function restoreCheckpoint(checkpoint: Checkpoint): Promise<void> {
+    const state = useStore.getState();
+    const current = state.files;
+
+    await createCheckpoint(checkpoint.chatId, current, `Before restoring "${checkpoint.label}"`, state.messages.length);
+
+    // .glovix (compaction context, etc.) and the injected picker script are not part of the user's code — keep them
+    const isInternal = (path: string) => path.startsWith('.glovix/') || path === 'glovix-picker.js';
+    const restored: FileMap = { ...checkpoint.files };
+
+    for (const change of diffFiles(current, checkpoint.files)) {
+        if (change.type !== 'removed') continue;
+        if (isInternal(change.path)) {
+            restored[change.path] = current[change.path];
+            continue;
+        }
+        try {
+            await deleteFile(change.path);
+        } catch (e) {
+            console.warn(`[Checkpoints] Could not remove ${change.path}:`, e);
+        }
+    }
+
+    await mountFiles(restored);
+    state.setFiles(restored);
+
+    if (state.selectedFile && !restored[state.selectedFile]) {
+        state.setSelectedFile(null);
+    }
+
+    await flushProjectChanges();
+    console.log(`[Checkpoints] Restored "${checkpoint.label}"`);
+}
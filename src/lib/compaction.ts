@@ -0,0 +1,197 @@
+// In-place conversation compaction — when a chat grows past its token budget, older turns
+// are summarized with the same prompt as "Fork" and replaced by a single summary message.
+// The summary is also written to .glovix/context.md so the agent can re-read it later.
+// Unlike Fork's short excerpt, the summarizer sees every older message (tool calls and results
+// as digests), in chunks sized to its context window, because the originals are dropped for good.
+
+import { useStore } from '../store';
+import type { Message } from './ai';
+import { SUMMARIZE_PROMPT, summarizeConversation } from './forkChat';
+import { writeFile } from './webcontainer';
+import { resolveProvider } from './providers';
+import { findModel, DEFAULT_CONTEXT_LIMIT } from './models';
+import { Tokenizer, approximateTokenizer, countMessagesTokens } from './tokenizer';
+
+export const CONTEXT_FILE = '.glovix/context.md';
+
+// Summary messages start with this marker so a later compaction can fold them in again
+const SUMMARY_MARKER = '📝 Conversation summary';
+
+// Recent messages kept verbatim (moved back to a user turn so tool pairs are never split)
+const KEEP_RECENT = 8;
+// Below this there is nothing worth summarizing
+const MIN_MESSAGES_TO_COMPACT = 6;
+
+// Digest limits per message, in characters
+const MAX_TEXT_CHARS = 4000;
+const MAX_TOOL_ARG_CHARS = 200;
+const MAX_TOOL_RESULT_CHARS = 800;
+// Share of the summarizer's context one chunk may fill; the rest is the prompt, the running summary and the reply
+const CHUNK_CONTEXT_SHARE = 0.5;
+const SUMMARY_RESERVE_TOKENS = 4000;
+const MIN_CHUNK_TOKENS = 2000;
+// Summarizing a large chunk takes longer than Fork's short excerpt
+const CHUNK_TIMEOUT_MS = 120000;
+
+export interface CompactionResult {
+    messages: Message[];
+    summary: string;
+    compactedCount: number;
+    tokensBefore: number;
+    tokensAfter: number;
+}
+
+export function isSummaryMessage(msg: Message): boolean {
+    return msg.role === 'system' && typeof msg.content === 'string' && msg.content.startsWith(SUMMARY_MARKER);
+}
+
+// Index where the verbatim tail starts: at most KEEP_RECENT messages, beginning on a user turn
+function findSplitIndex(messages: Message[]): number {
+    let split = Math.max(messages.length - KEEP_RECENT, 0);
+    while (split > 0 && messages[split].role !== 'user') split--;
+    return split;
+}
+
+const clip = (text: string, max: number) =>
+    text.length > max ? `${text.slice(0, max)}… [${text.length - max} more chars]` : text;
+
+function messageText(content: Message['content']): string {
+    if (!content) return '';
+    if (typeof content === 'string') return content;
+    return content.map(part => (part.type === 'text' ? part.text : '[image]')).join('\n');
+}
+
+// Tool arguments with long values (file contents, patches) reduced to their size
+function digestToolArgs(args: string): string {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(args || '{}');
+    } catch {
+        return clip(args, MAX_TOOL_ARG_CHARS);
+    }
+    if (!parsed || typeof parsed !== 'object') return clip(String(parsed), MAX_TOOL_ARG_CHARS);
+    return Object.entries(parsed).map(([key, value]) => {
+        const text = typeof value === 'string' ? value : JSON.stringify(value);
+        if (text.length <= MAX_TOOL_ARG_CHARS) return `${key}: ${text}`;
+        return typeof value === 'string' ? `${key}: <${value.split('\n').length} lines>` : `${key}: ${clip(text, MAX_TOOL_ARG_CHARS)}`;
+    }).join(', ');
+}
+
+/**
+ * One digest per message: user and assistant text, every tool call with its arguments, and the
+ * head of every tool result. System messages (prompt hints, earlier summaries) are left out.
+ */
+function buildCompactionExcerpt(messages: Message[]): string[] {
+    const toolNames = new Map<string, string>();
+    const parts: string[] = [];
+
+    for (const msg of messages) {
+        if (msg.role === 'system') continue;
+        const text = messageText(msg.content).trim();
+
+        if (msg.role === 'tool') {
+            const name = msg.name || toolNames.get(msg.tool_call_id || '') || 'tool';
+            parts.push(`Tool result (${name}): ${clip(text, MAX_TOOL_RESULT_CHARS)}`);
+            continue;
+        }
+
+        const lines = text ? [`${msg.role === 'user' ? 'User' : 'AI'}: ${clip(text, MAX_TEXT_CHARS)}`] : [];
+        for (const tc of msg.tool_calls || []) {
+            toolNames.set(tc.id, tc.function.name);
+            lines.push(`AI called ${tc.function.name}(${digestToolArgs(tc.function.arguments)})`);
+        }
+        if (lines.length > 0) parts.push(lines.join('\n'));
+    }
+    return parts;
+}
+
+// Group digests into chunks of at most `budget` tokens, in order
+function chunkExcerpt(parts: string[], budget: number, tokenizer: Tokenizer): string[] {
+    const chunks: string[] = [];
+    let current: string[] = [];
+    let tokens = 0;
+    for (const part of parts) {
+        const partTokens = tokenizer.count(part);
+        if (current.length > 0 && tokens + partTokens > budget) {
+            chunks.push(current.join('\n\n'));
+            current = [];
+            tokens = 0;
+        }
+        current.push(part);
+        tokens += partTokens;
+    }
+    if (current.length > 0) chunks.push(current.join('\n\n'));
+    return chunks;
+}
+
+function chunkBudget(tokenizer: Tokenizer): number {
+    const { model } = resolveProvider();
+    const contextLimit = findModel(useStore.getState().models, model)?.contextLimit ?? DEFAULT_CONTEXT_LIMIT;
+    const budget = Math.floor(contextLimit * CHUNK_CONTEXT_SHARE) - tokenizer.count(SUMMARIZE_PROMPT) - SUMMARY_RESERVE_TOKENS;
+    return Math.max(budget, MIN_CHUNK_TOKENS);
+}
+
+/**
+ * Summarize everything before the recent tail and return the compacted history:
+ *   [original request, summary, ...recent messages]
+ * Long histories are summarized chunk by chunk, each pass folding the next chunk into the summary so far.
+ * Returns null when there is not enough history to compact. Throws if summarization fails or comes
+ * back empty — the history is then left as it is.
+ */
+export async function compactConversation(
+    messages: Message[],
+    tokenizer: Tokenizer = approximateTokenizer
+): Promise<CompactionResult | null> {
+    const split = findSplitIndex(messages);
+    const older = messages.slice(0, split);
+    if (older.length < MIN_MESSAGES_TO_COMPACT) return null;
+
+    const firstUser = older.find(m => m.role === 'user' && !isSummaryMessage(m));
+    const previousSummary = older.find(isSummaryMessage);
+
+    const chunks = chunkExcerpt(buildCompactionExcerpt(older), chunkBudget(tokenizer), tokenizer);
+
+    // Earlier summaries are system messages, which the excerpt skips — they seed the running summary
+    let summary = typeof previousSummary?.content === 'string' ? previousSummary.content : '';
+    for (const [i, chunk] of chunks.entries()) {
+        const input = summary ? `Summary of the conversation so far:\n${summary}\n\nLater messages:\n${chunk}` : chunk;
+        summary = await summarizeConversation(input, CHUNK_TIMEOUT_MS);
+        if (!summary) throw new Error(`Summarizer returned an empty summary (chunk ${i + 1} of ${chunks.length})`);
+    }
+    if (!summary) throw new Error('Nothing to summarize');
+
+    const summaryMessage: Message = {
+        role: 'system',
+        content: `${SUMMARY_MARKER} (${older.length} earlier messages compacted, also saved to ${CONTEXT_FILE}):\n\n${summary}`,
+    };
+
+    const compacted = [
+        ...(firstUser ? [firstUser] : []),
+        summaryMessage,
+        ...messages.slice(split),
+    ];
+
+    return {
+        messages: compacted,
+        summary,
+        compactedCount: older.length,
+        tokensBefore: countMessagesTokens(messages, tokenizer),
+        tokensAfter: countMessagesTokens(compacted, tokenizer),
+    };
+}
+
+// Persist the summary next to the project files (store + WebContainer)
+export async function writeContextFile(summary: string): Promise<void> {
+    const state = useStore.getState();
+    state.setFiles({
+        ...state.files,
+        [CONTEXT_FILE]: { file: { contents: summary } },
+    });
+
+    try {
+        await writeFile(CONTEXT_FILE, summary);
+    } catch (err) {
+        // The WebContainer may not be booted yet — the store copy is saved with the project anyway
+        console.warn('[Compaction] Could not write context file to WebContainer:', err);
+    }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { planContext, describePlan } from './contextPlanner';
+import { Tokenizer, countMessageTokens } from './tokenizer';
+import type { Message } from './ai';
+
+// One token per character keeps the budgets below easy to follow
+const charTokenizer: Tokenizer = { id: 'chars', exact: true, count: (text) => text.length };
+
+const system: Message = { role: 'system', content: 'sys' };
+const user = (content: string): Message => ({ role: 'user', content });
+const assistant = (content: string): Message => ({ role: 'assistant', content });
+const call = (...ids: string[]): Message => ({
+    role: 'assistant',
+    content: null,
+    tool_calls: ids.map(id => ({ id, type: 'function', function: { name: 'readFile', arguments: '{}' } })),
+});
+const toolResult = (id: string, content = 'ok'): Message => ({ role: 'tool', tool_call_id: id, content });
+
+const plan = (messages: Message[], budget = 100_000) => planContext({ systemPrompt: system, messages, budget, tokenizer: charTokenizer });
+const tokensOf = (messages: Message[]) => messages.reduce((sum, m) => sum + countMessageTokens(m, charTokenizer), countMessageTokens(system, charTokenizer));
+
+describe('planContext', () => {
+    it('keeps everything that fits', () => {
+        const messages = [user('build a todo app'), call('a'), toolResult('a'), assistant('done')];
+        const planned = plan(messages);
+        expect(planned.messages).toEqual(messages);
+        expect(planned.dropped).toEqual([]);
+        expect(planned.totalTokens).toBe(tokensOf(messages));
+        expect(describePlan(planned)).toContain('nothing dropped');
+    });
+
+    it('drops the oldest unpinned units first and keeps the original request and the latest turn', () => {
+        const messages = [
+            user('original request'),
+            assistant('x'.repeat(200)),
+            user('second'),
+            assistant('y'.repeat(200)),
+            user('latest'),
+        ];
+        const budget = tokensOf(messages) - 150;
+        const planned = plan(messages, budget);
+
+        expect(planned.messages).toEqual([messages[0], messages[2], messages[3], messages[4]]);
+        expect(planned.dropped.map(d => [d.index, d.reason])).toEqual([[1, 'budget']]);
+        expect(planned.totalTokens).toBeLessThanOrEqual(budget);
+        expect(planned.overBudget).toBe(false);
+    });
+
+    it('drops a tool call together with its results', () => {
+        const messages = [user('go'), call('a', 'b'), toolResult('a', 'z'.repeat(300)), toolResult('b'), user('latest')];
+        const planned = plan(messages, tokensOf([user('go'), user('latest')]) + 10);
+
+        expect(planned.messages).toEqual([messages[0], messages[4]]);
+        expect(planned.dropped.map(d => d.index)).toEqual([1, 2, 3]);
+    });
+
+    it('reports over budget when the pinned messages alone do not fit', () => {
+        const messages = [user('a'.repeat(100)), assistant('b'.repeat(100))];
+        const planned = plan(messages, 50);
+        expect(planned.messages).toEqual(messages);
+        expect(planned.overBudget).toBe(true);
+    });
+
+    it('drops tool results whose call is missing', () => {
+        const messages = [user('go'), toolResult('gone'), assistant('hi'), toolResult('a')];
+        const planned = plan(messages);
+
+        expect(planned.messages).toEqual([messages[0], messages[2]]);
+        expect(planned.dropped.map(d => [d.index, d.reason])).toEqual([[1, 'orphan'], [3, 'orphan']]);
+        expect(describePlan(planned)).toContain('2 orphaned tool messages');
+    });
+
+    it('drops a pinned tool call that never got a result', () => {
+        const messages = [user('go'), assistant('working on it'), user('continue'), call('a')];
+        const planned = plan(messages);
+
+        expect(planned.messages).toEqual(messages.slice(0, 3));
+        expect(planned.dropped.map(d => [d.index, d.reason])).toEqual([[3, 'orphan']]);
+    });
+
+    it('removes only the unanswered calls from a message', () => {
+        const partial = call('a', 'b');
+        const withText: Message = { ...call('c'), content: 'Let me check.' };
+        const messages = [user('go'), partial, toolResult('a'), withText, user('stop')];
+        const planned = plan(messages);
+
+        expect(planned.messages).toHaveLength(5);
+        expect(planned.messages[1].tool_calls!.map(tc => tc.id)).toEqual(['a']);
+        expect(planned.messages[3]).toEqual({ role: 'assistant', content: 'Let me check.' });
+        // The input is left untouched
+        expect(partial.tool_calls).toHaveLength(2);
+        expect(planned.totalTokens).toBe(tokensOf(planned.messages));
+    });
+});
@@ -0,0 +1,168 @@
+// Context planner — decides which chat messages fit into the model's token budget.
+// Messages are dropped oldest-first in whole units: an assistant tool call and its
+// tool results always stay or go together, and calls or results missing their other half
+// are removed up front, so the API never sees a dangling pair.
+
+import type { Message } from './ai';
+import { Tokenizer, approximateTokenizer, countMessageTokens } from './tokenizer';
+
+export interface DroppedMessage {
+    // Position in the messages passed to planContext
+    index: number;
+    role: Message['role'];
+    tokens: number;
+    preview: string;
+    // 'budget' = removed to fit, 'orphan' = tool result whose call is gone, or a tool-call-only
+    // assistant message none of whose calls got a result (providers reject both)
+    reason: 'budget' | 'orphan';
+}
+
+export interface ContextPlan {
+    messages: Message[];
+    // System prompt + kept messages
+    totalTokens: number;
+    budget: number;
+    dropped: DroppedMessage[];
+    droppedTokens: number;
+    // Pinned messages alone exceed the budget
+    overBudget: boolean;
+}
+
+export interface PlanContextOptions {
+    systemPrompt: Message;
+    messages: Message[];
+    budget: number;
+    tokenizer?: Tokenizer;
+}
+
+interface Unit {
+    indices: number[];
+    tokens: number;
+    pinned: boolean;
+}
+
+const PREVIEW_LENGTH = 80;
+
+function previewOf(msg: Message): string {
+    let text = '';
+    if (typeof msg.content === 'string') {
+        text = msg.content;
+    } else if (Array.isArray(msg.content)) {
+        text = msg.content.map(p => (p.type === 'text' ? p.text : '[image]')).join(' ');
+    }
+    if (!text && msg.tool_calls?.length) {
+        text = msg.tool_calls.map(tc => `${tc.function.name}()`).join(', ');
+    }
+    text = text.replace(/\s+/g, ' ').trim();
+    return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+}
+
+function hasText(msg: Message): boolean {
+    if (typeof msg.content === 'string') return msg.content.trim().length > 0;
+    return Array.isArray(msg.content) && msg.content.length > 0;
+}
+
+/**
+ * Fit messages into `budget` tokens (system prompt included).
+ * - the first user message (the original request) is pinned
+ * - the latest unit is pinned so the current turn is always sent
+ * - tool results without a matching assistant tool call are dropped as orphans
+ * - tool calls without a result (a run stopped mid-tool) are removed from their message
+ */
+export function planContext({ systemPrompt, messages, budget, tokenizer = approximateTokenizer }: PlanContextOptions): ContextPlan {
+    const tokens = messages.map(msg => countMessageTokens(msg, tokenizer));
+    const dropped: DroppedMessage[] = [];
+
+    const drop = (index: number, reason: DroppedMessage['reason']) => {
+        const msg = messages[index];
+        dropped.push({ index, role: msg.role, tokens: tokens[index], preview: previewOf(msg), reason });
+    };
+
+    // Group into units: [assistant with tool_calls, ...its tool results] or a single message
+    const units: Unit[] = [];
+    const calls: { unit: Unit; ids: Set<string>; answered: Set<string> }[] = [];
+    let openCall: (typeof calls)[number] | null = null;
+
+    messages.forEach((msg, i) => {
+        if (msg.role === 'tool') {
+            if (openCall && msg.tool_call_id && openCall.ids.has(msg.tool_call_id)) {
+                openCall.unit.indices.push(i);
+                openCall.unit.tokens += tokens[i];
+                openCall.answered.add(msg.tool_call_id);
+            } else {
+                drop(i, 'orphan');
+            }
+            return;
+        }
+
+        const unit: Unit = { indices: [i], tokens: tokens[i], pinned: false };
+        units.push(unit);
+        openCall = null;
+        if (msg.role === 'assistant' && msg.tool_calls?.length) {
+            openCall = { unit, ids: new Set(msg.tool_calls.map(tc => tc.id)), answered: new Set() };
+            calls.push(openCall);
+        }
+    });
+
+    // Strip calls that never got a result; a message left with neither calls nor text goes entirely
+    const replaced = new Map<number, Message>();
+    for (const { unit, answered } of calls) {
+        const index = unit.indices[0];
+        const msg = messages[index];
+        const kept = msg.tool_calls!.filter(tc => answered.has(tc.id));
+        if (kept.length === msg.tool_calls!.length) continue;
+
+        if (kept.length === 0 && !hasText(msg)) {
+            units.splice(units.indexOf(unit), 1);
+            drop(index, 'orphan');
+            continue;
+        }
+        const stripped: Message = { ...msg, tool_calls: kept };
+        if (kept.length === 0) delete stripped.tool_calls;
+        const strippedTokens = countMessageTokens(stripped, tokenizer);
+        unit.tokens += strippedTokens - tokens[index];
+        replaced.set(index, stripped);
+    }
+
+    const firstUser = units.find(u => messages[u.indices[0]].role === 'user');
+    if (firstUser) firstUser.pinned = true;
+    if (units.length > 0) units[units.length - 1].pinned = true;
+
+    const systemTokens = countMessageTokens(systemPrompt, tokenizer);
+    let totalTokens = systemTokens + units.reduce((sum, u) => sum + u.tokens, 0);
+
+    // Drop oldest unpinned units until we fit
+    const kept = new Set(units);
+    for (const unit of units) {
+        if (totalTokens <= budget) break;
+        if (unit.pinned) continue;
+        kept.delete(unit);
+        totalTokens -= unit.tokens;
+        unit.indices.forEach(i => drop(i, 'budget'));
+    }
+
+    const keptIndices = units
+        .filter(u => kept.has(u))
+        .flatMap(u => u.indices)
+        .sort((a, b) => a - b);
+
+    dropped.sort((a, b) => a.index - b.index);
+
+    return {
+        messages: keptIndices.map(i => replaced.get(i) ?? messages[i]),
+        totalTokens,
+        budget,
+        dropped,
+        droppedTokens: dropped.reduce((sum, d) => sum + d.tokens, 0),
+        overBudget: totalTokens > budget,
+    };
+}
+
+// One-line summary for logs and the context tooltip
+export function describePlan(plan: ContextPlan): string {
+    if (plan.dropped.length === 0) {
+        return `${plan.totalTokens.toLocaleString()} / ${plan.budget.toLocaleString()} tokens, nothing dropped`;
+    }
+    const orphans = plan.dropped.filter(d => d.reason === 'orphan').length;
+    return `Dropped ${plan.dropped.length} message${plan.dropped.length === 1 ? '' : 's'} (~${plan.droppedTokens.toLocaleString()} tokens${orphans ? `, ${orphans} orphaned tool message${orphans === 1 ? '' : 's'}` : ''}) — ${plan.totalTokens.toLocaleString()} / ${plan.budget.toLocaleString()} tokens`;
+}
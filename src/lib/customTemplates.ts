@@ -0,0 +1,183 @@
+// Custom templates — a tuned project (lint config, design tokens, components) saved from a chat
+// so new chats can start from it. Stored in IndexedDB next to the projects and shared between
+// people as a JSON file.
+
+import { saveAs } from 'file-saver';
+import { useStore } from '../store';
+import { getChat } from './api';
+import { ProjectTemplate, getTemplate } from './projectTemplate';
+import { FileMap } from './files';
+import { INSTRUCTIONS_FILE } from './instructions';
+import { TEMPLATES_STORE, getAllRecords, getRecord, putRecord, deleteRecord } from './storage';
+
+export const TEMPLATE_EXPORT_FORMAT = 'glovix-templates';
+export const TEMPLATE_EXPORT_VERSION = 1;
+
+export interface TemplateExport {
+    format: typeof TEMPLATE_EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    templates: ProjectTemplate[];
+}
+
+// Generated or machine-specific — rebuilt by the next chat, never part of a template.
+// Project instructions are kept: they're part of what makes a tuned project.
+const isTemplateFile = (path: string) =>
+    (path === INSTRUCTIONS_FILE || !path.startsWith('.glovix/')) &&
+    path !== 'glovix-picker.js' &&
+    !path.split('/').includes('node_modules') &&
+    !path.startsWith('dist/');
+
+// Frameworks and tools worth naming in the stack summary, in display order
+const STACK_PACKAGES: [string, string][] = [
+    ['vite', 'Vite'],
+    ['next', 'Next.js'],
+    ['react', 'React'],
+    ['vue', 'Vue'],
+    ['svelte', 'Svelte'],
+    ['preact', 'Preact'],
+    ['solid-js', 'Solid'],
+    ['typescript', 'TypeScript'],
+    ['tailwindcss', 'Tailwind CSS'],
+    ['vitest', 'Vitest'],
+];
+
+// "Vite · React · TypeScript" from package.json — for projects that didn't start from a template
+function detectStack(files: FileMap): string {
+    try {
+        const pkg = JSON.parse(files['package.json']?.file.contents || '{}');
+        const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+        const found = STACK_PACKAGES.filter(([name]) => name in deps).map(([, label]) => label);
+        return found.join(' · ') || 'Custom';
+    } catch {
+        return 'Custom';
+    }
+}
+
+export async function listCustomTemplates(): Promise<ProjectTemplate[]> {
+    const templates = await getAllRecords<ProjectTemplate>(TEMPLATES_STORE);
+    return templates.sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+}
+
+/**
+ * Built-in or custom template by id — same `undefined` / `null` rules as getTemplate().
+ */
+export async function resolveTemplate(id: string | null | undefined): Promise<ProjectTemplate | null> {
+    const builtIn = getTemplate(id);
+    if (builtIn || !id) return builtIn;
+    return getRecord<ProjectTemplate>(TEMPLATES_STORE, id);
+}
+
+// Template of a chat — from the chats list, or storage when the list isn't loaded yet.
+// Without a chat, the template picked for new chats.
+export async function getChatTemplate(chatId: string | null): Promise<ProjectTemplate | null> {
+    if (!chatId) return resolveTemplate(useStore.getState().projectTemplate);
+    const chat = useStore.getState().chats.find(c => c.id === chatId) ?? await getChat(chatId).catch(() => null);
+    return resolveTemplate(chat ? chat.template_id : undefined);
+}
+
+/**
+ * Save the current project as a template. `base` is the template the chat started from — its
+ * stack and notes carry over so the agent still knows the stack in chats started from this one.
+ */
+export async function saveProjectAsTemplate(
+    name: string,
+    description: string,
+    files: FileMap,
+    base: ProjectTemplate | null
+): Promise<ProjectTemplate> {
+    const templateFiles: FileMap = {};
+    for (const [path, entry] of Object.entries(files)) {
+        if (isTemplateFile(path)) templateFiles[path] = { file: { ...entry.file } };
+    }
+    if (Object.keys(templateFiles).length === 0) {
+        throw new Error('The project has no files to save');
+    }
+
+    const template: ProjectTemplate = {
+        id: `custom-${crypto.randomUUID()}`,
+        name: name.trim(),
+        description: description.trim(),
+        stack: base?.stack || detectStack(templateFiles),
+        notes: [
+            description.trim() && `- ${description.trim()}`,
+            base?.notes,
+            '- This is a custom template: keep its existing config, design tokens and components and build on them',
+        ].filter(Boolean).join('\n'),
+        files: templateFiles,
+        custom: true,
+        createdAt: new Date().toISOString(),
+    };
+    await putRecord(TEMPLATES_STORE, template);
+    console.log(`[Templates] Saved "${template.name}" (${Object.keys(templateFiles).length} files)`);
+    return template;
+}
+
+export async function deleteCustomTemplate(id: string): Promise<void> {
+    await deleteRecord(TEMPLATES_STORE, id);
+}
+
+// ============================================================
+// EXPORT / IMPORT
+// ============================================================
+
+export function exportTemplates(templates: ProjectTemplate[]) {
+    const data: TemplateExport = {
+        format: TEMPLATE_EXPORT_FORMAT,
+        version: TEMPLATE_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        templates,
+    };
+    const name = templates.length === 1
+        ? templates[0].name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'template'
+        : 'glovix-templates';
+    saveAs(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), `${name}.json`);
+}
+
+function isValidTemplate(t: any): t is ProjectTemplate {
+    return t && typeof t.id === 'string' && typeof t.name === 'string' &&
+        t.files && typeof t.files === 'object' &&
+        Object.values(t.files).every((f: any) => typeof f?.file?.contents === 'string');
+}
+
+/**
+ * Import templates from an exported JSON file. A template whose id already exists is replaced,
+ * so re-importing a teammate's updated file updates it in place.
+ */
+export async function importTemplates(file: Blob): Promise<ProjectTemplate[]> {
+    let data: TemplateExport;
+    try {
+        data = JSON.parse(await file.text());
+    } catch {
+        throw new Error('Not a template file: invalid JSON');
+    }
+    if (data?.format !== TEMPLATE_EXPORT_FORMAT || !Array.isArray(data.templates)) {
+        throw new Error('Not a Glovix template file');
+    }
+    if (typeof data.version !== 'number' || data.version > TEMPLATE_EXPORT_VERSION) {
+        throw new Error(`Template file version ${data.version} is newer than this app supports (${TEMPLATE_EXPORT_VERSION})`);
+    }
+
+    const imported: ProjectTemplate[] = [];
+    for (const t of data.templates) {
+        if (!isValidTemplate(t)) continue;
+        // Built-in ids are reserved
+        if (getTemplate(t.id)) continue;
+        const template: ProjectTemplate = {
+            id: t.id,
+            name: t.name,
+            description: t.description || '',
+            stack: t.stack || detectStack(t.files),
+            notes: t.notes || '',
+            files: t.files,
+            custom: true,
+            createdAt: t.createdAt || new Date().toISOString(),
+        };
+        await putRecord(TEMPLATES_STORE, template);
+        imported.push(template);
+    }
+    if (imported.length === 0) throw new Error('No valid templates in the file');
+
+    console.log(`[Templates] Imported ${imported.length} template(s)`);
+    return imported;
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { diffFiles, diffLines, buildHunks, applyHunks, countChangedLines, formatHunkHeader } from './diff';
+import type { FileMap } from './files';
+
+describe('diffFiles', () => {
+    it('lists added, removed and modified files sorted by path', () => {
+        const before: FileMap = {
+            'src/b.ts': { file: { contents: 'b' } },
+            'src/same.ts': { file: { contents: 'same' } },
+            'src/old.ts': { file: { contents: 'old' } },
+        };
+        const after: FileMap = {
+            'src/b.ts': { file: { contents: 'b2' } },
+            'src/same.ts': { file: { contents: 'same' } },
+            'src/a.ts': { file: { contents: 'a' } },
+        };
+        expect(diffFiles(before, after)).toEqual([
+            { path: 'src/a.ts', type: 'added', after: 'a' },
+            { path: 'src/b.ts', type: 'modified', before: 'b', after: 'b2' },
+            { path: 'src/old.ts', type: 'removed', before: 'old' },
+        ]);
+    });
+
+    it('describes binary assets instead of diffing base64', () => {
+        const before: FileMap = { 'logo.png': { file: { contents: 'AAAA', encoding: 'base64', mimeType: 'image/png' } } };
+        const after: FileMap = { 'logo.png': { file: { contents: 'AAAAAAAA', encoding: 'base64', mimeType: 'image/png' } } };
+        expect(diffFiles(before, after)).toEqual([{
+            path: 'logo.png',
+            type: 'modified',
+            before: '[Binary file: logo.png (image/png, 3 bytes)]',
+            after: '[Binary file: logo.png (image/png, 6 bytes)]',
+        }]);
+    });
+
+    it('treats a text file and a binary entry with the same string as different', () => {
+        const before: FileMap = { 'a.bin': { file: { contents: 'AAAA' } } };
+        const after: FileMap = { 'a.bin': { file: { contents: 'AAAA', encoding: 'base64' } } };
+        expect(diffFiles(before, after).map(c => c.type)).toEqual(['modified']);
+        expect(diffFiles(before, before)).toEqual([]);
+    });
+});
+
+describe('hunks', () => {
+    const before = ['a', 'b', 'c', 'd', 'e'].join('\n');
+    const after = ['a', 'B', 'c', 'd', 'e', 'f'].join('\n');
+    const lines = diffLines(before, after);
+    const hunks = buildHunks(lines);
+
+    it('groups consecutive changes into hunks with unified-diff headers', () => {
+        expect(countChangedLines(lines)).toEqual({ added: 2, removed: 1 });
+        expect(hunks.map(formatHunkHeader)).toEqual(['@@ -2,1 +2,1 @@', '@@ -6,0 +6,1 @@']);
+    });
+
+    it('rebuilds the file from the accepted hunks', () => {
+        expect(applyHunks(lines, new Set([0, 1]))).toBe(after);
+        expect(applyHunks(lines, new Set())).toBe(before);
+        expect(applyHunks(lines, new Set([0]))).toBe(['a', 'B', 'c', 'd', 'e'].join('\n'));
+        expect(applyHunks(lines, new Set([1]))).toBe(['a', 'b', 'c', 'd', 'e', 'f'].join('\n'));
+    });
+});
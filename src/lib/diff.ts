@@ -0,0 +1,189 @@
+// Line diff helpers — used by the checkpoint timeline and by review mode's per-hunk accept / reject
+
+import { FileEntry, FileMap, describeBinaryEntry, isBinaryEntry, sameEntry } from './files';
+
+export interface DiffLine {
+    type: 'context' | 'add' | 'remove';
+    text: string;
+    // 1-based line numbers in the old / new text
+    oldLine?: number;
+    newLine?: number;
+}
+
+export interface FileChange {
+    path: string;
+    type: 'added' | 'removed' | 'modified';
+    before?: string;
+    after?: string;
+}
+
+// A run of consecutive changed lines; ids are the hunk's position in the file
+export interface DiffHunk {
+    id: number;
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    lines: DiffLine[];
+}
+
+// Above this many cells the LCS table gets too big — fall back to "replace the whole block"
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line-based diff: strips the common prefix/suffix, then runs an LCS on what is left.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const result: DiffLine[] = [];
+    for (let i = 0; i < start; i++) {
+        result.push({ type: 'context', text: a[i], oldLine: i + 1, newLine: i + 1 });
+    }
+
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+
+    if (midA.length * midB.length > MAX_LCS_CELLS) {
+        midA.forEach((text, i) => result.push({ type: 'remove', text, oldLine: start + i + 1 }));
+        midB.forEach((text, i) => result.push({ type: 'add', text, newLine: start + i + 1 }));
+    } else {
+        // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+        const rows = midA.length + 1;
+        const cols = midB.length + 1;
+        const lcs = new Uint32Array(rows * cols);
+        for (let i = midA.length - 1; i >= 0; i--) {
+            for (let j = midB.length - 1; j >= 0; j--) {
+                lcs[i * cols + j] = midA[i] === midB[j]
+                    ? lcs[(i + 1) * cols + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < midA.length || j < midB.length) {
+            if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+                result.push({ type: 'context', text: midA[i], oldLine: start + i + 1, newLine: start + j + 1 });
+                i++;
+                j++;
+            } else if (i < midA.length && (j >= midB.length || lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1])) {
+                // Removals before additions on ties reads like a conventional unified diff
+                result.push({ type: 'remove', text: midA[i], oldLine: start + i + 1 });
+                i++;
+            } else {
+                result.push({ type: 'add', text: midB[j], newLine: start + j + 1 });
+                j++;
+            }
+        }
+    }
+
+    for (let k = 0; k < a.length - endA; k++) {
+        result.push({ type: 'context', text: a[endA + k], oldLine: endA + k + 1, newLine: endB + k + 1 });
+    }
+
+    return result;
+}
+
+// Files that differ between two snapshots, sorted by path
+export function diffFiles(before: FileMap, after: FileMap): FileChange[] {
+    const changes: FileChange[] = [];
+    const paths = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    // Binary assets diff as a one-line description instead of base64
+    const text = (path: string, entry: FileEntry) => isBinaryEntry(entry) ? describeBinaryEntry(path, entry) : entry.file.contents;
+
+    for (const path of paths) {
+        const a = before[path];
+        const b = after[path];
+        if (!a && b) {
+            changes.push({ path, type: 'added', after: text(path, b) });
+        } else if (a && !b) {
+            changes.push({ path, type: 'removed', before: text(path, a) });
+        } else if (a && b && !sameEntry(a, b)) {
+            changes.push({ path, type: 'modified', before: text(path, a), after: text(path, b) });
+        }
+    }
+
+    return changes.sort((x, y) => x.path.localeCompare(y.path));
+}
+
+export function countChangedLines(lines: DiffLine[]): { added: number; removed: number } {
+    let added = 0;
+    let removed = 0;
+    for (const line of lines) {
+        if (line.type === 'add') added++;
+        else if (line.type === 'remove') removed++;
+    }
+    return { added, removed };
+}
+
+// Group the changed lines of a diff into hunks (no surrounding context)
+export function buildHunks(lines: DiffLine[]): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    let oldPos = 0;
+    let newPos = 0;
+    let current: DiffHunk | null = null;
+
+    for (const line of lines) {
+        if (line.type === 'context') {
+            current = null;
+            oldPos++;
+            newPos++;
+            continue;
+        }
+        if (!current) {
+            current = { id: hunks.length, oldStart: oldPos + 1, oldLines: 0, newStart: newPos + 1, newLines: 0, lines: [] };
+            hunks.push(current);
+        }
+        current.lines.push(line);
+        if (line.type === 'remove') {
+            current.oldLines++;
+            oldPos++;
+        } else {
+            current.newLines++;
+            newPos++;
+        }
+    }
+    return hunks;
+}
+
+/**
+ * Rebuild a file from a diff, taking the new side of accepted hunks and the old side of the rest.
+ * Hunk ids follow buildHunks on the same diff.
+ */
+export function applyHunks(lines: DiffLine[], accepted: Set<number>): string {
+    const result: string[] = [];
+    let hunkId = -1;
+    let inHunk = false;
+
+    for (const line of lines) {
+        if (line.type === 'context') {
+            inHunk = false;
+            result.push(line.text);
+            continue;
+        }
+        if (!inHunk) {
+            inHunk = true;
+            hunkId++;
+        }
+        const keep = accepted.has(hunkId) ? line.type === 'add' : line.type === 'remove';
+        if (keep) result.push(line.text);
+    }
+    return result.join('\n');
+}
+
+export function formatHunkHeader(hunk: DiffHunk): string {
+    return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
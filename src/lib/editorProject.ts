@@ -0,0 +1,278 @@
+// Editor project model — every project file is a Monaco model at file:///<path>, so the TypeScript
+// worker sees the whole project: imports resolve, diagnostics are cross-file and go-to-definition
+// works. Compiler options come from the project's tsconfig; declarations of installed packages are
+// read from the WebContainer's node_modules after each install.
+
+import * as monaco from 'monaco-editor';
+import { getWebContainer } from './webcontainer';
+import { FileMap, isBinaryEntry } from './files';
+
+export const getLanguage = (filename: string): string => {
+    const ext = filename.split('.').pop()?.toLowerCase();
+    const langMap: Record<string, string> = {
+        ts: 'typescript', tsx: 'typescript', js: 'javascript', jsx: 'javascript',
+        json: 'json', html: 'html', css: 'css', scss: 'scss', md: 'markdown',
+        py: 'python', yaml: 'yaml', yml: 'yaml',
+    };
+    return langMap[ext || ''] || 'plaintext';
+};
+
+// The `path` the editor opens a project file under
+export const modelPath = (path: string) => `file:///${path}`;
+
+const isProjectModel = (model: monaco.editor.ITextModel) =>
+    model.uri.scheme === 'file' && !model.uri.path.startsWith('/node_modules/');
+
+/**
+ * Create, update and dispose models so they mirror the project's text files.
+ * Updates go through the undo stack — a file open in the editor keeps its history.
+ */
+export function syncProjectModels(files: FileMap) {
+    const wanted = new Set<string>();
+    for (const [path, entry] of Object.entries(files)) {
+        if (isBinaryEntry(entry)) continue;
+        const uri = monaco.Uri.parse(modelPath(path));
+        wanted.add(uri.toString());
+        const model = monaco.editor.getModel(uri);
+        if (!model) {
+            monaco.editor.createModel(entry.file.contents, getLanguage(path), uri);
+        } else if (model.getValue() !== entry.file.contents) {
+            model.pushEditOperations([], [{ range: model.getFullModelRange(), text: entry.file.contents }], () => null);
+        }
+    }
+    for (const model of monaco.editor.getModels()) {
+        if (isProjectModel(model) && !wanted.has(model.uri.toString())) model.dispose();
+    }
+}
+
+// ── Compiler options ──
+
+// Module resolution values newer than monaco's typings; its bundled TypeScript understands them
+const MODULE_RESOLUTION: Record<string, number> = {
+    classic: 1, node: 2, node10: 2, node16: 3, nodenext: 99, bundler: 100,
+};
+const TARGETS: Record<string, monaco.typescript.ScriptTarget> = {
+    es3: 0, es5: 1, es6: 2, es2015: 2, es2016: 3, es2017: 4, es2018: 5, es2019: 6, es2020: 7, esnext: 99,
+};
+const JSX: Record<string, monaco.typescript.JsxEmit> = {
+    preserve: 1, react: 2, 'react-native': 3, 'react-jsx': 4, 'react-jsxdev': 5,
+};
+
+// tsconfig files are JSONC — comments and trailing commas are common
+function parseJsonc(text: string): any {
+    const stripped = text
+        .replace(/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (_match, str) => str ?? '')
+        .replace(/,(\s*[}\]])/g, '$1');
+    try {
+        return JSON.parse(stripped);
+    } catch {
+        return null;
+    }
+}
+
+// Vite templates keep the app's options in tsconfig.app.json, referenced from tsconfig.json
+function readTsconfigOptions(files: FileMap): Record<string, any> {
+    const read = (path: string) => files[path] && !isBinaryEntry(files[path]) ? parseJsonc(files[path].file.contents) : null;
+    const root = read('tsconfig.json');
+    const app = root?.references ? read('tsconfig.app.json') : null;
+    return { ...(root?.compilerOptions || {}), ...(app?.compilerOptions || {}) };
+}
+
+let projectOptions: Record<string, any> = {};
+// Package name → its declaration entry point, for packages whose types aren't at index.d.ts
+let typePaths: Record<string, string[]> = {};
+
+function applyCompilerOptions() {
+    const o = projectOptions;
+    const lower = (value: unknown) => typeof value === 'string' ? value.toLowerCase() : '';
+    const options: monaco.typescript.CompilerOptions = {
+        strict: o.strict ?? true,
+        noUnusedLocals: o.noUnusedLocals,
+        noUnusedParameters: o.noUnusedParameters,
+        noFallthroughCasesInSwitch: o.noFallthroughCasesInSwitch,
+        noImplicitReturns: o.noImplicitReturns,
+        esModuleInterop: o.esModuleInterop ?? true,
+        allowSyntheticDefaultImports: true,
+        allowImportingTsExtensions: o.allowImportingTsExtensions ?? true,
+        resolveJsonModule: o.resolveJsonModule ?? true,
+        isolatedModules: o.isolatedModules,
+        useDefineForClassFields: o.useDefineForClassFields,
+        skipLibCheck: true,
+        allowJs: true,
+        allowNonTsExtensions: true,
+        noEmit: true,
+        target: TARGETS[lower(o.target)] ?? monaco.typescript.ScriptTarget.ESNext,
+        module: monaco.typescript.ModuleKind.ESNext,
+        moduleResolution: (MODULE_RESOLUTION[lower(o.moduleResolution)] ?? MODULE_RESOLUTION.bundler) as monaco.typescript.ModuleResolutionKind,
+        jsx: JSX[lower(o.jsx)] ?? monaco.typescript.JsxEmit.ReactJSX,
+        jsxImportSource: o.jsxImportSource,
+        lib: Array.isArray(o.lib) ? o.lib.map(lower) : undefined,
+        baseUrl: 'file:///',
+        paths: { ...typePaths, ...prefixPaths(o.paths, o.baseUrl) },
+    };
+    monaco.typescript.typescriptDefaults.setCompilerOptions(options);
+    monaco.typescript.javascriptDefaults.setCompilerOptions({ ...options, checkJs: o.checkJs });
+}
+
+// The project's own aliases ("@/*" → "src/*") are relative to its baseUrl, ours is the root
+function prefixPaths(paths: unknown, baseUrl: unknown): Record<string, string[]> {
+    if (!paths || typeof paths !== 'object') return {};
+    const base = typeof baseUrl === 'string' ? baseUrl.replace(/^\.\/?/, '').replace(/\/?$/, '/').replace(/^\/$/, '') : '';
+    return Object.fromEntries(Object.entries(paths as Record<string, string[]>).map(([key, targets]) => [
+        key,
+        (Array.isArray(targets) ? targets : []).map(t => `${base}${t.replace(/^\.\//, '')}`),
+    ]));
+}
+
+let lastTsconfig: string | undefined;
+
+// Re-applies compiler options when the project's tsconfig changed
+export function syncCompilerOptions(files: FileMap) {
+    const key = ['tsconfig.json', 'tsconfig.app.json'].map(p => files[p]?.file.contents ?? '').join('\0');
+    if (key === lastTsconfig) return;
+    if (lastTsconfig === undefined) {
+        for (const defaults of [monaco.typescript.typescriptDefaults, monaco.typescript.javascriptDefaults]) {
+            // Unopened files must reach the worker for cross-file resolution; only visible ones are checked
+            defaults.setEagerModelSync(true);
+            defaults.setDiagnosticsOptions({ onlyVisible: true });
+        }
+    }
+    lastTsconfig = key;
+    projectOptions = readTsconfigOptions(files);
+    applyCompilerOptions();
+}
+
+// ── Installed type declarations ──
+
+const MAX_FILES_PER_PACKAGE = 400;
+const MAX_BYTES_PER_PACKAGE = 4 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 24 * 1024 * 1024;
+const DECLARATION_FILE = /\.d\.(ts|mts|cts)$/;
+// typesVersions copies for older TypeScript releases (@types/react/ts5.0) would declare everything twice
+const SKIPPED_DIRS = /^(node_modules|ts\d+\.\d+)$/;
+
+interface PackageTypes {
+    version: string;
+    libs: { filePath: string; content: string }[];
+    // Declaration entry (from the project root) when resolution can't find it by itself
+    entry?: string;
+}
+
+const packageTypes = new Map<string, PackageTypes>();
+let loading: Promise<void> | null = null;
+
+async function readJson(path: string): Promise<any> {
+    const instance = await getWebContainer();
+    try {
+        return JSON.parse(await instance.fs.readFile(path, 'utf-8'));
+    } catch {
+        return null;
+    }
+}
+
+// Declaration entry from "types"/"typings" or the "." export's types condition
+function typesEntry(pkg: any): string | null {
+    const exports = pkg?.exports && typeof pkg.exports === 'object' ? pkg.exports : null;
+    const dot = exports ? exports['.'] ?? exports : null;
+    const fromExports = dot && typeof dot === 'object'
+        ? dot.types ?? dot.import?.types ?? dot.default?.types ?? dot.require?.types
+        : null;
+    const entry = pkg?.types ?? pkg?.typings ?? fromExports;
+    return typeof entry === 'string' ? entry.replace(/^\.\//, '') : null;
+}
+
+async function collectDeclarations(dir: string, result: PackageTypes['libs'], budget: { bytes: number }, recursive: boolean) {
+    const instance = await getWebContainer();
+    let entries;
+    try {
+        entries = await instance.fs.readdir(dir, { withFileTypes: true });
+    } catch {
+        return;
+    }
+    for (const entry of entries) {
+        if (result.length >= MAX_FILES_PER_PACKAGE || budget.bytes <= 0) return;
+        const path = `${dir}/${entry.name}`;
+        if (entry.isDirectory()) {
+            if (recursive && !SKIPPED_DIRS.test(entry.name)) await collectDeclarations(path, result, budget, true);
+        } else if (DECLARATION_FILE.test(entry.name)) {
+            try {
+                const content = await instance.fs.readFile(path, 'utf-8');
+                budget.bytes -= content.length;
+                result.push({ filePath: `file:///${path}`, content });
+            } catch { /* unreadable — skip */ }
+        }
+    }
+}
+
+async function loadPackageTypes(name: string): Promise<PackageTypes | null> {
+    const pkg = await readJson(`node_modules/${name}/package.json`);
+    if (!pkg) return null;
+    const cached = packageTypes.get(name);
+    if (cached && cached.version === pkg.version) return cached;
+
+    const libs: PackageTypes['libs'] = [];
+    const budget = { bytes: MAX_BYTES_PER_PACKAGE };
+    const root = `node_modules/${name}`;
+    const entry = typesEntry(pkg);
+    // Root-level declarations (vite/client.d.ts) plus everything beside the entry point
+    const entryAtRoot = name.startsWith('@types/') || (!!entry && !entry.includes('/'));
+    await collectDeclarations(root, libs, budget, entryAtRoot);
+    if (entry && entry.includes('/')) {
+        await collectDeclarations(`${root}/${entry.slice(0, entry.lastIndexOf('/'))}`, libs, budget, true);
+    }
+    const result: PackageTypes = {
+        version: pkg.version || '',
+        libs,
+        entry: entry && entry !== 'index.d.ts' ? `${root}/${entry}` : undefined,
+    };
+    packageTypes.set(name, result);
+    return result;
+}
+
+async function loadAllTypes() {
+    const pkg = await readJson('package.json');
+    if (!pkg) return;
+    const names = new Set(Object.keys({ ...pkg.dependencies, ...pkg.devDependencies }));
+    // Packages without their own declarations are typed by @types/<name>
+    for (const name of [...names]) {
+        if (!name.startsWith('@types/')) names.add(`@types/${name.replace(/^@([^/]+)\//, '$1__')}`);
+    }
+
+    const libs: PackageTypes['libs'] = [];
+    const paths: Record<string, string[]> = {};
+    let total = 0;
+    for (const name of names) {
+        const types = await loadPackageTypes(name);
+        if (!types || types.libs.length === 0) continue;
+        const size = types.libs.reduce((sum, lib) => sum + lib.content.length, 0);
+        if (total + size > MAX_TOTAL_BYTES) {
+            console.warn(`[Editor] Skipping types of ${name} — declaration budget exhausted`);
+            continue;
+        }
+        total += size;
+        libs.push(...types.libs);
+        if (types.entry && !name.startsWith('@types/')) {
+            paths[name] = [types.entry];
+            paths[`${name}/*`] = [`node_modules/${name}/*`];
+        }
+    }
+
+    typePaths = paths;
+    monaco.typescript.typescriptDefaults.setExtraLibs(libs);
+    monaco.typescript.javascriptDefaults.setExtraLibs(libs);
+    applyCompilerOptions();
+    console.log(`[Editor] Loaded ${libs.length} declaration files (${(total / 1024 / 1024).toFixed(1)} MB) from node_modules`);
+}
+
+/**
+ * Read declarations of the installed packages into the editor. Called after each install;
+ * packages whose version didn't change are served from memory.
+ */
+export function loadInstalledTypes(): Promise<void> {
+    if (!loading) {
+        loading = loadAllTypes()
+            .catch(err => console.error('[Editor] Failed to load type declarations:', err))
+            .finally(() => { loading = null; });
+    }
+    return loading;
+}
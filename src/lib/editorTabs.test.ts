@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EditorTab, toggleTabPin, tabAfterClose, pruneTabs, setPaneFile } from './editorTabs';
+
+vi.hoisted(() => {
+    const items = new Map<string, string>();
+    globalThis.localStorage = {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); },
+        removeItem: (key: string) => { items.delete(key); },
+        clear: () => items.clear(),
+        key: (index: number) => [...items.keys()][index] ?? null,
+        get length() { return items.size; },
+    };
+});
+
+import { useStore } from '../store';
+
+const tab = (path: string, pinned = false): EditorTab => ({ path, pinned });
+const paths = (tabs: EditorTab[]) => tabs.map(t => `${t.path}${t.pinned ? '*' : ''}`);
+
+describe('tab helpers', () => {
+    it('moves a pinned tab to the end of the pinned group and an unpinned one after it', () => {
+        const tabs = [tab('a', true), tab('b'), tab('c')];
+        expect(paths(toggleTabPin(tabs, 'c'))).toEqual(['a*', 'c*', 'b']);
+        expect(paths(toggleTabPin(tabs, 'a'))).toEqual(['a', 'b', 'c']);
+        expect(paths(toggleTabPin([tab('a', true), tab('b', true), tab('c')], 'a'))).toEqual(['b*', 'a', 'c']);
+        expect(toggleTabPin(tabs, 'missing')).toBe(tabs);
+    });
+
+    it('shows the tab to the right of a closed one, else the one to its left', () => {
+        const tabs = [tab('a'), tab('b'), tab('c')];
+        expect(tabAfterClose(tabs, 'b')).toBe('c');
+        expect(tabAfterClose(tabs, 'c')).toBe('b');
+        expect(tabAfterClose([tab('a')], 'a')).toBeNull();
+        expect(tabAfterClose(tabs, 'missing')).toBeNull();
+    });
+
+    it('closes tabs of deleted files and keeps the array when nothing changed', () => {
+        const tabs = [tab('a'), tab('b', true)];
+        const files = { a: { file: { contents: '' } }, b: { file: { contents: '' } } };
+        expect(pruneTabs(tabs, files)).toBe(tabs);
+        expect(paths(pruneTabs(tabs, { a: files.a }))).toEqual(['a']);
+    });
+
+    it('sets the file of one pane and leaves the other', () => {
+        const split = { files: ['a', 'b'] as [string, string], active: 1 as const };
+        expect(setPaneFile(split, 0, 'c')).toEqual({ files: ['c', 'b'], active: 1 });
+        expect(setPaneFile(split, 1, null)).toEqual({ files: ['a', null], active: 1 });
+    });
+});
+
+describe('showAgentEdit', () => {
+    beforeEach(() => {
+        useStore.setState({ selectedFile: null, openTabs: [], splitView: null, flashedTabs: {} });
+        useStore.getState().setFollowAgentEdits(true);
+    });
+
+    it('selects the edited file while following agent edits', () => {
+        const state = useStore.getState();
+        state.setSelectedFile('src/App.tsx');
+        state.showAgentEdit('src/main.tsx');
+
+        const { selectedFile, openTabs, flashedTabs } = useStore.getState();
+        expect(selectedFile).toBe('src/main.tsx');
+        expect(paths(openTabs)).toEqual(['src/App.tsx', 'src/main.tsx']);
+        expect(flashedTabs).toEqual({});
+    });
+
+    it('opens a flashing background tab when not following, until the tab is viewed', () => {
+        const state = useStore.getState();
+        state.setFollowAgentEdits(false);
+        state.setSelectedFile('src/App.tsx');
+        state.showAgentEdit('src/main.tsx');
+
+        let current = useStore.getState();
+        expect(current.selectedFile).toBe('src/App.tsx');
+        expect(paths(current.openTabs)).toEqual(['src/App.tsx', 'src/main.tsx']);
+        expect(Object.keys(current.flashedTabs)).toEqual(['src/main.tsx']);
+
+        current.setSelectedFile('src/main.tsx');
+        current = useStore.getState();
+        expect(current.flashedTabs).toEqual({});
+    });
+
+    it('selects the file when nothing is open and never flashes a file already on screen', () => {
+        const state = useStore.getState();
+        state.setFollowAgentEdits(false);
+        state.showAgentEdit('src/App.tsx');
+        expect(useStore.getState().selectedFile).toBe('src/App.tsx');
+
+        useStore.setState({ splitView: { files: ['src/App.tsx', 'src/main.tsx'], active: 0 } });
+        useStore.getState().showAgentEdit('src/main.tsx');
+        useStore.getState().showAgentEdit('src/App.tsx');
+        expect(useStore.getState().flashedTabs).toEqual({});
+    });
+});
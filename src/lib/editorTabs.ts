@@ -0,0 +1,50 @@
+// Editor tabs — the files open in the editor (pinned ones first) and the optional split into two
+// side-by-side panes. The store holds the state; these helpers compute its next value.
+
+import { FileMap } from './files';
+
+export interface EditorTab {
+    path: string;
+    pinned: boolean;
+}
+
+export interface SplitView {
+    // Files shown in the left and right pane
+    files: [string | null, string | null];
+    // The pane that tab clicks and file selection go to
+    active: 0 | 1;
+}
+
+export function addTab(tabs: EditorTab[], path: string): EditorTab[] {
+    return tabs.some(t => t.path === path) ? tabs : [...tabs, { path, pinned: false }];
+}
+
+export function removeTab(tabs: EditorTab[], path: string): EditorTab[] {
+    return tabs.filter(t => t.path !== path);
+}
+
+// A pinned tab moves to the end of the pinned group, an unpinned one to the start of the rest
+export function toggleTabPin(tabs: EditorTab[], path: string): EditorTab[] {
+    const tab = tabs.find(t => t.path === path);
+    if (!tab) return tabs;
+    const rest = tabs.filter(t => t.path !== path);
+    const pinnedCount = rest.filter(t => t.pinned).length;
+    return [...rest.slice(0, pinnedCount), { path, pinned: !tab.pinned }, ...rest.slice(pinnedCount)];
+}
+
+// What to show once `path` closes: the tab to its right, else the one to its left
+export function tabAfterClose(tabs: EditorTab[], path: string): string | null {
+    const index = tabs.findIndex(t => t.path === path);
+    if (index === -1) return null;
+    return (tabs[index + 1] || tabs[index - 1])?.path ?? null;
+}
+
+// Tabs of files that no longer exist are closed. Returns the same array when nothing changed.
+export function pruneTabs(tabs: EditorTab[], files: FileMap): EditorTab[] {
+    const kept = tabs.filter(t => t.path in files);
+    return kept.length === tabs.length ? tabs : kept;
+}
+
+export function setPaneFile(split: SplitView, pane: 0 | 1, path: string | null): SplitView {
+    return { ...split, files: pane === 0 ? [path, split.files[1]] : [split.files[0], path] };
+}
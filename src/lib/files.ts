@@ -0,0 +1,130 @@
+// Project file model — text files keep their source in `contents`; binary assets (images, fonts,
+// audio…) keep base64 in `contents` with `encoding: 'base64'` and a MIME type, so every file map
+// stays plain JSON for the store, IndexedDB, checkpoints and archives.
+
+export interface FileEntry {
+    file: {
+        contents: string;
+        encoding?: 'base64';
+        mimeType?: string;
+    };
+}
+
+export type FileMap = Record<string, FileEntry>;
+
+const MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    bmp: 'image/bmp',
+    ico: 'image/x-icon',
+    tif: 'image/tiff',
+    tiff: 'image/tiff',
+    svg: 'image/svg+xml',
+    woff: 'font/woff',
+    woff2: 'font/woff2',
+    ttf: 'font/ttf',
+    otf: 'font/otf',
+    eot: 'application/vnd.ms-fontobject',
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+    ogg: 'audio/ogg',
+    mp4: 'video/mp4',
+    webm: 'video/webm',
+    mov: 'video/quicktime',
+    pdf: 'application/pdf',
+    wasm: 'application/wasm',
+};
+
+// Extensions stored as base64 even when their bytes happen to decode as text.
+// SVG is deliberately absent — it is XML and stays editable.
+const BINARY_EXTENSIONS = new Set(Object.keys(MIME_TYPES).filter(ext => ext !== 'svg'));
+
+function extensionOf(path: string): string {
+    const name = path.split('/').pop() || '';
+    return name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+}
+
+export function getMimeType(path: string): string {
+    return MIME_TYPES[extensionOf(path)] || 'application/octet-stream';
+}
+
+export function isBinaryPath(path: string): boolean {
+    return BINARY_EXTENSIONS.has(extensionOf(path));
+}
+
+export function isBinaryEntry(entry: FileEntry | undefined): boolean {
+    return entry?.file.encoding === 'base64';
+}
+
+// A NUL byte in the first 8 KB is a reliable sign of a binary file
+export function looksBinary(bytes: Uint8Array): boolean {
+    const end = Math.min(bytes.length, 8192);
+    for (let i = 0; i < end; i++) {
+        if (bytes[i] === 0) return true;
+    }
+    return false;
+}
+
+export function isImageEntry(entry: FileEntry | undefined): boolean {
+    return !!entry && (entry.file.mimeType || '').startsWith('image/');
+}
+
+// ── base64 ──────────────────────────────────────────────────
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    // Chunked — String.fromCharCode(...bytes) overflows the stack on large files
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+// ── Entries ─────────────────────────────────────────────────
+
+export function createBinaryEntry(bytes: Uint8Array, path: string, mimeType = getMimeType(path)): FileEntry {
+    return { file: { contents: bytesToBase64(bytes), encoding: 'base64', mimeType } };
+}
+
+// Uploaded / imported bytes: text files are decoded, anything else is kept as base64
+export function createEntryFromBytes(bytes: Uint8Array, path: string): FileEntry {
+    if (isBinaryPath(path) || looksBinary(bytes)) return createBinaryEntry(bytes, path);
+    return { file: { contents: new TextDecoder('utf-8').decode(bytes) } };
+}
+
+// Raw bytes for binary entries, the source string for text ones — what the WebContainer mounts
+export function entryContents(entry: FileEntry): string | Uint8Array {
+    return isBinaryEntry(entry) ? base64ToBytes(entry.file.contents) : entry.file.contents;
+}
+
+// Decoded size in bytes (base64 inflates by 4/3)
+export function entrySize(entry: FileEntry): number {
+    if (!isBinaryEntry(entry)) return new TextEncoder().encode(entry.file.contents).length;
+    const padding = entry.file.contents.endsWith('==') ? 2 : entry.file.contents.endsWith('=') ? 1 : 0;
+    return Math.floor(entry.file.contents.length * 3 / 4) - padding;
+}
+
+export function entryToDataUrl(entry: FileEntry): string {
+    return `data:${entry.file.mimeType || 'application/octet-stream'};base64,${entry.file.contents}`;
+}
+
+// Stand-in shown to the model and in diffs instead of base64
+export function describeBinaryEntry(path: string, entry: FileEntry): string {
+    return `[Binary file: ${path} (${entry.file.mimeType || 'application/octet-stream'}, ${entrySize(entry)} bytes)]`;
+}
+
+// Same file? Compares encoding too, so a text and a binary entry with equal strings differ
+export function sameEntry(a: FileEntry | undefined, b: FileEntry | undefined): boolean {
+    return a?.file.contents === b?.file.contents && a?.file.encoding === b?.file.encoding;
+}
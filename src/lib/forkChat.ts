@@ -3,8 +3,9 @@
 
 import { useStore } from '../store';
 import { createChat, saveProject } from './api';
+import { completeText } from './ai';
 
-const SUMMARIZE_PROMPT = `You are a context compression assistant. Your job is to summarize a conversation between a user and an AI developer into a compact context document.
+export const SUMMARIZE_PROMPT = `You are a context compression assistant. Your job is to summarize a conversation between a user and an AI developer into a compact context document.
 
 Rules:
 - Write in the SAME LANGUAGE as the conversation (Russian → Russian, English → English)
@@ -37,7 +38,7 @@ Output format:
 Now summarize this conversation:`;
 
 // Extract text content from messages for summarization
-function extractConversationText(messages: any[]): string {
+export function extractConversationText(messages: any[]): string {
     const parts: string[] = [];
     
     for (const msg of messages) {
@@ -92,88 +93,37 @@ function extractConversationText(messages: any[]): string {
     return result;
 }
 
-// Generate context summary using AI
-async function generateContextSummary(conversationText: string): Promise<string> {
-    const { aiApiKey, aiModel } = useStore.getState();
-    const envKey = import.meta.env.VITE_AI_API_KEY;
-    const apiKeyToUse = (envKey && envKey !== 'your_api_key_here') ? envKey : aiApiKey;
-    const actualModelId = import.meta.env.VITE_AI_MODEL || aiModel || 'gpt-4';
-
-    if (!apiKeyToUse) {
-        throw new Error('No API key configured');
-    }
-
+/**
+ * Run the summarizer over conversation text. Returns '' when the model produced nothing,
+ * so callers decide what an empty summary means.
+ */
+export async function summarizeConversation(conversationText: string, timeoutMs = 30000): Promise<string> {
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 30000);
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
     try {
-        const response = await fetch('/api/ai/chat', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${apiKeyToUse}`,
-            },
-            body: JSON.stringify({
-                model: actualModelId,
-                messages: [
-                    { role: 'system', content: SUMMARIZE_PROMPT },
-                    { role: 'user', content: conversationText }
-                ],
-                max_tokens: 2000,
-                temperature: 0.3,
-                stream: true,
-            }),
+        // Throws "Missing API Key" when nothing is configured — caller falls back
+        const summary = await completeText(SUMMARIZE_PROMPT, conversationText, {
+            maxTokens: 2000,
+            temperature: 0.3,
             signal: controller.signal,
         });
 
-        clearTimeout(timeout);
-
-        if (!response.ok) {
-            throw new Error(`API error: ${response.status}`);
-        }
-
-        // Parse streaming response
-        let summary = '';
-        if (response.body) {
-            const reader = response.body.getReader();
-            const decoder = new TextDecoder();
-            let buffer = '';
-
-            try {
-                while (true) {
-                    const { done, value } = await reader.read();
-                    if (done) break;
-
-                    buffer += decoder.decode(value, { stream: true });
-                    const lines = buffer.split('\n');
-                    buffer = lines.pop() || '';
-
-                    for (const line of lines) {
-                        const trimmed = line.trim();
-                        if (!trimmed || trimmed === 'data: [DONE]') continue;
-                        if (!trimmed.startsWith('data: ')) continue;
-
-                        try {
-                            const parsed = JSON.parse(trimmed.slice(6));
-                            const content = parsed.choices?.[0]?.delta?.content;
-                            if (content) summary += content;
-                        } catch { /* skip */ }
-                    }
-                }
-            } finally {
-                try { reader.releaseLock(); } catch { /* ignore */ }
-            }
-        }
-
         // Clean thinking tags
-        summary = summary
+        return summary
             .replace(/<think>[\s\S]*?<\/think>/g, '')
             .replace(/<[^>]+>/g, '')
             .trim();
+    } finally {
+        clearTimeout(timeout);
+    }
+}
 
-        return summary || 'No context available.';
+// Generate context summary using AI
+export async function generateContextSummary(conversationText: string): Promise<string> {
+    try {
+        return (await summarizeConversation(conversationText)) || 'No context available.';
     } catch (err: any) {
-        clearTimeout(timeout);
         console.error('[Fork] Context generation failed:', err.message);
         throw err;
     }
@@ -211,7 +161,7 @@ export async function forkChat(): Promise<string> {
     newFiles['.glovix/context.md'] = { file: { contents: contextMd } };
 
     // 5. Create new chat
-    const newChat = await createChat(user.uid, `${baseTitle} (fork)`);
+    const newChat = await createChat(user.uid, `${baseTitle} (fork)`, currentChat?.template_id, currentChat?.prompt_preset_id);
     console.log('[Fork] Created new chat:', newChat.id);
 
     // 6. Save files to new chat's project
@@ -0,0 +1,59 @@
+// Project instructions — .glovix/instructions.md holds a project's own coding standards, banned
+// libraries and design rules. Its contents are appended to the system prompt on every request,
+// so projects can steer the agent without a different prompt.
+
+import type { FileMap } from './files';
+
+export const INSTRUCTIONS_FILE = '.glovix/instructions.md';
+
+// Long files are cut here — the instructions share the context window with the conversation
+const MAX_INSTRUCTIONS_CHARS = 12_000;
+
+// Starter content when the file is created from the file explorer. HTML comments are stripped
+// before the text reaches the model, so the hints cost nothing.
+export const INSTRUCTIONS_TEMPLATE = `# Project instructions
+
+<!-- Everything in this file is added to the agent's system prompt on every message.
+     Write rules as short bullet points. Delete the sections you don't need. -->
+
+## Coding standards
+<!-- e.g. - Use named exports; no default exports -->
+
+## Libraries
+<!-- e.g. - Do not use moment.js; use date-fns -->
+
+## Design rules
+<!-- e.g. - Primary color is #4f46e5; rounded-xl cards, no drop shadows -->
+`;
+
+/**
+ * The instructions to send, or null when the file is missing or has no text besides
+ * headings and comments (an untouched starter file).
+ */
+export function getProjectInstructions(files: FileMap): string | null {
+    const entry = files[INSTRUCTIONS_FILE];
+    if (!entry || entry.file.encoding) return null;
+
+    const text = entry.file.contents.replace(/<!--[\s\S]*?-->/g, '').replace(/\n{3,}/g, '\n\n').trim();
+    const hasRules = text.split('\n').some(line => line.trim() && !line.trim().startsWith('#'));
+    if (!hasRules) return null;
+
+    return text.length > MAX_INSTRUCTIONS_CHARS
+        ? `${text.slice(0, MAX_INSTRUCTIONS_CHARS)}\n\n[… truncated — ${INSTRUCTIONS_FILE} is longer than ${MAX_INSTRUCTIONS_CHARS} characters]`
+        : text;
+}
+
+// Appended last so project rules win over the general guidance above them
+export function appendProjectInstructions(systemPrompt: string, instructions: string | null): string {
+    if (!instructions) return systemPrompt;
+    return `${systemPrompt}
+
+---
+
+## 📌 PROJECT INSTRUCTIONS (\`${INSTRUCTIONS_FILE}\`)
+
+The user wrote these rules for this project. They take precedence over the general guidance above. Do not edit \`${INSTRUCTIONS_FILE}\` unless the user asks you to.
+
+${instructions}
+`;
+}
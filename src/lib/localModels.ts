@@ -0,0 +1,204 @@
+// Local model discovery — finds OpenAI-compatible servers on localhost
+// (Ollama, llama.cpp server, LM Studio), lists their models and probes capabilities
+
+import { DEFAULT_CONTEXT_LIMIT, ModelCapabilities, ModelInfo } from './models';
+
+export interface LocalServer {
+    kind: 'ollama' | 'llamacpp' | 'lmstudio' | 'unknown';
+    baseUrl: string;
+}
+
+// Default ports of the common local runtimes
+const CANDIDATE_SERVERS: LocalServer[] = [
+    { kind: 'ollama', baseUrl: 'http://localhost:11434/v1' },
+    { kind: 'llamacpp', baseUrl: 'http://localhost:8080/v1' },
+    { kind: 'lmstudio', baseUrl: 'http://localhost:1234/v1' },
+];
+
+const DETECT_TIMEOUT_MS = 1500;
+const PROBE_TIMEOUT_MS = 60000; // Local models can take a while to load on first request
+
+// 1x1 transparent PNG for the image probe
+const PROBE_IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+function trimBase(baseUrl: string): string {
+    return baseUrl.trim().replace(/\/+$/, '');
+}
+
+// Ollama's native API lives next to /v1, not under it
+function nativeRoot(baseUrl: string): string {
+    return trimBase(baseUrl).replace(/\/v1$/, '');
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+        return await fetch(url, { ...init, signal: controller.signal });
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Check the usual localhost ports for a server answering GET /v1/models.
+ * Browsers need the server to allow CORS — for Ollama set OLLAMA_ORIGINS=*.
+ */
+export async function detectLocalServers(extraBaseUrls: string[] = []): Promise<LocalServer[]> {
+    const candidates = [
+        ...CANDIDATE_SERVERS,
+        ...extraBaseUrls
+            .map(trimBase)
+            .filter(url => url && !CANDIDATE_SERVERS.some(c => c.baseUrl === url))
+            .map(baseUrl => ({ kind: 'unknown' as const, baseUrl })),
+    ];
+
+    const results = await Promise.all(candidates.map(async (server) => {
+        try {
+            const res = await fetchWithTimeout(`${server.baseUrl}/models`, {}, DETECT_TIMEOUT_MS);
+            return res.ok ? server : null;
+        } catch {
+            return null;
+        }
+    }));
+
+    return results.filter((s): s is LocalServer => s !== null);
+}
+
+// Context length as reported by whichever runtime answered
+function contextFromListing(entry: any): number | undefined {
+    return entry?.meta?.n_ctx_train       // llama.cpp
+        || entry?.max_context_length      // LM Studio
+        || entry?.context_length
+        || undefined;
+}
+
+/**
+ * List models from GET {baseUrl}/models. Capabilities start as unknown-but-permissive
+ * and are refined by probeModelCapabilities.
+ */
+export async function listLocalModels(baseUrl: string): Promise<ModelInfo[]> {
+    const base = trimBase(baseUrl);
+    const res = await fetchWithTimeout(`${base}/models`, {}, DETECT_TIMEOUT_MS * 2);
+    if (!res.ok) {
+        throw new Error(`Model listing failed: ${res.status}`);
+    }
+
+    const data = await res.json();
+    const entries: any[] = Array.isArray(data?.data) ? data.data : Array.isArray(data?.models) ? data.models : [];
+
+    return entries
+        .map((entry): ModelInfo | null => {
+            const id = entry?.id || entry?.name || entry?.model;
+            if (!id) return null;
+            return {
+                id,
+                name: id,
+                contextLimit: contextFromListing(entry) || DEFAULT_CONTEXT_LIMIT,
+                capabilities: { tools: true, images: false, reasoning: false },
+                source: 'local',
+                baseUrl: base,
+            };
+        })
+        .filter((m): m is ModelInfo => m !== null);
+}
+
+// Ollama reports capabilities and context length directly via POST /api/show
+async function probeOllama(baseUrl: string, modelId: string): Promise<Partial<ModelInfo> | null> {
+    try {
+        const res = await fetchWithTimeout(`${nativeRoot(baseUrl)}/api/show`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ model: modelId }),
+        }, DETECT_TIMEOUT_MS * 2);
+        if (!res.ok) return null;
+
+        const data = await res.json();
+        const caps: string[] = Array.isArray(data?.capabilities) ? data.capabilities : [];
+        const contextKey = Object.keys(data?.model_info || {}).find(k => k.endsWith('.context_length'));
+
+        return {
+            contextLimit: contextKey ? Number(data.model_info[contextKey]) : undefined,
+            capabilities: caps.length > 0
+                ? { tools: caps.includes('tools'), images: caps.includes('vision'), reasoning: caps.includes('thinking') }
+                : undefined,
+        };
+    } catch {
+        return null;
+    }
+}
+
+async function probeRequest(baseUrl: string, body: Record<string, any>): Promise<any | null> {
+    try {
+        const res = await fetchWithTimeout(`${trimBase(baseUrl)}/chat/completions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ max_tokens: 64, stream: false, ...body }),
+        }, PROBE_TIMEOUT_MS);
+        if (!res.ok) return null;
+        return await res.json();
+    } catch {
+        return null;
+    }
+}
+
+// Generic probing: small real requests against /chat/completions
+async function probeByRequest(baseUrl: string, modelId: string): Promise<ModelCapabilities> {
+    const toolProbe = await probeRequest(baseUrl, {
+        model: modelId,
+        messages: [{ role: 'user', content: 'Call the ping tool now.' }],
+        tools: [{
+            type: 'function',
+            function: { name: 'ping', description: 'Connectivity check', parameters: { type: 'object', properties: {} } },
+        }],
+        tool_choice: 'auto',
+    });
+    const message = toolProbe?.choices?.[0]?.message;
+    const tools = !!message?.tool_calls?.length;
+
+    // Servers without vision either reject the image part or error out
+    const imageProbe = await probeRequest(baseUrl, {
+        model: modelId,
+        messages: [{
+            role: 'user',
+            content: [
+                { type: 'text', text: 'What color is this image? One word.' },
+                { type: 'image_url', image_url: { url: PROBE_IMAGE } },
+            ],
+        }],
+    });
+    const images = !!imageProbe?.choices?.[0]?.message;
+
+    // Reasoning models expose their thoughts as a separate field or inline <think> tags
+    const reasoning = !!(
+        message?.reasoning_content ||
+        message?.reasoning ||
+        message?.thinking ||
+        (typeof message?.content === 'string' && message.content.includes('<think>'))
+    );
+
+    return { tools, images, reasoning };
+}
+
+/**
+ * Probe what a local model can do. Uses Ollama's metadata when available,
+ * otherwise sends tiny tool/image requests and inspects the replies.
+ */
+export async function probeModelCapabilities(model: ModelInfo, kind: LocalServer['kind'] = 'unknown'): Promise<ModelInfo> {
+    const baseUrl = model.baseUrl || CANDIDATE_SERVERS[0].baseUrl;
+
+    let contextLimit = model.contextLimit;
+    let capabilities: ModelCapabilities | undefined;
+
+    if (kind === 'ollama' || kind === 'unknown') {
+        const ollama = await probeOllama(baseUrl, model.id);
+        if (ollama?.contextLimit) contextLimit = ollama.contextLimit;
+        capabilities = ollama?.capabilities;
+    }
+
+    if (!capabilities) {
+        capabilities = await probeByRequest(baseUrl, model.id);
+    }
+
+    return { ...model, contextLimit, capabilities, probedAt: Date.now() };
+}
@@ -0,0 +1,88 @@
+// Runtime model registry — built-in models plus anything discovered on a local
+// OpenAI-compatible server. Context limits here feed `modelContextLimit` in the store.
+
+export interface ModelCapabilities {
+    tools: boolean;
+    images: boolean;
+    reasoning: boolean;
+}
+
+export interface ModelInfo {
+    id: string;
+    name: string;
+    contextLimit: number;
+    capabilities: ModelCapabilities;
+    source: 'builtin' | 'local';
+    // Base URL the model was discovered on (local models only)
+    baseUrl?: string;
+    // Set once capabilities were probed instead of assumed
+    probedAt?: number;
+}
+
+export const DEFAULT_CONTEXT_LIMIT = 128000;
+
+// Assumed until probed — every hosted model we list supports tool calls
+const FULL_CAPABILITIES: ModelCapabilities = { tools: true, images: true, reasoning: false };
+
+const builtin = (id: string, name: string, contextLimit: number, capabilities: Partial<ModelCapabilities> = {}): ModelInfo => ({
+    id,
+    name,
+    contextLimit,
+    capabilities: { ...FULL_CAPABILITIES, ...capabilities },
+    source: 'builtin',
+});
+
+export const BUILTIN_MODELS: ModelInfo[] = [
+    builtin('mimo-v2-flash', 'MiMo V2 Flash', 128000, { images: false }),
+    builtin('xiaomi/mimo-v2-flash:free', 'MiMo V2 Flash (OpenRouter)', 128000, { images: false }),
+    builtin('gpt-4', 'GPT-4', 8192),
+    builtin('gpt-4o', 'GPT-4o', 128000),
+    builtin('gpt-4o-mini', 'GPT-4o mini', 128000),
+    builtin('gpt-4-turbo', 'GPT-4 Turbo', 128000),
+    builtin('gpt-4.1', 'GPT-4.1', 1047576),
+    builtin('claude-3-opus', 'Claude 3 Opus', 200000),
+    builtin('claude-3-sonnet', 'Claude 3 Sonnet', 200000),
+    builtin('claude-3.5-sonnet', 'Claude 3.5 Sonnet', 200000),
+    builtin('claude-4-sonnet', 'Claude 4 Sonnet', 200000, { reasoning: true }),
+    builtin('claude-sonnet-4-5', 'Claude Sonnet 4.5', 200000, { reasoning: true }),
+    builtin('deepseek-chat', 'DeepSeek Chat', 128000, { images: false }),
+    builtin('deepseek-reasoner', 'DeepSeek Reasoner', 128000, { images: false, reasoning: true }),
+];
+
+const MODELS_STORAGE_KEY = 'glovix_models';
+
+export function loadRegistry(): Record<string, ModelInfo> {
+    const registry: Record<string, ModelInfo> = {};
+    for (const model of BUILTIN_MODELS) registry[model.id] = model;
+
+    try {
+        const saved = JSON.parse(localStorage.getItem(MODELS_STORAGE_KEY) || '[]') as ModelInfo[];
+        for (const model of saved) registry[model.id] = model;
+    } catch {
+        // Corrupt cache — fall back to built-ins
+    }
+    return registry;
+}
+
+// Only discovered models are persisted; built-ins always come from code
+export function saveRegistry(registry: Record<string, ModelInfo>) {
+    const discovered = Object.values(registry).filter(m => m.source !== 'builtin');
+    localStorage.setItem(MODELS_STORAGE_KEY, JSON.stringify(discovered));
+}
+
+/**
+ * Look up a model, tolerating provider prefixes and date/tag suffixes:
+ * "anthropic/claude-3.5-sonnet", "gpt-4o-2024-08-06" and "llama3.1:8b" all resolve.
+ */
+export function findModel(registry: Record<string, ModelInfo>, id: string): ModelInfo | undefined {
+    if (!id) return undefined;
+    if (registry[id]) return registry[id];
+
+    const bare = id.includes('/') ? id.split('/').pop()! : id;
+    if (registry[bare]) return registry[bare];
+
+    // Longest built-in id that prefixes the requested one wins ("gpt-4o-mini" over "gpt-4o")
+    return Object.values(registry)
+        .filter(m => bare.startsWith(m.id))
+        .sort((a, b) => b.id.length - a.id.length)[0];
+}
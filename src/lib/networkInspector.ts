@@ -0,0 +1,167 @@
+// Network inspector — a fetch/XHR interceptor injected into the preview records every request
+// (method, URL, status, timing, size) and posts it to the parent window. The log feeds the
+// Network tab and the agent's inspectNetwork tool.
+
+import { formatBytes } from './storage';
+
+export const NETWORK_SCRIPT_FILE = 'glovix-network.js';
+export const NETWORK_MESSAGE_TYPE = 'glovix-network';
+
+// Oldest requests are dropped past this — a polling app would otherwise grow the log forever
+const MAX_REQUESTS = 500;
+
+export interface NetworkRequest {
+    id: string;
+    method: string;
+    url: string;
+    initiator: 'fetch' | 'xhr';
+    state: 'pending' | 'done' | 'failed';
+    startedAt: number;
+    // Milliseconds until the response headers (fetch) or the whole response (XHR) arrived
+    duration?: number;
+    status?: number;
+    statusText?: string;
+    contentType?: string;
+    // Response body size in bytes; unknown for streams
+    size?: number;
+    error?: string;
+}
+
+// What the interceptor posts: a request starting, finishing, failing, or its body size arriving later
+export type NetworkEvent =
+    | { type: typeof NETWORK_MESSAGE_TYPE; phase: 'start'; id: string; method: string; url: string; initiator: NetworkRequest['initiator']; startedAt: number }
+    | { type: typeof NETWORK_MESSAGE_TYPE; phase: 'end'; id: string; status: number; statusText: string; contentType?: string; size?: number; duration: number }
+    | { type: typeof NETWORK_MESSAGE_TYPE; phase: 'error'; id: string; error: string; duration: number }
+    | { type: typeof NETWORK_MESSAGE_TYPE; phase: 'size'; id: string; size: number };
+
+export function isNetworkEvent(data: any): data is NetworkEvent {
+    return data?.type === NETWORK_MESSAGE_TYPE && typeof data.id === 'string' && typeof data.phase === 'string';
+}
+
+export function applyNetworkEvent(requests: NetworkRequest[], event: NetworkEvent): NetworkRequest[] {
+    if (event.phase === 'start') {
+        const request: NetworkRequest = {
+            id: event.id,
+            method: event.method,
+            url: event.url,
+            initiator: event.initiator,
+            state: 'pending',
+            startedAt: event.startedAt,
+        };
+        const next = [...requests, request];
+        return next.length > MAX_REQUESTS ? next.slice(next.length - MAX_REQUESTS) : next;
+    }
+
+    const index = requests.findIndex(r => r.id === event.id);
+    if (index === -1) return requests;
+    const current = requests[index];
+    let updated: NetworkRequest;
+    if (event.phase === 'end') {
+        updated = { ...current, state: 'done', status: event.status, statusText: event.statusText, contentType: event.contentType, size: event.size, duration: event.duration };
+    } else if (event.phase === 'error') {
+        updated = { ...current, state: 'failed', error: event.error, duration: event.duration };
+    } else {
+        updated = { ...current, size: event.size };
+    }
+    const next = requests.slice();
+    next[index] = updated;
+    return next;
+}
+
+// HTTP errors count as failures too — that's what you look for when debugging
+export const isFailedRequest = (r: NetworkRequest) => r.state === 'failed' || (r.status !== undefined && r.status >= 400);
+
+export interface NetworkQuery {
+    // Substring of the URL
+    filter?: string;
+    method?: string;
+    failedOnly?: boolean;
+    limit?: number;
+}
+
+/**
+ * The request log as the agent sees it: one line per request, newest last.
+ */
+export function formatNetworkLog(requests: NetworkRequest[], query: NetworkQuery = {}): string {
+    const { filter, method, failedOnly, limit = 30 } = query;
+    const matching = requests.filter(r =>
+        (!filter || r.url.toLowerCase().includes(filter.toLowerCase())) &&
+        (!method || r.method.toUpperCase() === method.toUpperCase()) &&
+        (!failedOnly || isFailedRequest(r))
+    );
+    if (matching.length === 0) {
+        return requests.length === 0
+            ? 'No requests recorded yet. The log fills while the preview is open — reload it or trigger the action that makes the request.'
+            : `No recorded requests match (${requests.length} total).`;
+    }
+
+    const shown = matching.slice(-Math.max(1, limit));
+    const lines = shown.map(r => {
+        const outcome = r.state === 'pending' ? 'pending'
+            : r.state === 'failed' ? `FAILED (${r.error})`
+            : `${r.status} ${r.statusText || ''}`.trim();
+        const timing = r.duration !== undefined ? `${Math.round(r.duration)}ms` : '';
+        const details = [r.contentType, r.size !== undefined ? formatBytes(r.size) : '', timing].filter(Boolean).join(', ');
+        return `${r.method} ${r.url} → ${outcome}${details ? ` [${details}]` : ''}`;
+    });
+    const failed = matching.filter(isFailedRequest).length;
+    const header = `${matching.length} request${matching.length === 1 ? '' : 's'}${failed ? `, ${failed} failed` : ''}${shown.length < matching.length ? ` (showing last ${shown.length})` : ''}:`;
+    return `${header}\n${lines.join('\n')}`;
+}
+
+// Runs in the preview before the app's own scripts. ES5 syntax — it is served as-is, not bundled.
+export const NETWORK_SCRIPT = `(function(){
+  if(window.__glovixNetwork)return;window.__glovixNetwork=true;
+  var seq=0;
+  function post(msg){msg.type='${NETWORK_MESSAGE_TYPE}';try{window.parent.postMessage(msg,'*');}catch(e){}}
+  function nextId(){seq+=1;return Date.now().toString(36)+'-'+seq;}
+  function absolute(url){try{return new URL(url,location.href).href;}catch(e){return String(url);}}
+  function now(){return (window.performance&&performance.now)?performance.now():Date.now();}
+  var origFetch=window.fetch;
+  // Unwrapped fetch for Glovix's own preview scripts (source maps for runtime errors), kept out of the log
+  window.__glovixFetch=origFetch;
+  if(origFetch){
+    window.fetch=function(input,init){
+      var id=nextId(),start=now();
+      var method=((init&&init.method)||(input&&typeof input==='object'&&input.method)||'GET').toUpperCase();
+      var url=absolute(typeof input==='string'?input:(input&&(input.href||input.url))||'');
+      post({phase:'start',id:id,method:method,url:url,initiator:'fetch',startedAt:Date.now()});
+      return origFetch.apply(this,arguments).then(function(res){
+        var type=res.headers.get('content-type')||undefined;
+        var length=res.headers.get('content-length');
+        post({phase:'end',id:id,status:res.status,statusText:res.statusText,contentType:type,size:length?Number(length):undefined,duration:now()-start});
+        if(!length&&!(type&&type.indexOf('event-stream')!==-1)){
+          try{res.clone().arrayBuffer().then(function(b){post({phase:'size',id:id,size:b.byteLength});},function(){});}catch(e){}
+        }
+        return res;
+      },function(err){
+        post({phase:'error',id:id,error:String((err&&err.message)||err),duration:now()-start});
+        throw err;
+      });
+    };
+  }
+  var XHR=window.XMLHttpRequest;
+  if(XHR){
+    var open=XHR.prototype.open,send=XHR.prototype.send;
+    XHR.prototype.open=function(method,url){
+      this.__glovix={method:String(method||'GET').toUpperCase(),url:absolute(url)};
+      return open.apply(this,arguments);
+    };
+    XHR.prototype.send=function(){
+      var xhr=this,info=xhr.__glovix;
+      if(info){
+        var id=nextId(),start=now();
+        post({phase:'start',id:id,method:info.method,url:info.url,initiator:'xhr',startedAt:Date.now()});
+        xhr.addEventListener('loadend',function(){
+          if(xhr.status===0){post({phase:'error',id:id,error:'Network error or request blocked',duration:now()-start});return;}
+          var r=xhr.response,size;
+          if(typeof r==='string')size=new Blob([r]).size;
+          else if(r&&r.byteLength!==undefined)size=r.byteLength;
+          else if(r&&r.size!==undefined)size=r.size;
+          post({phase:'end',id:id,status:xhr.status,statusText:xhr.statusText,contentType:xhr.getResponseHeader('content-type')||undefined,size:size,duration:now()-start});
+        });
+      }
+      return send.apply(this,arguments);
+    };
+  }
+})();`;
@@ -0,0 +1,248 @@
+// Tool permissions — decides whether a tool call the model emits runs, needs the user's
+// approval, or is refused. Per-tool default modes plus glob rules on paths / command prefixes.
+
+export type PermissionMode = 'allow' | 'ask' | 'deny';
+
+export interface PermissionRule {
+    id: string;
+    // Tool name, or '*' for every tool that touches files
+    tool: string;
+    // Glob for file paths ("src/**", "*.env"); prefix for runCommand ("rm ", "pnpm add *")
+    pattern: string;
+    mode: PermissionMode;
+}
+
+export interface ToolPermissions {
+    modes: Record<string, PermissionMode>;
+    rules: PermissionRule[];
+}
+
+export interface ApprovalRequest {
+    toolName: string;
+    // Paths or the command the call would touch
+    subjects: string[];
+    // Why we are asking (matching rule or tool default)
+    reason: string;
+}
+
+export interface PermissionDecision {
+    mode: PermissionMode;
+    subjects: string[];
+    rule?: PermissionRule;
+}
+
+// Tools that change the project or run code — the ones worth listing in Settings
+export const GUARDED_TOOLS = ['createFile', 'editFile', 'deleteFile', 'renameFile', 'batchCreateFiles', 'runCommand'] as const;
+
+export const DEFAULT_TOOL_PERMISSIONS: ToolPermissions = {
+    modes: {
+        deleteFile: 'ask',
+    },
+    rules: [
+        { id: 'default-rm', tool: 'runCommand', pattern: 'rm ', mode: 'ask' },
+        { id: 'default-env', tool: '*', pattern: '**/.env*', mode: 'ask' },
+    ],
+};
+
+const PERMISSIONS_STORAGE_KEY = 'toolPermissions';
+
+export function loadToolPermissions(): ToolPermissions {
+    try {
+        const saved = localStorage.getItem(PERMISSIONS_STORAGE_KEY);
+        if (!saved) return DEFAULT_TOOL_PERMISSIONS;
+        const parsed = JSON.parse(saved) as Partial<ToolPermissions>;
+        return { modes: parsed.modes || {}, rules: Array.isArray(parsed.rules) ? parsed.rules : [] };
+    } catch {
+        return DEFAULT_TOOL_PERMISSIONS;
+    }
+}
+
+export function saveToolPermissions(permissions: ToolPermissions) {
+    localStorage.setItem(PERMISSIONS_STORAGE_KEY, JSON.stringify(permissions));
+}
+
+// ============================================================
+// MATCHING
+// ============================================================
+
+const escapeRegex = (s: string) => s.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+const normalizePath = (path: string) => path.trim().replace(/^\.?\/+/, '');
+
+/**
+ * Minimal glob: `**` spans directories, `*` stays within one segment, `?` is one character.
+ * A pattern without a slash matches the file name in any directory ("*.env" ≈ "**\/*.env").
+ */
+export function matchGlob(pattern: string, path: string): boolean {
+    const normalized = normalizePath(pattern);
+    const glob = normalized.includes('/') ? normalized : `**/${normalized}`;
+
+    let regex = '';
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i];
+        if (c === '*' && glob[i + 1] === '*') {
+            // "**/" also matches zero directories
+            if (glob[i + 2] === '/') {
+                regex += '(?:.*/)?';
+                i += 2;
+            } else {
+                regex += '.*';
+                i++;
+            }
+        } else if (c === '*') {
+            regex += '[^/]*';
+        } else if (c === '?') {
+            regex += '[^/]';
+        } else {
+            regex += escapeRegex(c);
+        }
+    }
+    return new RegExp(`^${regex}$`).test(normalizePath(path));
+}
+
+// Commands match by whole-word prefix ("rm" matches "rm -rf dist", not "rmdir"); `*` inside the pattern is a wildcard
+export function matchCommand(pattern: string, command: string): boolean {
+    const trimmed = pattern.trim();
+    const regex = trimmed.split('*').map(escapeRegex).join('.*');
+    const boundary = trimmed.endsWith('*') ? '' : '(?:\\s|$)';
+    return new RegExp(`^${regex}${boundary}`).test(command.trim());
+}
+
+/**
+ * The separate commands a command line runs, so "cd . && rm -rf src" is checked as two commands.
+ * Splits on `&&`, `||`, `;`, `|`, `&` and newlines outside quotes; `$(…)`, backticks and subshells count
+ * as commands of their own. Anything it can't tell apart only splits further, which is the safe side.
+ */
+export function splitCommand(command: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quote: '"' | "'" | null = null;
+    const push = () => {
+        if (current.trim()) parts.push(current.trim());
+        current = '';
+    };
+
+    for (let i = 0; i < command.length; i++) {
+        const c = command[i];
+        const pair = command.slice(i, i + 2);
+        if (quote === "'") {
+            if (c === "'") quote = null;
+            current += c;
+        } else if (c === '\\') {
+            current += pair;
+            i++;
+        } else if (pair === '$(' || c === '`') {
+            // Command substitution runs even inside double quotes
+            push();
+            if (pair === '$(') i++;
+        } else if (quote === '"') {
+            if (c === '"') quote = null;
+            current += c;
+        } else if (c === '"' || c === "'") {
+            quote = c;
+            current += c;
+        } else if (pair === '&&' || pair === '||') {
+            push();
+            i++;
+        } else if (c === ';' || c === '|' || c === '\n' || c === '(' || c === ')') {
+            push();
+        } else if (c === '&' && command[i - 1] !== '>' && command[i - 1] !== '<' && command[i + 1] !== '>') {
+            // A background `&`, not a redirect like "2>&1" or "&> log"
+            push();
+        } else {
+            current += c;
+        }
+    }
+    push();
+    return parts;
+}
+
+// Reserved words and variable assignments that can come before a command: "if x; then rm …", "FOO=1 rm …"
+const COMMAND_PREFIX = /^(?:(?:if|then|elif|else|while|until|do|time|\{|!|\w+=\S*)\s+)+/;
+// Commands that run a command given in their arguments
+const COMMAND_WRAPPERS = new Set(['sudo', 'xargs', 'env', 'nohup', 'nice', 'exec', 'command', 'timeout', 'watch']);
+
+/**
+ * Rules that apply to one command. After a wrapper such as `xargs` or `sudo` the real command may start
+ * at any later word, so ask and deny rules are tried there too. Allow rules aren't, or
+ * "sudo anything pnpm" would pass as `pnpm`.
+ */
+function matchingCommandRules(rules: PermissionRule[], command: string): PermissionRule[] {
+    const bare = command.replace(COMMAND_PREFIX, '');
+    const words = bare.split(/\s+/);
+    const wrapped = COMMAND_WRAPPERS.has(words[0]) ? words.slice(1).map((_, i) => words.slice(i + 1).join(' ')) : [];
+    return rules.filter(r =>
+        matchCommand(r.pattern, bare) || (r.mode !== 'allow' && wrapped.some(rest => matchCommand(r.pattern, rest)))
+    );
+}
+
+// What a call touches: file paths for file tools, the command line for runCommand
+export function getToolSubjects(name: string, args: any): string[] {
+    if (!args || typeof args !== 'object') return [];
+    switch (name) {
+        case 'createFile':
+        case 'editFile':
+        case 'readFile':
+        case 'deleteFile':
+            return typeof args.path === 'string' ? [args.path] : [];
+        case 'renameFile':
+            return [args.oldPath, args.newPath].filter((p): p is string => typeof p === 'string');
+        case 'readMultipleFiles':
+            return Array.isArray(args.paths) ? args.paths.filter((p: any) => typeof p === 'string') : [];
+        case 'batchCreateFiles':
+            return Array.isArray(args.files) ? args.files.map((f: any) => f?.path).filter((p: any) => typeof p === 'string') : [];
+        case 'runCommand':
+            return typeof args.command === 'string' ? [args.command] : [];
+        default:
+            return [];
+    }
+}
+
+const STRICTNESS: Record<PermissionMode, number> = { allow: 0, ask: 1, deny: 2 };
+const stricter = (a: PermissionMode, b: PermissionMode) => (STRICTNESS[b] > STRICTNESS[a] ? b : a);
+
+/**
+ * Decide how a call is handled. Each subject takes the strictest matching rule
+ * (or the tool's default mode when none matches); the call takes the strictest subject.
+ * A command line is checked command by command, so chaining can't get around a rule.
+ */
+export function resolvePermission(permissions: ToolPermissions, name: string, args: any): PermissionDecision {
+    const defaultMode = permissions.modes[name] || 'allow';
+    const subjects = getToolSubjects(name, args);
+    if (subjects.length === 0) return { mode: defaultMode, subjects };
+
+    const isCommand = name === 'runCommand';
+    const rules = permissions.rules.filter(r =>
+        r.pattern.trim() && (r.tool === name || (r.tool === '*' && !isCommand))
+    );
+
+    const targets = isCommand
+        ? subjects.flatMap(subject => {
+            const commands = splitCommand(subject);
+            return commands.length > 0 ? commands : [subject];
+        })
+        : subjects;
+
+    let decision: PermissionDecision = { mode: 'allow', subjects };
+    for (const target of targets) {
+        const matching = isCommand ? matchingCommandRules(rules, target) : rules.filter(r => matchGlob(r.pattern, target));
+        let mode: PermissionMode = matching.length > 0 ? 'allow' : defaultMode;
+        let rule: PermissionRule | undefined;
+        for (const r of matching) {
+            if (!rule || STRICTNESS[r.mode] > STRICTNESS[mode]) {
+                mode = stricter(mode, r.mode);
+                rule = r;
+            }
+        }
+        if (STRICTNESS[mode] > STRICTNESS[decision.mode] || (!decision.rule && rule && mode === decision.mode)) {
+            decision = { mode, subjects, rule };
+        }
+    }
+    return decision;
+}
+
+export function describeDecision(decision: PermissionDecision, name: string): string {
+    return decision.rule
+        ? `rule "${decision.rule.pattern}" (${decision.rule.tool === '*' ? 'all file tools' : decision.rule.tool})`
+        : `default for ${name}`;
+}
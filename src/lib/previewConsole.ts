@@ -0,0 +1,171 @@
+// Preview console — a script injected into the preview forwards console.log/info/warn/error/debug
+// calls to the parent window. Arguments are serialized there into ConsoleValue trees (functions and
+// DOM nodes can't cross postMessage) so the Console tab can expand objects and the agent's
+// readConsole tool can print them.
+
+export const CONSOLE_SCRIPT_FILE = 'glovix-console.js';
+export const CONSOLE_MESSAGE_TYPE = 'glovix-console';
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+export const CONSOLE_LEVELS: ConsoleLevel[] = ['log', 'info', 'warn', 'error', 'debug'];
+
+// Oldest entries are dropped past this
+const MAX_ENTRIES = 1000;
+
+export type ConsoleValue =
+    | { kind: 'primitive'; type: 'string' | 'number' | 'boolean' | 'undefined' | 'null' | 'bigint' | 'symbol'; value: string }
+    | { kind: 'object'; label: string; entries: { key: string; value: ConsoleValue }[]; more: number }
+    | { kind: 'function'; name: string }
+    | { kind: 'error'; name: string; message: string; stack?: string }
+    | { kind: 'element'; tag: string }
+    | { kind: 'circular' }
+    // Past the serialization depth — only the label is known
+    | { kind: 'collapsed'; label: string };
+
+export interface ConsoleEntry {
+    id: string;
+    level: ConsoleLevel;
+    args: ConsoleValue[];
+    timestamp: number;
+    // Identical consecutive messages are folded into one entry
+    count: number;
+}
+
+export type ConsoleEvent =
+    | { type: typeof CONSOLE_MESSAGE_TYPE; action: 'log'; level: ConsoleLevel; args: ConsoleValue[]; timestamp: number }
+    | { type: typeof CONSOLE_MESSAGE_TYPE; action: 'clear' };
+
+let _consoleId = 0;
+
+export function isConsoleEvent(data: any): data is ConsoleEvent {
+    return data?.type === CONSOLE_MESSAGE_TYPE && (data.action === 'clear' || (data.action === 'log' && Array.isArray(data.args)));
+}
+
+export function appendConsoleEntry(entries: ConsoleEntry[], event: Extract<ConsoleEvent, { action: 'log' }>): ConsoleEntry[] {
+    const last = entries[entries.length - 1];
+    if (last && last.level === event.level && JSON.stringify(last.args) === JSON.stringify(event.args)) {
+        return [...entries.slice(0, -1), { ...last, count: last.count + 1, timestamp: event.timestamp }];
+    }
+    const entry: ConsoleEntry = { id: `c${++_consoleId}`, level: event.level, args: event.args, timestamp: event.timestamp, count: 1 };
+    const next = [...entries, entry];
+    return next.length > MAX_ENTRIES ? next.slice(next.length - MAX_ENTRIES) : next;
+}
+
+/**
+ * One-line text for a value: strings bare at the top level, quoted inside objects, like devtools.
+ */
+export function formatConsoleValue(value: ConsoleValue, nested = false): string {
+    switch (value.kind) {
+        case 'primitive':
+            return value.type === 'string' && nested ? JSON.stringify(value.value) : value.value;
+        case 'object': {
+            const isArray = value.label.startsWith('Array');
+            const parts = value.entries.map(e => isArray ? formatConsoleValue(e.value, true) : `${e.key}: ${formatConsoleValue(e.value, true)}`);
+            if (value.more > 0) parts.push(`… ${value.more} more`);
+            const body = isArray ? `[${parts.join(', ')}]` : `{${parts.join(', ')}}`;
+            return value.label === 'Object' || isArray ? body : `${value.label} ${body}`;
+        }
+        case 'function':
+            return `ƒ ${value.name || 'anonymous'}()`;
+        case 'error':
+            return nested ? `${value.name}: ${value.message}` : value.stack || `${value.name}: ${value.message}`;
+        case 'element':
+            return value.tag;
+        case 'circular':
+            return '[Circular]';
+        case 'collapsed':
+            return value.label;
+    }
+}
+
+export const formatConsoleArgs = (args: ConsoleValue[]) => args.map(a => formatConsoleValue(a)).join(' ');
+
+export interface ConsoleQuery {
+    level?: ConsoleLevel;
+    // Substring of the message text
+    filter?: string;
+    limit?: number;
+}
+
+/**
+ * Recent console output as the agent sees it: one entry per line (multi-line values indented), newest last.
+ */
+export function formatConsoleLog(entries: ConsoleEntry[], query: ConsoleQuery = {}): string {
+    const { level, filter, limit = 50 } = query;
+    const needle = filter?.toLowerCase();
+    const matching = entries
+        .map(entry => ({ entry, text: formatConsoleArgs(entry.args) }))
+        .filter(({ entry, text }) => (!level || entry.level === level) && (!needle || text.toLowerCase().includes(needle)));
+    if (matching.length === 0) {
+        return entries.length === 0
+            ? 'The preview has not logged anything yet. Console output is captured while the preview is open — reload it or trigger the code path.'
+            : `No console messages match (${entries.length} total).`;
+    }
+
+    const shown = matching.slice(-Math.max(1, limit));
+    const lines = shown.map(({ entry, text }) => {
+        const time = new Date(entry.timestamp).toLocaleTimeString([], { hour12: false });
+        const repeat = entry.count > 1 ? ` (×${entry.count})` : '';
+        const clipped = text.length > 2000 ? `${text.slice(0, 2000)}…` : text;
+        return `${time} [${entry.level}]${repeat} ${clipped.replace(/\n/g, '\n    ')}`;
+    });
+    const header = `${matching.length} console message${matching.length === 1 ? '' : 's'}${shown.length < matching.length ? ` (showing last ${shown.length})` : ''}:`;
+    return `${header}\n${lines.join('\n')}`;
+}
+
+// Runs in the preview before the app's own scripts. ES5 syntax — it is served as-is, not bundled.
+export const CONSOLE_SCRIPT = `(function(){
+  if(window.__glovixConsole)return;window.__glovixConsole=true;
+  var MAX_DEPTH=3,MAX_KEYS=50,MAX_STRING=5000;
+  function post(msg){msg.type='${CONSOLE_MESSAGE_TYPE}';try{window.parent.postMessage(msg,'*');}catch(e){}}
+  function label(v){
+    if(Array.isArray(v))return 'Array('+v.length+')';
+    if(v instanceof Map)return 'Map('+v.size+')';
+    if(v instanceof Set)return 'Set('+v.size+')';
+    var ctor=v.constructor&&v.constructor.name;
+    return ctor||'Object';
+  }
+  function serialize(v,depth,seen){
+    var t=typeof v;
+    if(v===null)return {kind:'primitive',type:'null',value:'null'};
+    if(t==='string')return {kind:'primitive',type:'string',value:v.length>MAX_STRING?v.slice(0,MAX_STRING)+'…':v};
+    if(t==='number'||t==='boolean'||t==='undefined'||t==='bigint'||t==='symbol')return {kind:'primitive',type:t,value:String(v)};
+    if(t==='function')return {kind:'function',name:v.name||''};
+    if(v instanceof Error)return {kind:'error',name:v.name,message:v.message,stack:v.stack};
+    if(typeof Element!=='undefined'&&v instanceof Element){
+      var tag='<'+v.tagName.toLowerCase()+(v.id?'#'+v.id:'')+(typeof v.className==='string'&&v.className.trim()?'.'+v.className.trim().split(/\\s+/).join('.'):'')+'>';
+      return {kind:'element',tag:tag};
+    }
+    if(seen.indexOf(v)!==-1)return {kind:'circular'};
+    if(depth>=MAX_DEPTH)return {kind:'collapsed',label:label(v)};
+    seen=seen.concat([v]);
+    var pairs=[];
+    try{
+      if(v instanceof Map)v.forEach(function(val,key){pairs.push([String(key),val]);});
+      else if(v instanceof Set){var i=0;v.forEach(function(val){pairs.push([String(i++),val]);});}
+      else if(v instanceof Date)return {kind:'primitive',type:'string',value:v.toISOString()};
+      else for(var k in v){if(Object.prototype.hasOwnProperty.call(v,k))pairs.push([k,v[k]]);}
+    }catch(e){return {kind:'collapsed',label:label(v)};}
+    var entries=[];
+    for(var j=0;j<pairs.length&&j<MAX_KEYS;j++){
+      var value;
+      try{value=serialize(pairs[j][1],depth+1,seen);}catch(e){value={kind:'collapsed',label:'?'};}
+      entries.push({key:pairs[j][0],value:value});
+    }
+    return {kind:'object',label:label(v),entries:entries,more:Math.max(0,pairs.length-MAX_KEYS)};
+  }
+  ['log','info','warn','error','debug'].forEach(function(level){
+    var orig=console[level];
+    if(!orig)return;
+    console[level]=function(){
+      try{
+        var args=[];
+        for(var i=0;i<arguments.length;i++)args.push(serialize(arguments[i],0,[]));
+        post({action:'log',level:level,args:args,timestamp:Date.now()});
+      }catch(e){}
+      return orig.apply(console,arguments);
+    };
+  });
+  var origClear=console.clear;
+  console.clear=function(){post({action:'clear'});if(origClear)return origClear.apply(console,arguments);};
+})();`;
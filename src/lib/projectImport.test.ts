@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { importFromZip, importFromFileList, readZipEntry, stripCommonRoot, safeProjectPath, sizeCap } from './projectImport';
+
+const KB = 1024;
+const MB = 1024 * KB;
+
+async function zipOf(files: Record<string, string | Uint8Array>): Promise<Blob> {
+    const zip = new JSZip();
+    for (const [path, contents] of Object.entries(files)) zip.file(path, contents);
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+const rawFile = (path: string) => ({ path, size: 0, read: async () => new Uint8Array() });
+
+describe('importFromZip', () => {
+    it('leaves out ignored folders and reports each folder once', async () => {
+        const result = await importFromZip(await zipOf({
+            'src/App.tsx': 'app',
+            'node_modules/react/index.js': 'x',
+            'node_modules/react/package.json': '{}',
+            'packages/ui/dist/index.js': 'x',
+            '.DS_Store': 'x',
+            'release.zip': 'x',
+        }));
+        expect(Object.keys(result.files)).toEqual(['src/App.tsx']);
+        expect(result.skipped).toEqual(expect.arrayContaining([
+            { path: 'node_modules/', reason: 'ignored directory' },
+            { path: 'packages/ui/dist/', reason: 'ignored directory' },
+            { path: '.DS_Store', reason: 'system file' },
+            { path: 'release.zip', reason: 'archive or executable' },
+        ]));
+        expect(result.skipped).toHaveLength(4);
+    });
+
+    it('caps lockfiles lower than other files', async () => {
+        const result = await importFromZip(await zipOf({
+            'package-lock.json': new Uint8Array(600 * KB),
+            'yarn.lock': new Uint8Array(100 * KB),
+            'data.json': new Uint8Array(600 * KB),
+            'huge.json': new Uint8Array(2 * MB + 1),
+        }));
+        expect(Object.keys(result.files).sort()).toEqual(['data.json', 'yarn.lock']);
+        expect(result.skipped).toEqual([
+            { path: 'huge.json', reason: 'larger than 2 MB' },
+            { path: 'package-lock.json', reason: 'lockfile over 512 KB' },
+        ]);
+    });
+
+    it('strips the shared top folder and names the project after it', async () => {
+        const result = await importFromZip(await zipOf({ 'my-app/index.html': '<html>', 'my-app/src/main.ts': 'main' }));
+        expect(result.name).toBe('my-app');
+        expect(result.files['src/main.ts'].file.contents).toBe('main');
+    });
+
+    it('skips paths that point outside the project', async () => {
+        const result = await importFromZip(await zipOf({ 'ok.ts': 'ok', '..\\..\\evil.ts': 'x', 'C:/evil.ts': 'x' }));
+        expect(Object.keys(result.files)).toEqual(['ok.ts']);
+        expect(result.skipped.map(s => s.reason)).toEqual(['unsafe path', 'unsafe path']);
+    });
+
+    it('rejects files that are not zips', async () => {
+        await expect(importFromZip(new Blob(['not a zip']))).rejects.toThrow('Could not read the zip file');
+    });
+});
+
+describe('importFromFileList', () => {
+    it('skips oversized files by their declared size', async () => {
+        const result = await importFromFileList([
+            new File(['export {}'], 'main.ts'),
+            new File([new Uint8Array(2 * MB + 1)], 'video.mp4'),
+        ]);
+        expect(Object.keys(result.files)).toEqual(['main.ts']);
+        expect(result.skipped).toEqual([{ path: 'video.mp4', reason: 'larger than 2 MB' }]);
+    });
+});
+
+describe('readZipEntry', () => {
+    it('reads an entry up to the limit and gives up past it', async () => {
+        const zip = await JSZip.loadAsync(await zipOf({ 'a.txt': 'x'.repeat(64 * KB) }));
+        const entry = zip.file('a.txt')!;
+
+        expect((await readZipEntry(entry, 64 * KB))?.length).toBe(64 * KB);
+        expect(await readZipEntry(entry, 64 * KB - 1)).toBeNull();
+    });
+});
+
+describe('stripCommonRoot', () => {
+    it('strips a folder only when every file is inside it', () => {
+        const shared = stripCommonRoot([rawFile('app/a.ts'), rawFile('app/src/b.ts')]);
+        expect(shared.name).toBe('app');
+        expect(shared.files.map(f => f.path)).toEqual(['a.ts', 'src/b.ts']);
+
+        expect(stripCommonRoot([rawFile('app/a.ts'), rawFile('README.md')]).name).toBeNull();
+        expect(stripCommonRoot([rawFile('app/a.ts'), rawFile('web/a.ts')]).name).toBeNull();
+        expect(stripCommonRoot([]).name).toBeNull();
+    });
+});
+
+describe('paths and caps', () => {
+    it('normalizes project-relative paths and rejects the rest', () => {
+        expect(safeProjectPath('./src/./App.tsx')).toBe('src/App.tsx');
+        expect(safeProjectPath('src\\App.tsx')).toBe('src/App.tsx');
+        for (const path of ['', '/etc/passwd', 'C:/x', 'src/../../x', 'src//x']) {
+            expect(safeProjectPath(path)).toBeNull();
+        }
+    });
+
+    it('picks the lockfile cap by file name', () => {
+        expect(sizeCap('web/pnpm-lock.yaml').bytes).toBe(512 * KB);
+        expect(sizeCap('package.json').bytes).toBe(2 * MB);
+    });
+});
@@ -0,0 +1,272 @@
+// Project import — turn a dropped zip or folder into a files map the WebContainer can mount.
+// Dependencies, build output, archives/executables and oversized files are left out; they are
+// listed as skipped. Images, fonts and other assets come in as binary entries (see files.ts).
+
+import JSZip from 'jszip';
+import { FileMap, createEntryFromBytes } from './files';
+
+export interface SkippedFile {
+    path: string;
+    reason: string;
+}
+
+export interface ImportResult {
+    // Top-level folder name of the upload, if there was one
+    name: string | null;
+    files: FileMap;
+    skipped: SkippedFile[];
+}
+
+// Directories that are regenerated by installs / builds — never imported
+const IGNORED_DIRS = new Set(['node_modules', '.git', 'dist', 'build', '.next', '.nuxt', '.svelte-kit', '.turbo', '.cache', '.vercel', 'coverage']);
+
+const IGNORED_FILES = new Set(['.DS_Store', 'Thumbs.db']);
+
+// Packed or compiled files — nothing the project can use from inside the editor
+const SKIPPED_EXTENSIONS = new Set([
+    'zip', 'gz', 'tar', 'tgz', 'rar', '7z',
+    'exe', 'dll', 'so', 'dylib', 'bin', 'lockb',
+]);
+
+const LOCKFILES = new Set(['package-lock.json', 'pnpm-lock.yaml', 'yarn.lock', 'bun.lockb']);
+
+// Lockfiles are regenerated by the install anyway; only small ones are worth keeping
+const LOCKFILE_SIZE_CAP = 512 * 1024;
+const MAX_FILE_SIZE = 2 * 1024 * 1024;
+// Shared with archive imports (archive.ts)
+export const MAX_FILES = 2000;
+
+interface RawFile {
+    path: string;
+    // null when only reading tells (zip entries — their declared size can't be trusted)
+    size: number | null;
+    // Resolves null as soon as the content turns out larger than `limit` bytes
+    read: (limit: number) => Promise<Uint8Array | null>;
+}
+
+// Largest content imported for a file, and the reason reported when it is over
+export function sizeCap(path: string): { bytes: number; reason: string } {
+    return LOCKFILES.has(path.split('/').pop()!)
+        ? { bytes: LOCKFILE_SIZE_CAP, reason: `lockfile over ${LOCKFILE_SIZE_CAP / 1024} KB` }
+        : { bytes: MAX_FILE_SIZE, reason: `larger than ${MAX_FILE_SIZE / (1024 * 1024)} MB` };
+}
+
+/**
+ * The path relative to the project root, or null when it isn't one — an absolute path, a drive
+ * letter or a `..` segment would point outside the project once the files are mounted.
+ */
+export function safeProjectPath(path: string): string | null {
+    const normalized = path.replace(/\\/g, '/').replace(/^(?:\.\/)+/, '');
+    if (!normalized || normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) return null;
+    const segments = normalized.split('/').filter(s => s !== '.');
+    if (segments.some(s => s === '' || s === '..')) return null;
+    return segments.join('/');
+}
+
+// Reason to leave a file out based on its path and (when known) size, or null to read it
+function skipReason(path: string, size: number | null): string | null {
+    const segments = path.split('/');
+    const name = segments[segments.length - 1];
+    if (segments.slice(0, -1).some(s => IGNORED_DIRS.has(s))) return 'ignored directory';
+    if (IGNORED_FILES.has(name)) return 'system file';
+
+    const ext = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+    if (SKIPPED_EXTENSIONS.has(ext)) return 'archive or executable';
+    const cap = sizeCap(path);
+    if (size !== null && size > cap.bytes) return cap.reason;
+    return null;
+}
+
+// "my-app/src/App.tsx" → "src/App.tsx" when every file shares the same top folder
+export function stripCommonRoot(raw: RawFile[]): { name: string | null; files: RawFile[] } {
+    const first = raw[0]?.path.split('/')[0];
+    if (!first || !raw.every(f => f.path.includes('/') && f.path.split('/')[0] === first)) {
+        return { name: null, files: raw };
+    }
+    return { name: first, files: raw.map(f => ({ ...f, path: f.path.slice(first.length + 1) })) };
+}
+
+// `skippedDirs` are directories left out before reading (drag & drop walks)
+async function collect(raw: RawFile[], skippedDirs: string[] = []): Promise<ImportResult> {
+    const normalized: RawFile[] = [];
+    const unsafe: SkippedFile[] = [];
+    for (const f of raw) {
+        // Leading slashes are just how folder drops report their paths
+        const path = safeProjectPath(f.path.replace(/\\/g, '/').replace(/^\.?\/+/, ''));
+        if (path) normalized.push({ ...f, path });
+        else unsafe.push({ path: f.path, reason: 'unsafe path' });
+    }
+    const { name, files: rooted } = stripCommonRoot(normalized);
+
+    const files: FileMap = {};
+    const skipped: SkippedFile[] = [...unsafe, ...skippedDirs.map(dir => ({
+        path: name && dir.startsWith(`${name}/`) ? dir.slice(name.length + 1) : dir,
+        reason: 'ignored directory',
+    }))];
+
+    for (const file of rooted.sort((a, b) => a.path.localeCompare(b.path))) {
+        const reason = skipReason(file.path, file.size);
+        if (reason) {
+            skipped.push({ path: file.path, reason });
+            continue;
+        }
+        if (Object.keys(files).length >= MAX_FILES) {
+            skipped.push({ path: file.path, reason: `over the ${MAX_FILES} file limit` });
+            continue;
+        }
+        // The cap is enforced on the bytes actually read, whatever size was declared
+        const cap = sizeCap(file.path);
+        const bytes = await file.read(cap.bytes);
+        if (!bytes || bytes.length > cap.bytes) {
+            skipped.push({ path: file.path, reason: cap.reason });
+            continue;
+        }
+        files[file.path] = createEntryFromBytes(bytes, file.path);
+    }
+
+    // Directory-level skips are reported once, not per file
+    const collapsed = new Map<string, SkippedFile>();
+    for (const s of skipped) {
+        if (s.reason === 'ignored directory' && !s.path.endsWith('/')) {
+            const dir = s.path.split('/').find(seg => IGNORED_DIRS.has(seg))!;
+            const prefix = s.path.slice(0, s.path.indexOf(dir) + dir.length) + '/';
+            collapsed.set(prefix, { path: prefix, reason: s.reason });
+        } else {
+            collapsed.set(s.path, s);
+        }
+    }
+
+    console.log(`[Import] ${Object.keys(files).length} files imported, ${skipped.length} skipped`);
+    return { name, files, skipped: [...collapsed.values()] };
+}
+
+// ============================================================
+// SOURCES
+// ============================================================
+
+async function readBlob(blob: Blob, limit: number): Promise<Uint8Array | null> {
+    return blob.size > limit ? null : new Uint8Array(await blob.arrayBuffer());
+}
+
+// JSZipObject#internalStream is documented but missing from the bundled typings
+type StreamableZipEntry = JSZip.JSZipObject & { internalStream(type: 'uint8array'): JSZip.JSZipStreamHelper<Uint8Array> };
+
+// Inflate an entry chunk by chunk and stop past `limit`, so an oversized entry is never held in memory
+export function readZipEntry(entry: JSZip.JSZipObject, limit: number): Promise<Uint8Array | null> {
+    return new Promise((resolve, reject) => {
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+        let done = false;
+        const stream = (entry as StreamableZipEntry).internalStream('uint8array');
+        stream
+            .on('data', (chunk) => {
+                if (done) return;
+                size += chunk.length;
+                if (size > limit) {
+                    done = true;
+                    stream.pause();
+                    resolve(null);
+                    return;
+                }
+                chunks.push(chunk);
+            })
+            .on('error', (err) => {
+                done = true;
+                reject(err);
+            })
+            .on('end', () => {
+                if (done) return;
+                done = true;
+                const bytes = new Uint8Array(size);
+                let offset = 0;
+                for (const chunk of chunks) {
+                    bytes.set(chunk, offset);
+                    offset += chunk.length;
+                }
+                resolve(bytes);
+            })
+            .resume();
+    });
+}
+
+export async function importFromZip(zipFile: Blob): Promise<ImportResult> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(zipFile);
+    } catch {
+        throw new Error('Could not read the zip file');
+    }
+    const raw: RawFile[] = Object.values(zip.files)
+        .filter(entry => !entry.dir)
+        .map(entry => ({
+            path: entry.name,
+            size: null,
+            read: (limit) => readZipEntry(entry, limit),
+        }));
+    return collect(raw);
+}
+
+// <input type="file" webkitdirectory> selections carry the folder-relative path
+export async function importFromFileList(fileList: FileList | File[]): Promise<ImportResult> {
+    const raw: RawFile[] = Array.from(fileList).map(file => ({
+        path: file.webkitRelativePath || file.name,
+        size: file.size,
+        read: (limit) => readBlob(file, limit),
+    }));
+    return collect(raw);
+}
+
+// Drag & drop: folders arrive as FileSystemEntry trees. The DataTransfer is only readable during
+// the drop event, so take its entries synchronously there and import them afterwards.
+export function getDroppedEntries(dataTransfer: DataTransfer): FileSystemEntry[] {
+    return Array.from(dataTransfer.items)
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((e): e is FileSystemEntry => !!e);
+}
+
+export async function importFromEntries(entries: FileSystemEntry[]): Promise<ImportResult> {
+
+    // A single dropped zip is unpacked
+    if (entries.length === 1 && entries[0].isFile && entries[0].name.toLowerCase().endsWith('.zip')) {
+        return importFromZip(await entryFile(entries[0] as FileSystemFileEntry));
+    }
+
+    const raw: RawFile[] = [];
+    const skippedDirs: string[] = [];
+    for (const entry of entries) {
+        await walkEntry(entry, raw, skippedDirs);
+    }
+    return collect(raw, skippedDirs);
+}
+
+function entryFile(entry: FileSystemFileEntry): Promise<File> {
+    return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function walkEntry(entry: FileSystemEntry, out: RawFile[], skippedDirs: string[]): Promise<void> {
+    const path = entry.fullPath.replace(/^\//, '');
+    if (entry.isFile) {
+        const file = await entryFile(entry as FileSystemFileEntry);
+        out.push({ path, size: file.size, read: (limit) => readBlob(file, limit) });
+        return;
+    }
+    // Don't descend into node_modules and friends at all — they can hold 100k+ entries
+    if (IGNORED_DIRS.has(entry.name)) {
+        skippedDirs.push(`${path}/`);
+        return;
+    }
+
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns results in batches until an empty one
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) break;
+        for (const child of batch) await walkEntry(child, out, skippedDirs);
+    }
+}
+
+export function describeSkipped(skipped: SkippedFile[], limit = 15): string {
+    const lines = skipped.slice(0, limit).map(s => `  - ${s.path} (${s.reason})`);
+    if (skipped.length > limit) lines.push(`  … and ${skipped.length - limit} more`);
+    return lines.join('\n');
+}
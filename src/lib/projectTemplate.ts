@@ -1,10 +1,38 @@
-// Base React + Vite + TypeScript + Tailwind project template
-// This is auto-generated when a new chat is created
+// Project templates — the starter files a new chat is created with, plus the metadata shown in
+// the home page picker and the stack description injected into the system prompt.
 
-export const BASE_PROJECT_FILES: Record<string, { file: { contents: string } }> = {
-  'package.json': {
-    file: {
-      contents: `{
+import type { FileMap } from './files';
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Short stack summary, e.g. "Vite · React 18 · TypeScript · Tailwind"
+  stack: string;
+  // Stack-specific guidance for the agent: entry points, conventions, how to run
+  notes: string;
+  files: FileMap;
+  // User-defined templates saved from a chat (see customTemplates.ts)
+  custom?: boolean;
+  createdAt?: string;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'react-ts';
+
+const file = (contents: string) => ({ file: { contents } });
+
+// Every template runs its dev server on the same port so the preview picks it up
+const VITE_SERVER = `  server: {
+    port: 3000,
+    host: true
+  }`;
+
+// ============================================================
+// REACT + TYPESCRIPT + TAILWIND
+// ============================================================
+
+const REACT_FILES: FileMap = {
+  'package.json': file(`{
   "name": "vite-react-app",
   "private": true,
   "version": "0.0.0",
@@ -32,26 +60,15 @@ export const BASE_PROJECT_FILES: Record<string, { file: { contents: string } }>
     "typescript": "^5.2.2",
     "vite": "^5.0.0"
   }
-}`
-    }
-  },
-  'vite.config.ts': {
-    file: {
-      contents: `import { defineConfig } from 'vite'
+}`),
+  'vite.config.ts': file(`import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 export default defineConfig({
   plugins: [react()],
-  server: {
-    port: 3000,
-    host: true
-  }
-})`
-    }
-  },
-  'tsconfig.json': {
-    file: {
-      contents: `{
+${VITE_SERVER}
+})`),
+  'tsconfig.json': file(`{
   "compilerOptions": {
     "target": "ES2020",
     "useDefineForClassFields": true,
@@ -71,12 +88,8 @@ export default defineConfig({
   },
   "include": ["src"],
   "references": [{ "path": "./tsconfig.node.json" }]
-}`
-    }
-  },
-  'tsconfig.node.json': {
-    file: {
-      contents: `{
+}`),
+  'tsconfig.node.json': file(`{
   "compilerOptions": {
     "composite": true,
     "skipLibCheck": true,
@@ -85,12 +98,8 @@ export default defineConfig({
     "allowSyntheticDefaultImports": true
   },
   "include": ["vite.config.ts"]
-}`
-    }
-  },
-  'tailwind.config.js': {
-    file: {
-      contents: `/** @type {import('tailwindcss').Config} */
+}`),
+  'tailwind.config.js': file(`/** @type {import('tailwindcss').Config} */
 export default {
   content: [
     "./index.html",
@@ -100,22 +109,14 @@ export default {
     extend: {},
   },
   plugins: [],
-}`
-    }
-  },
-  'postcss.config.js': {
-    file: {
-      contents: `export default {
+}`),
+  'postcss.config.js': file(`export default {
   plugins: {
     tailwindcss: {},
     autoprefixer: {},
   },
-}`
-    }
-  },
-  'index.html': {
-    file: {
-      contents: `<!DOCTYPE html>
+}`),
+  'index.html': file(`<!DOCTYPE html>
 <html lang="en">
   <head>
     <meta charset="UTF-8" />
@@ -127,12 +128,8 @@ export default {
     <div id="root"></div>
     <script type="module" src="/src/main.tsx"></script>
   </body>
-</html>`
-    }
-  },
-  'src/main.tsx': {
-    file: {
-      contents: `import React from 'react'
+</html>`),
+  'src/main.tsx': file(`import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
 import './index.css'
@@ -141,12 +138,8 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
   </React.StrictMode>,
-)`
-    }
-  },
-  'src/App.tsx': {
-    file: {
-      contents: `function App() {
+)`),
+  'src/App.tsx': file(`function App() {
   return (
     <div className="min-h-screen bg-gray-100 flex items-center justify-center">
       <div className="text-center">
@@ -161,29 +154,659 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
   )
 }
 
-export default App`
-    }
-  },
-  'src/index.css': {
-    file: {
-      contents: `@tailwind base;
+export default App`),
+  'src/index.css': file(`@tailwind base;
 @tailwind components;
-@tailwind utilities;`
+@tailwind utilities;`),
+};
+
+// ============================================================
+// VUE 3
+// ============================================================
+
+const VUE_FILES: FileMap = {
+  'package.json': file(`{
+  "name": "vite-vue-app",
+  "private": true,
+  "version": "0.0.0",
+  "type": "module",
+  "scripts": {
+    "dev": "vite",
+    "build": "vue-tsc -b && vite build",
+    "preview": "vite preview"
+  },
+  "dependencies": {
+    "vue": "^3.4.0"
+  },
+  "devDependencies": {
+    "@vitejs/plugin-vue": "^5.0.0",
+    "typescript": "^5.2.2",
+    "vite": "^5.0.0",
+    "vue-tsc": "^2.0.0"
+  }
+}`),
+  'vite.config.ts': file(`import { defineConfig } from 'vite'
+import vue from '@vitejs/plugin-vue'
+
+export default defineConfig({
+  plugins: [vue()],
+${VITE_SERVER}
+})`),
+  'tsconfig.json': file(`{
+  "compilerOptions": {
+    "target": "ES2020",
+    "useDefineForClassFields": true,
+    "lib": ["ES2020", "DOM", "DOM.Iterable"],
+    "module": "ESNext",
+    "skipLibCheck": true,
+    "moduleResolution": "bundler",
+    "allowImportingTsExtensions": true,
+    "resolveJsonModule": true,
+    "isolatedModules": true,
+    "noEmit": true,
+    "jsx": "preserve",
+    "strict": true,
+    "noUnusedLocals": true,
+    "noUnusedParameters": true,
+    "noFallthroughCasesInSwitch": true
+  },
+  "include": ["src/**/*.ts", "src/**/*.vue"]
+}`),
+  'index.html': file(`<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>Vue App</title>
+  </head>
+  <body>
+    <div id="app"></div>
+    <script type="module" src="/src/main.ts"></script>
+  </body>
+</html>`),
+  'src/main.ts': file(`import { createApp } from 'vue'
+import App from './App.vue'
+import './style.css'
+
+createApp(App).mount('#app')`),
+  'src/App.vue': file(`<script setup lang="ts">
+import { ref } from 'vue'
+
+const count = ref(0)
+</script>
+
+<template>
+  <main class="app">
+    <h1>Welcome to Your App</h1>
+    <p>Start editing src/App.vue to build your application</p>
+    <button type="button" @click="count++">Clicked {{ count }} times</button>
+  </main>
+</template>
+
+<style scoped>
+.app {
+  min-height: 100vh;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  gap: 1rem;
+}
+</style>`),
+  'src/style.css': file(`:root {
+  font-family: Inter, system-ui, sans-serif;
+  color: #111827;
+  background: #f3f4f6;
+}
+
+body {
+  margin: 0;
+}`),
+  'src/env.d.ts': file(`/// <reference types="vite/client" />
+
+declare module '*.vue' {
+  import type { DefineComponent } from 'vue'
+  const component: DefineComponent<object, object, unknown>
+  export default component
+}`),
+};
+
+// ============================================================
+// SVELTE
+// ============================================================
+
+const SVELTE_FILES: FileMap = {
+  'package.json': file(`{
+  "name": "vite-svelte-app",
+  "private": true,
+  "version": "0.0.0",
+  "type": "module",
+  "scripts": {
+    "dev": "vite",
+    "build": "vite build",
+    "preview": "vite preview",
+    "check": "svelte-check --tsconfig ./tsconfig.json"
+  },
+  "devDependencies": {
+    "@sveltejs/vite-plugin-svelte": "^3.0.0",
+    "@tsconfig/svelte": "^5.0.0",
+    "svelte": "^4.2.0",
+    "svelte-check": "^3.6.0",
+    "tslib": "^2.6.0",
+    "typescript": "^5.2.2",
+    "vite": "^5.0.0"
+  }
+}`),
+  'vite.config.ts': file(`import { defineConfig } from 'vite'
+import { svelte } from '@sveltejs/vite-plugin-svelte'
+
+export default defineConfig({
+  plugins: [svelte()],
+${VITE_SERVER}
+})`),
+  'svelte.config.js': file(`import { vitePreprocess } from '@sveltejs/vite-plugin-svelte'
+
+export default {
+  preprocess: vitePreprocess(),
+}`),
+  'tsconfig.json': file(`{
+  "extends": "@tsconfig/svelte/tsconfig.json",
+  "compilerOptions": {
+    "target": "ES2020",
+    "useDefineForClassFields": true,
+    "module": "ESNext",
+    "resolveJsonModule": true,
+    "allowJs": true,
+    "checkJs": true,
+    "isolatedModules": true,
+    "skipLibCheck": true,
+    "strict": true
+  },
+  "include": ["src/**/*.ts", "src/**/*.js", "src/**/*.svelte"]
+}`),
+  'index.html': file(`<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>Svelte App</title>
+  </head>
+  <body>
+    <div id="app"></div>
+    <script type="module" src="/src/main.ts"></script>
+  </body>
+</html>`),
+  'src/main.ts': file(`import App from './App.svelte'
+import './app.css'
+
+const app = new App({
+  target: document.getElementById('app')!,
+})
+
+export default app`),
+  'src/App.svelte': file(`<script lang="ts">
+  let count = 0
+</script>
+
+<main>
+  <h1>Welcome to Your App</h1>
+  <p>Start editing src/App.svelte to build your application</p>
+  <button on:click={() => count++}>Clicked {count} times</button>
+</main>
+
+<style>
+  main {
+    min-height: 100vh;
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    justify-content: center;
+    gap: 1rem;
+  }
+</style>`),
+  'src/app.css': file(`:root {
+  font-family: Inter, system-ui, sans-serif;
+  color: #111827;
+  background: #f3f4f6;
+}
+
+body {
+  margin: 0;
+}`),
+  'src/vite-env.d.ts': file(`/// <reference types="svelte" />
+/// <reference types="vite/client" />`),
+};
+
+// ============================================================
+// VANILLA TYPESCRIPT
+// ============================================================
+
+const VANILLA_FILES: FileMap = {
+  'package.json': file(`{
+  "name": "vite-vanilla-ts-app",
+  "private": true,
+  "version": "0.0.0",
+  "type": "module",
+  "scripts": {
+    "dev": "vite",
+    "build": "tsc && vite build",
+    "preview": "vite preview"
+  },
+  "devDependencies": {
+    "typescript": "^5.2.2",
+    "vite": "^5.0.0"
+  }
+}`),
+  'vite.config.ts': file(`import { defineConfig } from 'vite'
+
+export default defineConfig({
+${VITE_SERVER}
+})`),
+  'tsconfig.json': file(`{
+  "compilerOptions": {
+    "target": "ES2020",
+    "useDefineForClassFields": true,
+    "module": "ESNext",
+    "lib": ["ES2020", "DOM", "DOM.Iterable"],
+    "skipLibCheck": true,
+    "moduleResolution": "bundler",
+    "allowImportingTsExtensions": true,
+    "resolveJsonModule": true,
+    "isolatedModules": true,
+    "noEmit": true,
+    "strict": true,
+    "noUnusedLocals": true,
+    "noUnusedParameters": true,
+    "noFallthroughCasesInSwitch": true
+  },
+  "include": ["src"]
+}`),
+  'index.html': file(`<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>Vite App</title>
+  </head>
+  <body>
+    <div id="app"></div>
+    <script type="module" src="/src/main.ts"></script>
+  </body>
+</html>`),
+  'src/main.ts': file(`import './style.css'
+import { setupCounter } from './counter'
+
+document.querySelector<HTMLDivElement>('#app')!.innerHTML = \`
+  <main>
+    <h1>Welcome to Your App</h1>
+    <p>Start editing src/main.ts to build your application</p>
+    <button id="counter" type="button"></button>
+  </main>
+\`
+
+setupCounter(document.querySelector<HTMLButtonElement>('#counter')!)`),
+  'src/counter.ts': file(`export function setupCounter(element: HTMLButtonElement) {
+  let counter = 0
+  const setCounter = (count: number) => {
+    counter = count
+    element.textContent = \`Clicked \${counter} times\`
+  }
+  element.addEventListener('click', () => setCounter(counter + 1))
+  setCounter(0)
+}`),
+  'src/style.css': file(`:root {
+  font-family: Inter, system-ui, sans-serif;
+  color: #111827;
+  background: #f3f4f6;
+}
+
+body {
+  margin: 0;
+}
+
+main {
+  min-height: 100vh;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  gap: 1rem;
+}`),
+  'src/vite-env.d.ts': file(`/// <reference types="vite/client" />`),
+};
+
+// ============================================================
+// PREACT
+// ============================================================
+
+const PREACT_FILES: FileMap = {
+  'package.json': file(`{
+  "name": "vite-preact-app",
+  "private": true,
+  "version": "0.0.0",
+  "type": "module",
+  "scripts": {
+    "dev": "vite",
+    "build": "tsc && vite build",
+    "preview": "vite preview"
+  },
+  "dependencies": {
+    "preact": "^10.19.0"
+  },
+  "devDependencies": {
+    "@preact/preset-vite": "^2.8.0",
+    "typescript": "^5.2.2",
+    "vite": "^5.0.0"
+  }
+}`),
+  'vite.config.ts': file(`import { defineConfig } from 'vite'
+import preact from '@preact/preset-vite'
+
+export default defineConfig({
+  plugins: [preact()],
+${VITE_SERVER}
+})`),
+  'tsconfig.json': file(`{
+  "compilerOptions": {
+    "target": "ES2020",
+    "useDefineForClassFields": true,
+    "module": "ESNext",
+    "lib": ["ES2020", "DOM", "DOM.Iterable"],
+    "skipLibCheck": true,
+    "moduleResolution": "bundler",
+    "allowImportingTsExtensions": true,
+    "resolveJsonModule": true,
+    "isolatedModules": true,
+    "noEmit": true,
+    "jsx": "react-jsx",
+    "jsxImportSource": "preact",
+    "strict": true,
+    "noUnusedLocals": true,
+    "noUnusedParameters": true,
+    "noFallthroughCasesInSwitch": true
+  },
+  "include": ["src"]
+}`),
+  'index.html': file(`<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>Preact App</title>
+  </head>
+  <body>
+    <div id="app"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>`),
+  'src/main.tsx': file(`import { render } from 'preact'
+import { App } from './app'
+import './index.css'
+
+render(<App />, document.getElementById('app')!)`),
+  'src/app.tsx': file(`import { useState } from 'preact/hooks'
+
+export function App() {
+  const [count, setCount] = useState(0)
+
+  return (
+    <main>
+      <h1>Welcome to Your App</h1>
+      <p>Start editing src/app.tsx to build your application</p>
+      <button type="button" onClick={() => setCount(count + 1)}>
+        Clicked {count} times
+      </button>
+    </main>
+  )
+}`),
+  'src/index.css': file(`:root {
+  font-family: Inter, system-ui, sans-serif;
+  color: #111827;
+  background: #f3f4f6;
+}
+
+body {
+  margin: 0;
+}
+
+main {
+  min-height: 100vh;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  gap: 1rem;
+}`),
+  'src/vite-env.d.ts': file(`/// <reference types="vite/client" />`),
+};
+
+// ============================================================
+// TYPESCRIPT LIBRARY + VITEST
+// ============================================================
+
+const LIBRARY_FILES: FileMap = {
+  'package.json': file(`{
+  "name": "my-library",
+  "version": "0.1.0",
+  "type": "module",
+  "main": "./dist/my-library.js",
+  "module": "./dist/my-library.js",
+  "types": "./dist/index.d.ts",
+  "exports": {
+    ".": {
+      "types": "./dist/index.d.ts",
+      "import": "./dist/my-library.js"
     }
+  },
+  "files": ["dist"],
+  "scripts": {
+    "dev": "vite",
+    "build": "tsc -p tsconfig.build.json && vite build",
+    "test": "vitest run",
+    "test:watch": "vitest"
+  },
+  "devDependencies": {
+    "typescript": "^5.2.2",
+    "vite": "^5.0.0",
+    "vitest": "^1.2.0"
   }
+}`),
+  'vite.config.ts': file(`/// <reference types="vitest" />
+import { defineConfig } from 'vite'
+
+export default defineConfig({
+  build: {
+    lib: {
+      entry: 'src/index.ts',
+      name: 'MyLibrary',
+      formats: ['es'],
+      fileName: 'my-library',
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+${VITE_SERVER}
+})`),
+  'tsconfig.json': file(`{
+  "compilerOptions": {
+    "target": "ES2020",
+    "module": "ESNext",
+    "lib": ["ES2020", "DOM"],
+    "skipLibCheck": true,
+    "moduleResolution": "bundler",
+    "resolveJsonModule": true,
+    "isolatedModules": true,
+    "noEmit": true,
+    "strict": true,
+    "noUnusedLocals": true,
+    "noUnusedParameters": true,
+    "noFallthroughCasesInSwitch": true
+  },
+  "include": ["src", "playground"]
+}`),
+  'tsconfig.build.json': file(`{
+  "extends": "./tsconfig.json",
+  "compilerOptions": {
+    "noEmit": false,
+    "declaration": true,
+    "emitDeclarationOnly": true,
+    "outDir": "dist"
+  },
+  "include": ["src"],
+  "exclude": ["src/**/*.test.ts"]
+}`),
+  'index.html': file(`<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>Library Playground</title>
+  </head>
+  <body>
+    <pre id="output"></pre>
+    <script type="module" src="/playground/main.ts"></script>
+  </body>
+</html>`),
+  'playground/main.ts': file(`import { slugify, clamp } from '../src'
+
+// Try the library in the browser — the preview shows this page
+document.getElementById('output')!.textContent = [
+  \`slugify('Hello World!') → \${slugify('Hello World!')}\`,
+  \`clamp(15, 0, 10) → \${clamp(15, 0, 10)}\`,
+].join('\\n')`),
+  'src/index.ts': file(`export function slugify(input: string): string {
+  return input
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}`),
+  'src/index.test.ts': file(`import { describe, expect, it } from 'vitest'
+import { slugify, clamp } from './index'
+
+describe('slugify', () => {
+  it('lowercases and joins words with dashes', () => {
+    expect(slugify('Hello World!')).toBe('hello-world')
+  })
+})
+
+describe('clamp', () => {
+  it('keeps values inside the range', () => {
+    expect(clamp(15, 0, 10)).toBe(10)
+    expect(clamp(-5, 0, 10)).toBe(0)
+    expect(clamp(5, 0, 10)).toBe(5)
+  })
+})`),
 };
 
+// ============================================================
+// REGISTRY
+// ============================================================
+
+export const PROJECT_TEMPLATES: ProjectTemplate[] = [
+  {
+    id: 'react-ts',
+    name: 'React',
+    description: 'Single-page app with React Router, Tailwind and Lucide icons',
+    stack: 'Vite · React 18 · TypeScript · Tailwind CSS',
+    notes: `- Entry point: src/main.tsx renders <App /> from src/App.tsx into #root
+- Style with Tailwind utility classes; src/index.css holds the Tailwind directives
+- Components are function components in .tsx files`,
+    files: REACT_FILES,
+  },
+  {
+    id: 'vue',
+    name: 'Vue',
+    description: 'Vue 3 app with single-file components and the Composition API',
+    stack: 'Vite · Vue 3 · TypeScript',
+    notes: `- Entry point: src/main.ts mounts src/App.vue into #app
+- Write components as .vue single-file components with <script setup lang="ts">
+- Type-check with vue-tsc; do NOT add React, JSX or React libraries`,
+    files: VUE_FILES,
+  },
+  {
+    id: 'svelte',
+    name: 'Svelte',
+    description: 'Svelte 4 app with TypeScript in components',
+    stack: 'Vite · Svelte 4 · TypeScript',
+    notes: `- Entry point: src/main.ts mounts src/App.svelte into #app
+- Write components as .svelte files with <script lang="ts">; styles are scoped per component
+- Type-check with \`pnpm run check\` (svelte-check); do NOT add React, JSX or React libraries`,
+    files: SVELTE_FILES,
+  },
+  {
+    id: 'vanilla-ts',
+    name: 'Vanilla TS',
+    description: 'No framework — plain TypeScript and the DOM',
+    stack: 'Vite · TypeScript',
+    notes: `- Entry point: src/main.ts renders into #app with the DOM API
+- No UI framework: build UI with DOM APIs or small helper modules like src/counter.ts
+- Only add a framework if the user asks for one`,
+    files: VANILLA_FILES,
+  },
+  {
+    id: 'preact',
+    name: 'Preact',
+    description: 'React-compatible 3 kB alternative with hooks',
+    stack: 'Vite · Preact 10 · TypeScript',
+    notes: `- Entry point: src/main.tsx renders <App /> from src/app.tsx into #app
+- Import hooks from 'preact/hooks' and render from 'preact' — not from 'react'
+- JSX is compiled with jsxImportSource "preact"; React libraries need preact/compat aliases`,
+    files: PREACT_FILES,
+  },
+  {
+    id: 'library-vitest',
+    name: 'TS Library',
+    description: 'Publishable TypeScript library with Vitest tests and a browser playground',
+    stack: 'Vite library mode · TypeScript · Vitest',
+    notes: `- Library source lives in src/ with the public API exported from src/index.ts
+- Tests are src/**/*.test.ts run with \`pnpm run test\` (vitest run) — add tests for every exported function
+- playground/main.ts is the page the dev server shows; use it to demo the library
+- \`pnpm run build\` emits dist/ (ES module + .d.ts)`,
+    files: LIBRARY_FILES,
+  },
+];
+
+// Kept for callers that just want the default starter files
+export const BASE_PROJECT_FILES = REACT_FILES;
+
+/**
+ * Template by id. `undefined` (chats created before templates existed) means the default React
+ * template; `null` or an unknown id means the project did not start from a template.
+ */
+export function getTemplate(id: string | null | undefined): ProjectTemplate | null {
+  if (id === undefined) id = DEFAULT_TEMPLATE_ID;
+  return PROJECT_TEMPLATES.find(t => t.id === id) || null;
+}
+
 // Get file list as string for AI context
-export function getProjectStructure(): string {
-  const paths = Object.keys(BASE_PROJECT_FILES).sort();
+export function getProjectStructure(template: ProjectTemplate = getTemplate(DEFAULT_TEMPLATE_ID)!): string {
+  const paths = Object.keys(template.files).sort();
   const tree: string[] = ['Project structure:'];
-  
+
   for (const path of paths) {
     const depth = path.split('/').length - 1;
     const indent = '  '.repeat(depth);
     const name = path.split('/').pop() || path;
     tree.push(`${indent}📄 ${name}`);
   }
-  
+
   return tree.join('\n');
 }
+
+// Stack description for the system prompt
+export function describeTemplate(template: ProjectTemplate): string {
+  return `This project was started from the **${template.name}** template (${template.stack}).
+
+${template.notes}
+
+Starter files:
+\`\`\`
+${getProjectStructure(template)}
+\`\`\``;
+}
@@ -0,0 +1,72 @@
+// System prompt presets — named variants of the built-in prompt ("strict TS", "prototype fast",
+// "accessibility-first") edited in Settings. Each save keeps the previous text as a version,
+// and every chat stores which preset it uses.
+
+import { DEFAULT_SYSTEM_PROMPT } from './systemPrompts';
+
+export interface PromptVersion {
+    content: string;
+    savedAt: string;
+}
+
+export interface PromptPreset {
+    id: string;
+    name: string;
+    content: string;
+    // Earlier saves, newest first
+    versions: PromptVersion[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Chats without a preset (and chats whose preset was deleted) use the built-in prompt
+export const DEFAULT_PRESET_ID = 'default';
+
+const MAX_VERSIONS = 20;
+const PRESETS_STORAGE_KEY = 'promptPresets';
+
+export function loadPromptPresets(): PromptPreset[] {
+    try {
+        const saved = localStorage.getItem(PRESETS_STORAGE_KEY);
+        const parsed = saved ? JSON.parse(saved) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+export function savePromptPresets(presets: PromptPreset[]) {
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+}
+
+export function createPromptPreset(name: string, content = DEFAULT_SYSTEM_PROMPT): PromptPreset {
+    const now = new Date().toISOString();
+    return {
+        id: `preset-${crypto.randomUUID()}`,
+        name: name.trim() || 'Untitled preset',
+        content,
+        versions: [],
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+/**
+ * Save new text for a preset. The text it replaces becomes the newest version;
+ * saving unchanged text keeps the history as is.
+ */
+export function savePresetContent(preset: PromptPreset, content: string): PromptPreset {
+    if (content === preset.content) return preset;
+    return {
+        ...preset,
+        content,
+        versions: [{ content: preset.content, savedAt: preset.updatedAt }, ...preset.versions].slice(0, MAX_VERSIONS),
+        updatedAt: new Date().toISOString(),
+    };
+}
+
+// Prompt text for a chat's preset id — the built-in prompt for missing or deleted presets
+export function resolvePresetPrompt(presets: PromptPreset[], id: string | null | undefined): string {
+    if (!id || id === DEFAULT_PRESET_ID) return DEFAULT_SYSTEM_PROMPT;
+    return presets.find(p => p.id === id)?.content ?? DEFAULT_SYSTEM_PROMPT;
+}
@@ -0,0 +1,189 @@
+// AI provider resolution — turns the Settings "AI Model" values into a concrete
+// endpoint, headers and model id for every AI call (chat, titles, fork summaries)
+
+import { useStore } from '../store';
+
+export type AIProviderId = 'glovix' | 'openai' | 'anthropic' | 'custom' | 'local';
+
+// Wire format of the chat endpoint — picks the request builder and stream adapter in ai.ts
+export type ProviderFormat = 'openai' | 'anthropic';
+
+export interface ProviderDefinition {
+    id: AIProviderId;
+    name: string;
+    description: string;
+    defaultBaseUrl: string;
+    defaultModel: string;
+    format: ProviderFormat;
+    // Whether the base URL / model can be edited in Settings
+    configurable: boolean;
+    // Local servers (Ollama, llama.cpp) accept requests without a key
+    requiresApiKey: boolean;
+}
+
+export const AI_PROVIDERS: Record<AIProviderId, ProviderDefinition> = {
+    glovix: {
+        id: 'glovix',
+        name: 'Dev Proxy',
+        description: 'Uses the Vite dev server proxy (/api/ai/chat) configured by VITE_AI_ENDPOINT. Only available with `pnpm dev`.',
+        defaultBaseUrl: '/api/ai/chat',
+        defaultModel: 'gpt-4',
+        format: 'openai',
+        configurable: false,
+        requiresApiKey: true,
+    },
+    openai: {
+        id: 'openai',
+        name: 'OpenAI',
+        description: 'Calls the OpenAI API directly from the browser.',
+        defaultBaseUrl: 'https://api.openai.com/v1',
+        defaultModel: 'gpt-4o',
+        format: 'openai',
+        configurable: true,
+        requiresApiKey: true,
+    },
+    anthropic: {
+        id: 'anthropic',
+        name: 'Anthropic',
+        description: 'Native Anthropic Messages API (/v1/messages). Also works with Claude-compatible gateways.',
+        defaultBaseUrl: 'https://api.anthropic.com/v1',
+        defaultModel: 'claude-sonnet-4-5',
+        format: 'anthropic',
+        configurable: true,
+        requiresApiKey: true,
+    },
+    custom: {
+        id: 'custom',
+        name: 'Custom (OpenAI-compatible)',
+        description: 'Any endpoint that implements /chat/completions — OpenRouter, DeepSeek, Groq, vLLM, etc.',
+        defaultBaseUrl: 'https://openrouter.ai/api/v1',
+        defaultModel: 'gpt-4o',
+        format: 'openai',
+        configurable: true,
+        requiresApiKey: true,
+    },
+    local: {
+        id: 'local',
+        name: 'Local (Ollama / llama.cpp)',
+        description: 'OpenAI-compatible server on this machine — Ollama, llama.cpp server or LM Studio. No API key needed.',
+        defaultBaseUrl: 'http://localhost:11434/v1',
+        defaultModel: '',
+        format: 'openai',
+        configurable: true,
+        requiresApiKey: false,
+    },
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export interface ResolvedProvider {
+    id: AIProviderId;
+    url: string;
+    headers: Record<string, string>;
+    model: string;
+    format: ProviderFormat;
+    // True when requests go through the dev-server proxy rather than straight to the provider
+    viaProxy: boolean;
+}
+
+export function isProviderId(value: string): value is AIProviderId {
+    return value in AI_PROVIDERS;
+}
+
+// Env values are only honoured when they were actually filled in
+function envValue(value: string | undefined): string {
+    if (!value || value === 'your_api_key_here' || value === 'model-id') return '';
+    return value;
+}
+
+// Build the endpoint URL from a base URL the user typed.
+// Accepts both "https://host/v1" and a full ".../chat/completions" or ".../messages" URL.
+export function buildEndpointUrl(baseUrl: string, format: ProviderFormat = 'openai'): string {
+    const trimmed = baseUrl.trim().replace(/\/+$/, '');
+    const path = format === 'anthropic' ? '/messages' : '/chat/completions';
+    if (trimmed.endsWith(path)) return trimmed;
+    return `${trimmed}${path}`;
+}
+
+/**
+ * Resolve the provider for the next AI request from the store settings.
+ * - "glovix" keeps the historical behaviour: POST to the Vite proxy with the env key/model
+ * - every other provider talks to its base URL directly, so deployed builds work without a proxy
+ */
+export function resolveProvider(): ResolvedProvider {
+    const { aiProvider, aiApiKey, aiBaseUrl, aiModel } = useStore.getState();
+    const id: AIProviderId = isProviderId(aiProvider) ? aiProvider : 'glovix';
+    const definition = AI_PROVIDERS[id];
+
+    const envKey = envValue(import.meta.env.VITE_AI_API_KEY);
+    const envModel = envValue(import.meta.env.VITE_AI_MODEL);
+
+    if (id === 'glovix') {
+        const apiKey = envKey || aiApiKey;
+        if (!apiKey) {
+            throw new Error('Missing API Key. Please set VITE_AI_API_KEY in .env or configure a provider in Settings → AI Model.');
+        }
+        return {
+            id,
+            url: definition.defaultBaseUrl,
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${apiKey}`,
+            },
+            model: envModel || aiModel || definition.defaultModel,
+            format: definition.format,
+            viaProxy: true,
+        };
+    }
+
+    // Settings win over env for direct providers — the user picked them explicitly
+    const apiKey = definition.requiresApiKey ? aiApiKey || envKey : aiApiKey;
+    if (!apiKey && definition.requiresApiKey) {
+        throw new Error(`Missing API Key. Add your ${definition.name} key in Settings → AI Model.`);
+    }
+
+    const headers: Record<string, string> = definition.format === 'anthropic'
+        ? {
+            'Content-Type': 'application/json',
+            'x-api-key': apiKey,
+            'anthropic-version': ANTHROPIC_VERSION,
+            // Required for CORS when calling the API straight from the browser
+            'anthropic-dangerous-direct-browser-access': 'true',
+        }
+        : {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        };
+
+    // Local servers have no default model — the request would go out with an empty `model`
+    const model = aiModel || envModel || definition.defaultModel;
+    if (!model) {
+        throw new Error(`No model selected. Pick a model for ${definition.name} in Settings → AI Model.`);
+    }
+
+    return {
+        id,
+        url: buildEndpointUrl(aiBaseUrl || definition.defaultBaseUrl, definition.format),
+        headers,
+        model,
+        format: definition.format,
+        viaProxy: false,
+    };
+}
+
+/**
+ * POST a chat request to the resolved provider.
+ * The caller supplies a body in the provider's format, minus `model`, which comes from the provider.
+ */
+export async function postChatCompletion(
+    body: Record<string, any>,
+    signal?: AbortSignal,
+    provider: ResolvedProvider = resolveProvider()
+): Promise<Response> {
+    return fetch(provider.url, {
+        method: 'POST',
+        headers: provider.headers,
+        body: JSON.stringify({ model: provider.model, ...body }),
+        signal,
+    });
+}
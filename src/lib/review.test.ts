@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FileMap } from './files';
+import type { PendingPatch } from './review';
+
+const store = vi.hoisted(() => {
+    const state = {
+        files: {} as FileMap,
+        pendingPatches: [] as PendingPatch[],
+        setFiles: (files: FileMap) => { state.files = files; },
+        setPendingPatches: (patches: PendingPatch[]) => { state.pendingPatches = patches; },
+        removeErrorsForFile: () => {},
+    };
+    return state;
+});
+const written = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('../store', () => ({ useStore: { getState: () => store } }));
+vi.mock('./webcontainer', () => ({
+    writeFile: async (path: string, content: string) => { written.set(path, content); },
+}));
+
+import { beginStaging, endStaging, stageWrite, getStagedContent, reviewStagedWrites, submitReview, cancelReview } from './review';
+
+// Start a review of the given writes and wait until its patches reach the store
+async function startReview(writes: Record<string, string>) {
+    const result = reviewStagedWrites(new Map(Object.entries(writes)));
+    await vi.waitFor(() => expect(store.pendingPatches.length).toBeGreaterThan(0));
+    return { result, patches: store.pendingPatches };
+}
+
+beforeEach(() => {
+    store.files = { 'src/App.tsx': { file: { contents: 'a\nb\nc\nd\ne' } } };
+    store.pendingPatches = [];
+    written.clear();
+});
+
+describe('staging', () => {
+    it('keeps each call\'s writes apart and drops writes after the call ended', () => {
+        const first = beginStaging();
+        const second = beginStaging();
+        stageWrite(first, 'a.ts', '1');
+        stageWrite(second, 'a.ts', '2');
+        expect(getStagedContent(first, 'a.ts')).toBe('1');
+        expect(getStagedContent(second, 'a.ts')).toBe('2');
+        expect(getStagedContent(undefined, 'a.ts')).toBeUndefined();
+
+        const writes = endStaging(first);
+        stageWrite(first, 'late.ts', 'x');
+        expect([...writes.keys()]).toEqual(['a.ts']);
+    });
+});
+
+describe('reviewStagedWrites', () => {
+    it('writes accepted files to the project', async () => {
+        const { result, patches } = await startReview({ 'src/App.tsx': 'a\nB\nc\nd\ne', 'src/new.ts': 'export {}' });
+        expect(patches.map(p => p.path)).toEqual(['src/App.tsx', 'src/new.ts']);
+        expect(patches[1].before).toBeNull();
+
+        submitReview({ 'src/App.tsx': [0], 'src/new.ts': [0] });
+        const report = await result;
+
+        expect(report).toContain('✅ src/App.tsx — accepted');
+        expect(report).toContain('✅ src/new.ts — accepted');
+        expect(written.get('src/App.tsx')).toBe('a\nB\nc\nd\ne');
+        expect(store.files['src/new.ts'].file.contents).toBe('export {}');
+        expect(store.pendingPatches).toEqual([]);
+    });
+
+    it('applies only the accepted hunks and reports the rejected ones', async () => {
+        const { result, patches } = await startReview({ 'src/App.tsx': 'a\nB\nc\nd\nE' });
+        expect(patches[0].hunks).toHaveLength(2);
+
+        submitReview({ 'src/App.tsx': [1] });
+        const report = await result;
+
+        expect(written.get('src/App.tsx')).toBe('a\nb\nc\nd\nE');
+        expect(report).toContain('◐ src/App.tsx — 1/2 hunks applied');
+        expect(report).toContain('@@ -2,1 +2,1 @@\n-b\n+B');
+        expect(report).toContain('Rejected changes were NOT written');
+    });
+
+    it('writes nothing when the review is cancelled', async () => {
+        const { result } = await startReview({ 'src/App.tsx': 'changed', 'src/new.ts': 'x' });
+        cancelReview();
+        const report = await result;
+
+        expect(written.size).toBe(0);
+        expect(store.files['src/App.tsx'].file.contents).toBe('a\nb\nc\nd\ne');
+        expect(report).toContain('❌ src/App.tsx — rejected, file left unchanged');
+        expect(report).toContain('❌ src/new.ts — rejected, file not created');
+    });
+
+    it('skips the review when nothing changed and creates empty files directly', async () => {
+        const report = await reviewStagedWrites(new Map([['src/App.tsx', 'a\nb\nc\nd\ne'], ['src/empty.ts', '']]));
+        expect(report).toBe('[SYSTEM] Review mode: no changes to review.');
+        expect([...written.keys()]).toEqual(['src/empty.ts']);
+        expect(store.pendingPatches).toEqual([]);
+    });
+});
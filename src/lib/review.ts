@@ -0,0 +1,153 @@
+// Review mode — while it is on, files written by createFile / editFile / batchCreateFiles are staged
+// as pending patches instead of hitting the project. The user accepts or rejects them per file or per
+// hunk in the Workbench, and the outcome (with the rejected hunks) goes back to the model as the tool result.
+
+import { useStore } from '../store';
+import { writeProjectFile } from './tools';
+import { diffLines, buildHunks, applyHunks, formatHunkHeader, DiffLine, DiffHunk } from './diff';
+import { describeBinaryEntry, isBinaryEntry } from './files';
+
+export interface PendingPatch {
+    path: string;
+    // null when the file does not exist yet
+    before: string | null;
+    after: string;
+    lines: DiffLine[];
+    hunks: DiffHunk[];
+}
+
+// Accepted hunk ids per path — a missing path means the whole file was rejected
+export type ReviewDecisions = Record<string, number[]>;
+
+export const REVIEWED_TOOLS = new Set(['createFile', 'editFile', 'batchCreateFiles']);
+
+// ============================================================
+// STAGING — collects the writes of one tool call
+// ============================================================
+
+// One per reviewed call, handed to the tools through ToolContext — overlapping calls never share one
+export interface Staging {
+    writes: Map<string, string>;
+    // Set when the call ends or times out; a timed-out call that keeps running can't write anything after that
+    closed: boolean;
+}
+
+export function beginStaging(): Staging {
+    return { writes: new Map(), closed: false };
+}
+
+export function endStaging(staging: Staging): Map<string, string> {
+    staging.closed = true;
+    return staging.writes;
+}
+
+export function stageWrite(staging: Staging, path: string, content: string) {
+    if (staging.closed) {
+        console.warn(`[Review] Dropped a write to ${path} from a call that already ended`);
+        return;
+    }
+    staging.writes.set(path, content);
+}
+
+// What the file looks like to the model mid-call: its own staged version, if any
+export function getStagedContent(staging: Staging | undefined, path: string): string | undefined {
+    return staging?.writes.get(path);
+}
+
+// ============================================================
+// REVIEW
+// ============================================================
+
+let resolveReview: ((decisions: ReviewDecisions) => void) | null = null;
+
+export function buildPatch(path: string, before: string | null, after: string): PendingPatch {
+    const lines = diffLines(before ?? '', after);
+    return { path, before, after, lines, hunks: buildHunks(lines) };
+}
+
+/**
+ * Show the staged writes to the user and wait for their decision, then write what was accepted.
+ * Returns the report for the model.
+ */
+export async function reviewStagedWrites(writes: Map<string, string>): Promise<string> {
+    const files = useStore.getState().files;
+    const patches: PendingPatch[] = [];
+    for (const [path, after] of writes) {
+        // A text file replacing a binary asset diffs against its description — one hunk, all or nothing
+        const existing = files[path];
+        const before = existing ? (isBinaryEntry(existing) ? describeBinaryEntry(path, existing) : existing.file.contents) : null;
+        const patch = buildPatch(path, before, after);
+        // Unchanged files and empty new files have nothing to review
+        if (patch.hunks.length > 0) patches.push(patch);
+        else if (patch.before === null) await writeProjectFile(path, after);
+    }
+    if (patches.length === 0) return '[SYSTEM] Review mode: no changes to review.';
+
+    // A review left open from a stopped run is rejected before the new one starts
+    resolveReview?.({});
+
+    console.log(`[Review] Waiting for review of ${patches.length} file(s)`);
+    const decisions = await new Promise<ReviewDecisions>(resolve => {
+        resolveReview = resolve;
+        useStore.getState().setPendingPatches(patches);
+    });
+    resolveReview = null;
+    useStore.getState().setPendingPatches([]);
+
+    return applyReview(patches, decisions);
+}
+
+export function submitReview(decisions: ReviewDecisions) {
+    resolveReview?.(decisions);
+}
+
+// Stop / cancel — nothing is written
+export function cancelReview() {
+    resolveReview?.({});
+}
+
+async function applyReview(patches: PendingPatch[], decisions: ReviewDecisions): Promise<string> {
+    const report: string[] = [];
+    let rejectedHunks = 0;
+
+    for (const patch of patches) {
+        const accepted = new Set(decisions[patch.path] ?? []);
+        const total = patch.hunks.length;
+
+        if (accepted.size === 0) {
+            rejectedHunks += total;
+            report.push(`  ❌ ${patch.path} — rejected, ${patch.before === null ? 'file not created' : 'file left unchanged'}`);
+            continue;
+        }
+
+        const content = accepted.size === total ? patch.after : applyHunks(patch.lines, accepted);
+        try {
+            await writeProjectFile(patch.path, content);
+        } catch (e: any) {
+            report.push(`  ❌ ${patch.path} — accepted but could not be written: ${e.message}`);
+            continue;
+        }
+
+        if (accepted.size === total) {
+            report.push(`  ✅ ${patch.path} — accepted`);
+            continue;
+        }
+
+        const rejected = patch.hunks.filter(h => !accepted.has(h.id));
+        rejectedHunks += rejected.length;
+        report.push(`  ◐ ${patch.path} — ${accepted.size}/${total} hunks applied. Rejected hunks (line numbers refer to your proposed version):`);
+        for (const hunk of rejected) {
+            const body = hunk.lines.map(l => `${l.type === 'add' ? '+' : '-'}${l.text}`).join('\n');
+            report.push(`${formatHunkHeader(hunk)}\n${body}`);
+        }
+    }
+
+    const accepted = patches.length - patches.filter(p => !(decisions[p.path]?.length)).length;
+    console.log(`[Review] ${accepted}/${patches.length} file(s) accepted, ${rejectedHunks} hunk(s) rejected`);
+
+    let text = `[SYSTEM] Review mode: your changes were staged and reviewed by the user.\n${report.join('\n')}`;
+    if (rejectedHunks > 0) {
+        text += '\n\n⚠️ Rejected changes were NOT written. Do not reapply them as-is — readFile the affected files and adjust your approach, or ask the user what they want instead.';
+    }
+    return text;
+}
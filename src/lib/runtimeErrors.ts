@@ -0,0 +1,151 @@
+// Runtime error bridge — a script injected into the preview reports uncaught exceptions, unhandled
+// promise rejections and console.error calls to the parent window, with file/line mapped back to the
+// project source through Vite's inline source maps. They land in parsedErrors as 'runtime' errors.
+
+import type { ParsedError } from '../store';
+
+export const RUNTIME_ERROR_SCRIPT_FILE = 'glovix-errors.js';
+export const RUNTIME_ERROR_MESSAGE_TYPE = 'glovix-runtime-error';
+
+export interface RuntimeErrorEvent {
+    type: typeof RUNTIME_ERROR_MESSAGE_TYPE;
+    kind: 'error' | 'rejection' | 'console';
+    message: string;
+    // Original source path from the source map, or the module URL's path when there is no map
+    file?: string;
+    line?: number;
+    column?: number;
+}
+
+const KIND_PREFIX: Record<RuntimeErrorEvent['kind'], string> = {
+    error: 'Uncaught',
+    rejection: 'Unhandled rejection:',
+    console: 'console.error:',
+};
+
+let _runtimeErrId = 0;
+
+export function isRuntimeErrorEvent(data: any): data is RuntimeErrorEvent {
+    return data?.type === RUNTIME_ERROR_MESSAGE_TYPE && typeof data.message === 'string';
+}
+
+/**
+ * Map a source-map path or module URL ("/home/x/project/src/App.tsx", "http://…/src/App.tsx?t=123")
+ * to the project path it belongs to.
+ */
+export function toProjectPath(raw: string, paths: string[]): string {
+    let path = raw.replace(/^[a-z]+:\/\/[^/]+/i, '').replace(/[?#].*$/, '');
+    try { path = decodeURIComponent(path); } catch { /* keep as is */ }
+    path = path.replace(/^\/@fs\//, '/').replace(/\/home\/[a-z0-9_-]+\//gi, '').replace(/^\.?\//, '');
+    if (paths.includes(path)) return path;
+    // Absolute paths inside the container end with the project path
+    return paths.find(p => path.endsWith(`/${p}`)) || path;
+}
+
+export function runtimeErrorToParsed(event: RuntimeErrorEvent, paths: string[]): ParsedError {
+    return {
+        id: `rt${++_runtimeErrId}`,
+        type: 'runtime',
+        message: `${KIND_PREFIX[event.kind]} ${event.message}`.trim(),
+        file: event.file ? toProjectPath(event.file, paths) : undefined,
+        line: event.line,
+        column: event.column,
+        timestamp: Date.now(),
+        source: 'preview',
+    };
+}
+
+// Same error again (a render loop, an interval) — already in the list
+export const isSameRuntimeError = (a: ParsedError, b: ParsedError) =>
+    a.type === b.type && a.source === b.source && a.message === b.message && a.file === b.file && a.line === b.line;
+
+// Runs in the preview before the app's own scripts. ES5 syntax — it is served as-is, not bundled.
+export const RUNTIME_ERROR_SCRIPT = `(function(){
+  if(window.__glovixErrors)return;window.__glovixErrors=true;
+  var B64='ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  var maps={},lastKey='',lastAt=0;
+  function post(msg){msg.type='${RUNTIME_ERROR_MESSAGE_TYPE}';try{window.parent.postMessage(msg,'*');}catch(e){}}
+  function vlq(str){
+    var out=[],value=0,shift=0;
+    for(var i=0;i<str.length;i++){
+      var d=B64.indexOf(str.charAt(i));if(d<0)break;
+      value+=(d&31)<<shift;
+      if(d&32){shift+=5;}else{out.push(value&1?-(value>>1):value>>1);value=0;shift=0;}
+    }
+    return out;
+  }
+  // The unwrapped fetch — taken before the network script wraps it, or from it if it ran first — so map lookups stay out of the Network tab
+  var rawFetch=window.__glovixFetch||window.fetch;
+  function get(url){return rawFetch.call(window,url);}
+  // Vite serves each module with an inline source map; fetch it once per module URL
+  function loadMap(url){
+    if(!maps[url]){
+      maps[url]=get(url).then(function(r){return r.text();}).then(function(code){
+        var refs=code.match(/sourceMappingURL=([^\\s'"]+)/g);
+        if(!refs)return null;
+        var ref=refs[refs.length-1].slice('sourceMappingURL='.length);
+        var inline=ref.match(/^data:application\\/json;(?:charset=[^;,]+;)?base64,(.+)$/);
+        if(inline)return JSON.parse(decodeURIComponent(escape(atob(inline[1]))));
+        return get(new URL(ref,url).href).then(function(r){return r.json();});
+      }).catch(function(){return null;});
+    }
+    return maps[url];
+  }
+  function mapPosition(map,line,column){
+    var lines=map.mappings.split(';'),src=0,ol=0,oc=0,best=null;
+    for(var i=0;i<line&&i<lines.length;i++){
+      var gc=0,segs=lines[i]?lines[i].split(','):[];
+      for(var j=0;j<segs.length;j++){
+        var v=vlq(segs[j]);if(!v.length)continue;
+        gc+=v[0];
+        if(v.length<4)continue;
+        src+=v[1];ol+=v[2];oc+=v[3];
+        if(i===line-1&&gc<=column-1)best={file:(map.sourceRoot||'')+map.sources[src],line:ol+1,column:oc+1};
+      }
+    }
+    return best;
+  }
+  // First stack frame in the app's own code — not dependencies, Vite's client or these scripts
+  function appFrame(stack){
+    var re=/(https?:\\/\\/[^\\s()]+?):(\\d+):(\\d+)/g,m;
+    while((m=re.exec(stack||''))){
+      if(m[1].indexOf(location.origin)!==0)continue;
+      if(/\\/(node_modules|@vite|@react-refresh|@id)\\/|glovix-[a-z]+\\.js/.test(m[1]))continue;
+      return {url:m[1],line:+m[2],column:+m[3]};
+    }
+    return null;
+  }
+  function report(kind,message,frame){
+    var key=kind+message+(frame?frame.url+frame.line:''),now=Date.now();
+    if(key===lastKey&&now-lastAt<1000)return;
+    lastKey=key;lastAt=now;
+    if(!frame){post({kind:kind,message:message});return;}
+    var fallback={kind:kind,message:message,file:frame.url,line:frame.line,column:frame.column};
+    loadMap(frame.url).then(function(map){
+      var pos=map&&mapPosition(map,frame.line,frame.column);
+      post(pos?{kind:kind,message:message,file:pos.file,line:pos.line,column:pos.column}:fallback);
+    },function(){post(fallback);});
+  }
+  function describe(value){
+    if(value instanceof Error)return value.name+': '+value.message;
+    if(typeof value==='string')return value;
+    try{var json=JSON.stringify(value);return json&&json.length>500?json.slice(0,500)+'…':String(json);}catch(e){return String(value);}
+  }
+  window.addEventListener('error',function(e){
+    if(!e.error&&!e.message)return;
+    var frame=appFrame(e.error&&e.error.stack);
+    if(!frame&&e.filename)frame={url:e.filename,line:e.lineno,column:e.colno};
+    report('error',e.error?describe(e.error):e.message,frame);
+  });
+  window.addEventListener('unhandledrejection',function(e){
+    var reason=e.reason;
+    report('rejection',describe(reason),appFrame(reason&&reason.stack));
+  });
+  var origError=console.error;
+  console.error=function(){
+    var args=Array.prototype.slice.call(arguments),stack=null;
+    for(var i=0;i<args.length;i++){if(args[i] instanceof Error){stack=args[i].stack;break;}}
+    try{report('console',args.map(describe).join(' '),appFrame(stack||new Error().stack));}catch(e){}
+    return origError.apply(console,arguments);
+  };
+})();`;
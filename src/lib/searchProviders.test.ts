@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const settings = vi.hoisted(() => ({ searchProvider: 'fixture', searchApiKey: '', searchBaseUrl: '' }));
+
+vi.mock('../store', () => ({ useStore: { getState: () => settings } }));
+vi.mock('./webcontainer', () => ({}));
+
+import { handleSearchWeb, handleExtractPage } from './tools';
+import { parseSearchResponse, formatSearchCitations } from './webSearch';
+
+async function search(query: string, includeDomains?: string[]) {
+    const response = parseSearchResponse(await handleSearchWeb({ query, includeDomains }));
+    expect(response).not.toBeNull();
+    return response!;
+}
+
+describe('offline fixture provider', () => {
+    it('returns structured results for the search block and citations for the model', async () => {
+        const response = await search('react hooks with typescript');
+
+        expect(response).toMatchObject({ type: 'web-search', query: 'react hooks with typescript' });
+        expect(response.results.map(r => r.url)).toEqual([
+            'https://react.dev/learn',
+            'https://www.typescriptlang.org/docs/handbook/2/everyday-types.html',
+        ]);
+        expect(formatSearchCitations(response)).toContain('[1] Quick Start – React — https://react.dev/learn');
+    });
+
+    it('matches keywords as whole words', async () => {
+        const response = await search('prototype charts and results');
+        expect(response.results).toEqual([{
+            title: 'Offline result for "prototype charts and results"',
+            url: 'https://example.com/search/prototype-charts-and-results',
+            content: 'Offline fixture result for "prototype charts and results". Web search is running without network access.',
+            score: 0.1,
+        }]);
+    });
+
+    it('keeps only results from the included domains', async () => {
+        const response = await search('vite build with react', ['vite.dev']);
+        expect(response.results.map(r => r.url)).toEqual(['https://vite.dev/guide/']);
+    });
+
+    it('extracts known pages and a stand-in for any other URL', async () => {
+        expect(await handleExtractPage({ url: 'https://vite.dev/guide/' }))
+            .toMatch(/^\[SYSTEM\] Extracted content from https:\/\/vite\.dev\/guide\/\n\n## Getting Started \| Vite\n\n# Getting Started/);
+        expect(await handleExtractPage({ url: 'https://example.org/post' }))
+            .toContain('## Offline page\n\nOffline fixture content for https://example.org/post.');
+    });
+});
@@ -0,0 +1,355 @@
+// Web search providers — the backend behind the searchWeb and extractPage tools, picked in
+// Settings → Web Search. Every provider returns the same shapes, so results render and cite
+// the same way whichever one answered.
+
+import { useStore } from '../store';
+import { SearchResult, SearchImage } from './webSearch';
+
+export type SearchProviderId = 'tavily' | 'searxng' | 'brave' | 'custom' | 'fixture';
+
+export interface SearchProviderDefinition {
+    id: SearchProviderId;
+    name: string;
+    description: string;
+    defaultBaseUrl: string;
+    // Whether the base URL can be edited in Settings
+    configurable: boolean;
+    requiresApiKey: boolean;
+}
+
+export const SEARCH_PROVIDERS: Record<SearchProviderId, SearchProviderDefinition> = {
+    tavily: {
+        id: 'tavily',
+        name: 'Tavily',
+        description: 'Search with summaries and images, plus page extraction. Uses VITE_TAVILY_API_KEY when no key is set here.',
+        defaultBaseUrl: 'https://api.tavily.com',
+        configurable: false,
+        requiresApiKey: true,
+    },
+    searxng: {
+        id: 'searxng',
+        name: 'SearXNG',
+        description: 'A SearXNG instance with the JSON format enabled (search.formats: [json]) and CORS allowed for this origin.',
+        defaultBaseUrl: 'http://localhost:8888',
+        configurable: true,
+        requiresApiKey: false,
+    },
+    brave: {
+        id: 'brave',
+        name: 'Brave',
+        description: 'Brave Search API. The API does not allow browser requests, so point the base URL at a proxy that forwards to api.search.brave.com.',
+        defaultBaseUrl: 'https://api.search.brave.com/res/v1',
+        configurable: true,
+        requiresApiKey: true,
+    },
+    custom: {
+        id: 'custom',
+        name: 'Self-hosted',
+        description: 'Your own endpoint: POST {base}/search and {base}/extract with Tavily-style JSON. The key, if any, is sent as a Bearer token.',
+        defaultBaseUrl: 'http://localhost:8787',
+        configurable: true,
+        requiresApiKey: false,
+    },
+    fixture: {
+        id: 'fixture',
+        name: 'Offline fixtures',
+        description: 'Deterministic built-in results with no network access — for tests, demos and air-gapped machines.',
+        defaultBaseUrl: '',
+        configurable: false,
+        requiresApiKey: false,
+    },
+};
+
+export interface SearchOptions {
+    includeDomains?: string[];
+    maxResults: number;
+}
+
+export interface ProviderSearchResult {
+    answer?: string;
+    results: SearchResult[];
+    images?: SearchImage[];
+}
+
+export interface ExtractedPage {
+    url: string;
+    title?: string;
+    content: string;
+}
+
+export interface SearchBackend {
+    id: SearchProviderId;
+    name: string;
+    search: (query: string, options: SearchOptions) => Promise<ProviderSearchResult>;
+    extract: (url: string) => Promise<ExtractedPage>;
+}
+
+export function isSearchProviderId(value: string): value is SearchProviderId {
+    return value in SEARCH_PROVIDERS;
+}
+
+const trimBase = (url: string) => url.trim().replace(/\/+$/, '');
+
+const stripTags = (html: string) => html.replace(/<[^>]+>/g, '').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
+
+// "react hooks" + ["react.dev"] → "react hooks site:react.dev" for engines without a domain filter
+const withSiteFilter = (query: string, domains?: string[]) =>
+    domains && domains.length > 0 ? `${query} ${domains.map(d => `site:${d}`).join(' OR ')}` : query;
+
+async function fetchJson(url: string, init: RequestInit, label: string): Promise<any> {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+        throw new Error(`${label} API Error: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+}
+
+// Providers without an extract API read the page directly — works only for sites that allow CORS
+async function fetchPageText(url: string): Promise<ExtractedPage> {
+    let html: string;
+    try {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+        html = await response.text();
+    } catch (e: any) {
+        throw new Error(`Could not fetch ${url} from the browser (${e.message}). The site may block cross-origin requests — Tavily or a self-hosted provider can extract it instead.`);
+    }
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    doc.querySelectorAll('script, style, noscript, svg, nav, footer').forEach(el => el.remove());
+    const content = (doc.body?.textContent || '').replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n\n').trim();
+    return { url, title: doc.title || undefined, content };
+}
+
+// ============================================================
+// PROVIDERS
+// ============================================================
+
+function tavilyBackend(apiKey: string): SearchBackend {
+    const base = SEARCH_PROVIDERS.tavily.defaultBaseUrl;
+    return {
+        id: 'tavily',
+        name: 'Tavily',
+        search: async (query, { includeDomains, maxResults }) => {
+            const data = await fetchJson(`${base}/search`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    api_key: apiKey,
+                    query,
+                    include_answer: 'basic',
+                    search_depth: 'advanced',
+                    max_results: maxResults,
+                    include_images: true,
+                    include_image_descriptions: true,
+                    ...(includeDomains?.length ? { include_domains: includeDomains } : {}),
+                }),
+            }, 'Tavily');
+            return {
+                answer: data.answer || undefined,
+                results: (data.results || []).map((r: any) => ({ title: r.title || r.url, url: r.url, content: r.content || '', score: r.score })),
+                images: (data.images || []).map((img: any) => (typeof img === 'string' ? { url: img } : { url: img.url, description: img.description })),
+            };
+        },
+        extract: async (url) => {
+            const data = await fetchJson(`${base}/extract`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ api_key: apiKey, urls: [url] }),
+            }, 'Tavily Extract');
+            const page = data.results?.[0];
+            if (!page) throw new Error(`No content could be extracted from ${url}`);
+            return { url, title: page.title, content: page.raw_content || page.content || '' };
+        },
+    };
+}
+
+function searxngBackend(baseUrl: string): SearchBackend {
+    return {
+        id: 'searxng',
+        name: 'SearXNG',
+        search: async (query, { includeDomains, maxResults }) => {
+            const params = new URLSearchParams({ q: withSiteFilter(query, includeDomains), format: 'json' });
+            const data = await fetchJson(`${baseUrl}/search?${params}`, {}, 'SearXNG');
+            return {
+                answer: data.answers?.[0] ? String(data.answers[0].answer ?? data.answers[0]) : undefined,
+                results: (data.results || []).slice(0, maxResults).map((r: any) => ({
+                    title: r.title || r.url,
+                    url: r.url,
+                    content: r.content || '',
+                    score: r.score,
+                })),
+            };
+        },
+        extract: fetchPageText,
+    };
+}
+
+function braveBackend(baseUrl: string, apiKey: string): SearchBackend {
+    return {
+        id: 'brave',
+        name: 'Brave',
+        search: async (query, { includeDomains, maxResults }) => {
+            const params = new URLSearchParams({ q: withSiteFilter(query, includeDomains), count: String(maxResults) });
+            const data = await fetchJson(`${baseUrl}/web/search?${params}`, {
+                headers: { 'Accept': 'application/json', 'X-Subscription-Token': apiKey },
+            }, 'Brave');
+            return {
+                results: (data.web?.results || []).map((r: any) => ({
+                    title: stripTags(r.title || r.url),
+                    url: r.url,
+                    content: stripTags([r.description, ...(r.extra_snippets || [])].filter(Boolean).join(' ')),
+                })),
+            };
+        },
+        extract: fetchPageText,
+    };
+}
+
+// Accepts Tavily-style responses ({ answer, results, images }) so a Tavily-compatible proxy works as is
+function customBackend(baseUrl: string, apiKey: string): SearchBackend {
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+    };
+    return {
+        id: 'custom',
+        name: 'Self-hosted',
+        search: async (query, { includeDomains, maxResults }) => {
+            const data = await fetchJson(`${baseUrl}/search`, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({ query, include_domains: includeDomains || [], max_results: maxResults }),
+            }, 'Search');
+            return {
+                answer: data.answer || undefined,
+                results: (data.results || []).map((r: any) => ({ title: r.title || r.url, url: r.url, content: r.content || r.snippet || '', score: r.score })),
+                images: (data.images || []).map((img: any) => (typeof img === 'string' ? { url: img } : { url: img.url, description: img.description })),
+            };
+        },
+        extract: async (url) => {
+            const data = await fetchJson(`${baseUrl}/extract`, { method: 'POST', headers, body: JSON.stringify({ url }) }, 'Extract');
+            const page = data.results?.[0] ?? data;
+            return { url, title: page.title, content: page.raw_content || page.content || '' };
+        },
+    };
+}
+
+// ── Offline fixtures ──
+
+interface FixturePage {
+    title: string;
+    url: string;
+    keywords: string[];
+    snippet: string;
+    content: string;
+}
+
+const FIXTURE_PAGES: FixturePage[] = [
+    {
+        title: 'Quick Start – React',
+        url: 'https://react.dev/learn',
+        keywords: ['react', 'component', 'hook', 'jsx', 'usestate', 'useeffect'],
+        snippet: 'React apps are made out of components. Use useState to add state and useEffect to synchronize with external systems.',
+        content: '# Quick Start\n\nReact apps are made out of components. A component is a piece of the UI that has its own logic and appearance.\n\n## Using Hooks\n\nFunctions starting with `use` are called Hooks. `useState` adds a state variable to a component; `useEffect` synchronizes a component with an external system.',
+    },
+    {
+        title: 'Getting Started | Vite',
+        url: 'https://vite.dev/guide/',
+        keywords: ['vite', 'dev server', 'build', 'bundler', 'hmr', 'config'],
+        snippet: 'Vite is a build tool that provides a fast dev server with Hot Module Replacement and an optimized production build.',
+        content: '# Getting Started\n\nVite is a build tool that aims to provide a faster and leaner development experience.\n\n- A dev server with rich features like Hot Module Replacement (HMR)\n- A build command that bundles your code with Rollup\n\nConfigure it in `vite.config.ts` with `defineConfig`.',
+    },
+    {
+        title: 'Installation - Tailwind CSS',
+        url: 'https://tailwindcss.com/docs/installation',
+        keywords: ['tailwind', 'css', 'utility', 'style', 'postcss'],
+        snippet: 'Tailwind CSS works by scanning your templates for class names, generating the styles and writing them to a static CSS file.',
+        content: '# Installation\n\nTailwind CSS works by scanning all of your HTML files, JavaScript components and templates for class names, generating the corresponding styles and writing them to a static CSS file.\n\nInstall `tailwindcss`, add the plugin to your build and import Tailwind in your CSS.',
+    },
+    {
+        title: 'TypeScript: Handbook - Everyday Types',
+        url: 'https://www.typescriptlang.org/docs/handbook/2/everyday-types.html',
+        keywords: ['typescript', 'type', 'interface', 'generic', 'ts'],
+        snippet: 'The primitives string, number and boolean, arrays, any, type annotations, object types, union types, type aliases and interfaces.',
+        content: '# Everyday Types\n\nThe most common types are the primitives `string`, `number` and `boolean`. Object types describe values with properties; union types combine several types. Type aliases and interfaces give a type a name.',
+    },
+    {
+        title: 'npm Docs – package.json',
+        url: 'https://docs.npmjs.com/cli/configuring-npm/package-json',
+        keywords: ['npm', 'package', 'dependency', 'install', 'pnpm', 'version'],
+        snippet: 'Everything you need to know about package.json: name, version, scripts, dependencies and devDependencies.',
+        content: '# package.json\n\nThe `dependencies` field maps package names to version ranges. `devDependencies` holds packages only needed for development and builds. `scripts` defines commands run with `npm run`.',
+    },
+];
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'query';
+
+// Whole words only (a plural counts) — "ts" must not match "charts", nor "type" "prototype"
+const mentions = (query: string, keyword: string) =>
+    new RegExp(`\\b${keyword}s?\\b`, 'i').test(query);
+
+const fixtureBackend: SearchBackend = {
+    id: 'fixture',
+    name: 'Offline fixtures',
+    search: async (query, { includeDomains, maxResults }) => {
+        const scored = FIXTURE_PAGES
+            .filter(page => !includeDomains?.length || includeDomains.some(d => new URL(page.url).hostname.endsWith(d)))
+            .map(page => ({ page, hits: page.keywords.filter(k => mentions(query, k)).length }))
+            .filter(({ hits }) => hits > 0)
+            .sort((a, b) => b.hits - a.hits);
+
+        const results: SearchResult[] = scored.slice(0, maxResults).map(({ page, hits }) => ({
+            title: page.title,
+            url: page.url,
+            content: page.snippet,
+            score: Math.min(1, 0.5 + hits / 10),
+        }));
+        // Unknown topics still get one stable result, so the tools can be exercised with any query
+        if (results.length === 0) {
+            results.push({
+                title: `Offline result for "${query}"`,
+                url: `https://example.com/search/${slugify(query)}`,
+                content: `Offline fixture result for "${query}". Web search is running without network access.`,
+                score: 0.1,
+            });
+        }
+        return { answer: `Offline fixture results for "${query}".`, results };
+    },
+    extract: async (url) => {
+        const page = FIXTURE_PAGES.find(p => p.url === url);
+        return page
+            ? { url, title: page.title, content: page.content }
+            : { url, title: 'Offline page', content: `Offline fixture content for ${url}. Web search is running without network access.` };
+    },
+};
+
+// ============================================================
+// RESOLUTION
+// ============================================================
+
+/**
+ * Backend for the next search from the Settings values. Throws when a required key or URL is
+ * missing, with a message that says where to set it.
+ */
+export function resolveSearchBackend(): SearchBackend {
+    const { searchProvider, searchApiKey, searchBaseUrl } = useStore.getState();
+    const id: SearchProviderId = isSearchProviderId(searchProvider) ? searchProvider : 'tavily';
+    const definition = SEARCH_PROVIDERS[id];
+    const baseUrl = trimBase(searchBaseUrl || definition.defaultBaseUrl);
+
+    const apiKey = id === 'tavily' ? searchApiKey || import.meta.env.VITE_TAVILY_API_KEY || '' : searchApiKey;
+    if (definition.requiresApiKey && !apiKey) {
+        throw new Error(`Missing ${definition.name} API key. Add it in Settings → Web Search${id === 'tavily' ? ' or set VITE_TAVILY_API_KEY' : ''}.`);
+    }
+    if (definition.configurable && !baseUrl) {
+        throw new Error(`Missing ${definition.name} base URL. Set it in Settings → Web Search.`);
+    }
+
+    switch (id) {
+        case 'tavily': return tavilyBackend(apiKey);
+        case 'searxng': return searxngBackend(baseUrl);
+        case 'brave': return braveBackend(baseUrl, apiKey);
+        case 'custom': return customBackend(baseUrl, apiKey);
+        case 'fixture': return fixtureBackend;
+    }
+}
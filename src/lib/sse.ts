@@ -0,0 +1,37 @@
+// Server-sent events parsing shared by the chat stream readers. Kept free of store imports so a
+// recorded stream can be replayed through an adapter outside the app (see anthropic.test.ts).
+
+import type { StreamAdapter } from './ai';
+
+/**
+ * Split raw SSE text into `data:` payloads and feed them to an adapter.
+ * Returns the trailing partial line so callers can keep buffering.
+ * Also handy for replaying a recorded stream into an adapter.
+ */
+export function feedSSE(text: string, adapter: StreamAdapter): string {
+    const lines = text.split('\n');
+    const rest = lines.pop() || '';
+
+    for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed === 'data: [DONE]') continue;
+        // `event:` lines are redundant — every payload carries its own type
+        if (!trimmed.startsWith('data:')) continue;
+
+        const data = trimmed.slice(5).trim();
+        let parsed: any;
+        try {
+            parsed = JSON.parse(data);
+        } catch {
+            // JSON parse error on a chunk — skip it
+            if (data) {
+                console.warn('[AI] Parse error on chunk:', data.substring(0, 100));
+            }
+            continue;
+        }
+
+        adapter.handleEvent(parsed);
+    }
+
+    return rest;
+}
@@ -0,0 +1,277 @@
+// IndexedDB storage for chats, messages and projects — localStorage's ~5MB quota runs out
+// quickly once projects carry images and generated files. One record per chat in each store;
+// project files get one record per file so a save only writes what changed.
+
+import type { FileMap } from './files';
+import { requestResult, transactionDone } from './idb';
+
+export const CHATS_STORE = 'chats';
+export const MESSAGES_STORE = 'messages';
+export const PROJECTS_STORE = 'projects';
+export const PROJECT_FILES_STORE = 'project_files';
+export const TEMPLATES_STORE = 'templates';
+
+type StoreName = typeof CHATS_STORE | typeof MESSAGES_STORE | typeof PROJECTS_STORE | typeof PROJECT_FILES_STORE | typeof TEMPLATES_STORE;
+
+const DATA_DB_NAME = 'glovix_data';
+// v2: project files moved out of the project record into PROJECT_FILES_STORE
+// v3: user-defined project templates
+const DATA_DB_VERSION = 3;
+
+export interface ProjectFileRecord {
+    chatId: string;
+    path: string;
+    contents: string;
+    // Binary assets: base64 contents plus their MIME type (see files.ts)
+    encoding?: 'base64';
+    mimeType?: string;
+}
+
+// Keys used by the localStorage-only versions, migrated on first open
+const LEGACY_KEYS = { chats: 'glovix_chats', messages: 'glovix_messages', projects: 'glovix_projects' };
+
+export interface StorageUsage {
+    usage: number;
+    quota: number;
+    persisted: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// ── IndexedDB helpers ──────────────────────────────────────
+function openDataDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const req = indexedDB.open(DATA_DB_NAME, DATA_DB_VERSION);
+        req.onupgradeneeded = (event) => {
+            const db = req.result;
+            if (event.oldVersion < 1) {
+                db.createObjectStore(CHATS_STORE, { keyPath: 'id' }).createIndex('user_id', 'user_id');
+                db.createObjectStore(MESSAGES_STORE, { keyPath: 'chatId' });
+                db.createObjectStore(PROJECTS_STORE, { keyPath: 'chat_id' });
+            }
+            if (event.oldVersion < 2) {
+                db.createObjectStore(PROJECT_FILES_STORE, { keyPath: ['chatId', 'path'] }).createIndex('chatId', 'chatId');
+                if (event.oldVersion >= 1) splitProjectFiles(req.transaction!);
+            }
+            if (event.oldVersion < 3) {
+                db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+            }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+// The connection stays open for the page's lifetime; the migration runs before first use
+function getDB(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = openDataDB().then(async db => {
+            await migrateFromLocalStorage(db);
+            return db;
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+// v1 → v2: move each project's files map into per-file records
+function splitProjectFiles(tx: IDBTransaction) {
+    const projects = tx.objectStore(PROJECTS_STORE);
+    const files = tx.objectStore(PROJECT_FILES_STORE);
+    projects.openCursor().onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        const { files: fileMap, ...meta } = cursor.value;
+        for (const [path, entry] of Object.entries(fileMap || {}) as [string, any][]) {
+            files.put({ chatId: meta.chat_id, path, contents: entry?.file?.contents ?? '' });
+        }
+        cursor.update(meta);
+        cursor.continue();
+    };
+}
+
+const isQuotaError = (e: unknown) => e instanceof DOMException && e.name === 'QuotaExceededError';
+
+// ============================================================
+// MIGRATION
+// ============================================================
+
+function readLegacy(key: string): any {
+    try {
+        return JSON.parse(localStorage.getItem(key) || 'null');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * One-time copy of the old localStorage blobs into per-chat records. The legacy keys are
+ * removed only after the transaction commits, so a failed migration is retried next load.
+ */
+async function migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    const chats = readLegacy(LEGACY_KEYS.chats);
+    const messages = readLegacy(LEGACY_KEYS.messages);
+    const projects = readLegacy(LEGACY_KEYS.projects);
+    if (!chats && !messages && !projects) return;
+
+    const tx = db.transaction([CHATS_STORE, MESSAGES_STORE, PROJECTS_STORE, PROJECT_FILES_STORE], 'readwrite');
+    const chatStore = tx.objectStore(CHATS_STORE);
+    const messageStore = tx.objectStore(MESSAGES_STORE);
+    const projectStore = tx.objectStore(PROJECTS_STORE);
+    const fileStore = tx.objectStore(PROJECT_FILES_STORE);
+
+    if (Array.isArray(chats)) {
+        chats.forEach(chat => chat?.id && chatStore.put(chat));
+    }
+    if (messages && typeof messages === 'object') {
+        for (const [chatId, list] of Object.entries(messages)) {
+            if (Array.isArray(list)) messageStore.put({ chatId, messages: list });
+        }
+    }
+    if (projects && typeof projects === 'object') {
+        for (const [chatId, project] of Object.entries(projects as Record<string, any>)) {
+            if (!project?.files) continue;
+            const { files, ...meta } = project;
+            projectStore.put({ ...meta, chat_id: chatId });
+            for (const [path, entry] of Object.entries(files as Record<string, any>)) {
+                fileStore.put({ chatId, path, contents: entry?.file?.contents ?? '' });
+            }
+        }
+    }
+
+    try {
+        await transactionDone(tx);
+    } catch (e) {
+        console.error('[Storage] Migration from localStorage failed:', e);
+        return;
+    }
+
+    Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+    console.log(`[Storage] Migrated ${Array.isArray(chats) ? chats.length : 0} chats from localStorage to IndexedDB`);
+}
+
+// ============================================================
+// RECORDS
+// ============================================================
+
+export async function getRecord<T>(store: StoreName, key: string): Promise<T | null> {
+    const db = await getDB();
+    const tx = db.transaction(store, 'readonly');
+    const result = await requestResult(tx.objectStore(store).get(key) as IDBRequest<T | undefined>);
+    return result ?? null;
+}
+
+export async function getAllRecords<T>(store: StoreName): Promise<T[]> {
+    const db = await getDB();
+    const tx = db.transaction(store, 'readonly');
+    return requestResult(tx.objectStore(store).getAll() as IDBRequest<T[]>);
+}
+
+export async function getRecordsByIndex<T>(store: StoreName, index: string, value: string): Promise<T[]> {
+    const db = await getDB();
+    const tx = db.transaction(store, 'readonly');
+    return requestResult(tx.objectStore(store).index(index).getAll(value) as IDBRequest<T[]>);
+}
+
+// Quota errors become a readable message; everything else is rethrown as-is
+async function commitWrite(tx: IDBTransaction, store: StoreName): Promise<void> {
+    try {
+        await transactionDone(tx);
+    } catch (e) {
+        if (isQuotaError(e)) {
+            const usage = await getStorageUsage();
+            console.error(`[Storage] Quota exceeded writing to "${store}"${usage ? ` (${formatBytes(usage.usage)} of ${formatBytes(usage.quota)} used)` : ''}`);
+            throw new Error('Browser storage is full. Delete old chats to free up space.');
+        }
+        throw e;
+    }
+}
+
+export async function putRecord<T>(store: StoreName, value: T): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).put(value);
+    await commitWrite(tx, store);
+}
+
+/**
+ * Write project metadata together with changed files in one transaction.
+ * `replace` drops every stored file first (full save); otherwise only `deletes` are removed.
+ */
+export async function writeProjectRecords(
+    meta: { chat_id: string },
+    upserts: FileMap,
+    deletes: string[],
+    replace = false
+): Promise<void> {
+    const db = await getDB();
+    const chatId = meta.chat_id;
+    const tx = db.transaction([PROJECTS_STORE, PROJECT_FILES_STORE], 'readwrite');
+    const files = tx.objectStore(PROJECT_FILES_STORE);
+
+    tx.objectStore(PROJECTS_STORE).put(meta);
+    if (replace) {
+        files.delete(chatFileRange(chatId));
+    } else {
+        deletes.forEach(path => files.delete([chatId, path]));
+    }
+    for (const [path, entry] of Object.entries(upserts)) {
+        files.put({ chatId, path, ...entry.file });
+    }
+    await commitWrite(tx, PROJECT_FILES_STORE);
+}
+
+// Every [chatId, path] key of one chat
+function chatFileRange(chatId: string): IDBKeyRange {
+    return IDBKeyRange.bound([chatId, ''], [chatId, '\uffff']);
+}
+
+export async function deleteRecord(store: StoreName, key: string): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).delete(key);
+    await transactionDone(tx);
+}
+
+// Removes the chat's records from every store in one transaction
+export async function deleteChatRecords(chatId: string): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction([CHATS_STORE, MESSAGES_STORE, PROJECTS_STORE, PROJECT_FILES_STORE], 'readwrite');
+    tx.objectStore(CHATS_STORE).delete(chatId);
+    tx.objectStore(MESSAGES_STORE).delete(chatId);
+    tx.objectStore(PROJECTS_STORE).delete(chatId);
+    tx.objectStore(PROJECT_FILES_STORE).delete(chatFileRange(chatId));
+    await transactionDone(tx);
+}
+
+// ============================================================
+// QUOTA
+// ============================================================
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+    if (!navigator.storage?.estimate) return null;
+    try {
+        const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+        const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+        return { usage, quota, persisted };
+    } catch {
+        return null;
+    }
+}
+
+// Ask the browser not to evict our data under storage pressure
+export async function requestPersistentStorage(): Promise<boolean> {
+    if (!navigator.storage?.persist) return false;
+    try {
+        return await navigator.storage.persist();
+    } catch {
+        return false;
+    }
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
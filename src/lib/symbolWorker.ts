@@ -0,0 +1,136 @@
+// Symbol worker — runs a TypeScript language service over the project's source files off the main
+// thread. symbols.ts sends only the files that changed since the last request, so the service keeps
+// its program between calls and answers findSymbol / findReferences / getOutline quickly.
+
+import * as ts from 'typescript';
+import type { SymbolRequest, SymbolResponse, SymbolLocation, OutlineItem } from './symbols';
+
+const files = new Map<string, { text: string; version: number }>();
+
+// Project paths are relative ("src/App.tsx"); the service works with absolute ones
+const toFileName = (path: string) => `/${path}`;
+const toPath = (fileName: string) => fileName.replace(/^\//, '');
+
+const compilerOptions: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ESNext,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.ReactJSX,
+    allowJs: true,
+    allowImportingTsExtensions: true,
+    resolveJsonModule: true,
+    noEmit: true,
+    // No lib or @types here — navigation only needs the project's own declarations
+    noLib: true,
+    types: [],
+};
+
+const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => compilerOptions,
+    getScriptFileNames: () => [...files.keys()].map(toFileName),
+    getScriptVersion: (fileName) => String(files.get(toPath(fileName))?.version ?? 0),
+    getScriptSnapshot: (fileName) => {
+        const file = files.get(toPath(fileName));
+        return file ? ts.ScriptSnapshot.fromString(file.text) : undefined;
+    },
+    getCurrentDirectory: () => '/',
+    getDefaultLibFileName: () => '/lib.d.ts',
+    fileExists: (fileName) => files.has(toPath(fileName)),
+    readFile: (fileName) => files.get(toPath(fileName))?.text,
+    directoryExists: (dir) => dir === '/' || [...files.keys()].some(p => toFileName(p).startsWith(`${dir.replace(/\/$/, '')}/`)),
+    getDirectories: () => [],
+};
+
+const service = ts.createLanguageService(host, ts.createDocumentRegistry());
+
+function lineText(path: string, line: number): string {
+    return (files.get(path)?.text.split('\n')[line] || '').trim().slice(0, 160);
+}
+
+function toLocation(fileName: string, start: number, extra: Partial<SymbolLocation> = {}): SymbolLocation {
+    const path = toPath(fileName);
+    const source = service.getProgram()?.getSourceFile(fileName);
+    const { line, character } = source ? source.getLineAndCharacterOfPosition(start) : { line: 0, character: 0 };
+    return { path, line: line + 1, column: character + 1, text: lineText(path, line), ...extra };
+}
+
+function findSymbol(query: string, kind?: string): SymbolLocation[] {
+    return service.getNavigateToItems(query, 200, undefined, true)
+        .filter(item => !kind || item.kind === kind)
+        // Exact names first, then prefix matches, then the rest
+        .sort((a, b) => Number(b.name === query) - Number(a.name === query) || Number(b.name.startsWith(query)) - Number(a.name.startsWith(query)))
+        .slice(0, 50)
+        .map(item => toLocation(item.fileName, item.textSpan.start, { name: item.name, kind: item.kind, container: item.containerName || undefined }));
+}
+
+// Where the symbol is: the occurrence in `path` (on `line` when given), else its first declaration
+function resolvePosition(symbol: string, path?: string, line?: number): { fileName: string; position: number } | null {
+    if (path) {
+        const file = files.get(path);
+        if (!file) return null;
+        const lines = file.text.split('\n');
+        const escaped = symbol.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const pattern = new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`);
+        const candidates = line ? [line - 1] : lines.map((_, i) => i);
+        for (const i of candidates) {
+            const match = pattern.exec(lines[i] || '');
+            if (match) {
+                const offset = lines.slice(0, i).reduce((sum, l) => sum + l.length + 1, 0);
+                return { fileName: toFileName(path), position: offset + match.index };
+            }
+        }
+        return null;
+    }
+    const item = service.getNavigateToItems(symbol, 50, undefined, true).find(i => i.name === symbol);
+    return item ? { fileName: item.fileName, position: item.textSpan.start } : null;
+}
+
+function findReferences(symbol: string, path?: string, line?: number): SymbolLocation[] | null {
+    const target = resolvePosition(symbol, path, line);
+    if (!target) return null;
+    const referenced = service.findReferences(target.fileName, target.position) || [];
+    return referenced.flatMap(group => group.references.map(ref =>
+        toLocation(ref.fileName, ref.textSpan.start, { isDefinition: ref.isDefinition })
+    ));
+}
+
+function getOutline(path: string): OutlineItem[] | null {
+    if (!files.has(path)) return null;
+    const items: OutlineItem[] = [];
+    const source = service.getProgram()?.getSourceFile(toFileName(path));
+    const visit = (node: ts.NavigationTree, depth: number) => {
+        const span = node.spans[0];
+        if (source && span && node.kind !== ts.ScriptElementKind.alias) {
+            items.push({
+                name: node.text,
+                kind: node.kind,
+                line: source.getLineAndCharacterOfPosition(span.start).line + 1,
+                endLine: source.getLineAndCharacterOfPosition(span.start + span.length).line + 1,
+                depth,
+            });
+        }
+        if (depth < 3) node.childItems?.forEach(child => visit(child, depth + 1));
+    };
+    // The root is the file itself
+    service.getNavigationTree(toFileName(path)).childItems?.forEach(child => visit(child, 0));
+    return items;
+}
+
+self.onmessage = (e: MessageEvent<SymbolRequest>) => {
+    const { id, changed, removed } = e.data;
+    for (const [path, text] of Object.entries(changed)) {
+        files.set(path, { text, version: (files.get(path)?.version ?? 0) + 1 });
+    }
+    removed.forEach(path => files.delete(path));
+
+    let response: SymbolResponse;
+    try {
+        const { op } = e.data;
+        if (op.type === 'findSymbol') response = { id, locations: findSymbol(op.query, op.kind) };
+        else if (op.type === 'findReferences') response = { id, locations: findReferences(op.symbol, op.path, op.line) };
+        else response = { id, outline: getOutline(op.path) };
+    } catch (err: any) {
+        response = { id, error: err?.message || String(err) };
+    }
+    self.postMessage(response);
+};
@@ -0,0 +1,156 @@
+// Symbol navigation for the agent — findSymbol, findReferences and getOutline are answered by a
+// TypeScript language service in symbolWorker.ts, so the agent can locate a function without
+// reading whole files. Each request carries only the source files changed since the previous one.
+
+import { useStore } from '../store';
+import { FileMap, isBinaryEntry } from './files';
+
+export interface SymbolLocation {
+    path: string;
+    // 1-based
+    line: number;
+    column: number;
+    // The trimmed source line
+    text: string;
+    name?: string;
+    kind?: string;
+    container?: string;
+    isDefinition?: boolean;
+}
+
+export interface OutlineItem {
+    name: string;
+    kind: string;
+    line: number;
+    endLine: number;
+    depth: number;
+}
+
+export type SymbolOp =
+    | { type: 'findSymbol'; query: string; kind?: string }
+    | { type: 'findReferences'; symbol: string; path?: string; line?: number }
+    | { type: 'getOutline'; path: string };
+
+export interface SymbolRequest {
+    id: number;
+    op: SymbolOp;
+    // Source files added or edited since the previous request, and paths deleted since then
+    changed: Record<string, string>;
+    removed: string[];
+}
+
+export interface SymbolResponse {
+    id: number;
+    locations?: SymbolLocation[] | null;
+    outline?: OutlineItem[] | null;
+    error?: string;
+}
+
+const SOURCE_FILE = /\.(tsx?|jsx?|mts|cts|mjs|cjs)$/i;
+const REQUEST_TIMEOUT_MS = 30000;
+const MAX_REFERENCES = 100;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, (response: SymbolResponse) => void>();
+// What the worker currently holds — contents by path, as last sent
+const synced = new Map<string, string>();
+
+function getWorker(): Worker {
+    if (!worker) {
+        worker = new Worker(new URL('./symbolWorker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (e: MessageEvent<SymbolResponse>) => {
+            pending.get(e.data.id)?.(e.data);
+            pending.delete(e.data.id);
+        };
+        worker.onerror = (e) => {
+            console.error('[Symbols] Worker error:', e.message);
+            // Start over with a fresh worker and a full sync on the next request
+            worker?.terminate();
+            worker = null;
+            synced.clear();
+            pending.forEach(resolve => resolve({ id: -1, error: e.message || 'Symbol worker crashed' }));
+            pending.clear();
+        };
+    }
+    return worker;
+}
+
+function collectChanges(files: FileMap): Pick<SymbolRequest, 'changed' | 'removed'> {
+    const changed: Record<string, string> = {};
+    const current = new Set<string>();
+    for (const [path, entry] of Object.entries(files)) {
+        if (!SOURCE_FILE.test(path) || isBinaryEntry(entry)) continue;
+        current.add(path);
+        if (synced.get(path) !== entry.file.contents) {
+            changed[path] = entry.file.contents;
+            synced.set(path, entry.file.contents);
+        }
+    }
+    const removed = [...synced.keys()].filter(path => !current.has(path));
+    removed.forEach(path => synced.delete(path));
+    return { changed, removed };
+}
+
+async function request(op: SymbolOp): Promise<SymbolResponse> {
+    const target = getWorker();
+    const id = ++nextRequestId;
+    const message: SymbolRequest = { id, op, ...collectChanges(useStore.getState().files) };
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            pending.delete(id);
+            reject(new Error(`Symbol lookup timed out after ${REQUEST_TIMEOUT_MS / 1000}s`));
+        }, REQUEST_TIMEOUT_MS);
+        pending.set(id, (response) => {
+            clearTimeout(timer);
+            if (response.error) reject(new Error(response.error));
+            else resolve(response);
+        });
+        target.postMessage(message);
+    });
+}
+
+const formatLocation = (loc: SymbolLocation) => `${loc.path}:${loc.line}:${loc.column}`;
+
+export async function findSymbol(query: string, kind?: string): Promise<string> {
+    const { locations } = await request({ type: 'findSymbol', query, kind });
+    if (!locations || locations.length === 0) {
+        return `[SYSTEM] No symbol matching "${query}"${kind ? ` (kind ${kind})` : ''} found in the project's source files.`;
+    }
+    const lines = locations.map(loc =>
+        `${loc.kind} ${loc.name}${loc.container ? ` (in ${loc.container})` : ''} — ${formatLocation(loc)}\n    ${loc.text}`
+    );
+    return `[SYSTEM] ${locations.length} symbol${locations.length === 1 ? '' : 's'} matching "${query}":\n${lines.join('\n')}`;
+}
+
+export async function findReferences(symbol: string, path?: string, line?: number): Promise<string> {
+    const { locations } = await request({ type: 'findReferences', symbol, path, line });
+    if (!locations) {
+        return path
+            ? `[SYSTEM] "${symbol}" does not appear in ${path}${line ? ` on line ${line}` : ''}. Check the path and line, or omit them to use the symbol's declaration.`
+            : `[SYSTEM] No declaration named "${symbol}" found. Use findSymbol to look up the exact name.`;
+    }
+    if (locations.length === 0) return `[SYSTEM] No references to "${symbol}" found.`;
+
+    const byFile = new Map<string, SymbolLocation[]>();
+    locations.slice(0, MAX_REFERENCES).forEach(loc => byFile.set(loc.path, [...(byFile.get(loc.path) || []), loc]));
+    const sections = [...byFile.entries()].map(([file, locs]) =>
+        `📄 ${file}\n${locs.map(loc => `  ${loc.line}:${loc.column}${loc.isDefinition ? ' (definition)' : ''}  ${loc.text}`).join('\n')}`
+    );
+    const more = locations.length > MAX_REFERENCES ? `\n\n... and ${locations.length - MAX_REFERENCES} more` : '';
+    return `[SYSTEM] ${locations.length} reference${locations.length === 1 ? '' : 's'} to "${symbol}" in ${byFile.size} file${byFile.size === 1 ? '' : 's'}:\n\n${sections.join('\n\n')}${more}`;
+}
+
+export async function getOutline(path: string): Promise<string> {
+    const normalized = path.replace(/^\.?\//, '');
+    if (!SOURCE_FILE.test(normalized)) {
+        return `[SYSTEM] getOutline works on JavaScript and TypeScript files; "${path}" is not one. Use readFile instead.`;
+    }
+    const { outline } = await request({ type: 'getOutline', path: normalized });
+    if (!outline) return `Error: File "${normalized}" not found.`;
+    if (outline.length === 0) return `[SYSTEM] ${normalized} has no declarations.`;
+    const lines = outline.map(item =>
+        `${'  '.repeat(item.depth)}${item.kind} ${item.name} — L${item.line}${item.endLine > item.line ? `-${item.endLine}` : ''}`
+    );
+    return `[SYSTEM] Outline of ${normalized} (declarations with their line ranges):\n${lines.join('\n')}`;
+}
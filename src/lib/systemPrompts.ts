@@ -1,8 +1,28 @@
 // System prompts for different AI models
 // GLOVIX MEGA SYSTEM PROMPT v3.0
 
-export function getSystemPrompt(_model = 'mimo-v2-flash') {
-  return `# GLOVIX — AUTONOMOUS AI SOFTWARE ENGINEER
+import { ProjectTemplate, describeTemplate } from './projectTemplate';
+
+// The chat's template tells the agent which stack it is in; imported projects have none
+function templateSection(template: ProjectTemplate | null): string {
+  if (!template) {
+    return `## 🗂️ PROJECT TEMPLATE
+
+This project was imported or did not start from a template. Inspect \`package.json\` and the existing files to learn its stack before changing anything, and follow the conventions already in the code.`;
+  }
+  return `## 🗂️ PROJECT TEMPLATE
+
+${describeTemplate(template)}
+
+Stay within this stack. The Golden Stack above applies only where it fits this template.`;
+}
+
+export const TEMPLATE_PLACEHOLDER = '{{PROJECT_TEMPLATE}}';
+export const FILE_LIST_PLACEHOLDER = '{{FILE_LIST}}';
+
+// The built-in prompt. Presets edited in Settings start from this text; the placeholders are
+// filled in on every request.
+export const DEFAULT_SYSTEM_PROMPT = `# GLOVIX — AUTONOMOUS AI SOFTWARE ENGINEER
 
 <identity>
 You are **Glovix**, an elite-tier AI software engineer with 15+ years of equivalent experience in modern web development. You are not just a code generator — you are a full-stack product builder, UI/UX designer, and DevOps specialist combined into one.
@@ -16,6 +36,8 @@ Your creations are indistinguishable from those built by top Silicon Valley engi
 
 ### Context Recovery (IMPORTANT)
 If the file \`.glovix/context.md\` exists in the project, you MUST read it FIRST with \`readFile('.glovix/context.md')\` before doing anything else. This file contains compressed context from a previous chat session — it describes what was built, key decisions, and current project state. Use it to continue working seamlessly.
+If \`.glovix/instructions.md\` exists, its rules are already appended at the end of this prompt under PROJECT INSTRUCTIONS — follow them over any general guidance here.
+Long chats are compacted in place: older turns are replaced by a "📝 Conversation summary" message with the same content as \`.glovix/context.md\`. If that summary is already in the conversation, you do not need to read the file again.
 
 ### How You Think
 Before taking ANY action, you MUST go through this mental checklist:
@@ -134,7 +156,10 @@ VITE_SUPABASE_ANON_KEY=your_supabase_anon_key
 | \`deleteFile(path)\` | Delete file/folder | Cleanup |
 | \`renameFile(old, new)\` | Rename/move file | Restructuring |
 | \`listFiles()\` | Show project tree | Understanding project structure |
-| \`searchInFiles(query, pattern?)\` | Search text across files | Finding where something is defined/used |
+| \`searchInFiles(query, pattern?)\` | Search text across files | Finding strings, CSS classes, config values |
+| \`findSymbol(query, kind?)\` | Locate declarations (TypeScript-aware) | Finding where a function/component/type is defined |
+| \`findReferences(symbol, path?, line?)\` | Every use of a symbol | Before renaming or changing a signature |
+| \`getOutline(path)\` | Declarations of a file with line ranges | Understanding a large file without reading it all |
 | \`runCommand(cmd)\` | Execute shell command | pnpm install, pnpm run dev, etc. |
 | \`typeCheck()\` | Run TypeScript checker | After every batch of changes |
 | \`lintCheck(path?)\` | Run ESLint | Check code quality |
@@ -142,7 +167,8 @@ VITE_SUPABASE_ANON_KEY=your_supabase_anon_key
 | \`batchCreateFiles(files[])\` | Create multiple files at once | Scaffolding, creating related files |
 | \`searchWeb(query, domains?)\` | Search web with images | Finding docs, solutions |
 | \`extractPage(url)\` | Extract page content as markdown | Reading documentation |
-| \`inspectNetwork(url)\` | Debug API/server response | Checking if server responds |
+| \`inspectNetwork(filter?, failedOnly?, url?)\` | Preview's fetch/XHR log: status, timing, size | API calls fail, data missing, CORS errors |
+| \`readConsole(level?, filter?)\` | Preview's console output | Debugging behavior with console.log |
 | \`checkDependencies()\` | Check outdated packages | Dependency management |
 | \`drawDiagram(mermaidCode)\` | Visualize architecture/flow | Explaining complex logic |
 
@@ -229,7 +255,7 @@ Error: red-500
 
 ## 📦 TECH STACK (The Golden Stack)
 
-Unless user specifies otherwise, ALWAYS use:
+Unless the project template (see PROJECT TEMPLATE below) or the user specifies otherwise, ALWAYS use:
 
 | Layer | Technology | Why |
 |-------|------------|-----|
@@ -405,6 +431,10 @@ Setting up the project structure...
 
 ---
 
+{{PROJECT_TEMPLATE}}
+
+---
+
 ## 📄 CURRENT PROJECT STATE
 
 {{FILE_LIST}}
@@ -422,4 +452,17 @@ When the dev server starts, **your job is done**.
 
 Now, let's build something amazing.
 `;
+
+/**
+ * The system prompt for a request — `prompt` is the chat's preset, the built-in one by default.
+ * A preset that dropped a placeholder still gets the template and file list, at the end.
+ */
+export function getSystemPrompt(_model = 'mimo-v2-flash', template: ProjectTemplate | null = null, prompt = DEFAULT_SYSTEM_PROMPT) {
+  let result = prompt.includes(TEMPLATE_PLACEHOLDER)
+    ? prompt.replace(TEMPLATE_PLACEHOLDER, templateSection(template))
+    : `${prompt}\n\n---\n\n${templateSection(template)}`;
+  if (!result.includes(FILE_LIST_PLACEHOLDER)) {
+    result += `\n\n---\n\n## 📄 CURRENT PROJECT STATE\n\n${FILE_LIST_PLACEHOLDER}\n`;
+  }
+  return result;
 }
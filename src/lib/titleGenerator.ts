@@ -3,6 +3,7 @@
 
 import { useStore } from '../store';
 import { updateChatTitle } from './api';
+import { completeText } from './ai';
 
 // Very explicit prompt that works well with Gemini and other models
 const TITLE_PROMPT = `Generate a short project title (2-5 words) based on the user's request.
@@ -80,95 +81,27 @@ export async function generateAndSaveTitle(userText: string, chatId: string): Pr
     }
 }
 
-// Generate title using AI API (streaming mode for compatibility)
+// Generate title using the configured AI provider (streaming mode for compatibility)
 async function generateTitleWithAI(userText: string): Promise<string | null> {
     try {
-        const { aiApiKey, aiModel } = useStore.getState();
-        const envKey = import.meta.env.VITE_AI_API_KEY;
-        const apiKeyToUse = (envKey && envKey !== 'your_api_key_here') ? envKey : aiApiKey;
-        const actualModelId = import.meta.env.VITE_AI_MODEL || aiModel || 'gpt-4';
-
-        if (!apiKeyToUse) {
-            console.warn('[TitleGen] No API key, using fallback');
-            return null;
-        }
-
+        let title: string;
         const controller = new AbortController();
         const timeout = setTimeout(() => controller.abort(), 15000);
 
-        const response = await fetch('/api/ai/chat', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${apiKeyToUse}`,
-            },
-            body: JSON.stringify({
-                model: actualModelId,
-                messages: [
-                    { role: 'system', content: TITLE_PROMPT },
-                    { role: 'user', content: userText.slice(0, 300) }
-                ],
-                max_tokens: 50,
+        try {
+            title = await completeText(TITLE_PROMPT, userText.slice(0, 300), {
+                maxTokens: 50,
                 temperature: 0.1,
-                stream: true,
-            }),
-            signal: controller.signal,
-        });
-
-        clearTimeout(timeout);
-
-        if (!response.ok) {
-            console.warn(`[TitleGen] API returned ${response.status}`);
-            return null;
-        }
-
-        // Parse streaming response
-        let title = '';
-
-        if (response.body) {
-            const reader = response.body.getReader();
-            const decoder = new TextDecoder();
-            let buffer = '';
-
-            try {
-                while (true) {
-                    const { done, value } = await reader.read();
-                    if (done) break;
-
-                    buffer += decoder.decode(value, { stream: true });
-                    const lines = buffer.split('\n');
-                    buffer = lines.pop() || '';
-
-                    for (const line of lines) {
-                        const trimmed = line.trim();
-                        if (!trimmed || trimmed === 'data: [DONE]') continue;
-                        if (!trimmed.startsWith('data: ')) continue;
-
-                        try {
-                            const parsed = JSON.parse(trimmed.slice(6));
-                            const delta = parsed.choices?.[0]?.delta;
-                            if (!delta) continue;
-
-                            // Only collect actual content, skip thinking/reasoning
-                            if (delta.content) {
-                                title += delta.content;
-                            }
-                        } catch {
-                            // Skip unparseable chunks
-                        }
-                    }
-                }
-            } finally {
-                try { reader.releaseLock(); } catch { /* ignore */ }
-            }
-        } else {
-            // No body — try parsing as JSON (non-streaming response)
-            try {
-                const data = await response.json();
-                title = data.choices?.[0]?.message?.content || '';
-            } catch {
+                signal: controller.signal,
+            });
+        } catch (err: any) {
+            if (err.message?.includes('Missing API Key')) {
+                console.warn('[TitleGen] No API key, using fallback');
                 return null;
             }
+            throw err;
+        } finally {
+            clearTimeout(timeout);
         }
 
         // Aggressive cleanup
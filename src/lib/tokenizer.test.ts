@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { approximateTokenizer, countMessageTokens, countMessagesTokens, getTokenizer, loadTokenizer, registerTokenizer } from './tokenizer';
+import type { Message } from './ai';
+
+describe('approximateTokenizer', () => {
+    it('counts about four Latin characters per token', () => {
+        expect(approximateTokenizer.count('')).toBe(0);
+        expect(approximateTokenizer.count('abcd')).toBe(1);
+        expect(approximateTokenizer.count('abcde')).toBe(2);
+    });
+
+    it('counts CJK characters as a token each', () => {
+        expect(approximateTokenizer.count('你好世界')).toBe(4);
+        expect(approximateTokenizer.count('hi 你好')).toBe(3);
+    });
+});
+
+describe('countMessageTokens', () => {
+    const fixed = { id: 'fixed', exact: true, count: (text: string) => text.length };
+
+    it('adds the per-message overhead, images and tool calls', () => {
+        const msg: Message = {
+            role: 'user',
+            content: [
+                { type: 'text', text: 'abc' },
+                { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+            ],
+        };
+        expect(countMessageTokens(msg, fixed)).toBe(4 + 3 + 1000);
+
+        const call: Message = {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: '1', type: 'function', function: { name: 'readFile', arguments: '{"path":"a"}' } }],
+        };
+        expect(countMessageTokens(call, fixed)).toBe(4 + 'readFile'.length + '{"path":"a"}'.length);
+        expect(countMessagesTokens([msg, call], fixed)).toBe(countMessageTokens(msg, fixed) + countMessageTokens(call, fixed));
+    });
+});
+
+describe('tokenizer registry', () => {
+    it('uses the approximation for models without a BPE tokenizer', async () => {
+        expect(getTokenizer('claude-sonnet-4-5')).toBe(approximateTokenizer);
+        expect(await loadTokenizer('llama3.1:8b')).toBe(approximateTokenizer);
+    });
+
+    it('loads exact BPE counts for OpenAI models, provider prefixes included', async () => {
+        const tokenizer = await loadTokenizer('openai/gpt-4o-mini');
+        expect(tokenizer.id).toBe('o200k_base');
+        expect(tokenizer.exact).toBe(true);
+        expect(tokenizer.count('hello world')).toBe(2);
+        // Special-token text in user content is counted, not rejected
+        expect(tokenizer.count('<|endoftext|>')).toBeGreaterThan(1);
+        expect(getTokenizer('gpt-4o')).toBe(tokenizer);
+        expect((await loadTokenizer('gpt-4')).id).toBe('cl100k_base');
+    });
+
+    it('lets a later registration override an earlier one', async () => {
+        const custom = { id: 'custom-gpt', exact: true, count: () => 42 };
+        registerTokenizer('custom-gpt', (id) => id === 'gpt-4o-custom', async () => custom);
+        expect(await loadTokenizer('gpt-4o-custom')).toBe(custom);
+        expect(getTokenizer('gpt-4o-custom')).toBe(custom);
+    });
+});
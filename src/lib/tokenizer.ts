@@ -0,0 +1,141 @@
+// Token counting — exact BPE for OpenAI-family models, a character heuristic for everything else.
+// BPE tables are large, so encodings are loaded on demand and the approximate counter is used until they arrive.
+
+import type { Message } from './ai';
+
+export interface Tokenizer {
+    id: string;
+    // True when counts come from the model's real vocabulary
+    exact: boolean;
+    count: (text: string) => number;
+}
+
+// Images are billed by resolution; a mid-size screenshot lands around this
+const IMAGE_TOKENS = 1000;
+// Role markers and separators every chat message carries
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// ~4 chars/token for Latin text and code; CJK is closer to one token per character
+const CJK_REGEX = /[぀-ヿ㐀-䶿一-鿿가-힯]/g;
+
+export const approximateTokenizer: Tokenizer = {
+    id: 'approximate',
+    exact: false,
+    count: (text) => {
+        if (!text) return 0;
+        const cjk = text.match(CJK_REGEX)?.length || 0;
+        return cjk + Math.ceil((text.length - cjk) / 4);
+    },
+};
+
+// ============================================================
+// REGISTRY
+// ============================================================
+
+interface TokenizerEntry {
+    id: string;
+    matches: (modelId: string) => boolean;
+    load: () => Promise<Tokenizer>;
+}
+
+const entries: TokenizerEntry[] = [];
+const loaded = new Map<string, Tokenizer>();
+const loading = new Map<string, Promise<Tokenizer>>();
+
+/**
+ * Register a tokenizer for models matching `matches`. Later registrations win,
+ * so a more specific tokenizer can override a family-wide one.
+ */
+export function registerTokenizer(id: string, matches: (modelId: string) => boolean, load: () => Promise<Tokenizer>) {
+    entries.unshift({ id, matches, load });
+}
+
+function bpe(id: string, importEncoding: () => Promise<{ countTokens: (text: string, options?: any) => number }>) {
+    return async (): Promise<Tokenizer> => {
+        const encoding = await importEncoding();
+        // Treat special-token text like "<|endoftext|>" in user content as plain text instead of throwing
+        const options = { disallowedSpecial: new Set<string>() };
+        return { id, exact: true, count: (text) => (text ? encoding.countTokens(text, options) : 0) };
+    };
+}
+
+const bareModelId = (modelId: string) => (modelId.includes('/') ? modelId.split('/').pop()! : modelId).toLowerCase();
+
+// Older GPT-4 / GPT-3.5 models
+registerTokenizer(
+    'cl100k_base',
+    (id) => /^(gpt-4|gpt-3\.5)/.test(bareModelId(id)),
+    bpe('cl100k_base', () => import('gpt-tokenizer/encoding/cl100k_base'))
+);
+// GPT-4o, GPT-4.1, GPT-5, o-series — registered last so it wins over the gpt-4 prefix above
+registerTokenizer(
+    'o200k_base',
+    (id) => /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o\d|chatgpt-4o|gpt-oss)/.test(bareModelId(id)),
+    bpe('o200k_base', () => import('gpt-tokenizer/encoding/o200k_base'))
+);
+
+/**
+ * Tokenizer for a model, synchronously. Returns the approximate counter while the
+ * model's BPE tables are still loading (call loadTokenizer first to avoid that).
+ */
+export function getTokenizer(modelId: string): Tokenizer {
+    const entry = entries.find(e => e.matches(modelId));
+    if (!entry) return approximateTokenizer;
+
+    const tokenizer = loaded.get(entry.id);
+    if (tokenizer) return tokenizer;
+
+    void loadTokenizer(modelId);
+    return approximateTokenizer;
+}
+
+export async function loadTokenizer(modelId: string): Promise<Tokenizer> {
+    const entry = entries.find(e => e.matches(modelId));
+    if (!entry) return approximateTokenizer;
+
+    const cached = loaded.get(entry.id);
+    if (cached) return cached;
+
+    let pending = loading.get(entry.id);
+    if (!pending) {
+        pending = entry.load()
+            .then(tokenizer => {
+                loaded.set(entry.id, tokenizer);
+                console.log(`[Tokenizer] Loaded ${entry.id}`);
+                return tokenizer;
+            })
+            .catch(err => {
+                console.warn(`[Tokenizer] Failed to load ${entry.id}, using approximation:`, err);
+                loading.delete(entry.id);
+                return approximateTokenizer;
+            });
+        loading.set(entry.id, pending);
+    }
+    return pending;
+}
+
+// ============================================================
+// MESSAGE COUNTING
+// ============================================================
+
+export function countMessageTokens(msg: Message, tokenizer: Tokenizer = approximateTokenizer): number {
+    let tokens = MESSAGE_OVERHEAD_TOKENS;
+
+    if (typeof msg.content === 'string') {
+        tokens += tokenizer.count(msg.content);
+    } else if (Array.isArray(msg.content)) {
+        for (const part of msg.content) {
+            tokens += part.type === 'text' ? tokenizer.count(part.text) : IMAGE_TOKENS;
+        }
+    }
+
+    for (const tc of msg.tool_calls || []) {
+        tokens += tokenizer.count(tc.function?.name || '') + tokenizer.count(tc.function?.arguments || '');
+    }
+
+    return tokens;
+}
+
+export function countMessagesTokens(messages: Message[], tokenizer: Tokenizer = approximateTokenizer): number {
+    return messages.reduce((sum, msg) => sum + countMessageTokens(msg, tokenizer), 0);
+}
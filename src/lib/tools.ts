@@ -1,6 +1,14 @@
 import { executeCommand, writeFile, readFile, renameFile, deleteFile, autoInstallDependencies, smartInstall } from './webcontainer';
 import { useStore } from '../store';
 import { parseToolArguments } from './utils';
+import { ApprovalRequest, resolvePermission, describeDecision } from './permissions';
+import { REVIEWED_TOOLS, Staging, beginStaging, endStaging, stageWrite, getStagedContent, reviewStagedWrites } from './review';
+import { describeBinaryEntry, isBinaryEntry } from './files';
+import { SEARCH_RESULT_TYPE, serializeSearchResponse } from './webSearch';
+import { resolveSearchBackend } from './searchProviders';
+import { formatNetworkLog } from './networkInspector';
+import { CONSOLE_LEVELS, ConsoleLevel, formatConsoleLog } from './previewConsole';
+import { findSymbol, findReferences, getOutline } from './symbols';
 
 // Tool definitions for AI
 export const TOOL_DEFINITIONS = [
@@ -128,6 +136,51 @@ export const TOOL_DEFINITIONS = [
             },
         },
     },
+    {
+        type: 'function',
+        function: {
+            name: 'findSymbol',
+            description: 'Find where functions, components, classes, types, interfaces, variables or methods are declared, using the TypeScript compiler. Matches exact, prefix and fuzzy names. Prefer this over searchInFiles and reading whole files when you need to locate a declaration.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    query: { type: 'string', description: 'Symbol name or part of it, e.g., "useCart" or "TodoItem"' },
+                    kind: { type: 'string', description: 'Optional: only this kind — function, class, interface, type, enum, const, let, var, method, property' },
+                },
+                required: ['query'],
+            },
+        },
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'findReferences',
+            description: 'Find every reference to a symbol across the project (semantic, not text search — imports, renames and same-named locals are told apart). Returns file, line and the source line for each use.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    symbol: { type: 'string', description: 'The exact symbol name, e.g., "formatPrice"' },
+                    path: { type: 'string', description: 'Optional: a file where the symbol appears, to pick the right one when several share the name' },
+                    line: { type: 'number', description: 'Optional: 1-based line in path where the symbol appears' },
+                },
+                required: ['symbol'],
+            },
+        },
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'getOutline',
+            description: 'Get the outline of a JS/TS file: its declarations (components, functions, classes, types, methods, consts) with line ranges. Use it to understand a large file before reading it.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    path: { type: 'string', description: 'The file path, e.g., src/App.tsx' },
+                },
+                required: ['path'],
+            },
+        },
+    },
     {
         type: 'function',
         function: {
@@ -172,7 +225,7 @@ export const TOOL_DEFINITIONS = [
         type: 'function',
         function: {
             name: 'searchWeb',
-            description: 'Search the web for information, documentation, or images. Returns summaries, source links, and related images.',
+            description: 'Search the web for information, documentation, or images. Returns a summary and numbered sources (cite them as [1], [2] in your answer) plus related images.',
             parameters: {
                 type: 'object',
                 properties: {
@@ -191,14 +244,33 @@ export const TOOL_DEFINITIONS = [
         type: 'function',
         function: {
             name: 'inspectNetwork',
-            description: 'Debug network requests by fetching a URL and returning headers/status. Use this to check if local server endpoints are responsive.',
+            description: 'Read the fetch/XHR requests the running preview has made: method, URL, status, timing and size, newest last. Use it to debug failing API calls, CORS errors and missing data. Optionally pass url to also probe that URL once from inside the container.',
             parameters: {
                 type: 'object',
                 properties: {
-                    url: { type: 'string', description: 'The URL to inspect (e.g., http://localhost:5173)' },
-                    method: { type: 'string', description: 'HTTP method (GET, POST, etc.)', default: 'GET' },
+                    filter: { type: 'string', description: 'Only requests whose URL contains this text (e.g., "/api/")' },
+                    method: { type: 'string', description: 'Only requests with this HTTP method (GET, POST, etc.); also the method used for url' },
+                    failedOnly: { type: 'boolean', description: 'Only network errors and HTTP 4xx/5xx responses' },
+                    limit: { type: 'number', description: 'Maximum requests to return (default 30)' },
+                    url: { type: 'string', description: 'Optional: probe this URL now and report its status and headers (e.g., http://localhost:5173/api/items)' },
                 },
-                required: ['url'],
+                required: [],
+            },
+        },
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'readConsole',
+            description: 'Read recent console output (log, info, warn, error, debug) from the app running in the preview, newest last, with objects printed. Use it to debug behavior: add console.log calls, trigger the action, then read the output.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    level: { type: 'string', enum: CONSOLE_LEVELS, description: 'Only messages of this level' },
+                    filter: { type: 'string', description: 'Only messages containing this text' },
+                    limit: { type: 'number', description: 'Maximum messages to return (default 50)' },
+                },
+                required: [],
             },
         },
     },
@@ -272,7 +344,7 @@ export const TOOL_DEFINITIONS = [
         type: 'function',
         function: {
             name: 'getErrors',
-            description: 'Get a summary of all current errors in the project: TypeScript errors, build errors, and runtime errors from the terminal. Use this to quickly understand what is broken.',
+            description: 'Get a summary of all current errors in the project: TypeScript errors, build errors from the terminal, and runtime errors from the running preview (uncaught exceptions, unhandled rejections, console.error) with source file and line. Use this to quickly understand what is broken.',
             parameters: {
                 type: 'object',
                 properties: {},
@@ -285,7 +357,12 @@ export const TOOL_DEFINITIONS = [
 // Tool execution context
 export interface ToolContext {
     addTerminalOutput: (output: string) => void;
-    setSelectedFile: (path: string) => void;
+    // Brings a file the agent wrote into view (or flags its tab, when the user keeps focus)
+    showEditedFile: (path: string) => void;
+    // Set by executeTool while review mode collects this call's writes
+    staging?: Staging;
+    // Asks the user about calls in "ask" mode; resolves true when approved. Without it those calls are refused.
+    requestApproval?: (request: ApprovalRequest) => Promise<boolean>;
 }
 
 // ============================================================
@@ -532,6 +609,29 @@ function parseErrorsFromOutput(output: string, source: string): ParsedError[] {
 // TOOL HANDLERS
 // ============================================================
 
+// Binary assets can't be read or edited as text — the model gets a one-line description instead
+function binaryFileNotice(path: string): string | null {
+    const entry = useStore.getState().files[path];
+    return entry && isBinaryEntry(entry) ? describeBinaryEntry(path, entry) : null;
+}
+
+// Write to the WebContainer and the store — or only stage the write while review mode collects a call's changes.
+// Review mode also writes the hunks the user accepted through here.
+export async function writeProjectFile(path: string, content: string, staging?: Staging) {
+    if (staging) {
+        stageWrite(staging, path, content);
+        return;
+    }
+    await writeFile(path, content);
+    const state = useStore.getState();
+    state.setFiles({
+        ...state.files,
+        [path]: { file: { contents: content } }
+    });
+    // Clear errors for this file — it was just rewritten
+    state.removeErrorsForFile(path);
+}
+
 export async function handleCreateFile(
     args: { path: string; content: string },
     ctx: ToolContext
@@ -546,16 +646,10 @@ export async function handleCreateFile(
     }
 
     try {
-        ctx.setSelectedFile(path);
+        await writeProjectFile(path, content, ctx.staging);
 
-        await writeFile(path, content);
-        const state = useStore.getState();
-        state.setFiles({
-            ...state.files,
-            [path]: { file: { contents: content } }
-        });
-        // Clear errors for this file — it was just rewritten
-        state.removeErrorsForFile(path);
+        // Staged files only exist in the review panel until accepted
+        if (!ctx.staging) ctx.showEditedFile(path);
         return `[SYSTEM] File created: ${path} (${content.split('\n').length} lines)`;
     } catch (e: any) {
         return `Error creating file ${path}: ${e.message}`;
@@ -563,12 +657,19 @@ export async function handleCreateFile(
 }
 
 export async function handleEditFile(
-    args: { path: string; oldContent: string; newContent: string }
+    args: { path: string; oldContent: string; newContent: string },
+    ctx: ToolContext
 ): Promise<string> {
     const { path, oldContent, newContent } = args;
 
+    const binary = binaryFileNotice(path);
+    if (binary) {
+        return `Error editing ${path}: ${binary} cannot be edited as text. Replace it with createFile or leave it as is.`;
+    }
+
     try {
-        const currentContent = await readFile(path);
+        // Earlier edits in the same call may only be staged for review
+        const currentContent = getStagedContent(ctx.staging, path) ?? await readFile(path);
 
         // Exact match first
         if (currentContent.includes(oldContent)) {
@@ -578,13 +679,8 @@ export async function handleEditFile(
             }
 
             const newFileContent = currentContent.replace(oldContent, newContent);
-            await writeFile(path, newFileContent);
-            const state = useStore.getState();
-            state.setFiles({
-                ...state.files,
-                [path]: { file: { contents: newFileContent } }
-            });
-            state.removeErrorsForFile(path);
+            await writeProjectFile(path, newFileContent, ctx.staging);
+            if (!ctx.staging) ctx.showEditedFile(path);
             return `[SYSTEM] File edited: ${path}`;
         }
 
@@ -616,13 +712,8 @@ export async function handleEditFile(
             if (startIdx !== -1) {
                 const actualOld = contentLines.slice(startIdx, startIdx + oldLines.length).join('\n');
                 const newFileContent = currentContent.replace(actualOld, newContent);
-                await writeFile(path, newFileContent);
-                const state = useStore.getState();
-                state.setFiles({
-                    ...state.files,
-                    [path]: { file: { contents: newFileContent } }
-                });
-                state.removeErrorsForFile(path);
+                await writeProjectFile(path, newFileContent, ctx.staging);
+                if (!ctx.staging) ctx.showEditedFile(path);
                 return `[SYSTEM] File edited: ${path} (matched with normalized whitespace)`;
             }
         }
@@ -656,6 +747,8 @@ export async function handleEditFile(
 
 export async function handleReadFile(args: { path: string }): Promise<string> {
     const { path } = args;
+    const binary = binaryFileNotice(path);
+    if (binary) return `[SYSTEM] ${binary}`;
     try {
         const content = await readFile(path);
         const lines = content.split('\n');
@@ -672,6 +765,11 @@ export async function handleReadMultipleFiles(args: { paths: string[] }): Promis
     const results: string[] = [];
 
     for (const path of paths) {
+        const binary = binaryFileNotice(path);
+        if (binary) {
+            results.push(`━━━ ${path} ━━━\n${binary}`);
+            continue;
+        }
         try {
             const content = await readFile(path);
             const lines = content.split('\n');
@@ -716,7 +814,8 @@ export async function handleDeleteFile(args: { path: string }): Promise<string>
 }
 
 export async function handleRenameFile(
-    args: { oldPath: string; newPath: string }
+    args: { oldPath: string; newPath: string },
+    ctx: ToolContext
 ): Promise<string> {
     const { oldPath, newPath } = args;
     try {
@@ -728,6 +827,9 @@ export async function handleRenameFile(
             delete newFiles[oldPath];
             state.setFiles(newFiles);
         }
+        // The user's open file keeps its place under the new name; otherwise it is revealed like any edit
+        if (state.selectedFile === oldPath) state.setSelectedFile(newPath);
+        else ctx.showEditedFile(newPath);
         return `[SYSTEM] Renamed: ${oldPath} → ${newPath}`;
     } catch (e: any) {
         return `Error renaming ${oldPath}: ${e.message}`;
@@ -762,7 +864,8 @@ export function handleListFiles(): string {
             const indent = '  '.repeat(depth);
             const name = path.split('/').filter(Boolean).pop() || path;
             const isDir = path.endsWith('/');
-            tree.push(`${indent}${isDir ? '📁 ' : '📄 '}${name}`);
+            const binary = !isDir && isBinaryEntry(files[path]) ? ` (binary, ${files[path].file.mimeType})` : '';
+            tree.push(`${indent}${isDir ? '📁 ' : '📄 '}${name}${binary}`);
         }
 
         return `[SYSTEM] Project structure (${paths.length} files):\n${tree.join('\n')}`;
@@ -787,6 +890,9 @@ export async function handleSearchInFiles(args: { query: string; filePattern?: s
                 if (!new RegExp(pattern).test(path)) continue;
             }
 
+            // base64 never matches anything meaningful
+            if (isBinaryEntry(file)) continue;
+
             const content = file.file.contents;
             const lines = content.split('\n');
 
@@ -815,6 +921,33 @@ export async function handleSearchInFiles(args: { query: string; filePattern?: s
 }
 
 
+export async function handleFindSymbol(args: { query: string; kind?: string }): Promise<string> {
+    if (!args.query) return 'Error: findSymbol needs a query.';
+    try {
+        return await findSymbol(args.query, args.kind);
+    } catch (e: any) {
+        return `Error finding symbol: ${e.message}`;
+    }
+}
+
+export async function handleFindReferences(args: { symbol: string; path?: string; line?: number }): Promise<string> {
+    if (!args.symbol) return 'Error: findReferences needs a symbol.';
+    try {
+        return await findReferences(args.symbol, args.path?.replace(/^\.?\//, ''), args.line);
+    } catch (e: any) {
+        return `Error finding references: ${e.message}`;
+    }
+}
+
+export async function handleGetOutline(args: { path: string }): Promise<string> {
+    if (!args.path) return 'Error: getOutline needs a path.';
+    try {
+        return await getOutline(args.path);
+    } catch (e: any) {
+        return `Error building outline: ${e.message}`;
+    }
+}
+
 export async function handleRunCommand(
     args: { command: string },
     ctx: ToolContext
@@ -1072,50 +1205,12 @@ export async function handleLintCheck(args: { path?: string }, ctx: ToolContext)
 export async function handleSearchWeb(args: { query: string; includeDomains?: string[] }): Promise<string> {
     const { query, includeDomains } = args;
     try {
-        const requestBody: any = {
-            api_key: import.meta.env.VITE_TAVILY_API_KEY,
-            query,
-            include_answer: "basic",
-            search_depth: "advanced",
-            max_results: 5,
-            include_images: true,
-            include_image_descriptions: true,
-        };
-
-        if (includeDomains && includeDomains.length > 0) {
-            requestBody.include_domains = includeDomains;
-        }
-
-        const response = await fetch('https://api.tavily.com/search', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(requestBody),
-        });
-
-        if (!response.ok) {
-            throw new Error(`Tavily API Error: ${response.statusText}`);
-        }
-
-        const data = await response.json();
-
-        let result = '';
+        const backend = resolveSearchBackend();
+        const data = await backend.search(query, { includeDomains, maxResults: 5 });
+        console.log(`[Search] ${backend.name}: ${data.results.length} results for "${query}"`);
 
-        if (data.answer) {
-            result += `${data.answer}\n\n`;
-        }
-
-        if (data.results && data.results.length > 0) {
-            result += `**Sources:** ${data.results.map((r: any) => r.title).join(', ')}\n\n`;
-        }
-
-        if (data.images && data.images.length > 0) {
-            result += `**Images:**\n\n`;
-            data.images.slice(0, 6).forEach((img: any, idx: number) => {
-                result += `![${img.description || `Image ${idx + 1}`}](${img.url})\n\n`;
-            });
-        }
-
-        return result;
+        // Structured for SearchResultsBlock; the model receives the citation list (see webSearch.ts)
+        return serializeSearchResponse({ type: SEARCH_RESULT_TYPE, query, ...data });
     } catch (e: any) {
         return `Error: ${e.message}`;
     }
@@ -1124,44 +1219,63 @@ export async function handleSearchWeb(args: { query: string; includeDomains?: st
 export async function handleExtractPage(args: { url: string }): Promise<string> {
     const { url } = args;
     try {
-        const response = await fetch('https://api.tavily.com/extract', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                api_key: import.meta.env.VITE_TAVILY_API_KEY,
-                urls: [url],
-            }),
-        });
-
-        if (!response.ok) {
-            throw new Error(`Tavily Extract API Error: ${response.statusText}`);
-        }
-
-        const data = await response.json();
-
-        if (data.results && data.results.length > 0) {
-            const result = data.results[0];
-            let formatted = `[SYSTEM] Extracted content from ${url}\n\n`;
-            formatted += `## ${result.title || 'Page Content'}\n\n`;
-            formatted += result.raw_content || result.content || 'No content extracted';
-            return formatted;
+        const page = await resolveSearchBackend().extract(url);
+        if (!page.content) {
+            return `[SYSTEM] No content could be extracted from ${url}`;
         }
-
-        return `[SYSTEM] No content could be extracted from ${url}`;
+        return `[SYSTEM] Extracted content from ${url}\n\n## ${page.title || 'Page Content'}\n\n${page.content}`;
     } catch (e: any) {
         return `Error extracting page: ${e.message}`;
     }
 }
 
-export async function handleInspectNetwork(args: { url: string; method?: string }, ctx: ToolContext): Promise<string> {
-    const { url } = args;
-    try {
-        return await handleRunCommand({
-            command: `node -e "const h=require('${url.startsWith('https') ? 'https' : 'http'}'); h.get('${url}', r => { console.log('Status: '+r.statusCode); console.log(r.headers); r.resume() }).on('error', e=>console.log(e.message))"`
-        }, ctx);
-    } catch (e: any) {
-        return `Error inspecting network: ${e.message}`;
+// Probes one URL from inside the container. URL and method arrive as argv — never spliced into the script.
+const NETWORK_PROBE_SCRIPT = `
+const [url, method] = process.argv.slice(1);
+const client = require(url.startsWith('https:') ? 'https' : 'http');
+const req = client.request(url, { method, timeout: 10000 }, res => {
+    console.log('Status: ' + res.statusCode + ' ' + res.statusMessage);
+    console.log(JSON.stringify(res.headers, null, 2));
+    let body = '';
+    res.setEncoding('utf8');
+    res.on('data', chunk => { if (body.length < 500) body += chunk; });
+    res.on('end', () => { if (body) console.log('Body: ' + body.slice(0, 500)); });
+});
+req.on('timeout', () => req.destroy(new Error('Timed out after 10s')));
+req.on('error', e => console.log('Request failed: ' + e.message));
+req.end();
+`;
+
+export async function handleInspectNetwork(
+    args: { url?: string; method?: string; filter?: string; failedOnly?: boolean; limit?: number },
+    ctx: ToolContext
+): Promise<string> {
+    const { url, method, filter, failedOnly, limit } = args;
+    const sections = [`[Preview network log]\n${formatNetworkLog(useStore.getState().networkRequests, { filter, method, failedOnly, limit })}`];
+
+    if (url) {
+        if (!/^https?:\/\//i.test(url)) {
+            sections.push(`[Probe] Error: "${url}" is not an http(s) URL.`);
+        } else {
+            try {
+                let output = '';
+                await executeCommand('node', ['-e', NETWORK_PROBE_SCRIPT, url, (method || 'GET').toUpperCase()], (data) => {
+                    output += data;
+                    ctx.addTerminalOutput(data);
+                }, 15000);
+                sections.push(`[Probe] ${(method || 'GET').toUpperCase()} ${url}\n${output.trim() || 'No output'}`);
+            } catch (e: any) {
+                sections.push(`[Probe] Error inspecting ${url}: ${e.message}`);
+            }
+        }
     }
+
+    return sections.join('\n\n');
+}
+
+export function handleReadConsole(args: { level?: string; filter?: string; limit?: number }): string {
+    const level = CONSOLE_LEVELS.includes(args.level as ConsoleLevel) ? args.level as ConsoleLevel : undefined;
+    return `[Preview console]\n${formatConsoleLog(useStore.getState().consoleEntries, { level, filter: args.filter, limit: args.limit })}`;
 }
 
 export async function handleCheckDependencies(ctx: ToolContext): Promise<string> {
@@ -1229,6 +1343,12 @@ export async function handleBatchCreateFiles(
         }
 
         try {
+            if (ctx.staging) {
+                stageWrite(ctx.staging, file.path, file.content);
+                successCount++;
+                results.push(`  ✅ ${file.path}`);
+                continue;
+            }
             await writeFile(file.path, file.content);
             newFilesMap[file.path] = { file: { contents: file.content } };
             successCount++;
@@ -1239,15 +1359,13 @@ export async function handleBatchCreateFiles(
     }
 
     // Single store update for all files (instead of N updates)
-    if (successCount > 0) {
+    if (Object.keys(newFilesMap).length > 0) {
         const state = useStore.getState();
         state.setFiles({ ...state.files, ...newFilesMap });
     }
 
-    // Select the first file
-    if (files.length > 0 && files[0].path) {
-        ctx.setSelectedFile(files[0].path);
-    }
+    // Reveal every written file — last to first, so when following agent edits the first one ends up active
+    Object.keys(newFilesMap).reverse().forEach(path => ctx.showEditedFile(path));
 
     return `[SYSTEM] Batch create: ${successCount}/${files.length} files created.\n${results.join('\n')}`;
 }
@@ -1287,6 +1405,15 @@ export async function handleGetErrors(ctx: ToolContext): Promise<string> {
         results.push('✅ Terminal: No recent errors');
     }
 
+    // 3. Runtime errors reported by the running preview (uncaught, rejections, console.error)
+    const runtimeErrors = useStore.getState().parsedErrors.filter(e => e.source === 'preview');
+    if (runtimeErrors.length > 0) {
+        const lines = runtimeErrors.slice(-10).map(e => `${e.file ? `${e.file}${e.line ? `:${e.line}${e.column ? `:${e.column}` : ''}` : ''} — ` : ''}${e.message}`);
+        results.push(`🔴 Runtime Errors (preview):\n${lines.join('\n')}`);
+    } else {
+        results.push('✅ Runtime: No errors reported by the preview');
+    }
+
     const hasErrors = results.some(r => r.includes('🔴'));
     const suffix = hasErrors
         ? '\n\n⚠️ Fix all errors above. Use readFile on affected files, then editFile/createFile to fix.'
@@ -1304,6 +1431,10 @@ export async function executeTool(
     argsString: string,
     ctx: ToolContext
 ): Promise<string> {
+    // Permission check runs before the timeout starts — waiting for the user is not execution time
+    const refusal = await checkToolPermission(name, argsString, ctx);
+    if (refusal) return refusal;
+
     // Global timeout for any tool execution (5 minutes max)
     const TOOL_TIMEOUT_MS = 300000;
 
@@ -1313,13 +1444,55 @@ export async function executeTool(
         }, TOOL_TIMEOUT_MS);
     });
 
-    const executionPromise = _executeToolInternal(name, argsString, ctx);
+    // In review mode, file writes of this call are collected instead of applied
+    const staging = useStore.getState().reviewMode && REVIEWED_TOOLS.has(name) ? beginStaging() : undefined;
+
+    const executionPromise = _executeToolInternal(name, argsString, staging ? { ...ctx, staging } : ctx);
 
+    let result: string;
     try {
-        return await Promise.race([executionPromise, timeoutPromise]);
+        result = await Promise.race([executionPromise, timeoutPromise]);
     } catch (e: any) {
-        return `[SYSTEM] ❌ Unexpected error in tool "${name}": ${e.message}. This is a system error — try the operation again.`;
+        result = `[SYSTEM] ❌ Unexpected error in tool "${name}": ${e.message}. This is a system error — try the operation again.`;
     }
+    if (!staging) return result;
+
+    // Like approval, the user's review happens outside the timeout. Closing the staging area also
+    // drops whatever a timed-out call still tries to write.
+    const writes = endStaging(staging);
+    if (writes.size === 0) return result;
+    return `${result}\n\n${await reviewStagedWrites(writes)}`;
+}
+
+// Returns a message for the model when the call must not run, null when it may proceed
+async function checkToolPermission(name: string, argsString: string, ctx: ToolContext): Promise<string | null> {
+    const permissions = useStore.getState().toolPermissions;
+    const argsList = parseToolArguments(argsString);
+    const decisions = (argsList.length > 0 ? argsList : [{}]).map(args => resolvePermission(permissions, name, args));
+
+    const denied = decisions.find(d => d.mode === 'deny');
+    if (denied) {
+        console.log(`[Permissions] Denied ${name} by ${describeDecision(denied, name)}`);
+        return `[SYSTEM] ❌ Permission denied: ${name}${denied.subjects.length ? ` on "${denied.subjects.join('", "')}"` : ''} is blocked by the user's ${describeDecision(denied, name)}. Do not retry this call — choose another approach or ask the user.`;
+    }
+
+    const asking = decisions.filter(d => d.mode === 'ask');
+    if (asking.length === 0) return null;
+
+    if (!ctx.requestApproval) {
+        return `[SYSTEM] ❌ ${name} requires the user's approval, which is not available here. Do not retry this call.`;
+    }
+
+    const approved = await ctx.requestApproval({
+        toolName: name,
+        subjects: asking.flatMap(d => d.subjects),
+        reason: describeDecision(asking[0], name),
+    });
+    console.log(`[Permissions] ${name} ${approved ? 'approved' : 'rejected'} by user`);
+
+    return approved
+        ? null
+        : `[SYSTEM] ❌ Rejected by user: the ${name} call was not executed. Do not retry it — explain what you intended or take a different approach.`;
 }
 
 async function _executeToolInternal(
@@ -1332,6 +1505,8 @@ async function _executeToolInternal(
     if (name === 'listFiles') return handleListFiles();
     if (name === 'checkDependencies') return handleCheckDependencies(ctx);
     if (name === 'getErrors') return handleGetErrors(ctx);
+    if (name === 'inspectNetwork' && !argsString.trim()) return handleInspectNetwork({}, ctx);
+    if (name === 'readConsole' && !argsString.trim()) return handleReadConsole({});
 
     // Parse arguments
     const argsList = parseToolArguments(argsString);
@@ -1350,7 +1525,7 @@ async function _executeToolInternal(
                     result = await handleCreateFile(args, ctx);
                     break;
                 case 'editFile':
-                    result = await handleEditFile(args);
+                    result = await handleEditFile(args, ctx);
                     break;
                 case 'readFile':
                     result = await handleReadFile(args);
@@ -1362,7 +1537,7 @@ async function _executeToolInternal(
                     result = await handleDeleteFile(args);
                     break;
                 case 'renameFile':
-                    result = await handleRenameFile(args);
+                    result = await handleRenameFile(args, ctx);
                     break;
                 case 'runCommand':
                     result = await handleRunCommand(args, ctx);
@@ -1373,9 +1548,21 @@ async function _executeToolInternal(
                 case 'searchInFiles':
                     result = await handleSearchInFiles(args);
                     break;
+                case 'findSymbol':
+                    result = await handleFindSymbol(args);
+                    break;
+                case 'findReferences':
+                    result = await handleFindReferences(args);
+                    break;
+                case 'getOutline':
+                    result = await handleGetOutline(args);
+                    break;
                 case 'inspectNetwork':
                     result = await handleInspectNetwork(args, ctx);
                     break;
+                case 'readConsole':
+                    result = handleReadConsole(args);
+                    break;
                 case 'drawDiagram':
                     result = await handleDrawDiagram(args);
                     break;
@@ -1389,7 +1576,7 @@ async function _executeToolInternal(
                     result = await handleBatchCreateFiles(args, ctx);
                     break;
                 default:
-                    result = `Unknown tool: "${name}". Available: createFile, editFile, readFile, readMultipleFiles, deleteFile, renameFile, listFiles, searchInFiles, runCommand, typeCheck, lintCheck, searchWeb, extractPage, inspectNetwork, checkDependencies, drawDiagram, batchCreateFiles, getErrors`;
+                    result = `Unknown tool: "${name}". Available: createFile, editFile, readFile, readMultipleFiles, deleteFile, renameFile, listFiles, searchInFiles, findSymbol, findReferences, getOutline, runCommand, typeCheck, lintCheck, searchWeb, extractPage, inspectNetwork, readConsole, checkDependencies, drawDiagram, batchCreateFiles, getErrors`;
             }
         } catch (e: any) {
             result = `[SYSTEM] ❌ Tool "${name}" crashed: ${e.message}. Try again or use a different approach.`;
@@ -0,0 +1,94 @@
+// Web search results — searchWeb returns them as structured JSON so the chat can render them
+// with SearchResultsBlock; the model gets a compact numbered citation list instead.
+
+export interface SearchResult {
+    title: string;
+    url: string;
+    content: string;
+    score?: number;
+}
+
+export interface SearchImage {
+    url: string;
+    description?: string;
+}
+
+export interface SearchResponse {
+    type: typeof SEARCH_RESULT_TYPE;
+    query: string;
+    answer?: string;
+    results: SearchResult[];
+    images?: SearchImage[];
+}
+
+export const SEARCH_RESULT_TYPE = 'web-search';
+
+// Per-source snippet length in the model's citation list
+const MAX_SNIPPET_CHARS = 400;
+const MAX_IMAGES = 6;
+
+export function serializeSearchResponse(response: SearchResponse): string {
+    return JSON.stringify(response);
+}
+
+// Structured results from a searchWeb tool message; null for errors and chats from before this format
+export function parseSearchResponse(content: string | null | undefined): SearchResponse | null {
+    if (!content || !content.startsWith('{')) return null;
+    try {
+        const data = JSON.parse(content);
+        return data?.type === SEARCH_RESULT_TYPE && Array.isArray(data.results) ? data : null;
+    } catch {
+        return null;
+    }
+}
+
+const clip = (text: string, max: number) => {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    return flat.length > max ? `${flat.slice(0, max)}…` : flat;
+};
+
+/**
+ * What the model sees for a search: numbered sources it can cite as [1], [2].
+ */
+export function formatSearchCitations(response: SearchResponse): string {
+    const { query, answer, results, images = [] } = response;
+    if (results.length === 0) {
+        return `[SYSTEM] Web search for "${query}" returned no results. Try a broader query.`;
+    }
+
+    const lines = [
+        `[SYSTEM] Web search for "${query}" — ${results.length} source${results.length === 1 ? '' : 's'}. When you use a source in your answer, cite it inline by number, e.g. [1] or [2][3].`,
+    ];
+    if (answer) lines.push('', `Summary: ${clip(answer, 1000)}`);
+    lines.push('');
+    results.forEach((r, i) => {
+        lines.push(`[${i + 1}] ${r.title || r.url} — ${r.url}`);
+        if (r.content) lines.push(`    ${clip(r.content, MAX_SNIPPET_CHARS)}`);
+    });
+    if (images.length > 0) {
+        lines.push('', 'Images:');
+        images.slice(0, MAX_IMAGES).forEach(img => lines.push(`- ${img.description ? `${clip(img.description, 120)} — ` : ''}${img.url}`));
+    }
+    return lines.join('\n');
+}
+
+// Tool message content as sent to the model — search results become the citation list
+export function searchToolContentForModel(content: string): string {
+    const response = parseSearchResponse(content);
+    return response ? formatSearchCitations(response) : content;
+}
+
+/**
+ * Turn the model's [n] citations into links to the matching sources. Code spans and blocks
+ * are left alone — "[1]" there is an index, not a citation.
+ */
+export function linkCitations(text: string, results: SearchResult[]): string {
+    if (results.length === 0) return text;
+    return text
+        .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+        .map((part, i) => i % 2 === 1 ? part : part.replace(/(?<![\w$])\[(\d{1,2})\](?![(:])/g, (match, n) => {
+            const source = results[Number(n) - 1];
+            return source ? `[[${n}]](<${source.url}> "${source.title.replace(/"/g, "'")}")` : match;
+        }))
+        .join('');
+}
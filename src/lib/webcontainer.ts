@@ -1,6 +1,10 @@
 import { WebContainer, FileSystemTree, DirectoryNode } from '@webcontainer/api';
 
 import { useStore } from '../store';
+import { FileMap, entryContents } from './files';
+import { NETWORK_SCRIPT, NETWORK_SCRIPT_FILE } from './networkInspector';
+import { RUNTIME_ERROR_SCRIPT, RUNTIME_ERROR_SCRIPT_FILE } from './runtimeErrors';
+import { CONSOLE_SCRIPT, CONSOLE_SCRIPT_FILE } from './previewConsole';
 
 declare global {
     interface Window {
@@ -35,7 +39,7 @@ export async function getWebContainer() {
     return window._bootPromise;
 }
 
-export async function mountFiles(files: Record<string, { file: { contents: string } }>) {
+export async function mountFiles(files: FileMap) {
     const instance = await getWebContainer();
 
     const tree: FileSystemTree = {};
@@ -60,7 +64,8 @@ export async function mountFiles(files: Record<string, { file: { contents: strin
         }
 
         const fileName = parts[parts.length - 1];
-        current[fileName] = { file: { contents: file.file.contents } };
+        // Binary assets are mounted as raw bytes
+        current[fileName] = { file: { contents: entryContents(file) } };
     }
 
     console.log('Mounting file tree:', tree);
@@ -133,18 +138,36 @@ export async function mountFiles(files: Record<string, { file: { contents: strin
   document.addEventListener('click',onClick,true);
 })();`;
             await instance.fs.writeFile('glovix-picker.js', pickerJs);
-
-            // Add a small script tag to index.html if not already present
-            if (!html.includes('glovix-picker')) {
+            await instance.fs.writeFile(NETWORK_SCRIPT_FILE, NETWORK_SCRIPT);
+            await instance.fs.writeFile(RUNTIME_ERROR_SCRIPT_FILE, RUNTIME_ERROR_SCRIPT);
+            await instance.fs.writeFile(CONSOLE_SCRIPT_FILE, CONSOLE_SCRIPT);
+
+            // Add small script tags to index.html if not already present
+            let injected = html;
+            injected = injectHeadScript(injected, NETWORK_SCRIPT_FILE, 'data-glovix-network');
+            injected = injectHeadScript(injected, RUNTIME_ERROR_SCRIPT_FILE, 'data-glovix-errors');
+            injected = injectHeadScript(injected, CONSOLE_SCRIPT_FILE, 'data-glovix-console');
+            if (!injected.includes('glovix-picker')) {
                 const scriptTag = `<script src="/glovix-picker.js" data-glovix-picker></script>`;
-                const injected = html.replace('</body>', scriptTag + '\n</body>');
+                injected = injected.replace('</body>', scriptTag + '\n</body>');
+            }
+            if (injected !== html) {
                 await instance.fs.writeFile(indexPath, injected);
             }
         }
     } catch { /* index.html may not exist yet */ }
 }
 
-export async function writeFile(path: string, content: string) {
+// First thing in <head>, so the script sees the app's earliest requests, errors and logs too
+function injectHeadScript(html: string, file: string, marker: string): string {
+    if (html.includes(file)) return html;
+    const scriptTag = `<script src="/${file}" ${marker}></script>`;
+    return /<head[^>]*>/i.test(html)
+        ? html.replace(/<head[^>]*>/i, match => `${match}\n    ${scriptTag}`)
+        : `${scriptTag}\n${html}`;
+}
+
+export async function writeFile(path: string, content: string | Uint8Array) {
     const instance = await getWebContainer();
 
     // Ensure parent directory exists
@@ -181,8 +204,8 @@ export async function readFile(path: string): Promise<string> {
 
 export async function renameFile(oldPath: string, newPath: string) {
     const instance = await getWebContainer();
-    const content = await instance.fs.readFile(oldPath);
-    await writeFile(newPath, typeof content === 'string' ? content : new TextDecoder().decode(content));
+    // Copied as bytes so binary assets survive the move
+    await writeFile(newPath, await instance.fs.readFile(oldPath));
     await instance.fs.rm(oldPath);
 }
 
@@ -390,6 +413,7 @@ export async function smartInstall(
         if (cachedHash === currentHash && hasNodeModules) {
             console.log('[SmartInstall] Dependencies unchanged & node_modules exists — skipping');
             log(`\x1b[32m⚡ Dependencies cached — skipping install\x1b[0m\n`);
+            useStore.getState().setDependenciesInstalledAt(Date.now());
             return true;
         }
 
@@ -413,6 +437,7 @@ export async function smartInstall(
         if (exitCode === 0) {
             // Cache deps hash
             localStorage.setItem(INSTALL_CACHE_KEY, currentHash);
+            useStore.getState().setDependenciesInstalledAt(Date.now());
 
             // Cache the generated lockfile for next time
             try {
@@ -496,7 +521,7 @@ function scanImports(contents: string): Set<string> {
  * @returns List of newly installed packages (empty if none needed)
  */
 export async function autoInstallDependencies(
-    files: Record<string, { file: { contents: string } }>,
+    files: FileMap,
     onOutput?: (data: string) => void
 ): Promise<string[]> {
     const log = onOutput || (() => {});
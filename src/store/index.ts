@@ -1,5 +1,14 @@
 import { create } from 'zustand';
-import { Message, ModelType } from '../lib/ai';
+import { Message } from '../lib/ai';
+import { ModelInfo, loadRegistry, saveRegistry, findModel } from '../lib/models';
+import { ToolPermissions, loadToolPermissions, saveToolPermissions } from '../lib/permissions';
+import { PendingPatch } from '../lib/review';
+import { FileMap, sameEntry } from '../lib/files';
+import { ProjectTemplate, DEFAULT_TEMPLATE_ID } from '../lib/projectTemplate';
+import { PromptPreset, DEFAULT_PRESET_ID, loadPromptPresets, savePromptPresets } from '../lib/promptPresets';
+import { NetworkRequest, NetworkEvent, applyNetworkEvent } from '../lib/networkInspector';
+import { ConsoleEntry, ConsoleEvent, appendConsoleEntry } from '../lib/previewConsole';
+import { EditorTab, SplitView, addTab, removeTab, toggleTabPin, tabAfterClose, pruneTabs, setPaneFile } from '../lib/editorTabs';
 import { User } from '../lib/auth';
 import { UserTokens, ChatHistory } from '../lib/api';
 
@@ -105,13 +114,9 @@ function parseTerminalErrors(output: string): ParsedError[] {
     return errors;
 }
 
-interface FileSystem {
-    [key: string]: {
-        file: {
-            contents: string;
-        };
-    };
-}
+type FileSystem = FileMap;
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'failed';
 
 interface AppState {
     // Auth
@@ -122,10 +127,26 @@ interface AppState {
     currentChatId: string | null;
     messages: Message[];
     tokenCount: number; // Token count for current chat
+    // The agent is answering — streaming or running tools. Checkpoint restores wait for it.
+    isResponding: boolean;
 
     // Files
     files: FileSystem;
     selectedFile: string | null;
+    // Chat the files and dirtyFiles belong to. Lags behind currentChatId while a chat switch is still
+    // loading the new chat's project, so saves in that gap still go to the chat the files came from.
+    filesChatId: string | null;
+    // Paths changed (or deleted) since the last save
+    dirtyFiles: Set<string>;
+    saveStatus: SaveStatus;
+
+    // Editor tabs (see editorTabs.ts) — selectedFile is the file in the active tab / pane
+    openTabs: EditorTab[];
+    splitView: SplitView | null;
+    // When off, files the agent writes open in a background tab that flashes instead of taking focus
+    followAgentEdits: boolean;
+    // Background tabs the agent changed, by path → time of the change; cleared when the tab is viewed
+    flashedTabs: Record<string, number>;
 
     // Terminal & Preview
     terminalOutput: string[];
@@ -134,8 +155,13 @@ interface AppState {
     // Parsed errors
     parsedErrors: ParsedError[];
 
+    // fetch/XHR requests made by the preview (see networkInspector.ts)
+    networkRequests: NetworkRequest[];
+
+    // console output of the preview (see previewConsole.ts)
+    consoleEntries: ConsoleEntry[];
+
     // Settings
-    selectedModel: ModelType;
     isDeploying: boolean;
     theme: 'dark' | 'light';
     showTokenCounter: boolean;
@@ -150,10 +176,26 @@ interface AppState {
     addMessage: (message: Message) => void;
     updateLastMessage: (content: string, toolCalls?: any[], thinking?: string, thinkingDuration?: number) => void;
     setTokenCount: (count: number) => void;
+    setIsResponding: (responding: boolean) => void;
 
     // File actions
     setFiles: (files: FileSystem) => void;
+    // Replace files with what is already persisted (chat load / reset) — nothing becomes dirty
+    loadFiles: (files: FileSystem) => void;
     setSelectedFile: (file: string | null) => void;
+    markFileDirty: (path: string) => void;
+    clearDirtyFiles: (paths: string[]) => void;
+    setSaveStatus: (status: SaveStatus) => void;
+
+    // Editor tab actions
+    closeTab: (path: string) => void;
+    togglePinTab: (path: string) => void;
+    openSplitView: () => void;
+    closeSplitView: () => void;
+    focusPane: (pane: 0 | 1) => void;
+    setFollowAgentEdits: (follow: boolean) => void;
+    // Called for files the agent writes — selects them or flashes their tab, per followAgentEdits
+    showAgentEdit: (path: string) => void;
 
     // Terminal actions
     addTerminalOutput: (output: string) => void;
@@ -167,10 +209,17 @@ interface AppState {
     replaceAllErrors: (errors: ParsedError[]) => void;
     parseOutputForErrors: (output: string) => void;
 
+    // Network actions
+    addNetworkEvent: (event: NetworkEvent) => void;
+    clearNetworkRequests: () => void;
+
+    // Console actions
+    addConsoleEvent: (event: ConsoleEvent) => void;
+    clearConsoleEntries: () => void;
+
     // Other actions
     setPreviewUrl: (url: string | null) => void;
     setIsDeploying: (isDeploying: boolean) => void;
-    setSelectedModel: (model: ModelType) => void;
     setTheme: (theme: 'dark' | 'light') => void;
     setShowTokenCounter: (show: boolean) => void;
     // Chats
@@ -179,6 +228,11 @@ interface AppState {
     // System Prompt
     systemPrompt: string | null;
     setSystemPrompt: (prompt: string) => void;
+    // Named system prompt variants; each chat picks one (ChatHistory.prompt_preset_id)
+    promptPresets: PromptPreset[];
+    setPromptPresets: (presets: PromptPreset[]) => void;
+    defaultPromptPreset: string;
+    setDefaultPromptPreset: (id: string) => void;
 
     // AI Provider Settings
     aiProvider: string;
@@ -191,10 +245,45 @@ interface AppState {
     setAiBaseUrl: (url: string) => void;
     setAiModel: (model: string) => void;
 
+    // Web search provider settings (see searchProviders.ts)
+    searchProvider: string;
+    searchApiKey: string;
+    searchBaseUrl: string;
+    setSearchProvider: (provider: string) => void;
+    setSearchApiKey: (key: string) => void;
+    setSearchBaseUrl: (url: string) => void;
+
     // Model context limit (in tokens)
     modelContextLimit: number;
     setModelContextLimit: (limit: number) => void;
 
+    // Model registry (built-in + discovered local models)
+    models: Record<string, ModelInfo>;
+    registerModels: (models: ModelInfo[]) => void;
+
+    // Tool permission modes and rules
+    toolPermissions: ToolPermissions;
+    setToolPermissions: (permissions: ToolPermissions) => void;
+
+    // Review mode — agent file edits wait for the user's accept / reject
+    reviewMode: boolean;
+    setReviewMode: (enabled: boolean) => void;
+    pendingPatches: PendingPatch[];
+    setPendingPatches: (patches: PendingPatch[]) => void;
+    // Bumped by "Open review" in the chat — the Workbench brings the review panel forward
+    reviewFocusRequest: number;
+    requestReviewFocus: () => void;
+
+    // Template new chats start from (picked on the home page)
+    projectTemplate: string;
+    setProjectTemplate: (id: string) => void;
+    customTemplates: ProjectTemplate[];
+    setCustomTemplates: (templates: ProjectTemplate[]) => void;
+
+    // Set when an install finished (or was skipped as up to date) — the editor reloads type declarations
+    dependenciesInstalledAt: number;
+    setDependenciesInstalledAt: (time: number) => void;
+
     // Element picker
     elementPickerActive: boolean;
     selectedElement: { tag: string; text: string; selector: string } | null;
@@ -202,19 +291,28 @@ interface AppState {
     setSelectedElement: (el: { tag: string; text: string; selector: string } | null) => void;
 }
 
-export const useStore = create<AppState>((set) => ({
+export const useStore = create<AppState>((set, get) => ({
     // Initial state
     user: null,
     userTokens: null,
     currentChatId: null,
     messages: [],
     tokenCount: 0,
+    isResponding: false,
     files: {},
     selectedFile: null,
+    filesChatId: null,
+    dirtyFiles: new Set(),
+    saveStatus: 'idle',
+    openTabs: [],
+    splitView: null,
+    followAgentEdits: localStorage.getItem('followAgentEdits') !== 'false',
+    flashedTabs: {},
     terminalOutput: [],
     previewUrl: null,
     parsedErrors: [],
-    selectedModel: 'mimo-v2-flash',
+    networkRequests: [],
+    consoleEntries: [],
     isDeploying: false,
     theme: (localStorage.getItem('theme') as 'dark' | 'light') || 'dark',
     showTokenCounter: localStorage.getItem('showTokenCounter') === 'true',
@@ -224,7 +322,13 @@ export const useStore = create<AppState>((set) => ({
     setUserTokens: (userTokens) => set({ userTokens }),
 
     // Chat actions
-    setCurrentChatId: (currentChatId) => set({ currentChatId }),
+    // Unsaved changes belong to the chat they were made in
+    // Files loaded without a chat (a new chat from the home page) become the new chat's
+    setCurrentChatId: (currentChatId) => set((state) => (
+        state.currentChatId === currentChatId
+            ? { currentChatId }
+            : { currentChatId, saveStatus: 'idle', filesChatId: state.filesChatId ?? currentChatId }
+    )),
     setMessages: (messages) => set({ messages }),
     addMessage: (message) => set((state) => ({ messages: [...state.messages, message] })),
     updateLastMessage: (content, toolCalls, thinking, thinkingDuration) => set((state) => {
@@ -240,10 +344,91 @@ export const useStore = create<AppState>((set) => ({
         return { messages: [...messages] };
     }),
     setTokenCount: (tokenCount) => set({ tokenCount }),
+    setIsResponding: (isResponding) => set({ isResponding }),
 
     // File actions
-    setFiles: (files) => set({ files }),
-    setSelectedFile: (selectedFile) => set({ selectedFile }),
+    setFiles: (files) => set((state) => {
+        // Anything added, removed or rewritten since the previous map needs saving
+        const dirtyFiles = new Set(state.dirtyFiles);
+        for (const path in files) {
+            if (!sameEntry(state.files[path], files[path])) dirtyFiles.add(path);
+        }
+        for (const path in state.files) {
+            if (!(path in files)) dirtyFiles.add(path);
+        }
+        const openTabs = pruneTabs(state.openTabs, files);
+        return dirtyFiles.size === state.dirtyFiles.size ? { files, openTabs } : { files, openTabs, dirtyFiles };
+    }),
+    loadFiles: (files) => set((state) => ({ files, filesChatId: state.currentChatId, dirtyFiles: new Set(), openTabs: pruneTabs(state.openTabs, files) })),
+    setSelectedFile: (selectedFile) => set((state) => {
+        let flashedTabs = state.flashedTabs;
+        if (selectedFile && selectedFile in flashedTabs) {
+            flashedTabs = { ...flashedTabs };
+            delete flashedTabs[selectedFile];
+        }
+        return {
+            selectedFile,
+            openTabs: selectedFile ? addTab(state.openTabs, selectedFile) : state.openTabs,
+            splitView: state.splitView && setPaneFile(state.splitView, state.splitView.active, selectedFile),
+            flashedTabs,
+        };
+    }),
+    markFileDirty: (path) => set((state) => (
+        state.dirtyFiles.has(path) ? {} : { dirtyFiles: new Set(state.dirtyFiles).add(path) }
+    )),
+    clearDirtyFiles: (paths) => set((state) => {
+        const dirtyFiles = new Set(state.dirtyFiles);
+        paths.forEach(p => dirtyFiles.delete(p));
+        return { dirtyFiles };
+    }),
+    setSaveStatus: (saveStatus) => set({ saveStatus }),
+
+    // Editor tab actions
+    closeTab: (path) => set((state) => {
+        const flashedTabs = { ...state.flashedTabs };
+        delete flashedTabs[path];
+        const next = tabAfterClose(state.openTabs, path);
+        let splitView = state.splitView;
+        if (splitView) {
+            // The active pane moves on to a neighbouring tab, the other pane is left empty
+            const { files, active } = splitView;
+            const other = active === 0 ? 1 : 0;
+            if (files[active] === path) splitView = setPaneFile(splitView, active, next);
+            if (files[other] === path) splitView = setPaneFile(splitView, other, null);
+        }
+        return {
+            openTabs: removeTab(state.openTabs, path),
+            selectedFile: state.selectedFile === path ? next : state.selectedFile,
+            splitView,
+            flashedTabs,
+        };
+    }),
+    togglePinTab: (path) => set((state) => ({ openTabs: toggleTabPin(state.openTabs, path) })),
+    // The right pane starts on the current file, like "split editor" in desktop editors
+    openSplitView: () => set((state) => ({ splitView: { files: [state.selectedFile, state.selectedFile], active: 1 } })),
+    closeSplitView: () => set({ splitView: null }),
+    focusPane: (pane) => set((state) => (
+        !state.splitView || state.splitView.active === pane
+            ? {}
+            : { splitView: { ...state.splitView, active: pane }, selectedFile: state.splitView.files[pane] }
+    )),
+    setFollowAgentEdits: (followAgentEdits) => {
+        localStorage.setItem('followAgentEdits', String(followAgentEdits));
+        set({ followAgentEdits });
+    },
+    showAgentEdit: (path) => {
+        const state = get();
+        if (state.followAgentEdits || !state.selectedFile) {
+            state.setSelectedFile(path);
+            return;
+        }
+        // Already on screen — nothing to point at
+        if (path === state.selectedFile || state.splitView?.files.includes(path)) return;
+        set({
+            openTabs: addTab(state.openTabs, path),
+            flashedTabs: { ...state.flashedTabs, [path]: Date.now() },
+        });
+    },
 
     // Terminal actions — optimized: mutate array in-place, only create new parsedErrors when needed
     addTerminalOutput: (output) => set((state) => {
@@ -344,10 +529,22 @@ export const useStore = create<AppState>((set) => ({
         return { parsedErrors: [...state.parsedErrors, ...newErrors] };
     }),
 
+    // Network actions
+    addNetworkEvent: (event) => set((state) => {
+        const networkRequests = applyNetworkEvent(state.networkRequests, event);
+        return networkRequests === state.networkRequests ? state : { networkRequests };
+    }),
+    clearNetworkRequests: () => set({ networkRequests: [] }),
+
+    // Console actions
+    addConsoleEvent: (event) => set((state) => ({
+        consoleEntries: event.action === 'clear' ? [] : appendConsoleEntry(state.consoleEntries, event),
+    })),
+    clearConsoleEntries: () => set({ consoleEntries: [] }),
+
     // Other actions
     setPreviewUrl: (url) => set({ previewUrl: url }),
     setIsDeploying: (isDeploying) => set({ isDeploying }),
-    setSelectedModel: (selectedModel) => set({ selectedModel }),
     setTheme: (theme) => {
         localStorage.setItem('theme', theme);
         set({ theme });
@@ -363,6 +560,16 @@ export const useStore = create<AppState>((set) => ({
     // System Prompt
     systemPrompt: null,
     setSystemPrompt: (systemPrompt) => set({ systemPrompt }),
+    promptPresets: loadPromptPresets(),
+    setPromptPresets: (promptPresets) => {
+        savePromptPresets(promptPresets);
+        set({ promptPresets });
+    },
+    defaultPromptPreset: localStorage.getItem('defaultPromptPreset') || DEFAULT_PRESET_ID,
+    setDefaultPromptPreset: (defaultPromptPreset) => {
+        localStorage.setItem('defaultPromptPreset', defaultPromptPreset);
+        set({ defaultPromptPreset });
+    },
 
     // AI Provider Settings
     aiProvider: localStorage.getItem('aiProvider') || 'glovix',
@@ -386,6 +593,26 @@ export const useStore = create<AppState>((set) => ({
     setAiModel: (model) => {
         localStorage.setItem('aiModel', model);
         set({ aiModel: model });
+        // Known models bring their context limit along
+        const info = findModel(get().models, model);
+        if (info) get().setModelContextLimit(info.contextLimit);
+    },
+
+    // Web Search
+    searchProvider: localStorage.getItem('searchProvider') || 'tavily',
+    searchApiKey: localStorage.getItem('searchApiKey') || '',
+    searchBaseUrl: localStorage.getItem('searchBaseUrl') || '',
+    setSearchProvider: (searchProvider) => {
+        localStorage.setItem('searchProvider', searchProvider);
+        set({ searchProvider });
+    },
+    setSearchApiKey: (searchApiKey) => {
+        localStorage.setItem('searchApiKey', searchApiKey);
+        set({ searchApiKey });
+    },
+    setSearchBaseUrl: (searchBaseUrl) => {
+        localStorage.setItem('searchBaseUrl', searchBaseUrl);
+        set({ searchBaseUrl });
     },
 
     // Model Context Limit
@@ -395,6 +622,49 @@ export const useStore = create<AppState>((set) => ({
         set({ modelContextLimit });
     },
 
+    // Model Registry
+    models: loadRegistry(),
+    registerModels: (infos) => {
+        const models = { ...get().models };
+        for (const info of infos) models[info.id] = info;
+        saveRegistry(models);
+        set({ models });
+
+        const current = infos.find(m => m.id === get().aiModel);
+        if (current) get().setModelContextLimit(current.contextLimit);
+    },
+
+    // Tool Permissions
+    toolPermissions: loadToolPermissions(),
+    setToolPermissions: (toolPermissions) => {
+        saveToolPermissions(toolPermissions);
+        set({ toolPermissions });
+    },
+
+    // Review Mode
+    reviewMode: localStorage.getItem('reviewMode') === 'true',
+    setReviewMode: (reviewMode) => {
+        localStorage.setItem('reviewMode', String(reviewMode));
+        set({ reviewMode });
+    },
+    pendingPatches: [],
+    setPendingPatches: (pendingPatches) => set({ pendingPatches }),
+    reviewFocusRequest: 0,
+    requestReviewFocus: () => set((state) => ({ reviewFocusRequest: state.reviewFocusRequest + 1 })),
+
+    // Project Template
+    projectTemplate: localStorage.getItem('projectTemplate') || DEFAULT_TEMPLATE_ID,
+    setProjectTemplate: (projectTemplate) => {
+        localStorage.setItem('projectTemplate', projectTemplate);
+        set({ projectTemplate });
+    },
+    customTemplates: [],
+    setCustomTemplates: (customTemplates) => set({ customTemplates }),
+
+    // Dependencies
+    dependenciesInstalledAt: 0,
+    setDependenciesInstalledAt: (dependenciesInstalledAt) => set({ dependenciesInstalledAt }),
+
     // Element Picker
     elementPickerActive: false,
     selectedElement: null,
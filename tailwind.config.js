@@ -9,6 +9,15 @@ export default {
             backgroundImage: {
                 'gradient-radial': 'radial-gradient(var(--tw-gradient-stops))',
             },
+            keyframes: {
+                'tab-flash': {
+                    '0%, 100%': { backgroundColor: 'transparent' },
+                    '50%': { backgroundColor: 'rgba(59, 130, 246, 0.35)' },
+                },
+            },
+            animation: {
+                'tab-flash': 'tab-flash 0.6s ease-in-out 3',
+            },
         },
     },
     plugins: [